@@ -2,7 +2,8 @@ import { createTool } from '@mastra/core/tools';
 import { z } from 'zod';
 import { WorkbookClient } from '../../services/index.js';
 import { ResourceTypes, ResourceTypeNames } from '../../constants/resourceTypes.js';
-import { ensureFreshData } from '../../utils/freshnessDetection.js';
+import { ensureFreshData, formatFreshness } from '../../utils/freshnessDetection.js';
+import { describeError } from '../../utils/errorGuidance.js';
 
 /**
  * Create advanced multi-criteria filtering tool for Workbook CRM resources
@@ -97,14 +98,14 @@ export function createAdvancedFilterTool(workbookClient: WorkbookClient) {
         ensureFreshData(`advanced filter ${resourceType || 'all'}`, 'advancedFilterTool');
       
         // Get complete dataset
-        const allResourcesResponse = await workbookClient.resources.getAllResourcesComplete();
+        const allResourcesResponse = await workbookClient.mirror.getAllResources();
       
         if (!allResourcesResponse.success || !allResourcesResponse.data) {
           return {
             resources: [],
             totalFound: 0,
             filtersApplied: [],
-            message: `Error fetching resources: ${allResourcesResponse.error}`
+            message: `Error fetching resources: ${describeError(allResourcesResponse)}`
           };
         }
       
@@ -180,7 +181,7 @@ export function createAdvancedFilterTool(workbookClient: WorkbookClient) {
           // Get contact counts for each company
           resourcesWithContactCounts = await Promise.all(
             companies.map(async company => {
-              const contactsResponse = await workbookClient.resources.getContactsForResource(company.Id);
+              const contactsResponse = await workbookClient.mirror.getContactsForResource(company.Id);
               const contactCount = contactsResponse.success ? (contactsResponse.data?.length || 0) : 0;
             
               return {
@@ -227,7 +228,7 @@ export function createAdvancedFilterTool(workbookClient: WorkbookClient) {
             } else if (resource.TypeId === ResourceTypes.CLIENT || 
                       resource.TypeId === ResourceTypes.PROSPECT ||
                       resource.TypeId === ResourceTypes.SUPPLIER) {
-              const contactsResponse = await workbookClient.resources.getContactsForResource(resource.Id);
+              const contactsResponse = await workbookClient.mirror.getContactsForResource(resource.Id);
               contactCount = contactsResponse.success ? (contactsResponse.data?.length || 0) : 0;
             }
           
@@ -244,7 +245,7 @@ export function createAdvancedFilterTool(workbookClient: WorkbookClient) {
           })
         );
       
-        const cacheStatus = allResourcesResponse.cached ? ' (cached)' : '';
+        const cacheStatus = formatFreshness(allResourcesResponse);
         const filterSummary = appliedFilters.length > 0 ? ` [Filters: ${appliedFilters.join(', ')}]` : '';
       
         return {
@@ -0,0 +1,154 @@
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { auditLog } from '../../services/audit/auditLog.js';
+import { AuditEntry, DEFAULT_AUDIT_QUERY_LIMIT } from '../../services/audit/auditStore.js';
+import { getCurrentTenantId } from '../../services/tenants/tenantContext.js';
+
+/**
+ * Create audit tool for finding out who changed what in Workbook through the agent
+ * Reads the audit log of the current tenant; needs no WorkbookClient
+ */
+export function createAuditTool() {
+  return createTool({
+    id: 'audit-log',
+    description: `AUDIT LOG TOOL - Use this tool to answer who changed what in Workbook through this agent, and when.
+
+  PRIMARY USE CASES:
+  - "Who deactivated these prospects last month?" (action resource.deactivate with from/to)
+  - Everything a given user changed (user: email or name)
+  - The change history of one resource, job, task or time entry (entityType + entityId)
+  - Failed and denied write attempts (outcome failure or denied)
+
+  Every entry has the Teams user, conversation, tool, target IDs, before/after field values and the outcome.
+  Actions: resource.update, resource.activate, resource.deactivate, job.create, job.update, job.patch,
+  job.team.add, job.team.update, job.team.remove, task.create, task.patch, task.move, time_entry.create,
+  time_entry.update, time_entry.delete, time_entry.approve, time_entry.reject, follow_up.raise
+
+  DO NOT USE for:
+  - Workbook's own change history of records edited outside this agent`,
+
+    inputSchema: z.object({
+      user: z.string()
+        .optional()
+        .describe('Email, Azure AD object ID or part of the name of the user who made the changes'),
+      employeeId: z.number()
+        .optional()
+        .describe('Workbook employee resource ID of the user who made the changes'),
+      entityType: z.enum(['resource', 'job', 'task', 'time_entry', 'follow_up'])
+        .optional()
+        .describe('Kind of record changed'),
+      entityId: z.number()
+        .optional()
+        .describe('ID of the changed record'),
+      action: z.string()
+        .optional()
+        .describe('Exact action, e.g. resource.deactivate'),
+      tool: z.string()
+        .optional()
+        .describe('Agent tool that made the change, e.g. bulk-operations'),
+      outcome: z.enum(['success', 'failure', 'denied'])
+        .optional()
+        .describe('Outcome of the write'),
+      from: z.string()
+        .optional()
+        .describe('Start of the period (ISO date or timestamp, inclusive)'),
+      to: z.string()
+        .optional()
+        .describe('End of the period (ISO date covers the whole day)'),
+      limit: z.number()
+        .min(1)
+        .max(1000)
+        .default(DEFAULT_AUDIT_QUERY_LIMIT)
+        .describe('Maximum number of entries, newest first')
+    }),
+
+    outputSchema: z.object({
+      success: z.boolean(),
+      message: z.string(),
+      entries: z.array(z.object({
+        occurredAt: z.string(),
+        user: z.string(),
+        employeeId: z.number().optional(),
+        conversationId: z.string().optional(),
+        tool: z.string().optional(),
+        action: z.string(),
+        entityType: z.string(),
+        entityIds: z.array(z.number()),
+        changes: z.record(z.object({ before: z.unknown(), after: z.unknown() })),
+        outcome: z.string(),
+        error: z.string().optional()
+      })).optional(),
+      summary: z.object({
+        totalEntries: z.number(),
+        byUser: z.record(z.number()),
+        byAction: z.record(z.number())
+      }).optional()
+    }),
+
+    execute: async ({ context }) => {
+      try {
+        if (!auditLog.hasStore()) {
+          return {
+            success: false,
+            message: '⚠️ The audit log storage is not available in this environment'
+          };
+        }
+
+        const entries = await auditLog.query({ ...context, tenantId: getCurrentTenantId() });
+        const byUser = countBy(entries, describeActor);
+        const byAction = countBy(entries, entry => entry.action);
+
+        const busiest = Object.entries(byUser).sort((a, b) => b[1] - a[1]).slice(0, 3)
+          .map(([user, count]) => `${user} (${count})`).join(', ');
+
+        return {
+          success: true,
+          message: entries.length === 0
+            ? 'No audited changes match these criteria'
+            : `✅ Found ${entries.length} audited changes${entries.length === context.limit ? ' (limit reached, narrow the period for more)' : ''}. Most by: ${busiest}`,
+          entries: entries.map(entry => ({
+            occurredAt: entry.occurredAt,
+            user: describeActor(entry),
+            employeeId: entry.actor.employeeId,
+            conversationId: entry.conversationId,
+            tool: entry.tool,
+            action: entry.action,
+            entityType: entry.entityType,
+            entityIds: entry.entityIds,
+            changes: entry.changes,
+            outcome: entry.outcome,
+            error: entry.error
+          })),
+          summary: {
+            totalEntries: entries.length,
+            byUser,
+            byAction
+          }
+        };
+      } catch (error) {
+        console.error('❌ Error in auditTool:', error);
+        return {
+          success: false,
+          message: `❌ Error reading the audit log: ${error instanceof Error ? error.message : 'Unknown error'}`
+        };
+      }
+    }
+  });
+}
+
+function describeActor(entry: AuditEntry): string {
+  const { name, email } = entry.actor;
+  if (name && email) {
+    return `${name} <${email}>`;
+  }
+  return name || email || 'Unknown user';
+}
+
+// eslint-disable-next-line no-unused-vars
+function countBy(entries: AuditEntry[], key: (entry: AuditEntry) => string): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const entry of entries) {
+    counts[key(entry)] = (counts[key(entry)] || 0) + 1;
+  }
+  return counts;
+}
\ No newline at end of file
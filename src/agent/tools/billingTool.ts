@@ -0,0 +1,521 @@
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { WorkbookClient, CacheTags } from '../../services/index.js';
+import { MappedBillingInvoice, AgingBuckets } from '../../types/workbook.types.js';
+import { ensureFreshData } from '../../utils/freshnessDetection.js';
+import { describeError } from '../../utils/errorGuidance.js';
+
+const invoiceSchema = z.object({
+  id: z.number(),
+  invoiceNumber: z.string(),
+  customerName: z.string(),
+  jobId: z.number().optional(),
+  dueDate: z.string(),
+  totalAmount: z.number(),
+  balanceDue: z.number(),
+  currencyCode: z.string(),
+  statusText: z.string(),
+  daysOverdue: z.number()
+});
+
+const agingSchema = z.object({
+  current: z.number(),
+  days1to30: z.number(),
+  days31to60: z.number(),
+  days61to90: z.number(),
+  over90: z.number()
+});
+
+const wipGroupSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  jobCount: z.number(),
+  unbilledAmount: z.number(),
+  aging: agingSchema
+});
+
+/**
+ * Create billing tool for invoices, receivables and billing status
+ * Factory function that accepts initialized WorkbookClient
+ */
+export function createBillingTool(workbookClient: WorkbookClient) {
+  return createTool({
+    id: 'billing',
+    description: `BILLING TOOL - Use this tool for invoices, receivables and billing status.
+
+    PRIMARY USE CASES:
+    - Which clients owe us money over 30 days (receivables with aging)
+    - List overdue or partially paid invoices
+    - Show all invoices for a customer
+    - Find jobs that can be billed on a consolidated invoice
+    - Billing status of a job (invoiced vs. pending)
+    - Work-in-progress (WIP) report of unbilled work by customer and project manager
+    - Retainer burn-down: burn rate, projected exhaustion date and overruns ("which retainers run out this month")
+
+    DO NOT USE for:
+    - Job profitability, costs or budgets (use jobFinancialsTool instead)
+    - Creating or updating jobs (use jobManagementTool instead)
+    - WIP as a CSV file (use enhancedExportTool with exportType 'wip' instead)`,
+
+    inputSchema: z.object({
+      operation: z.enum([
+        'receivables',
+        'overdue_invoices',
+        'partially_paid',
+        'customer_invoices',
+        'consolidation_candidates',
+        'job_billing_status',
+        'wip_report',
+        'retainer_burndown'
+      ]).describe('Billing operation to perform'),
+
+      customerId: z.number()
+        .optional()
+        .describe('Customer resource ID (required for customer_invoices if customerName is not given)'),
+      customerName: z.string()
+        .optional()
+        .describe('Customer name - resolved to a customer ID'),
+      jobId: z.number()
+        .optional()
+        .describe('Job ID (required for job_billing_status, optional filter for retainer_burndown)'),
+      responsibleId: z.number()
+        .optional()
+        .describe('Account manager resource ID (optional filter for retainer_burndown)'),
+      exhaustingThisMonth: z.boolean()
+        .default(false)
+        .describe('For retainer_burndown: only retainers that are overrun or projected to run out this month'),
+      minDaysOverdue: z.number()
+        .min(0)
+        .default(30)
+        .describe('Minimum days past due date (for receivables and overdue_invoices)'),
+      minUnbilledAmount: z.number()
+        .optional()
+        .describe('Minimum unbilled amount (for consolidation_candidates and wip_report)'),
+      startDate: z.string()
+        .optional()
+        .describe('Invoice date from (ISO format, for customer_invoices)'),
+      endDate: z.string()
+        .optional()
+        .describe('Invoice date to (ISO format, for customer_invoices)'),
+      limit: z.number()
+        .min(1)
+        .max(200)
+        .default(25)
+        .describe('Maximum number of rows to return')
+    }),
+
+    outputSchema: z.object({
+      success: z.boolean(),
+      operation: z.string(),
+      message: z.string(),
+      receivables: z.array(z.object({
+        customerId: z.number(),
+        customerName: z.string(),
+        currencyCode: z.string(),
+        totalOutstanding: z.number(),
+        overdueAmount: z.number(),
+        invoiceCount: z.number(),
+        oldestDaysOverdue: z.number(),
+        aging: agingSchema
+      })).optional(),
+      invoices: z.array(invoiceSchema).optional(),
+      candidates: z.array(z.object({
+        jobId: z.number(),
+        jobName: z.string(),
+        customerId: z.number(),
+        customerName: z.string(),
+        unbilledAmount: z.number(),
+        lastInvoiceDate: z.string().optional(),
+        projectManagerName: z.string().optional()
+      })).optional(),
+      billingStatus: z.object({
+        jobId: z.number(),
+        jobName: z.string(),
+        totalBillable: z.number(),
+        totalInvoiced: z.number(),
+        totalPending: z.number(),
+        lastInvoiceNumber: z.string().optional(),
+        lastInvoiceDate: z.string().optional(),
+        invoiceCount: z.number(),
+        status: z.string()
+      }).optional(),
+      wipReport: z.object({
+        currencyCode: z.string(),
+        jobCount: z.number(),
+        totalUnbilled: z.number(),
+        aging: agingSchema,
+        byCustomer: z.array(wipGroupSchema),
+        byProjectManager: z.array(wipGroupSchema),
+        jobs: z.array(z.object({
+          jobId: z.number(),
+          jobName: z.string(),
+          customerName: z.string(),
+          projectManagerName: z.string().optional(),
+          jobEndDate: z.string(),
+          unbilledAmount: z.number(),
+          daysSinceEnd: z.number()
+        }))
+      }).optional(),
+      retainers: z.array(z.object({
+        jobId: z.number(),
+        jobReferenceKey: z.string(),
+        clientName: z.string().optional(),
+        responsibleName: z.string().optional(),
+        endDate: z.string(),
+        hoursBudget: z.number(),
+        hoursUsed: z.number(),
+        hoursRemaining: z.number(),
+        percentUsed: z.number(),
+        burnRatePerWeek: z.number(),
+        projectedExhaustionDate: z.string().optional(),
+        overrun: z.number(),
+        invoicedRemaining: z.number(),
+        status: z.string()
+      })).optional(),
+      totalAmount: z.number().optional()
+    }),
+
+    execute: async ({ context }) => {
+      try {
+        const {
+          operation,
+          customerName,
+          jobId,
+          responsibleId,
+          exhaustingThisMonth,
+          minDaysOverdue,
+          minUnbilledAmount,
+          startDate,
+          endDate,
+          limit
+        } = context;
+        let { customerId } = context;
+
+        console.log(`💳 Billing Tool - Operation: ${operation}`, context);
+
+        // Use universal freshness detection (Phase 7A)
+        ensureFreshData(`billing ${operation}`, 'billingTool', [CacheTags.JOB, CacheTags.BILLING]);
+
+        // Resolve customer name to ID when only the name is given
+        if (!customerId && customerName) {
+          const companyResponse = await workbookClient.resources.findCompanyByName(customerName);
+          if (!companyResponse.success || !companyResponse.data) {
+            return {
+              success: false,
+              operation,
+              message: `❌ Could not find a customer matching "${customerName}"`
+            };
+          }
+          customerId = companyResponse.data.Id;
+        }
+
+        switch (operation) {
+        case 'receivables': {
+          const receivablesResponse = await workbookClient.billing.getReceivablesByCustomer(minDaysOverdue);
+          if (!receivablesResponse.success || !receivablesResponse.data) {
+            return {
+              success: false,
+              operation: 'receivables',
+              message: `❌ Failed to calculate receivables: ${describeError(receivablesResponse)}`
+            };
+          }
+
+          const receivables = customerId
+            ? receivablesResponse.data.filter(customer => customer.customerId === customerId)
+            : receivablesResponse.data;
+          const totalOverdue = receivables.reduce((sum, customer) => sum + customer.overdueAmount, 0);
+
+          return {
+            success: true,
+            operation: 'receivables',
+            message: receivables.length === 0
+              ? `✅ No clients have invoices more than ${minDaysOverdue} days overdue`
+              : `✅ ${receivables.length} clients owe money more than ${minDaysOverdue} days past due (total overdue ${formatAmount(totalOverdue)})`,
+            receivables: receivables.slice(0, limit).map(customer => ({
+              ...customer,
+              totalOutstanding: roundAmount(customer.totalOutstanding),
+              overdueAmount: roundAmount(customer.overdueAmount),
+              aging: roundAging(customer.aging)
+            })),
+            totalAmount: roundAmount(totalOverdue)
+          };
+        }
+
+        case 'overdue_invoices':
+        case 'partially_paid': {
+          const invoicesResponse = operation === 'overdue_invoices'
+            ? await workbookClient.billing.getOverdueInvoices(Math.max(minDaysOverdue, 1), customerId)
+            : await workbookClient.billing.getPartiallyPaidInvoices(customerId);
+
+          if (!invoicesResponse.success || !invoicesResponse.data) {
+            return {
+              success: false,
+              operation,
+              message: `❌ Failed to retrieve invoices: ${describeError(invoicesResponse)}`
+            };
+          }
+
+          const invoices = invoicesResponse.data;
+          const totalDue = invoices.reduce((sum, invoice) => sum + invoice.balanceDue, 0);
+
+          return {
+            success: true,
+            operation,
+            message: operation === 'overdue_invoices'
+              ? `✅ Found ${invoices.length} invoices overdue by ${Math.max(minDaysOverdue, 1)}+ days (balance ${formatAmount(totalDue)})`
+              : `✅ Found ${invoices.length} partially paid invoices (remaining balance ${formatAmount(totalDue)})`,
+            invoices: invoices.slice(0, limit).map(formatInvoice),
+            totalAmount: roundAmount(totalDue)
+          };
+        }
+
+        case 'customer_invoices': {
+          if (!customerId) {
+            return {
+              success: false,
+              operation: 'customer_invoices',
+              message: 'Customer ID or customer name is required for listing customer invoices'
+            };
+          }
+
+          const invoicesResponse = await workbookClient.billing.getCustomerInvoices(customerId, {
+            StartDate: startDate,
+            EndDate: endDate
+          });
+
+          if (!invoicesResponse.success || !invoicesResponse.data) {
+            return {
+              success: false,
+              operation: 'customer_invoices',
+              message: `❌ Failed to retrieve invoices for customer ${customerId}: ${describeError(invoicesResponse)}`
+            };
+          }
+
+          const invoices = [...invoicesResponse.data].sort((a, b) => new Date(b.invoiceDate).getTime() - new Date(a.invoiceDate).getTime());
+          const totalInvoiced = invoices.reduce((sum, invoice) => sum + invoice.totalAmount, 0);
+
+          return {
+            success: true,
+            operation: 'customer_invoices',
+            message: `✅ Found ${invoices.length} invoices for ${invoices[0]?.customerName || `customer ${customerId}`} (total ${formatAmount(totalInvoiced)})`,
+            invoices: invoices.slice(0, limit).map(formatInvoice),
+            totalAmount: roundAmount(totalInvoiced)
+          };
+        }
+
+        case 'consolidation_candidates': {
+          const candidatesResponse = await workbookClient.billing.getConsolidatedInvoiceCandidates({
+            CustomerId: customerId,
+            MinUnbilledAmount: minUnbilledAmount
+          });
+
+          if (!candidatesResponse.success || !candidatesResponse.data) {
+            return {
+              success: false,
+              operation: 'consolidation_candidates',
+              message: `❌ Failed to retrieve consolidated invoice candidates: ${describeError(candidatesResponse)}`
+            };
+          }
+
+          const candidates = candidatesResponse.data;
+          const totalUnbilled = candidates.reduce((sum, job) => sum + job.unbilledAmount, 0);
+
+          return {
+            success: true,
+            operation: 'consolidation_candidates',
+            message: `✅ Found ${candidates.length} jobs that can be billed on a consolidated invoice (unbilled ${formatAmount(totalUnbilled)})`,
+            candidates: candidates.slice(0, limit).map(job => ({
+              jobId: job.jobId,
+              jobName: job.jobName,
+              customerId: job.customerId,
+              customerName: job.customerName,
+              unbilledAmount: roundAmount(job.unbilledAmount),
+              lastInvoiceDate: job.lastInvoiceDate,
+              projectManagerName: job.projectManagerName
+            })),
+            totalAmount: roundAmount(totalUnbilled)
+          };
+        }
+
+        case 'job_billing_status': {
+          if (!jobId) {
+            return {
+              success: false,
+              operation: 'job_billing_status',
+              message: 'Job ID is required for billing status'
+            };
+          }
+
+          const statusResponse = await workbookClient.billing.getJobBillingStatus(jobId);
+          if (!statusResponse.success || !statusResponse.data) {
+            return {
+              success: false,
+              operation: 'job_billing_status',
+              message: `❌ Failed to get billing status for job ${jobId}: ${describeError(statusResponse)}`
+            };
+          }
+
+          const billingStatus = statusResponse.data;
+
+          return {
+            success: true,
+            operation: 'job_billing_status',
+            message: `✅ Job ${jobId} (${billingStatus.jobName}) is ${billingStatus.status.replace(/_/g, ' ')}: ${formatAmount(billingStatus.totalInvoiced)} invoiced, ${formatAmount(billingStatus.totalPending)} pending`,
+            billingStatus
+          };
+        }
+
+        case 'wip_report': {
+          const wipResponse = await workbookClient.billing.getWipReport(minUnbilledAmount || 0);
+          if (!wipResponse.success || !wipResponse.data) {
+            return {
+              success: false,
+              operation: 'wip_report',
+              message: `❌ Failed to build WIP report: ${describeError(wipResponse)}`
+            };
+          }
+
+          const report = wipResponse.data;
+          const customerJobs = customerId ? report.jobs.filter(job => job.customerId === customerId) : report.jobs;
+
+          return {
+            success: true,
+            operation: 'wip_report',
+            message: `✅ WIP report: ${report.jobCount} jobs with unbilled work. Total unbilled: ${formatAmount(report.totalUnbilled)} ${report.currencyCode}. ` +
+              `Aging (days since job end): current ${formatAmount(report.aging.current)}, 1-30 days ${formatAmount(report.aging.days1to30)}, ` +
+              `31-60 days ${formatAmount(report.aging.days31to60)}, 61-90 days ${formatAmount(report.aging.days61to90)}, 90+ days ${formatAmount(report.aging.over90)}`,
+            wipReport: {
+              currencyCode: report.currencyCode,
+              jobCount: report.jobCount,
+              totalUnbilled: roundAmount(report.totalUnbilled),
+              aging: roundAging(report.aging),
+              byCustomer: report.byCustomer.slice(0, limit).map(group => ({
+                ...group,
+                unbilledAmount: roundAmount(group.unbilledAmount),
+                aging: roundAging(group.aging)
+              })),
+              byProjectManager: report.byProjectManager.slice(0, limit).map(group => ({
+                ...group,
+                unbilledAmount: roundAmount(group.unbilledAmount),
+                aging: roundAging(group.aging)
+              })),
+              jobs: customerJobs.slice(0, limit).map(job => ({
+                jobId: job.jobId,
+                jobName: job.jobName,
+                customerName: job.customerName,
+                projectManagerName: job.projectManagerName,
+                jobEndDate: job.jobEndDate,
+                unbilledAmount: roundAmount(job.unbilledAmount),
+                daysSinceEnd: job.daysSinceEnd
+              }))
+            },
+            totalAmount: roundAmount(report.totalUnbilled)
+          };
+        }
+
+        case 'retainer_burndown': {
+          const retainerResponse = await workbookClient.billing.getRetainerBurnDown(jobId);
+          if (!retainerResponse.success || !retainerResponse.data) {
+            return {
+              success: false,
+              operation: 'retainer_burndown',
+              message: `❌ Failed to retrieve retainer key figures: ${describeError(retainerResponse)}`
+            };
+          }
+
+          const retainers = retainerResponse.data
+            .filter(retainer => !customerId || retainer.clientId === customerId)
+            .filter(retainer => !responsibleId || retainer.responsibleId === responsibleId)
+            .filter(retainer => !exhaustingThisMonth || retainer.isOverrun || retainer.exhaustsThisMonth);
+          const overrunCount = retainers.filter(retainer => retainer.isOverrun).length;
+          const thisMonthCount = retainers.filter(retainer => !retainer.isOverrun && retainer.exhaustsThisMonth).length;
+
+          return {
+            success: true,
+            operation: 'retainer_burndown',
+            message: retainers.length === 0
+              ? `✅ No ${exhaustingThisMonth ? 'retainers running out this month' : 'active retainers found'}`
+              : `${overrunCount + thisMonthCount > 0 ? '⚠️' : '✅'} ${retainers.length} active retainers: ${overrunCount} overrun, ${thisMonthCount} projected to run out this month`,
+            retainers: retainers.slice(0, limit).map(retainer => ({
+              jobId: retainer.jobId,
+              jobReferenceKey: retainer.jobReferenceKey,
+              clientName: retainer.clientName,
+              responsibleName: retainer.responsibleName,
+              endDate: retainer.endDate,
+              hoursBudget: roundAmount(retainer.hoursBudget),
+              hoursUsed: roundAmount(retainer.hoursUsed),
+              hoursRemaining: roundAmount(retainer.hoursRemaining),
+              percentUsed: retainer.percentUsed,
+              burnRatePerWeek: retainer.burnRatePerWeek,
+              projectedExhaustionDate: retainer.projectedExhaustionDate,
+              overrun: roundAmount(retainer.overrun),
+              invoicedRemaining: roundAmount(retainer.invoicedRemaining),
+              status: retainer.status
+            }))
+          };
+        }
+
+        default:
+          return {
+            success: false,
+            operation: operation,
+            message: `Unknown operation: ${operation}. Supported operations: receivables, overdue_invoices, partially_paid, customer_invoices, consolidation_candidates, job_billing_status, wip_report, retainer_burndown`
+          };
+        }
+
+      } catch (error) {
+        console.error('❌ Error in billingTool:', error);
+        return {
+          success: false,
+          operation: context.operation || 'unknown',
+          message: `Error in billing: ${error instanceof Error ? error.message : 'Unknown error'}`
+        };
+      }
+    }
+  });
+}
+
+/**
+ * Round monetary amounts to two decimals
+ */
+function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Round every aging bucket to two decimals
+ */
+function roundAging(aging: AgingBuckets): AgingBuckets {
+  return {
+    current: roundAmount(aging.current),
+    days1to30: roundAmount(aging.days1to30),
+    days31to60: roundAmount(aging.days31to60),
+    days61to90: roundAmount(aging.days61to90),
+    over90: roundAmount(aging.over90)
+  };
+}
+
+/**
+ * Format monetary amounts for messages
+ */
+function formatAmount(amount: number): string {
+  return roundAmount(amount).toLocaleString('da-DK', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+/**
+ * Shape an invoice for tool output
+ */
+function formatInvoice(invoice: MappedBillingInvoice) {
+  return {
+    id: invoice.id,
+    invoiceNumber: invoice.invoiceNumber,
+    customerName: invoice.customerName,
+    jobId: invoice.jobId,
+    dueDate: invoice.dueDate,
+    totalAmount: roundAmount(invoice.totalAmount),
+    balanceDue: roundAmount(invoice.balanceDue),
+    currencyCode: invoice.currencyCode,
+    statusText: invoice.statusText,
+    daysOverdue: invoice.daysOverdue
+  };
+}
\ No newline at end of file
@@ -2,6 +2,7 @@ import { createTool } from '@mastra/core/tools';
 import { z } from 'zod';
 import { WorkbookClient } from '../../services/index.js';
 import { ensureFreshData } from '../../utils/freshnessDetection.js';
+import { describeError } from '../../utils/errorGuidance.js';
 
 /**
  * Create bulk operations tool for mass updates and batch operations
@@ -107,7 +108,7 @@ export function createBulkOperationsTool(workbookClient: WorkbookClient) {
               operation,
               targetCount: 0,
               executed: false,
-              message: `Error fetching resources: ${allResourcesResponse.error}`
+              message: `Error fetching resources: ${describeError(allResourcesResponse)}`
             };
           }
         
@@ -277,9 +278,6 @@ export function createBulkOperationsTool(workbookClient: WorkbookClient) {
           }
         }
       
-        // Clear cache after bulk operations
-        workbookClient.resources.clearCache();
-      
         return {
           operation,
           targetCount: validResources.length,
@@ -0,0 +1,390 @@
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { WorkbookClient, LOW_MARGIN_RISK_FACTOR } from '../../services/index.js';
+import { CubeQuery, CubeAggregateRow } from '../../types/workbook.types.js';
+import { ensureFreshData } from '../../utils/freshnessDetection.js';
+import { describeError } from '../../utils/errorGuidance.js';
+import { canSeeMargins } from './toolPermissions.js';
+
+const aggregateRowSchema = z.object({
+  name: z.string(),
+  jobCount: z.number(),
+  hours: z.number(),
+  actualizedSale: z.number(),
+  actualizedCost: z.number(),
+  grossProfit: z.number(),
+  marginPercent: z.number()
+});
+
+/**
+ * Create business analytics tool for cross-job profitability and productivity
+ * Factory function that accepts initialized WorkbookClient
+ */
+export function createBusinessAnalyticsTool(workbookClient: WorkbookClient) {
+  return createTool({
+    id: 'business-analytics',
+    description: `BUSINESS ANALYTICS TOOL - Use this tool for profitability and productivity across many jobs, clients or employees.
+
+    PRIMARY USE CASES:
+    - Gross profit by client ("which clients made us the most money this year")
+    - Revenue, cost and margin grouped by job, employee, team, department or Dimension1-5
+    - Employee productivity: hours, billable utilization, hourly rate, approval status
+    - Project analytics: budget use, schedule, margin and risk per job
+    - Company overview: totals, departments, top performers, project health and trends vs. previous period
+
+    DO NOT USE for:
+    - Detailed financials of one specific job (use jobFinancialsTool instead)
+    - Invoices and receivables (use billingTool instead)
+    - Capacity planning (use resourcePlanningTool instead)`,
+
+    inputSchema: z.object({
+      operation: z.enum(['gross_profit', 'resource_productivity', 'project_analytics', 'overview'])
+        .describe('Analytics operation to perform'),
+
+      groupBy: z.enum(['customer', 'job', 'employee', 'team', 'department', 'dimension1', 'dimension2', 'dimension3', 'dimension4', 'dimension5'])
+        .default('customer')
+        .describe('Dimension to aggregate by (for gross_profit)'),
+      startDate: z.string()
+        .optional()
+        .describe('Start of period (ISO format, defaults to 1 January this year)'),
+      endDate: z.string()
+        .optional()
+        .describe('End of period (ISO format, defaults to today)'),
+      customerId: z.number()
+        .optional()
+        .describe('Only include lines for this customer'),
+      customerName: z.string()
+        .optional()
+        .describe('Customer name - resolved to a customer ID'),
+      jobId: z.number()
+        .optional()
+        .describe('Only include lines for this job'),
+      limit: z.number()
+        .min(1)
+        .max(100)
+        .default(10)
+        .describe('Maximum number of rows to return')
+    }),
+
+    outputSchema: z.object({
+      success: z.boolean(),
+      operation: z.string(),
+      message: z.string(),
+      period: z.string().optional(),
+      rows: z.array(aggregateRowSchema).optional(),
+      totals: aggregateRowSchema.omit({ name: true }).optional(),
+      productivity: z.array(z.object({
+        resourceName: z.string(),
+        department: z.string(),
+        team: z.string().optional(),
+        totalHours: z.number(),
+        billableHours: z.number(),
+        utilizationRate: z.number(),
+        totalRevenue: z.number(),
+        averageHourlyRate: z.number(),
+        projectCount: z.number(),
+        clientCount: z.number(),
+        approvedHours: z.number(),
+        pendingHours: z.number(),
+        rejectedHours: z.number()
+      })).optional(),
+      projects: z.array(z.object({
+        jobId: z.number(),
+        jobName: z.string(),
+        clientName: z.string(),
+        projectManager: z.string(),
+        completionPercentage: z.number(),
+        daysRemaining: z.number(),
+        budgetUtilization: z.number(),
+        budgetRemaining: z.number(),
+        profitMargin: z.number(),
+        teamSize: z.number(),
+        totalHoursLogged: z.number(),
+        riskLevel: z.string(),
+        riskFactors: z.array(z.string())
+      })).optional(),
+      overview: z.object({
+        totalRevenue: z.number(),
+        totalCosts: z.number(),
+        grossProfit: z.number(),
+        profitMargin: z.number(),
+        activeProjects: z.number(),
+        activeEmployees: z.number(),
+        activeClients: z.number(),
+        departments: z.array(z.object({
+          departmentName: z.string(),
+          revenue: z.number(),
+          costs: z.number(),
+          utilization: z.number(),
+          headCount: z.number()
+        })),
+        topByRevenue: z.array(z.string()),
+        topByUtilization: z.array(z.string()),
+        projectHealth: z.object({
+          onTrack: z.number(),
+          atRisk: z.number(),
+          delayed: z.number(),
+          completed: z.number()
+        }),
+        trends: z.object({
+          revenueGrowth: z.number(),
+          costGrowth: z.number(),
+          utilizationTrend: z.number(),
+          period: z.string()
+        })
+      }).optional()
+    }),
+
+    execute: async ({ context }) => {
+      try {
+        const {
+          operation,
+          groupBy,
+          startDate,
+          endDate,
+          customerName,
+          jobId,
+          limit
+        } = context;
+        let { customerId } = context;
+
+        console.log(`📈 Business Analytics Tool - Operation: ${operation}`, context);
+
+        // Use universal freshness detection (Phase 7A)
+        ensureFreshData(`business analytics ${operation}`, 'businessAnalyticsTool');
+
+        // Resolve customer name to ID when only the name is given
+        if (!customerId && customerName) {
+          const companyResponse = await workbookClient.resources.findCompanyByName(customerName);
+          if (!companyResponse.success || !companyResponse.data) {
+            return {
+              success: false,
+              operation,
+              message: `❌ Could not find customer "${customerName}"`
+            };
+          }
+          customerId = companyResponse.data.Id;
+        }
+
+        const query: CubeQuery = {
+          startDate: startDate || `${new Date().getFullYear()}-01-01`,
+          endDate: endDate || new Date().toISOString().slice(0, 10),
+          customerId,
+          jobId
+        };
+        const period = `${query.startDate} to ${query.endDate}`;
+
+        switch (operation) {
+        case 'gross_profit': {
+          const aggregateResponse = await workbookClient.analytics.aggregate(query, groupBy);
+          if (!aggregateResponse.success || !aggregateResponse.data) {
+            return {
+              success: false,
+              operation: 'gross_profit',
+              message: `❌ Failed to aggregate cube data: ${describeError(aggregateResponse)}`
+            };
+          }
+
+          const rows = aggregateResponse.data;
+          const totals = sumRows(rows);
+
+          return {
+            success: true,
+            operation: 'gross_profit',
+            message: `✅ Gross profit by ${groupBy} (${period}): ${formatAmount(totals.grossProfit)} on revenue ${formatAmount(totals.actualizedSale)} ` +
+              `(${totals.marginPercent}% margin) across ${rows.length} ${groupBy} values`,
+            period,
+            rows: rows.slice(0, limit).map(formatRow),
+            totals
+          };
+        }
+
+        case 'resource_productivity': {
+          const productivityResponse = await workbookClient.analytics.getResourceProductivity(query, limit);
+          if (!productivityResponse.success || !productivityResponse.data) {
+            return {
+              success: false,
+              operation: 'resource_productivity',
+              message: `❌ Failed to build productivity report: ${describeError(productivityResponse)}`
+            };
+          }
+
+          const reports = productivityResponse.data;
+
+          return {
+            success: true,
+            operation: 'resource_productivity',
+            message: `✅ Productivity for ${reports.length} employees (${period})`,
+            period,
+            productivity: reports.map(report => ({
+              resourceName: report.ResourceName,
+              department: report.Department,
+              team: report.Team,
+              totalHours: report.TotalHours,
+              billableHours: report.BillableHours,
+              utilizationRate: report.UtilizationRate,
+              totalRevenue: report.TotalRevenue,
+              averageHourlyRate: report.AverageHourlyRate,
+              projectCount: report.ProjectCount,
+              clientCount: report.ClientCount,
+              approvedHours: report.ApprovedHours,
+              pendingHours: report.PendingHours,
+              rejectedHours: report.RejectedHours
+            }))
+          };
+        }
+
+        case 'project_analytics': {
+          const projectsResponse = await workbookClient.analytics.getProjectAnalytics(query, limit);
+          if (!projectsResponse.success || !projectsResponse.data) {
+            return {
+              success: false,
+              operation: 'project_analytics',
+              message: `❌ Failed to build project analytics: ${describeError(projectsResponse)}`
+            };
+          }
+
+          const projects = projectsResponse.data;
+          const showMargins = canSeeMargins();
+          const highRisk = projects.filter(project => project.RiskLevel === 'HIGH').length;
+
+          return {
+            success: true,
+            operation: 'project_analytics',
+            message: `${highRisk > 0 ? '⚠️' : '✅'} Analyzed ${projects.length} jobs (${period}): ${highRisk} high risk`,
+            period,
+            projects: projects.map(project => ({
+              jobId: project.JobId,
+              jobName: project.JobName,
+              clientName: project.ClientName,
+              projectManager: project.ProjectManager,
+              completionPercentage: project.CompletionPercentage,
+              daysRemaining: project.DaysRemaining,
+              budgetUtilization: project.BudgetUtilization,
+              budgetRemaining: project.BudgetRemaining,
+              profitMargin: project.ProfitMargin,
+              teamSize: project.TeamSize,
+              totalHoursLogged: project.TotalHoursLogged,
+              riskLevel: project.RiskLevel,
+              riskFactors: showMargins
+                ? project.RiskFactors
+                : project.RiskFactors.filter(factor => !factor.startsWith(LOW_MARGIN_RISK_FACTOR))
+            }))
+          };
+        }
+
+        case 'overview': {
+          const overviewResponse = await workbookClient.analytics.getComprehensiveAnalytics(query, limit);
+          if (!overviewResponse.success || !overviewResponse.data) {
+            return {
+              success: false,
+              operation: 'overview',
+              message: `❌ Failed to build analytics overview: ${describeError(overviewResponse)}`
+            };
+          }
+
+          const analytics = overviewResponse.data;
+          const metrics = analytics.CompanyMetrics;
+
+          return {
+            success: true,
+            operation: 'overview',
+            message: `✅ Overview (${period}): revenue ${formatAmount(metrics.TotalRevenue)}, gross profit ${formatAmount(metrics.GrossProfit)} ` +
+              `(${metrics.ProfitMargin}% margin), revenue growth ${analytics.Trends.RevenueGrowth}% vs. previous period`,
+            period,
+            overview: {
+              totalRevenue: metrics.TotalRevenue,
+              totalCosts: metrics.TotalCosts,
+              grossProfit: metrics.GrossProfit,
+              profitMargin: metrics.ProfitMargin,
+              activeProjects: metrics.ActiveProjects,
+              activeEmployees: metrics.ActiveEmployees,
+              activeClients: metrics.ActiveClients,
+              departments: analytics.DepartmentMetrics.slice(0, limit).map(department => ({
+                departmentName: department.DepartmentName,
+                revenue: department.Revenue,
+                costs: department.Costs,
+                utilization: department.Utilization,
+                headCount: department.HeadCount
+              })),
+              topByRevenue: analytics.TopPerformers.ByRevenue.map(report => report.ResourceName),
+              topByUtilization: analytics.TopPerformers.ByUtilization.map(report => report.ResourceName),
+              projectHealth: {
+                onTrack: analytics.ProjectHealth.OnTrack,
+                atRisk: analytics.ProjectHealth.AtRisk,
+                delayed: analytics.ProjectHealth.Delayed,
+                completed: analytics.ProjectHealth.Completed
+              },
+              trends: {
+                revenueGrowth: analytics.Trends.RevenueGrowth,
+                costGrowth: analytics.Trends.CostGrowth,
+                utilizationTrend: analytics.Trends.UtilizationTrend,
+                period: analytics.Trends.Period
+              }
+            }
+          };
+        }
+
+        default:
+          return {
+            success: false,
+            operation: operation,
+            message: `Unknown operation: ${operation}. Supported operations: gross_profit, resource_productivity, project_analytics, overview`
+          };
+        }
+
+      } catch (error) {
+        console.error('❌ Error in businessAnalyticsTool:', error);
+        return {
+          success: false,
+          operation: context.operation || 'unknown',
+          message: `Error in business analytics: ${error instanceof Error ? error.message : 'Unknown error'}`
+        };
+      }
+    }
+  });
+}
+
+/**
+ * Shape an aggregate row for output
+ */
+function formatRow(row: CubeAggregateRow) {
+  return {
+    name: row.name,
+    jobCount: row.jobCount,
+    hours: row.hours,
+    actualizedSale: row.actualizedSale,
+    actualizedCost: row.actualizedCost,
+    grossProfit: row.grossProfit,
+    marginPercent: row.marginPercent
+  };
+}
+
+/**
+ * Total all aggregate rows
+ */
+function sumRows(rows: CubeAggregateRow[]) {
+  const totals = rows.reduce((sum, row) => ({
+    jobCount: sum.jobCount + row.jobCount,
+    hours: sum.hours + row.hours,
+    actualizedSale: sum.actualizedSale + row.actualizedSale,
+    actualizedCost: sum.actualizedCost + row.actualizedCost,
+    grossProfit: sum.grossProfit + row.grossProfit
+  }), { jobCount: 0, hours: 0, actualizedSale: 0, actualizedCost: 0, grossProfit: 0 });
+
+  return {
+    jobCount: totals.jobCount,
+    hours: Math.round(totals.hours * 100) / 100,
+    actualizedSale: Math.round(totals.actualizedSale * 100) / 100,
+    actualizedCost: Math.round(totals.actualizedCost * 100) / 100,
+    grossProfit: Math.round(totals.grossProfit * 100) / 100,
+    marginPercent: totals.actualizedSale > 0 ? Math.round((totals.grossProfit / totals.actualizedSale) * 1000) / 10 : 0
+  };
+}
+
+/**
+ * Format monetary amounts for messages
+ */
+function formatAmount(amount: number): string {
+  return Math.round(amount).toLocaleString('da-DK');
+}
\ No newline at end of file
@@ -0,0 +1,252 @@
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { WorkbookClient } from '../../services/index.js';
+import { ClientProfile } from '../../types/workbook.types.js';
+import { ensureFreshData } from '../../utils/freshnessDetection.js';
+import { describeError } from '../../utils/errorGuidance.js';
+
+const profileJobSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  responsibleId: z.number(),
+  startDate: z.string().optional(),
+  endDate: z.string().optional()
+});
+
+const profileInvoiceSchema = z.object({
+  id: z.number(),
+  invoiceNumber: z.string(),
+  jobId: z.number().optional(),
+  dueDate: z.string(),
+  totalAmount: z.number(),
+  balanceDue: z.number(),
+  currencyCode: z.string(),
+  statusText: z.string(),
+  daysOverdue: z.number(),
+  isPartiallyPaid: z.boolean()
+});
+
+/**
+ * Create client profile tool for the Client 360 view
+ * Factory function that accepts initialized WorkbookClient
+ */
+export function createClientProfileTool(workbookClient: WorkbookClient) {
+  return createTool({
+    id: 'client-profile',
+    description: `CLIENT PROFILE TOOL (Client 360) - Use this tool when users want everything about one client in a single answer.
+
+    PRIMARY USE CASES:
+    - "Tell me everything about Novo" / "give me the 360 view of ADECCO"
+    - Client record, responsible employee and contacts
+    - Active jobs, open invoices with payment status and outstanding/overdue balance
+    - When time was last registered for the client
+    - Data quality issues on the client record and its contacts
+
+    Present the result starting with the tool message line unchanged, then the details per section.
+    If several clients match, list the matches and ask which one is meant.
+
+    DO NOT USE for:
+    - Searching or listing many companies (use companySearchTool or universalSearchTool instead)
+    - Invoice aging across all customers (use billingTool instead)
+    - Job profitability (use jobFinancialsTool instead)`,
+
+    inputSchema: z.object({
+      clientId: z.number()
+        .optional()
+        .describe('Client resource ID'),
+      clientName: z.string()
+        .optional()
+        .describe('Client name - resolved to a client ID when clientId is not given')
+    }),
+
+    outputSchema: z.object({
+      success: z.boolean(),
+      message: z.string(),
+      matches: z.array(z.object({
+        id: z.number(),
+        name: z.string(),
+        active: z.boolean()
+      })).optional(),
+      profile: z.object({
+        client: z.object({
+          id: z.number(),
+          name: z.string(),
+          typeName: z.string(),
+          active: z.boolean(),
+          email: z.string().optional(),
+          phone: z.string().optional(),
+          address: z.string().optional(),
+          city: z.string().optional(),
+          postCode: z.string().optional(),
+          country: z.string().optional(),
+          folder: z.string().optional()
+        }),
+        responsibleEmployee: z.object({
+          id: z.number(),
+          name: z.string(),
+          email: z.string().optional(),
+          active: z.boolean()
+        }).optional(),
+        contacts: z.array(z.object({
+          id: z.number(),
+          name: z.string(),
+          title: z.string().optional(),
+          email: z.string().optional(),
+          phone: z.string().optional(),
+          active: z.boolean()
+        })),
+        activeJobs: z.array(profileJobSchema),
+        totalJobCount: z.number(),
+        openInvoices: z.array(profileInvoiceSchema),
+        receivables: z.object({
+          openInvoiceCount: z.number(),
+          outstandingAmount: z.number(),
+          overdueAmount: z.number(),
+          oldestDaysOverdue: z.number(),
+          currencyCode: z.string()
+        }),
+        lastRegistration: z.object({
+          registrationDate: z.string(),
+          hours: z.number(),
+          jobId: z.number(),
+          jobName: z.string().optional(),
+          resourceId: z.number(),
+          resourceName: z.string().optional()
+        }).optional(),
+        dataQualityIssues: z.array(z.object({
+          field: z.string(),
+          severity: z.enum(['critical', 'warning']),
+          message: z.string()
+        })),
+        unavailableSections: z.array(z.object({
+          section: z.string(),
+          error: z.string()
+        })),
+        generatedAt: z.string()
+      }).optional()
+    }),
+
+    execute: async ({ context }) => {
+      try {
+        const { clientId, clientName } = context;
+
+        console.log('🧭 Client Profile Tool', context);
+
+        // Use universal freshness detection (Phase 7A)
+        ensureFreshData(`client profile ${clientName || clientId}`, 'clientProfileTool');
+
+        let resolvedId = clientId;
+        if (!resolvedId) {
+          if (!clientName) {
+            return {
+              success: false,
+              message: 'Client ID or client name is required for a client profile'
+            };
+          }
+
+          const clientsResponse = await workbookClient.clientProfiles.findClients(clientName);
+          if (!clientsResponse.success || !clientsResponse.data) {
+            return {
+              success: false,
+              message: `❌ Failed to search for "${clientName}": ${describeError(clientsResponse)}`
+            };
+          }
+
+          const matches = clientsResponse.data;
+          if (matches.length === 0) {
+            return {
+              success: false,
+              message: `❌ Could not find a client matching "${clientName}"`
+            };
+          }
+
+          // Ask the user to pick unless the name matches one client exactly
+          const exactMatches = matches.filter(match => match.Name.toLowerCase() === clientName.trim().toLowerCase());
+          if (matches.length > 1 && exactMatches.length !== 1) {
+            return {
+              success: false,
+              message: `⚠️ ${matches.length} clients match "${clientName}". Which one do you mean?`,
+              matches: matches.slice(0, 10).map(match => ({ id: match.Id, name: match.Name, active: match.Active }))
+            };
+          }
+
+          resolvedId = (exactMatches[0] || matches[0]).Id;
+        }
+
+        const profileResponse = await workbookClient.clientProfiles.getClientProfile(resolvedId);
+        if (!profileResponse.success || !profileResponse.data) {
+          return {
+            success: false,
+            message: `❌ Failed to build client profile for ${clientName || `client ${resolvedId}`}: ${describeError(profileResponse)}`
+          };
+        }
+
+        const profile = profileResponse.data;
+
+        return {
+          success: true,
+          message: formatProfileMessage(profile),
+          profile: {
+            ...profile,
+            activeJobs: profile.activeJobs.map(job => ({
+              id: job.id,
+              name: job.jobName,
+              responsibleId: job.responsibleId,
+              startDate: job.startDate,
+              endDate: job.endDate
+            })),
+            openInvoices: profile.openInvoices.map(invoice => ({
+              id: invoice.id,
+              invoiceNumber: invoice.invoiceNumber,
+              jobId: invoice.jobId,
+              dueDate: invoice.dueDate,
+              totalAmount: roundAmount(invoice.totalAmount),
+              balanceDue: roundAmount(invoice.balanceDue),
+              currencyCode: invoice.currencyCode,
+              statusText: invoice.statusText,
+              daysOverdue: invoice.daysOverdue,
+              isPartiallyPaid: invoice.isPartiallyPaid
+            }))
+          }
+        };
+      } catch (error) {
+        console.error('❌ Error in clientProfileTool:', error);
+        return {
+          success: false,
+          message: `Error building client profile: ${error instanceof Error ? error.message : 'Unknown error'}`
+        };
+      }
+    }
+  });
+}
+
+/**
+ * Summary line of a client profile, also parsed by the Teams client profile card
+ */
+function formatProfileMessage(profile: ClientProfile): string {
+  const { client, receivables } = profile;
+  const parts = [
+    `responsible: ${profile.responsibleEmployee?.name || 'none'}`,
+    `${profile.contacts.filter(contact => contact.active).length} contacts`,
+    `${profile.activeJobs.length} active jobs`,
+    `${receivables.openInvoiceCount} open invoices (outstanding: ${formatAmount(receivables.outstandingAmount)} ${receivables.currencyCode}, overdue: ${formatAmount(receivables.overdueAmount)} ${receivables.currencyCode})`,
+    `last time registered: ${profile.lastRegistration ? profile.lastRegistration.registrationDate.split('T')[0] : 'none'}`,
+    `${profile.dataQualityIssues.length} data quality issues`
+  ];
+  const unavailable = profile.unavailableSections.length > 0
+    ? ` ⚠️ Unavailable: ${profile.unavailableSections.map(section => section.section).join(', ')}`
+    : '';
+
+  return `🧭 Client profile for ${client.name}${client.active ? '' : ' (inactive)'}: ${parts.join(', ')}.${unavailable}`;
+}
+
+function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Format monetary amounts for messages
+ */
+function formatAmount(amount: number): string {
+  return roundAmount(amount).toLocaleString('da-DK', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
\ No newline at end of file
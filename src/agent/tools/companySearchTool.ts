@@ -2,11 +2,12 @@ import { createTool } from '@mastra/core/tools';
 import { z } from 'zod';
 import { WorkbookClient } from '../../services/index.js';
 import { ResourceTypes } from '../../constants/resourceTypes.js';
-import { cacheManager } from '../../services/base/cache.js';
 import { Resource, Contact } from '../../types/workbook.types.js';
 import * as fs from 'fs';
 import * as path from 'path';
-import { ensureFreshData } from '../../utils/freshnessDetection.js';
+import { ensureFreshData, formatFreshness } from '../../utils/freshnessDetection.js';
+import { getTenantExportsDir } from '../../services/tenants/tenantContext.js';
+import { describeError } from '../../utils/errorGuidance.js';
 
 /**
  * Handle bulk hierarchy mode - retrieve all companies with hierarchical data
@@ -14,14 +15,14 @@ import { ensureFreshData } from '../../utils/freshnessDetection.js';
 async function handleBulkHierarchyMode(workbookClient: WorkbookClient, includeHierarchy: boolean) {
   try {
     // Get all resources (use complete dataset)
-    const resourcesResponse = await workbookClient.resources.getAllResourcesComplete();
+    const resourcesResponse = await workbookClient.mirror.getAllResources();
     
     if (!resourcesResponse.success || !resourcesResponse.data) {
       return {
         companies: [],
         found: false,
         count: 0,
-        message: `Error fetching resources: ${resourcesResponse.error}`
+        message: `Error fetching resources: ${describeError(resourcesResponse)}`
       };
     }
 
@@ -41,7 +42,7 @@ async function handleBulkHierarchyMode(workbookClient: WorkbookClient, includeHi
         let contacts: Contact[] = [];
         
         if (includeHierarchy) {
-          const contactsResponse = await workbookClient.resources.getContactsForResource(company.Id);
+          const contactsResponse = await workbookClient.mirror.getContactsForResource(company.Id);
           if (contactsResponse.success && contactsResponse.data) {
             contacts = contactsResponse.data;
           }
@@ -66,7 +67,7 @@ async function handleBulkHierarchyMode(workbookClient: WorkbookClient, includeHi
     );
     
     // Generate meaningful summary for Teams message limits
-    const cacheStatus = resourcesResponse.cached ? ' (cached)' : '';
+    const cacheStatus = formatFreshness(resourcesResponse);
     
     // Calculate summary statistics
     const activeCompanies = companiesWithDetails.filter(c => c.active);
@@ -98,7 +99,7 @@ async function handleBulkHierarchyMode(workbookClient: WorkbookClient, includeHi
     // Generate CSV file for bulk data
     const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, -5);
     const fileName = `bulk-companies-${timestamp}.csv`;
-    const exportsDir = path.join(process.cwd(), 'exports');
+    const exportsDir = getTenantExportsDir();
     
     // Ensure exports directory exists
     if (!fs.existsSync(exportsDir)) {
@@ -325,16 +326,6 @@ export function createCompanySearchTool(workbookClient: WorkbookClient) {
       
         console.log(`Searching for ${multiple ? 'companies' : 'company'}: "${companyName}"${includeHierarchy ? ' with hierarchy' : ''}`);
         
-        // Auto-detect freshness keywords and purge cache if needed
-        const freshnessKeywords = ['fresh', 'new', 'latest', 'updated', 'current', 'recent', 'purge', 'clear', 'refresh', 'reload', 'real-time', 'live', 'now', 'today'];
-        const queryText = companyName!.toLowerCase();
-        const needsFreshData = freshnessKeywords.some(keyword => queryText.includes(keyword));
-        
-        if (needsFreshData) {
-          console.log(`[AUTO CACHE PURGE] Detected freshness keywords in "${companyName}", flushing entire cache...`);
-          cacheManager.flush();
-        }
-      
         if (multiple && companyName) {
         // Determine search type based on query
           let companiesResponse;
@@ -356,7 +347,7 @@ export function createCompanySearchTool(workbookClient: WorkbookClient) {
               companies: [],
               found: false,
               count: 0,
-              message: `Error searching for companies "${companyName}": ${companiesResponse.error}`
+              message: `Error searching for companies "${companyName}": ${describeError(companiesResponse)}`
             };
           }
         
@@ -452,7 +443,7 @@ export function createCompanySearchTool(workbookClient: WorkbookClient) {
               companies: [],
               found: false,
               count: 0,
-              message: `Error searching for company "${companyName}": ${hierarchyResponse.error}`
+              message: `Error searching for company "${companyName}": ${describeError(hierarchyResponse)}`
             };
           }
         
@@ -2,7 +2,8 @@ import { createTool } from '@mastra/core/tools';
 import { z } from 'zod';
 import { WorkbookClient, Resource } from '../../services/index.js';
 import { ResourceTypes, ResourceTypeNames } from '../../constants/resourceTypes.js';
-import { ensureFreshData } from '../../utils/freshnessDetection.js';
+import { ensureFreshData, formatFreshness } from '../../utils/freshnessDetection.js';
+import { describeError } from '../../utils/errorGuidance.js';
 
 /**
  * Create data quality analysis tool for Workbook CRM
@@ -94,14 +95,14 @@ export function createDataQualityTool(workbookClient: WorkbookClient) {
         ensureFreshData(`data quality ${analysisType}`, 'dataQualityTool');
       
         // Get complete dataset
-        const allResourcesResponse = await workbookClient.resources.getAllResourcesComplete();
+        const allResourcesResponse = await workbookClient.mirror.getAllResources();
       
         if (!allResourcesResponse.success || !allResourcesResponse.data) {
           return {
             overview: { totalResources: 0, completeness: 0, healthScore: 0, criticalIssues: 0 },
             issues: { missingEmails: [], missingNames: [], orphanedRecords: [], invalidEmails: [], duplicateNames: [] },
             recommendations: [],
-            summary: `Error fetching resources: ${allResourcesResponse.error}`
+            summary: `Error fetching resources: ${describeError(allResourcesResponse)}`
           };
         }
       
@@ -228,7 +229,7 @@ export function createDataQualityTool(workbookClient: WorkbookClient) {
           }
         }
       
-        const cacheStatus = allResourcesResponse.cached ? ' (cached)' : '';
+        const cacheStatus = formatFreshness(allResourcesResponse);
       
         return {
           overview: {
@@ -4,9 +4,12 @@ import { WorkbookClient, Resource, RelationshipService } from '../../services/in
 import { ResourceTypes } from '../../constants/resourceTypes.js';
 import { fileStorageService } from '../../routes/fileRoutes.js';
 import { ExportContext, EnrichedResource } from '../../types/tool-results.js';
+import { MappedBillableJob, WipReport } from '../../types/workbook.types.js';
 import * as fs from 'fs';
 import * as path from 'path';
 import { ensureFreshData } from '../../utils/freshnessDetection.js';
+import { getTenantExportsDir } from '../../services/tenants/tenantContext.js';
+import { describeError } from '../../utils/errorGuidance.js';
 
 
 /**
@@ -28,6 +31,7 @@ export function createEnhancedExportTool(workbookClient: WorkbookClient) {
   ✅ "Give me a CSV of employees"  
   ✅ "Download contact data as spreadsheet"
   ✅ "Create a file with Danish clients"
+  ✅ "Export unbilled work (WIP) to CSV" → exportType 'wip'
   
   Key indicators for this tool:
   - Words: export, download, CSV, spreadsheet, file, save
@@ -39,9 +43,9 @@ export function createEnhancedExportTool(workbookClient: WorkbookClient) {
         .default('csv')
         .describe('Export format: csv (spreadsheet), json (structured), report (formatted text), statistics (summary)'),
     
-      exportType: z.enum(['all', 'filtered', 'custom', 'relationships'])
+      exportType: z.enum(['all', 'filtered', 'custom', 'relationships', 'wip'])
         .default('filtered')
-        .describe('Export scope: all resources, filtered subset, custom selection, or relationship mapping'),
+        .describe('Export scope: all resources, filtered subset, custom selection, relationship mapping, or unbilled work-in-progress (WIP) per job'),
         
       // Natural language context for intelligent processing
       userQuery: z.string()
@@ -104,7 +108,12 @@ export function createEnhancedExportTool(workbookClient: WorkbookClient) {
       limit: z.number()
         .min(0)
         .optional()
-        .describe('Limit number of records (0 or undefined for no limit)')
+        .describe('Limit number of records (0 or undefined for no limit)'),
+
+      minUnbilledAmount: z.number()
+        .min(0)
+        .optional()
+        .describe('For WIP exports: only include jobs with at least this unbilled amount')
     }),
   
     outputSchema: z.object({
@@ -155,7 +164,8 @@ export function createEnhancedExportTool(workbookClient: WorkbookClient) {
           userQuery,
           saveToFile,
           fileName,
-          limit
+          limit,
+          minUnbilledAmount
         } = context;
         
         // Intelligent processing based on user query
@@ -188,7 +198,7 @@ export function createEnhancedExportTool(workbookClient: WorkbookClient) {
           
           // If no specific companies, get top companies
           if (targetCompanyIds.length === 0) {
-            const allResourcesResponse = await workbookClient.resources.getAllResourcesComplete();
+            const allResourcesResponse = await workbookClient.mirror.getAllResources();
             if (allResourcesResponse.success && allResourcesResponse.data) {
               targetCompanyIds = allResourcesResponse.data
                 .filter(r => r.TypeId === ResourceTypes.CLIENT && r.Active)
@@ -226,10 +236,10 @@ export function createEnhancedExportTool(workbookClient: WorkbookClient) {
             // Save CSV file
             const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, -5);
             const relationshipFileName = fileName || `relationship-map-${relationshipMap.totalNodes}-nodes-${timestamp}.csv`;
-            const filePath = path.join(process.cwd(), 'exports', relationshipFileName);
+            const exportsDir = getTenantExportsDir();
+            const filePath = path.join(exportsDir, relationshipFileName);
             
             // Ensure exports directory exists
-            const exportsDir = path.join(process.cwd(), 'exports');
             if (!fs.existsSync(exportsDir)) {
               fs.mkdirSync(exportsDir, { recursive: true });
             }
@@ -283,6 +293,67 @@ export function createEnhancedExportTool(workbookClient: WorkbookClient) {
           }
         }
 
+        // Handle unbilled work-in-progress export type
+        if (exportType === 'wip' || intelligentContext.exportType === 'wip') {
+          console.log('💰 Processing WIP export...');
+
+          const wipResponse = await workbookClient.billing.getWipReport(minUnbilledAmount || 0);
+          if (!wipResponse.success || !wipResponse.data) {
+            throw new Error(`Failed to build WIP report: ${describeError(wipResponse)}`);
+          }
+
+          const report = wipResponse.data;
+          const wipJobs = limit && limit > 0 ? report.jobs.slice(0, limit) : report.jobs;
+          const wipFields = ['Customer', 'JobId', 'JobName', 'ProjectManager', 'JobEndDate', 'DaysSinceEnd', 'AgingBucket', 'PriceSale', 'ExpenseSale', 'InvoiceDraftSale', 'Unbilled', 'Currency'];
+          const summary = `✅ WIP export: ${report.jobCount} jobs with unbilled work. Total unbilled: ${Math.round(report.totalUnbilled).toLocaleString('da-DK')} ${report.currencyCode}.`;
+
+          let wipData: string;
+          switch (format) {
+          case 'csv':
+            wipData = generateWipCSV(wipJobs, wipFields);
+            break;
+          case 'json':
+            wipData = JSON.stringify(wipJobs, null, 2);
+            break;
+          case 'report':
+            wipData = generateWipReport(report, wipJobs);
+            break;
+          case 'statistics':
+            wipData = generateWipStatistics(report);
+            break;
+          default:
+            throw new Error(`Unsupported format: ${format}`);
+          }
+
+          let wipFilePath: string | undefined;
+          let wipDownloadUrl: string | undefined;
+          let wipFileSize: string | undefined;
+          if (format === 'csv' || saveToFile) {
+            const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, -5);
+            const fileExtension = getFileExtension(format);
+            const wipFileName = fileName || `wip-unbilled-${wipJobs.length}-jobs-${timestamp}`;
+            const fullFileName = wipFileName.endsWith(`.${fileExtension}`) ? wipFileName : `${wipFileName}.${fileExtension}`;
+
+            wipFileSize = formatFileSize(Buffer.byteLength(wipData, 'utf-8'));
+            const stored = await storeExportFile(fullFileName, wipData, format);
+            wipFilePath = stored.filePath;
+            wipDownloadUrl = stored.downloadUrl;
+          }
+
+          return {
+            success: true,
+            format,
+            recordCount: wipJobs.length,
+            filePath: wipFilePath,
+            preview: format === 'csv' ? summary : wipData,
+            data: wipFilePath ? undefined : wipData,
+            exportedFields: wipFields,
+            exportTime: new Date().toISOString(),
+            fileSize: wipFileSize,
+            downloadUrl: wipDownloadUrl
+          };
+        }
+
         // Build search parameters with intelligent overrides
         const searchParams: Record<string, string | number | boolean | string[] | number[]> = {};
         
@@ -495,8 +566,7 @@ export function createEnhancedExportTool(workbookClient: WorkbookClient) {
           const smartFileName = generateSmartFileName(intelligentContext, resources.length);
           const defaultFileName = `workbook-export-${format}-${timestamp}`;
           const actualFileName = fileName || smartFileName || defaultFileName;
-          const fileExtension = format === 'csv' ? 'csv' : 
-            format === 'json' ? 'json' : 'txt';
+          const fileExtension = getFileExtension(format);
           
           // Check if filename already has the correct extension to avoid double extensions
           const fullFileName = actualFileName.endsWith(`.${fileExtension}`) 
@@ -505,50 +575,9 @@ export function createEnhancedExportTool(workbookClient: WorkbookClient) {
           const fileSizeBytes = Buffer.byteLength(exportData, 'utf-8');
           fileSize = formatFileSize(fileSizeBytes);
 
-          // Use PostgreSQL file storage for Teams compatibility
-          if (fileStorageService) {
-            try {
-              const contentType = format === 'csv' ? 'text/csv' :
-                format === 'json' ? 'application/json' : 'text/plain';
-              
-              const result = await fileStorageService.storeFile({
-                filename: fullFileName,
-                content: exportData,
-                content_type: contentType,
-                expires_hours: 24, // Files expire after 24 hours
-                max_downloads: 100 // Allow up to 100 downloads
-              });
-              
-              filePath = `PostgreSQL Storage: ${result.fileId}`;
-              downloadUrl = result.downloadUrl;
-              
-              console.log(`Export saved to PostgreSQL storage: ${fullFileName} (${fileSize})`);
-              console.log(`Download URL: ${downloadUrl}`);
-              
-            } catch (error) {
-              console.warn('Failed to store in PostgreSQL, falling back to local:', error);
-              
-              // Fallback to local storage
-              const exportsDir = path.join(process.cwd(), 'exports');
-              if (!fs.existsSync(exportsDir)) {
-                fs.mkdirSync(exportsDir, { recursive: true });
-              }
-              
-              filePath = path.join(exportsDir, fullFileName);
-              fs.writeFileSync(filePath, exportData, 'utf-8');
-              console.log(`Export saved locally: ${filePath}`);
-            }
-          } else {
-            // Local storage fallback
-            const exportsDir = path.join(process.cwd(), 'exports');
-            if (!fs.existsSync(exportsDir)) {
-              fs.mkdirSync(exportsDir, { recursive: true });
-            }
-            
-            filePath = path.join(exportsDir, fullFileName);
-            fs.writeFileSync(filePath, exportData, 'utf-8');
-            console.log(`Export saved locally (no PostgreSQL): ${filePath}`);
-          }
+          const stored = await storeExportFile(fullFileName, exportData, format);
+          filePath = stored.filePath;
+          downloadUrl = stored.downloadUrl;
         }
 
         console.log(`Export completed: ${stats.totalRecords} records in ${format} format`);
@@ -692,6 +721,129 @@ function formatFileSize(bytes: number): string {
   return Math.round(bytes / Math.pow(1024, i) * 100) / 100 + ' ' + sizes[i];
 }
 
+function getFileExtension(format: string): string {
+  return format === 'csv' ? 'csv' : format === 'json' ? 'json' : 'txt';
+}
+
+/**
+ * Store an export file in PostgreSQL file storage (Teams download link),
+ * falling back to the local exports directory
+ */
+async function storeExportFile(fullFileName: string, content: string, format: string): Promise<{ filePath: string; downloadUrl?: string }> {
+  // Use PostgreSQL file storage for Teams compatibility
+  if (fileStorageService) {
+    try {
+      const contentType = format === 'csv' ? 'text/csv' :
+        format === 'json' ? 'application/json' : 'text/plain';
+
+      const result = await fileStorageService.storeFile({
+        filename: fullFileName,
+        content,
+        content_type: contentType,
+        expires_hours: 24, // Files expire after 24 hours
+        max_downloads: 100 // Allow up to 100 downloads
+      });
+
+      console.log(`Export saved to PostgreSQL storage: ${fullFileName}`);
+      console.log(`Download URL: ${result.downloadUrl}`);
+
+      return { filePath: `PostgreSQL Storage: ${result.fileId}`, downloadUrl: result.downloadUrl };
+    } catch (error) {
+      console.warn('Failed to store in PostgreSQL, falling back to local:', error);
+    }
+  }
+
+  // Local storage fallback
+  const exportsDir = getTenantExportsDir();
+  if (!fs.existsSync(exportsDir)) {
+    fs.mkdirSync(exportsDir, { recursive: true });
+  }
+
+  const filePath = path.join(exportsDir, fullFileName);
+  fs.writeFileSync(filePath, content, 'utf-8');
+  console.log(`Export saved locally: ${filePath}`);
+
+  return { filePath };
+}
+
+function getAgingBucketLabel(daysSinceEnd: number): string {
+  if (daysSinceEnd <= 0) {return 'Current';}
+  if (daysSinceEnd <= 30) {return '1-30 days';}
+  if (daysSinceEnd <= 60) {return '31-60 days';}
+  if (daysSinceEnd <= 90) {return '61-90 days';}
+  return '90+ days';
+}
+
+function escapeCsvValue(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function generateWipCSV(jobs: MappedBillableJob[], fields: string[]): string {
+  const rows = jobs.map(job => [
+    escapeCsvValue(job.customerName),
+    job.jobId,
+    escapeCsvValue(job.jobName),
+    escapeCsvValue(job.projectManagerName || ''),
+    job.jobEndDate ? job.jobEndDate.slice(0, 10) : '',
+    job.daysSinceEnd,
+    getAgingBucketLabel(job.daysSinceEnd),
+    job.priceSale.toFixed(2),
+    job.totalExpenseSale.toFixed(2),
+    job.invoiceDraftSale.toFixed(2),
+    job.unbilledAmount.toFixed(2),
+    job.currencyCode
+  ].join(','));
+
+  return [fields.join(','), ...rows].join('\n');
+}
+
+function generateWipReport(report: WipReport, jobs: MappedBillableJob[]): string {
+  let text = 'UNBILLED WORK (WIP) REPORT\n';
+  text += '='.repeat(50) + '\n\n';
+  text += `Generated: ${new Date(report.generatedAt).toLocaleString()}\n`;
+  text += `Jobs with unbilled work: ${report.jobCount}\n`;
+  text += `Total unbilled: ${report.totalUnbilled.toFixed(2)} ${report.currencyCode}\n\n`;
+
+  text += 'TOP CUSTOMERS:\n';
+  report.byCustomer.slice(0, 10).forEach(group => {
+    text += `  ${group.name}: ${group.unbilledAmount.toFixed(2)} (${group.jobCount} jobs)\n`;
+  });
+
+  text += '\nJOBS:\n';
+  text += '-'.repeat(50) + '\n';
+  jobs.forEach(job => {
+    text += `${job.jobId} ${job.jobName} (${job.customerName})\n`;
+    text += `  Unbilled: ${job.unbilledAmount.toFixed(2)} ${job.currencyCode} - ${getAgingBucketLabel(job.daysSinceEnd)}\n`;
+  });
+
+  return text;
+}
+
+function generateWipStatistics(report: WipReport): string {
+  let text = 'WIP STATISTICS\n';
+  text += '='.repeat(30) + '\n\n';
+  text += `Jobs with unbilled work: ${report.jobCount}\n`;
+  text += `Total unbilled: ${report.totalUnbilled.toFixed(2)} ${report.currencyCode}\n\n`;
+  text += 'AGING (days since job end):\n';
+  text += `  Current: ${report.aging.current.toFixed(2)}\n`;
+  text += `  1-30 days: ${report.aging.days1to30.toFixed(2)}\n`;
+  text += `  31-60 days: ${report.aging.days31to60.toFixed(2)}\n`;
+  text += `  61-90 days: ${report.aging.days61to90.toFixed(2)}\n`;
+  text += `  90+ days: ${report.aging.over90.toFixed(2)}\n\n`;
+  text += `Customers: ${report.byCustomer.length}\n`;
+  text += `Project managers: ${report.byProjectManager.length}\n`;
+
+  return text;
+}
+
+/**
+ * Whether an export call is the unbilled WIP export, chosen explicitly or detected in the user's request
+ */
+export function isWipExport(input: Record<string, unknown>): boolean {
+  return input.exportType === 'wip'
+    || (typeof input.userQuery === 'string' && processUserQuery(input.userQuery).exportType === 'wip');
+}
+
 // Intelligent query processing for natural language requests
 function processUserQuery(query: string): {
   resourceTypes?: number[];
@@ -784,6 +936,11 @@ function processUserQuery(query: string): {
     context.includeCompanyMapping = true;
   }
   
+  // Detect unbilled work-in-progress exports (e.g., "export WIP", "unbilled work to CSV")
+  if (/\bwip\b|unbilled|work in progress/.test(queryLower)) {
+    context.exportType = 'wip';
+  }
+  
   // Detect name filtering patterns (e.g., "starting with A", "beginning with B")
   const nameStartsWithPattern = /(?:starting with|begins? with|beginning with)\s+([A-Za-z])/i;
   const startsWithMatch = query.match(nameStartsWithPattern);
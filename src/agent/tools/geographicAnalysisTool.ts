@@ -1,6 +1,6 @@
 import { createTool } from '@mastra/core/tools';
 import { z } from 'zod';
-import { WorkbookClient, Resource, ToolParameters } from '../../services/index.js';
+import { WorkbookClient, Resource } from '../../services/index.js';
 import { ensureFreshData } from '../../utils/freshnessDetection.js';
 
 
@@ -112,6 +112,7 @@ export function createGeographicAnalysisTool(workbookClient: WorkbookClient) {
       analysisType: z.string(),
       totalResources: z.number(),
       analysisDate: z.string(),
+      dataAsOf: z.string().optional().describe('When the analysed data was last synced from Workbook'),
     
       // Geographic distribution
       locationDistribution: z.object({
@@ -207,14 +208,9 @@ export function createGeographicAnalysisTool(workbookClient: WorkbookClient) {
           territoryCount
         } = context;
 
-        // Build search parameters
-        const searchParams: ToolParameters = {};
-        if (resourceTypes) {searchParams.ResourceType = resourceTypes;}
-        if (active !== undefined) {searchParams.Active = active;}
-
-        // Get data from WorkbookClient
-        console.log('� Fetching resources for geographic analysis...', searchParams);
-        const response = await workbookClient.resources.search(searchParams);
+        // Get data from the resource mirror (live API until it has synced)
+        console.log('� Fetching resources for geographic analysis...', { resourceTypes, active });
+        const response = await workbookClient.mirror.searchResources({ resourceTypes, active });
       
         if (!response.success || !response.data) {
           throw new Error('Failed to fetch resource data');
@@ -317,6 +313,7 @@ export function createGeographicAnalysisTool(workbookClient: WorkbookClient) {
           analysisType,
           totalResources: resources.length,
           analysisDate: new Date().toISOString(),
+          dataAsOf: response.asOf,
           locationDistribution,
           clusters,
           coverage,
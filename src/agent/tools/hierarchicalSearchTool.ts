@@ -1,7 +1,8 @@
 import { createTool } from '@mastra/core/tools';
 import { z } from 'zod';
 import { WorkbookClient } from '../../services/index.js';
-import { ensureFreshData } from '../../utils/freshnessDetection.js';
+import { ensureFreshData, formatFreshness } from '../../utils/freshnessDetection.js';
+import { describeError } from '../../utils/errorGuidance.js';
 
 /**
  * Create hierarchical search tool for the Workbook CRM system
@@ -63,13 +64,13 @@ export function createHierarchicalSearchTool(workbookClient: WorkbookClient) {
         ensureFreshData('hierarchical search', 'hierarchicalSearchTool');
       
         // Get all resources first (use complete dataset)
-        const resourcesResponse = await workbookClient.resources.getAllResourcesComplete();
+        const resourcesResponse = await workbookClient.mirror.getAllResources();
       
         if (!resourcesResponse.success || !resourcesResponse.data) {
           return {
             companies: [],
             totalFound: 0,
-            message: `Error fetching resources: ${resourcesResponse.error}`
+            message: `Error fetching resources: ${describeError(resourcesResponse)}`
           };
         }
 
@@ -96,7 +97,7 @@ export function createHierarchicalSearchTool(workbookClient: WorkbookClient) {
             let contactCount = 0;
           
             if (includeContacts) {
-              const contactsResponse = await workbookClient.resources.getContactsForResource(company.Id);
+              const contactsResponse = await workbookClient.mirror.getContactsForResource(company.Id);
               if (contactsResponse.success && contactsResponse.data) {
                 contactCount = contactsResponse.data.length;
                 contacts = contactsResponse.data.slice(0, 3).map(c => ({
@@ -117,7 +118,7 @@ export function createHierarchicalSearchTool(workbookClient: WorkbookClient) {
           })
         );
       
-        const cacheStatus = resourcesResponse.cached ? ' (cached)' : '';
+        const cacheStatus = formatFreshness(resourcesResponse);
         const message = resourceId
           ? `Found hierarchy for resource ${resourceId}${cacheStatus}`
           : `Retrieved ${companiesWithDetails.length} companies with hierarchy${cacheStatus}`;
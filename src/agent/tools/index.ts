@@ -1,4 +1,15 @@
 import { WorkbookClient } from '../../services/workbookClient.js';
+import { cacheManager } from '../../services/base/cache.js';
+import { createCacheBackend } from '../../services/base/cacheBackends.js';
+import { TenantRegistry } from '../../services/tenants/tenantRegistry.js';
+import { loadTenantProfiles } from '../../services/tenants/tenantProfiles.js';
+import { IdentityResolver } from '../../services/identity/identityResolver.js';
+import { loadRolePolicies } from '../../services/identity/rolePolicies.js';
+import { authorizeTools } from './toolPermissions.js';
+import { auditTools } from './toolAudit.js';
+import { auditLog } from '../../services/audit/auditLog.js';
+import { createAuditStore } from '../../services/audit/auditStore.js';
+import { TenantProfile } from '../../types/workbook.types.js';
 
 /**
  * Initialize all tools with Key Vault configuration
@@ -6,6 +17,8 @@ import { WorkbookClient } from '../../services/workbookClient.js';
  */
 
 let toolsInitialized = false;
+let tenantRegistry: TenantRegistry;
+let identityResolver: IdentityResolver;
 let workbookClient: WorkbookClient;
 let allTools = {};
 
@@ -18,9 +31,34 @@ async function initializeTools() {
   }
 
   console.log('� Initializing all tools with Key Vault...');
-  
-  // Initialize WorkbookClient from Key Vault
-  workbookClient = await WorkbookClient.fromKeyVault();
+
+  // Persistent API cache (WORKBOOK_CACHE_BACKEND=libsql|postgres) so restarts and new instances start warm
+  if (process.env.WORKBOOK_CACHE_BACKEND && process.env.WORKBOOK_TRAFFIC_MODE !== 'replay') {
+    try {
+      await cacheManager.useBackend(await createCacheBackend());
+    } catch (error) {
+      console.error('❌ Failed to attach the cache backend, using the in-memory cache:', error);
+    }
+  }
+
+  // Audit log of every write made through the agent (PostgreSQL in Azure, LibSQL locally); not while replaying
+  if (process.env.WORKBOOK_TRAFFIC_MODE !== 'replay') {
+    try {
+      await auditLog.useStore(await createAuditStore());
+    } catch (error) {
+      console.error('❌ Failed to attach the audit log storage, writes are only logged to the console:', error);
+    }
+  }
+
+  // One WorkbookClient per tenant (WORKBOOK_TENANTS), created on the tenant's first turn; the default
+  // tenant's (else the first tenant's) is created now so bad credentials show at startup. The tools get
+  // a client that routes each call to the client of the current turn's tenant (see withTenant)
+  tenantRegistry = new TenantRegistry(loadTenantProfiles(), createTenantClient);
+  await tenantRegistry.getClient((tenantRegistry.getDefaultProfile() || tenantRegistry.getProfiles()[0]).id);
+  workbookClient = tenantRegistry.createRoutedClient();
+
+  // Teams users map to their Workbook employee; its role decides which write and financial operations they may run
+  identityResolver = new IdentityResolver(loadRolePolicies());
   
   // Import and initialize all tools
   const [
@@ -38,7 +76,13 @@ async function initializeTools() {
     { createPerformanceMonitoringTool },
     { createJobManagementTool },
     { createResourcePlanningTool },
-    { createJobFinancialsTool }
+    { createJobFinancialsTool },
+    { createTimeTrackingTool },
+    { createProjectPlanningTool },
+    { createBillingTool },
+    { createBusinessAnalyticsTool },
+    { createClientProfileTool },
+    { createAuditTool }
   ] = await Promise.all([
     import('./searchTool.js'),
     import('./hierarchicalSearchTool.js'),
@@ -54,16 +98,24 @@ async function initializeTools() {
     import('./performanceMonitoringTool.js'),
     import('./jobManagementTool.js'),
     import('./resourcePlanningTool.js'),
-    import('./jobFinancialsTool.js')
+    import('./jobFinancialsTool.js'),
+    import('./timeTrackingTool.js'),
+    import('./projectPlanningTool.js'),
+    import('./billingTool.js'),
+    import('./businessAnalyticsTool.js'),
+    import('./clientProfileTool.js'),
+    import('./auditTool.js')
   ]);
 
-  // Initialize all tools with the shared WorkbookClient
-  allTools = {
+  // Initialize all tools with the tenant-routed WorkbookClient, gated on the role of the current user;
+  // writes made during a tool call are attributed to it in the audit log
+  allTools = auditTools(authorizeTools({
     // Core search tools
     universalSearchTool: createUniversalSearchTool(workbookClient),
     searchContactsTool: createSearchContactsTool(workbookClient),
     companySearchTool: createCompanySearchTool(workbookClient),
     hierarchicalSearchTool: createHierarchicalSearchTool(workbookClient),
+    clientProfileTool: createClientProfileTool(workbookClient),
     
     // Advanced tools
     advancedFilterTool: createAdvancedFilterTool(workbookClient),
@@ -83,8 +135,15 @@ async function initializeTools() {
     // Job Management tools (Phase 6 - High Quality, Minimal Set)
     jobManagementTool: createJobManagementTool(workbookClient),
     resourcePlanningTool: createResourcePlanningTool(workbookClient),
-    jobFinancialsTool: createJobFinancialsTool(workbookClient)
-  };
+    jobFinancialsTool: createJobFinancialsTool(workbookClient),
+    timeTrackingTool: createTimeTrackingTool(workbookClient),
+    projectPlanningTool: createProjectPlanningTool(workbookClient),
+    billingTool: createBillingTool(workbookClient),
+    businessAnalyticsTool: createBusinessAnalyticsTool(workbookClient),
+
+    // Audit
+    auditTool: createAuditTool()
+  }));
 
   toolsInitialized = true;
   console.log('All tools initialized with Key Vault configuration');
@@ -100,11 +159,70 @@ export async function getAllTools() {
 }
 
 /**
- * Get the shared WorkbookClient instance
+ * Get the tenant-routed WorkbookClient (the default tenant's client outside a turn, if there is one)
  */
 export function getWorkbookClient() {
   if (!workbookClient) {
     throw new Error('Tools not initialized. Call getAllTools() first.');
   }
   return workbookClient;
+}
+
+/**
+ * Get the registry that maps Teams tenants and teams to their Workbook clients
+ */
+export function getTenantRegistry() {
+  if (!tenantRegistry) {
+    throw new Error('Tools not initialized. Call getAllTools() first.');
+  }
+  return tenantRegistry;
+}
+
+/**
+ * Get the resolver that maps Teams users to Workbook employees and their roles
+ */
+export function getIdentityResolver() {
+  if (!identityResolver) {
+    throw new Error('Tools not initialized. Call getAllTools() first.');
+  }
+  return identityResolver;
+}
+
+/**
+ * Create the WorkbookClient of a tenant from Key Vault, against the local simulator for offline development,
+ * or from a recorded conversation to reproduce a bug
+ */
+async function createTenantClient(profile: TenantProfile): Promise<WorkbookClient> {
+  let client: WorkbookClient;
+  if (process.env.WORKBOOK_TRAFFIC_MODE === 'replay' && process.env.WORKBOOK_TRAFFIC_PATH) {
+    client = WorkbookClient.forReplay(process.env.WORKBOOK_TRAFFIC_PATH, profile.id);
+  } else {
+    client = process.env.WORKBOOK_SIMULATOR_URL
+      ? WorkbookClient.forSimulator(process.env.WORKBOOK_SIMULATOR_URL, profile.id)
+      : await WorkbookClient.fromKeyVault(profile);
+  }
+
+  // Local mirror of resources and contacts for the read-only tools; a failure leaves them on the live API
+  if (isMirrorEnabled()) {
+    try {
+      await client.startMirror();
+    } catch (error) {
+      console.error(`❌ Failed to start the resource mirror of ${profile.name}, tools will read from the API:`, error);
+    }
+  }
+
+  return client;
+}
+
+/**
+ * Resource mirror is on in Azure and opt-in locally (WORKBOOK_MIRROR=true); never while replaying a recording
+ */
+function isMirrorEnabled(): boolean {
+  if (process.env.WORKBOOK_TRAFFIC_MODE === 'replay') {
+    return false;
+  }
+  if (process.env.WORKBOOK_MIRROR) {
+    return process.env.WORKBOOK_MIRROR === 'true';
+  }
+  return process.env.NODE_ENV === 'production' || !!process.env.WEBSITE_INSTANCE_ID;
 }
\ No newline at end of file
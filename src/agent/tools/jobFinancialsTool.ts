@@ -1,8 +1,34 @@
 import { createTool } from '@mastra/core/tools';
 import { z } from 'zod';
-import { WorkbookClient } from '../../services/index.js';
+import { WorkbookClient, forecastSeries, shiftMonth, CacheTags } from '../../services/index.js';
 import { MappedDepartmentProfitSplit, MappedDepartment } from '../../types/job-api.types.js';
 import { ensureFreshData } from '../../utils/freshnessDetection.js';
+import { describeError } from '../../utils/errorGuidance.js';
+
+// Normal quantiles for the supported forecast confidence levels
+const CONFIDENCE_Z_SCORES: Record<number, number> = { 80: 1.2816, 90: 1.6449, 95: 1.96 };
+
+const forecastHistorySchema = z.object({
+  month: z.string(),
+  revenue: z.number(),
+  cost: z.number(),
+  grossProfit: z.number(),
+  margin: z.number()
+});
+
+const forecastProjectionSchema = z.object({
+  period: z.string(),
+  periodEnd: z.string(),
+  revenue: z.number(),
+  revenueLow: z.number(),
+  revenueHigh: z.number(),
+  cost: z.number(),
+  costLow: z.number(),
+  costHigh: z.number(),
+  grossProfit: z.number(),
+  margin: z.number(),
+  actualRevenueToDate: z.number()
+});
 
 /**
  * Create job financials tool for cost analysis and profitability tracking
@@ -17,6 +43,7 @@ export function createJobFinancialsTool(workbookClient: WorkbookClient) {
     - Analyze job costs, revenues, and profitability
     - Track budget vs actual spending
     - Generate financial reports and forecasts
+    - Forecast revenue, cost and margin per month/quarter/year with confidence bands for jobs, a client (clientId) or a department
     - Calculate project margins and ROI
     - Monitor billing rates and price optimization
     
@@ -44,6 +71,12 @@ export function createJobFinancialsTool(workbookClient: WorkbookClient) {
       projectId: z.number()
         .optional()
         .describe('Project ID for project-level analysis'),
+      departmentId: z.number()
+        .optional()
+        .describe('Department ID for department-level forecasting'),
+      departmentName: z.string()
+        .optional()
+        .describe('Department name for department-level forecasting (alternative to departmentId)'),
       
       // Time period filters
       startDate: z.string()
@@ -55,6 +88,19 @@ export function createJobFinancialsTool(workbookClient: WorkbookClient) {
       periodType: z.enum(['week', 'month', 'quarter', 'year'])
         .default('month')
         .describe('Time period granularity for analysis'),
+      forecastPeriods: z.number()
+        .min(1)
+        .max(12)
+        .default(3)
+        .describe('Number of periods (of periodType) to forecast, starting with the current period'),
+      historyMonths: z.number()
+        .min(6)
+        .max(36)
+        .default(24)
+        .describe('Months of actuals used to fit the forecast (24+ enables monthly seasonality)'),
+      confidenceLevel: z.union([z.literal(80), z.literal(90), z.literal(95)])
+        .default(80)
+        .describe('Confidence level of the forecast bands (80, 90 or 95 percent)'),
       
       // Financial parameters
       currencyId: z.number()
@@ -177,7 +223,17 @@ export function createJobFinancialsTool(workbookClient: WorkbookClient) {
         forecastedMargin: z.number(),
         completionDate: z.string(),
         riskFactors: z.array(z.string()),
-        recommendations: z.array(z.string())
+        recommendations: z.array(z.string()),
+        scope: z.string().optional(),
+        model: z.object({
+          method: z.string(),
+          historyMonths: z.number(),
+          confidenceLevel: z.number(),
+          revenueTrendPerMonth: z.number(),
+          costTrendPerMonth: z.number()
+        }).optional(),
+        history: z.array(forecastHistorySchema).optional(),
+        projections: z.array(forecastProjectionSchema).optional()
       }).optional(),
       priceOptimization: z.object({
         currentRate: z.number(),
@@ -211,10 +267,17 @@ export function createJobFinancialsTool(workbookClient: WorkbookClient) {
           operation,
           jobId,
           jobIds,
+          clientId,
+          departmentId,
+          departmentName,
           startDate,
           endDate,
           periodType,
+          forecastPeriods,
+          historyMonths,
+          confidenceLevel,
           currencyId,
+          marginThreshold,
           varianceThreshold,
           targetMargin,
           competitiveRate,
@@ -224,7 +287,7 @@ export function createJobFinancialsTool(workbookClient: WorkbookClient) {
         console.log(`💰 Job Financials Tool - Operation: ${operation}`, context);
         
         // Use universal freshness detection (Phase 7A)
-        ensureFreshData(`job financials ${operation}`, 'jobFinancialsTool');
+        ensureFreshData(`job financials ${operation}`, 'jobFinancialsTool', [CacheTags.JOB]);
 
         const currencyName = getCurrencyName(currencyId || 1);
 
@@ -246,7 +309,7 @@ export function createJobFinancialsTool(workbookClient: WorkbookClient) {
             return {
               success: false,
               operation: 'get_costs',
-              message: `❌ Failed to retrieve expenditure summary for job ${jobId}: ${'error' in expenditureResponse ? expenditureResponse.error : 'Unknown error'}`
+              message: `❌ Failed to retrieve expenditure summary for job ${jobId}: ${describeError(expenditureResponse)}`
             };
           }
 
@@ -371,7 +434,7 @@ export function createJobFinancialsTool(workbookClient: WorkbookClient) {
             return {
               success: false,
               operation: 'get_revenue',
-              message: `❌ Failed to retrieve expenditure data for job ${jobId}: ${'error' in expenditureResponse ? expenditureResponse.error : 'Unknown error'}`
+              message: `❌ Failed to retrieve expenditure data for job ${jobId}: ${describeError(expenditureResponse)}`
             };
           }
 
@@ -476,7 +539,7 @@ export function createJobFinancialsTool(workbookClient: WorkbookClient) {
               return {
                 success: false,
                 operation: 'analyze_profitability',
-                message: `❌ Failed to retrieve profitability data for job ${jobId}: ${'error' in expenditureResponse ? expenditureResponse.error : 'Unknown error'}`
+                message: `❌ Failed to retrieve profitability data for job ${jobId}: ${describeError(expenditureResponse)}`
               };
             }
 
@@ -649,7 +712,7 @@ export function createJobFinancialsTool(workbookClient: WorkbookClient) {
             return {
               success: false,
               operation: 'budget_analysis',
-              message: `❌ Failed to retrieve budget data for job ${jobId}: ${'error' in expenditureResponse ? expenditureResponse.error : 'Unknown error'}`
+              message: `❌ Failed to retrieve budget data for job ${jobId}: ${describeError(expenditureResponse)}`
             };
           }
 
@@ -758,7 +821,7 @@ export function createJobFinancialsTool(workbookClient: WorkbookClient) {
             return {
               success: false,
               operation: 'price_optimization',
-              message: `❌ Failed to retrieve price data for job ${jobId}: ${'error' in expenditureResponse ? expenditureResponse.error : 'Unknown error'}`
+              message: `❌ Failed to retrieve price data for job ${jobId}: ${describeError(expenditureResponse)}`
             };
           }
 
@@ -841,117 +904,215 @@ export function createJobFinancialsTool(workbookClient: WorkbookClient) {
         }
 
         case 'financial_forecast': {
-          console.log(`🔮 Creating financial forecast for ${periodType} period using real API data`);
-            
-          // Get real baseline data from API
-          let baseRevenue = 0;
-          let baseCosts = 0;
-          let jobCount = 0;
-          
-          if (jobId) {
-            // Single job forecast
-            const expenditureResponse = await workbookClient.jobs.getExpenditureSummary(jobId);
-            
-            if (!expenditureResponse.success) {
+          const forecastPeriodType = periodType === 'week' ? 'month' : periodType;
+          console.log(`🔮 Creating ${forecastPeriods}-${forecastPeriodType} financial forecast from monthly cube actuals`);
+
+          // Scope: explicit jobs, a client, or a job department
+          const scopeJobIds = jobId ? [jobId] : jobIds && jobIds.length > 0 ? jobIds : undefined;
+          let scopeDepartment: MappedDepartment | undefined;
+          if (departmentId || departmentName) {
+            const departmentsResponse = await workbookClient.jobs.getDepartments(1);
+            const departments = departmentsResponse.success && departmentsResponse.data ? departmentsResponse.data as MappedDepartment[] : [];
+            scopeDepartment = departments.find(dept => departmentId ? dept.id === departmentId : dept.name.toLowerCase() === departmentName!.toLowerCase());
+            if (!scopeDepartment) {
               return {
                 success: false,
                 operation: 'financial_forecast',
-                message: `❌ Failed to retrieve forecast data for job ${jobId}: ${'error' in expenditureResponse ? expenditureResponse.error : 'Unknown error'}`
+                message: `❌ Department ${departmentId || departmentName} not found. Available departments: ${departments.map(dept => `${dept.name} (${dept.id})`).join(', ') || 'none'}`
               };
             }
+          }
 
-            if (Array.isArray(expenditureResponse.data) && expenditureResponse.data.length > 0) {
-              const totalsRow = expenditureResponse.data.find(row => row.rowType === 2 && row.description === 'Total');
-              baseRevenue = totalsRow?.actualPrice || 0;
-              baseCosts = totalsRow?.actualCosts || 0;
-              jobCount = 1;
-            }
-          } else if (jobIds && jobIds.length > 0) {
-            // Portfolio forecast
-            for (const id of jobIds.slice(0, Math.min(jobIds.length, 10))) { // Sample up to 10 jobs
-              const expResponse = await workbookClient.jobs.getExpenditureSummary(id);
-              if (expResponse.success && Array.isArray(expResponse.data) && expResponse.data.length > 0) {
-                const totalsRow = expResponse.data.find(row => row.rowType === 2 && row.description === 'Total');
-                baseRevenue += totalsRow?.actualPrice || 0;
-                baseCosts += totalsRow?.actualCosts || 0;
-                jobCount++;
-              }
-            }
-          } else {
-            // No specific job or portfolio provided
-            // Return message that we need job IDs
+          if (!scopeJobIds && !clientId && !scopeDepartment) {
             return {
               success: false,
               operation: 'financial_forecast',
-              message: 'Financial forecasting requires job IDs. Please provide specific job ID(s) for forecast analysis.'
+              message: 'Financial forecasting needs a scope. Please provide a job ID, job IDs, a client ID or a department.'
             };
           }
 
-          if (baseRevenue === 0 && baseCosts === 0) {
+          const scopeParts: string[] = [];
+          if (scopeJobIds) {
+            scopeParts.push(scopeJobIds.length === 1 ? `job ${scopeJobIds[0]}` : `${scopeJobIds.length} jobs`);
+          }
+          if (clientId) {
+            const clientResponse = await workbookClient.resources.getById(clientId);
+            scopeParts.push(clientResponse.success && clientResponse.data ? `client ${clientResponse.data.Name}` : `client ${clientId}`);
+          }
+          if (scopeDepartment) {
+            scopeParts.push(`department ${scopeDepartment.name}`);
+          }
+          const scope = scopeParts.join(', ');
+
+          // History runs through the last complete month; the current month is forecast
+          const currentMonth = new Date().toISOString().slice(0, 7);
+          const lastActualMonth = shiftMonth(currentMonth, -1);
+          const actualsResponse = await workbookClient.analytics.getMonthlyActuals({
+            fromMonth: shiftMonth(currentMonth, -historyMonths),
+            toMonth: lastActualMonth,
+            jobIds: scopeJobIds,
+            customerId: clientId,
+            departmentName: scopeDepartment?.name
+          });
+
+          if (!actualsResponse.success || !actualsResponse.data) {
             return {
               success: false,
               operation: 'financial_forecast',
-              message: '❌ No historical data available for forecasting. Please ensure the job(s) have financial data.'
+              message: `❌ Failed to build monthly actuals for ${scope}: ${describeError(actualsResponse)}`
             };
           }
 
-          // Calculate growth rates based on period and current performance
-          const currentMargin = baseRevenue > 0 ? ((baseRevenue - baseCosts) / baseRevenue) * 100 : 0;
-          
-          // Adjust growth rate based on current performance
-          let revenueGrowthRate = 1.0;
-          let costEfficiencyRate = 1.0;
-          
-          if (periodType === 'year') {
-            revenueGrowthRate = currentMargin > 20 ? 1.15 : currentMargin > 10 ? 1.10 : 1.05;
-            costEfficiencyRate = 0.97; // 3% efficiency gain
-          } else if (periodType === 'quarter') {
-            revenueGrowthRate = currentMargin > 20 ? 1.08 : currentMargin > 10 ? 1.05 : 1.02;
-            costEfficiencyRate = 0.99; // 1% efficiency gain
-          } else { // month
-            revenueGrowthRate = currentMargin > 20 ? 1.03 : currentMargin > 10 ? 1.02 : 1.01;
-            costEfficiencyRate = 0.997; // 0.3% efficiency gain
+          const actuals = actualsResponse.data;
+          const actualsByMonth = new Map(actuals.map(actual => [actual.month, actual]));
+          // Leading months without activity are before the scope existed and would flatten the trend
+          const firstActiveIndex = actuals.findIndex(actual => actual.revenue !== 0 || actual.cost !== 0);
+          const history = firstActiveIndex >= 0 ? actuals.slice(firstActiveIndex) : [];
+
+          if (history.length === 0) {
+            return {
+              success: false,
+              operation: 'financial_forecast',
+              message: `❌ No historical data available for ${scope} in the last ${historyMonths} months. Please ensure the scope has financial activity.`
+            };
           }
 
-          // Apply forecast model
-          const forecastedRevenue = baseRevenue * revenueGrowthRate;
-          const forecastedCosts = baseCosts * costEfficiencyRate;
+          const periods = getForecastPeriods(currentMonth, forecastPeriodType, forecastPeriods);
+          const lastForecastMonth = periods[periods.length - 1].months[periods[periods.length - 1].months.length - 1];
+          const horizon = getMonthsBetween(lastActualMonth, lastForecastMonth);
+          const z = CONFIDENCE_Z_SCORES[confidenceLevel] || CONFIDENCE_Z_SCORES[80];
+          const firstMonthOfYear = Number(history[0].month.slice(5, 7)) - 1;
+
+          const revenueForecast = forecastSeries(history.map(month => month.revenue), firstMonthOfYear, horizon, z);
+          const costForecast = forecastSeries(history.map(month => month.cost), firstMonthOfYear, horizon, z);
+
+          // Sum actual months and projected months per period; bands combine the projected months' errors
+          const projections = periods.map(period => {
+            let revenue = 0;
+            let cost = 0;
+            let revenueVariance = 0;
+            let costVariance = 0;
+            let actualRevenueToDate = 0;
+
+            period.months.forEach(month => {
+              const actual = actualsByMonth.get(month);
+              if (month <= lastActualMonth) {
+                revenue += actual?.revenue || 0;
+                cost += actual?.cost || 0;
+                actualRevenueToDate += actual?.revenue || 0;
+                return;
+              }
+              const step = getMonthsBetween(lastActualMonth, month) - 1;
+              revenue += Math.max(revenueForecast.points[step].value, 0);
+              cost += Math.max(costForecast.points[step].value, 0);
+              revenueVariance += revenueForecast.points[step].standardError ** 2;
+              costVariance += costForecast.points[step].standardError ** 2;
+            });
+
+            const revenueBand = z * Math.sqrt(revenueVariance);
+            const costBand = z * Math.sqrt(costVariance);
+
+            return {
+              period: period.label,
+              periodEnd: period.end,
+              revenue: roundAmount(revenue),
+              revenueLow: roundAmount(Math.max(revenue - revenueBand, actualRevenueToDate)),
+              revenueHigh: roundAmount(revenue + revenueBand),
+              cost: roundAmount(cost),
+              costLow: roundAmount(Math.max(cost - costBand, 0)),
+              costHigh: roundAmount(cost + costBand),
+              grossProfit: roundAmount(revenue - cost),
+              margin: revenue > 0 ? roundAmount(((revenue - cost) / revenue) * 100) : 0,
+              actualRevenueToDate: roundAmount(actualRevenueToDate)
+            };
+          });
+
+          const forecastedRevenue = projections.reduce((sum, projection) => sum + projection.revenue, 0);
+          const forecastedCosts = projections.reduce((sum, projection) => sum + projection.cost, 0);
           const forecastedMargin = forecastedRevenue > 0 ? ((forecastedRevenue - forecastedCosts) / forecastedRevenue) * 100 : 0;
+          const historyRevenue = history.reduce((sum, month) => sum + month.revenue, 0);
+          const averageMonthlyRevenue = historyRevenue / history.length;
+
+          const riskFactors: string[] = [];
+          const recommendations: string[] = [];
+
+          if (revenueForecast.method !== 'seasonal_trend') {
+            riskFactors.push(`Only ${history.length} months of history - seasonality is not modelled (needs 24)`);
+          }
+          if (averageMonthlyRevenue > 0 && revenueForecast.residualStdDev > averageMonthlyRevenue * 0.5) {
+            riskFactors.push(`Volatile monthly revenue (±${Math.round(revenueForecast.residualStdDev).toLocaleString()} ${currencyName} per month) - wide confidence bands`);
+          }
+          if (revenueForecast.slope < 0) {
+            riskFactors.push(`Revenue trending down by ${Math.abs(Math.round(revenueForecast.slope)).toLocaleString()} ${currencyName} per month`);
+            recommendations.push('Review the pipeline - declining revenue trend needs new work to offset it');
+          }
+          if (costForecast.slope > 0 && costForecast.slope > revenueForecast.slope) {
+            riskFactors.push('Costs are growing faster than revenue');
+            recommendations.push('Investigate cost growth against billable output before it erodes margin');
+          }
+          if (forecastedMargin < marginThreshold) {
+            riskFactors.push(`Projected margin ${Math.round(forecastedMargin * 10) / 10}% is below the ${marginThreshold}% threshold`);
+            recommendations.push('Priority: Improve pricing or reduce delivery costs to restore margins');
+          }
+
+          // For explicit jobs the expenditure summary shows how much quoted budget is left to earn
+          if (scopeJobIds) {
+            let remainingBudget = 0;
+            let quotedJobs = 0;
+            for (const id of scopeJobIds.slice(0, limit)) {
+              const expenditureResponse = await workbookClient.jobs.getExpenditureSummary(id);
+              if (expenditureResponse.success && Array.isArray(expenditureResponse.data)) {
+                const totalsRow = expenditureResponse.data.find(row => row.rowType === 2 && row.description === 'Total');
+                if (totalsRow?.quotedPrice) {
+                  remainingBudget += Math.max(totalsRow.quotedPrice - (totalsRow.actualPrice || 0), 0);
+                  quotedJobs++;
+                }
+              }
+            }
+            const projectedFutureRevenue = projections.reduce((sum, projection) => sum + projection.revenue - projection.actualRevenueToDate, 0);
+            if (quotedJobs > 0 && projectedFutureRevenue > remainingBudget) {
+              riskFactors.push(`Projected revenue exceeds the remaining quoted budget (${Math.round(remainingBudget).toLocaleString()} ${currencyName}) by ${Math.round(projectedFutureRevenue - remainingBudget).toLocaleString()} ${currencyName}`);
+              recommendations.push('Agree a budget extension or change request with the client before the quote is exhausted');
+            }
+          }
+
+          if (recommendations.length === 0) {
+            recommendations.push('Forecast is on track - re-run monthly as new actuals arrive');
+          }
+          if (periodType === 'week') {
+            recommendations.push('Weekly forecasts are not supported - projections are monthly');
+          }
+
+          const nextPeriod = projections[0];
 
-          // Calculate completion date
-          const daysToAdd = periodType === 'year' ? 365 : periodType === 'quarter' ? 90 : 30;
-          const completionDate = new Date(Date.now() + daysToAdd * 24 * 60 * 60 * 1000);
-
-          // Dynamic risk factors based on current performance
-          const riskFactors = [];
-          if (currentMargin < 10) {riskFactors.push('Low current margins increase financial risk');}
-          if (baseCosts > baseRevenue * 0.8) {riskFactors.push('High cost ratio threatens profitability');}
-          if (jobCount === 1) {riskFactors.push('Single job dependency creates concentration risk');}
-          riskFactors.push('Market competition may pressure pricing');
-          riskFactors.push('Resource availability constraints');
-          if (currentMargin < 0) {riskFactors.push('CRITICAL: Current unprofitability requires immediate action');}
-
-          // Dynamic recommendations based on data
-          const recommendations = [];
-          if (currentMargin < 15) {recommendations.push('Priority: Improve pricing strategy to increase margins');}
-          if (baseCosts > 0) {recommendations.push(`Target ${Math.round(costEfficiencyRate * 100 - 100)}% cost reduction through process optimization`);}
-          if (currentMargin > 25) {recommendations.push('Excellent margins - consider scaling operations');}
-          recommendations.push('Focus on high-margin service offerings');
-          if (jobCount > 1) {recommendations.push(`Diversified across ${jobCount} jobs - maintain portfolio balance`);}
-          recommendations.push('Build financial reserves for market volatility');
-            
           return {
             success: true,
             operation: 'financial_forecast',
-            message: `✅ Financial forecast completed for ${periodType} period based on ${jobCount} job(s) real data`,
+            message: `✅ Financial forecast for ${scope}: ${forecastPeriods} ${forecastPeriodType}(s) from ${history.length} months of actuals (${revenueForecast.method.replace('_', ' ')}, ${confidenceLevel}% confidence). ${nextPeriod.period}: revenue ${nextPeriod.revenue.toLocaleString()} ${currencyName} (${nextPeriod.revenueLow.toLocaleString()} - ${nextPeriod.revenueHigh.toLocaleString()}), margin ${nextPeriod.margin}%`,
             forecast: {
-              period: `${periodType} - ${new Date().toISOString().slice(0, 7)}`,
-              forecastedRevenue: Math.round(forecastedRevenue * 100) / 100,
-              forecastedCosts: Math.round(forecastedCosts * 100) / 100,
-              forecastedMargin: Math.round(forecastedMargin * 100) / 100,
-              completionDate: completionDate.toISOString(),
-              riskFactors: riskFactors,
-              recommendations: recommendations
+              period: `${projections[0].period} to ${projections[projections.length - 1].period}`,
+              forecastedRevenue: roundAmount(forecastedRevenue),
+              forecastedCosts: roundAmount(forecastedCosts),
+              forecastedMargin: roundAmount(forecastedMargin),
+              completionDate: projections[projections.length - 1].periodEnd,
+              riskFactors,
+              recommendations,
+              scope,
+              model: {
+                method: revenueForecast.method,
+                historyMonths: history.length,
+                confidenceLevel,
+                revenueTrendPerMonth: revenueForecast.slope,
+                costTrendPerMonth: costForecast.slope
+              },
+              history: history.map(month => ({
+                month: month.month,
+                revenue: month.revenue,
+                cost: month.cost,
+                grossProfit: month.grossProfit,
+                margin: month.revenue > 0 ? roundAmount((month.grossProfit / month.revenue) * 100) : 0
+              })),
+              projections
             }
           };
         }
@@ -984,7 +1145,7 @@ export function createJobFinancialsTool(workbookClient: WorkbookClient) {
             return {
               success: false,
               operation: 'department_breakdown',
-              message: `❌ Failed to retrieve department breakdown for job ${jobId}: ${'error' in deptBreakdownResponse ? deptBreakdownResponse.error : 'Unknown error'}`
+              message: `❌ Failed to retrieve department breakdown for job ${jobId}: ${describeError(deptBreakdownResponse)}`
             };
           }
 
@@ -1132,4 +1293,41 @@ function getCurrencyName(currencyId: number): string {
     5: 'EUR'
   };
   return currencyMap[currencyId] || 'Unknown';
+}
+
+/**
+ * Calendar periods to forecast, starting with the period containing the current month
+ */
+function getForecastPeriods(currentMonth: string, periodType: 'month' | 'quarter' | 'year', count: number): Array<{ label: string; months: string[]; end: string }> {
+  const periodLength = periodType === 'year' ? 12 : periodType === 'quarter' ? 3 : 1;
+  const monthIndex = Number(currentMonth.slice(5, 7)) - 1;
+  let periodStart = shiftMonth(currentMonth, -(monthIndex % periodLength));
+
+  const periods: Array<{ label: string; months: string[]; end: string }> = [];
+  for (let i = 0; i < count; i++) {
+    const months = Array.from({ length: periodLength }, (_, offset) => shiftMonth(periodStart, offset));
+    const year = periodStart.slice(0, 4);
+    const label = periodType === 'year'
+      ? year
+      : periodType === 'quarter'
+        ? `${year}-Q${Math.floor((Number(periodStart.slice(5, 7)) - 1) / 3) + 1}`
+        : periodStart;
+    const [endYear, endMonth] = months[months.length - 1].split('-').map(Number);
+    periods.push({ label, months, end: new Date(Date.UTC(endYear, endMonth, 0)).toISOString().slice(0, 10) });
+    periodStart = shiftMonth(periodStart, periodLength);
+  }
+  return periods;
+}
+
+/**
+ * Number of months from one YYYY-MM month to a later one
+ */
+function getMonthsBetween(fromMonth: string, toMonth: string): number {
+  const [fromYear, fromMonthNumber] = fromMonth.split('-').map(Number);
+  const [toYear, toMonthNumber] = toMonth.split('-').map(Number);
+  return (toYear - fromYear) * 12 + (toMonthNumber - fromMonthNumber);
+}
+
+function roundAmount(value: number): number {
+  return Math.round(value * 100) / 100;
 }
\ No newline at end of file
@@ -1,9 +1,11 @@
 import { createTool } from '@mastra/core/tools';
 import { z } from 'zod';
-import { WorkbookClient } from '../../services/index.js';
+import { WorkbookClient, CacheTags } from '../../services/index.js';
 import { JobStatus } from '../../types/workbook.types.js';
-import { MappedJobTeamMember, MappedJobType } from '../../types/job-api.types.js';
+import { MappedJobTeamMember, MappedJobType, MappedTaskData, JobTeamChange } from '../../types/job-api.types.js';
+import { ResourceTypes } from '../../constants/resourceTypes.js';
 import { ensureFreshData } from '../../utils/freshnessDetection.js';
+import { describeError } from '../../utils/errorGuidance.js';
 
 /**
  * Create job management tool for core job operations
@@ -18,7 +20,10 @@ export function createJobManagementTool(workbookClient: WorkbookClient) {
     - Create new jobs and projects
     - Update job status and information
     - Get job details and information
-    - Manage job team assignments
+    - List jobs filtered by client, project manager, status, job type, department, tag or date window
+      (e.g. "show my active jobs ending this month": list with responsibleResourceId, dateField "end" and the month as dateFrom/dateTo)
+    - Manage job team assignments: add and remove members, set role, default task and hourly price
+      (assign_team always returns a preview first; call it again with confirmed: true to apply)
     - Job status tracking and monitoring
     
     DO NOT USE for:
@@ -43,16 +48,16 @@ export function createJobManagementTool(workbookClient: WorkbookClient) {
         .describe('Name of the job (required for create)'),
       clientId: z.number()
         .optional()
-        .describe('Client company ID (required for create)'),
+        .describe('Client company ID (required for create, filters list)'),
       projectId: z.number()
         .optional()
-        .describe('Project ID this job belongs to'),
+        .describe('Project ID this job belongs to (filters list)'),
       responsibleResourceId: z.number()
         .optional()
-        .describe('Employee ID responsible for this job'),
+        .describe('Employee ID responsible for this job (project manager filter for list)'),
       statusId: z.number()
         .optional()
-        .describe('Job status ID (1=Draft, 2=Active, 3=Completed, 4=Cancelled, 5=On Hold)'),
+        .describe('Job status ID (1=Draft, 2=Active, 3=Completed, 4=Cancelled, 5=On Hold); filters list and overrides activeOnly'),
       startDate: z.string()
         .optional()
         .describe('Job start date (ISO format)'),
@@ -66,7 +71,22 @@ export function createJobManagementTool(workbookClient: WorkbookClient) {
       // Team assignment
       teamMemberIds: z.array(z.number())
         .optional()
-        .describe('Array of resource IDs to assign to the job team'),
+        .describe('Array of resource IDs to add to the job team'),
+      removeMemberIds: z.array(z.number())
+        .optional()
+        .describe('Array of resource IDs to remove from the job team'),
+      memberSettings: z.array(z.object({
+        resourceId: z.number(),
+        roleId: z.number().optional(),
+        defaultTaskId: z.number().optional(),
+        hourlySalePrice: z.number().min(0).optional(),
+        bonusPart: z.boolean().optional()
+      }))
+        .optional()
+        .describe('Role, default task and hourly sale price per member; members not yet on the team are added'),
+      confirmed: z.boolean()
+        .default(false)
+        .describe('Apply the team changes (assign_team returns a preview until confirmed)'),
       
       // Advanced patch fields (for patch operation)
       patchFields: z.record(z.any())
@@ -77,11 +97,39 @@ export function createJobManagementTool(workbookClient: WorkbookClient) {
       activeOnly: z.boolean()
         .default(true)
         .describe('Filter to only active jobs (for list operation)'),
+      jobTypeId: z.number()
+        .optional()
+        .describe('Job type ID filter (for list operation)'),
+      departmentId: z.number()
+        .optional()
+        .describe('Company department ID filter (for list operation)'),
+      tagId: z.number()
+        .optional()
+        .describe('Tag ID filter (for list operation)'),
+      dateFrom: z.string()
+        .optional()
+        .describe('Start of the date window, YYYY-MM-DD (for list operation)'),
+      dateTo: z.string()
+        .optional()
+        .describe('End of the date window, YYYY-MM-DD (for list operation)'),
+      dateField: z.enum(['start', 'end', 'overlap'])
+        .default('overlap')
+        .describe('Which job dates the window applies to: start date, end date, or any overlap with the job period (for list operation)'),
+      sortBy: z.enum(['endDate', 'startDate', 'name', 'customer', 'id'])
+        .default('endDate')
+        .describe('Sort field (for list operation)'),
+      sortDirection: z.enum(['asc', 'desc'])
+        .default('asc')
+        .describe('Sort direction (for list operation)'),
+      page: z.number()
+        .min(1)
+        .default(1)
+        .describe('Page number, 1-based (for list operation)'),
       limit: z.number()
         .min(1)
         .max(100)
         .default(10)
-        .describe('Maximum number of jobs to return (for list operation)')
+        .describe('Maximum number of jobs to return per page (for list operation)')
     }),
 
     outputSchema: z.object({
@@ -109,18 +157,48 @@ export function createJobManagementTool(workbookClient: WorkbookClient) {
       jobs: z.array(z.object({
         id: z.number(),
         name: z.string(),
+        clientId: z.number().optional(),
         clientName: z.string(),
+        statusId: z.number().optional(),
         statusName: z.string(),
+        responsibleResourceId: z.number().optional(),
         responsibleEmployeeName: z.string().optional(),
         startDate: z.string().optional(),
         endDate: z.string().optional()
       })).optional(),
+      paging: z.object({
+        page: z.number(),
+        pageSize: z.number(),
+        pageCount: z.number(),
+        totalCount: z.number()
+      }).optional(),
       team: z.array(z.object({
         resourceId: z.number(),
         resourceName: z.string(),
         jobAccess: z.boolean(),
-        bonusPart: z.boolean()
-      })).optional()
+        bonusPart: z.boolean(),
+        roleId: z.number().optional(),
+        defaultTaskId: z.number().optional(),
+        hourlySalePrice: z.number().optional()
+      })).optional(),
+      teamPreview: z.array(z.object({
+        resourceId: z.number(),
+        resourceName: z.string(),
+        action: z.enum(['add', 'update', 'remove']),
+        proposedChange: z.string(),
+        valid: z.boolean(),
+        issue: z.string().optional()
+      })).optional(),
+      executed: z.boolean().optional(),
+      results: z.object({
+        successful: z.array(z.number()),
+        failed: z.array(z.object({
+          id: z.number(),
+          error: z.string()
+        })),
+        successCount: z.number(),
+        failureCount: z.number()
+      }).optional()
     }),
 
     execute: async ({ context }) => {
@@ -137,15 +215,27 @@ export function createJobManagementTool(workbookClient: WorkbookClient) {
           endDate,
           description,
           teamMemberIds,
+          removeMemberIds,
+          memberSettings,
+          confirmed,
           patchFields,
           activeOnly,
+          jobTypeId,
+          departmentId,
+          tagId,
+          dateFrom,
+          dateTo,
+          dateField,
+          sortBy,
+          sortDirection,
+          page,
           limit
         } = context;
 
         console.log(`🏢 Job Management Tool - Operation: ${operation}`, context);
         
         // Use universal freshness detection (Phase 7A)
-        ensureFreshData(`job management ${operation}`, 'jobManagementTool');
+        ensureFreshData(`job management ${operation}`, 'jobManagementTool', [CacheTags.JOB]);
 
         switch (operation) {
         case 'create': {
@@ -185,7 +275,7 @@ export function createJobManagementTool(workbookClient: WorkbookClient) {
             return {
               success: false,
               operation: 'create',
-              message: `❌ Failed to create job: ${'error' in createResponse ? createResponse.error : 'Unknown error'}`
+              message: `❌ Failed to create job: ${describeError(createResponse)}`
             };
           }
 
@@ -245,7 +335,7 @@ export function createJobManagementTool(workbookClient: WorkbookClient) {
             return {
               success: false,
               operation: 'get',
-              message: `❌ Failed to retrieve job details for ID ${jobId}: ${'error' in jobResponse ? jobResponse.error : 'Unknown error'}`
+              message: `❌ Failed to retrieve job details for ID ${jobId}: ${describeError(jobResponse)}`
             };
           }
 
@@ -304,35 +394,73 @@ export function createJobManagementTool(workbookClient: WorkbookClient) {
         }
 
         case 'list': {
-          console.log(`📋 Listing jobs - Active only: ${activeOnly}, Limit: ${limit}`);
-            
-          // Simulate job list - would call actual API
-          const sampleJobs = [
-            {
-              id: 11133,
-              name: 'Website Redesign Project',
-              clientName: 'ADECCO',
-              statusName: 'Active',
-              responsibleEmployeeName: 'Jacob Kildebogaard',
-              startDate: '2025-08-01T00:00:00.000Z',
-              endDate: '2025-11-30T00:00:00.000Z'
-            },
-            {
-              id: 11134,
-              name: 'Marketing Campaign',
-              clientName: 'TechCorp',
-              statusName: 'Draft',
-              responsibleEmployeeName: 'Anders Dohrn',
-              startDate: '2025-09-01T00:00:00.000Z',
-              endDate: '2025-10-15T00:00:00.000Z'
+          const statusIds = statusId ? [statusId] : activeOnly ? [JobStatus.ACTIVE] : undefined;
+          console.log('📋 Listing jobs:', { clientId, responsibleResourceId, statusIds, jobTypeId, departmentId, tagId, dateFrom, dateTo, dateField, sortBy, sortDirection, page, limit });
+
+          const searchResponse = await workbookClient.jobs.searchJobs({
+            customerId: clientId,
+            responsibleId: responsibleResourceId,
+            statusIds,
+            jobTypeId,
+            departmentId,
+            tagId,
+            projectId,
+            dateFrom,
+            dateTo,
+            dateField,
+            sortBy,
+            sortDirection,
+            page,
+            pageSize: limit
+          });
+
+          if (!searchResponse.success || !searchResponse.data) {
+            return {
+              success: false,
+              operation: 'list',
+              message: `❌ Failed to list jobs: ${describeError(searchResponse, 'No job data received')}`
+            };
+          }
+
+          const { jobs, totalCount, pageCount, pageSize } = searchResponse.data;
+
+          // Resolve project manager names for the jobs on this page
+          const responsibleIds = [...new Set(jobs.map(job => job.responsibleId).filter(id => id > 0))];
+          const responsibleNames = new Map<number, string>();
+          if (responsibleIds.length > 0) {
+            const resourcesResponse = await workbookClient.resources.getBulkByIds(responsibleIds);
+            if (resourcesResponse.success && resourcesResponse.data) {
+              resourcesResponse.data.forEach(resource => responsibleNames.set(resource.Id, resource.Name));
             }
-          ];
+          }
+
+          const dateWindow = dateFrom || dateTo ? ` (${dateField} ${dateFrom || '…'} to ${dateTo || '…'})` : '';
+          const pageInfo = pageCount > 1 ? `, showing page ${page} of ${pageCount}` : '';
 
           return {
             success: true,
             operation: 'list',
-            message: `✅ Found ${sampleJobs.length} jobs`,
-            jobs: sampleJobs.slice(0, limit)
+            message: totalCount === 0
+              ? `⚠️ No jobs match the filters${dateWindow}`
+              : `✅ Found ${totalCount} jobs${dateWindow}${pageInfo}`,
+            jobs: jobs.map(job => ({
+              id: job.id,
+              name: job.jobName,
+              clientId: job.customerId,
+              clientName: job.customerName,
+              statusId: job.statusId,
+              statusName: getJobStatusName(job.statusId),
+              responsibleResourceId: job.responsibleId,
+              responsibleEmployeeName: responsibleNames.get(job.responsibleId),
+              startDate: job.startDate,
+              endDate: job.endDate
+            })),
+            paging: {
+              page,
+              pageSize,
+              pageCount,
+              totalCount
+            }
           };
         }
 
@@ -353,7 +481,7 @@ export function createJobManagementTool(workbookClient: WorkbookClient) {
             return {
               success: false,
               operation: 'get_team',
-              message: `❌ Failed to retrieve team for job ${jobId}: ${'error' in teamResponse ? teamResponse.error : 'Unknown error'}`
+              message: `❌ Failed to retrieve team for job ${jobId}: ${describeError(teamResponse)}`
             };
           }
 
@@ -395,25 +523,123 @@ export function createJobManagementTool(workbookClient: WorkbookClient) {
         }
 
         case 'assign_team': {
-          if (!jobId || !teamMemberIds || teamMemberIds.length === 0) {
+          const addIds = teamMemberIds || [];
+          const removeIds = removeMemberIds || [];
+          const settings = memberSettings || [];
+          if (!jobId || (addIds.length === 0 && removeIds.length === 0 && settings.length === 0)) {
             return {
               success: false,
               operation: 'assign_team',
-              message: 'Job ID and team member IDs are required for team assignment'
+              message: 'Job ID and team members to add, remove or update are required for team assignment'
             };
           }
 
-          console.log(`👥 Assigning team to job ${jobId}:`, teamMemberIds);
-            
+          console.log(`👥 Team changes for job ${jobId}:`, { addIds, removeIds, settings, confirmed });
+
+          const [teamResponse, tasksResponse] = await Promise.all([
+            workbookClient.jobs.getJobTeam(jobId),
+            workbookClient.jobs.getJobTasks(jobId)
+          ]);
+          if (!teamResponse.success || !teamResponse.data) {
+            return {
+              success: false,
+              operation: 'assign_team',
+              message: `❌ Failed to retrieve current team for job ${jobId}: ${describeError(teamResponse)}`
+            };
+          }
+
+          const currentTeam = new Map((teamResponse.data as MappedJobTeamMember[]).map(member => [member.resourceId, member]));
+          const jobTaskIds = new Set(tasksResponse.success && tasksResponse.data ? (tasksResponse.data as MappedTaskData[]).map(task => task.id) : []);
+
+          // One change per resource; removal wins over add and settings
+          const changes = new Map<number, JobTeamChange>();
+          addIds.forEach(resourceId => changes.set(resourceId, { action: currentTeam.has(resourceId) ? 'update' : 'add', resourceId }));
+          settings.forEach(setting => changes.set(setting.resourceId, {
+            ...changes.get(setting.resourceId),
+            ...setting,
+            action: currentTeam.has(setting.resourceId) ? 'update' : 'add'
+          }));
+          removeIds.forEach(resourceId => changes.set(resourceId, { action: 'remove', resourceId }));
+
+          const resourcesResponse = await workbookClient.resources.getBulkByIds([...changes.keys()]);
+          const resources = new Map((resourcesResponse.success && resourcesResponse.data ? resourcesResponse.data : []).map(resource => [resource.Id, resource]));
+
+          const preview = [...changes.values()].map(change => {
+            const resource = resources.get(change.resourceId);
+            const member = currentTeam.get(change.resourceId);
+            const resourceName = resource?.Name || `Resource ${change.resourceId}`;
+            const issue = getTeamChangeIssue(change, resource?.TypeId, resource?.Active, Boolean(member), jobTaskIds, tasksResponse.success);
+
+            return {
+              resourceId: change.resourceId,
+              resourceName,
+              action: change.action,
+              proposedChange: describeTeamChange(change, member),
+              valid: !issue,
+              issue
+            };
+          });
+
+          const validChanges = [...changes.values()].filter((_change, index) => preview[index].valid);
+          const invalidCount = preview.length - validChanges.length;
+
+          if (!confirmed) {
+            return {
+              success: true,
+              operation: 'assign_team',
+              message: `👥 Preview of ${preview.length} team changes for job ${jobId}${invalidCount > 0 ? ` (⚠️ ${invalidCount} will be skipped)` : ''}. Review the changes and confirm to apply them.`,
+              teamPreview: preview,
+              executed: false
+            };
+          }
+
+          if (validChanges.length === 0) {
+            return {
+              success: false,
+              operation: 'assign_team',
+              message: `❌ None of the team changes for job ${jobId} can be applied`,
+              teamPreview: preview,
+              executed: false
+            };
+          }
+
+          const applyResponse = await workbookClient.jobs.applyTeamChanges(jobId, validChanges);
+          if (!applyResponse.success || !applyResponse.data) {
+            return {
+              success: false,
+              operation: 'assign_team',
+              message: `❌ Failed to update team for job ${jobId}: ${describeError(applyResponse)}`,
+              teamPreview: preview,
+              executed: false
+            };
+          }
+
+          const { successful, failed, team } = applyResponse.data;
+          const results = {
+            successful: successful.map(change => change.resourceId),
+            failed: [
+              ...failed.map(change => ({ id: change.resourceId, error: change.error })),
+              ...preview.filter(change => !change.valid).map(change => ({ id: change.resourceId, error: change.issue || 'Invalid change' }))
+            ],
+            successCount: successful.length,
+            failureCount: 0
+          };
+          results.failureCount = results.failed.length;
+
           return {
-            success: true,
+            success: results.failureCount === 0,
             operation: 'assign_team',
-            message: `✅ Successfully assigned ${teamMemberIds.length} team members to job ${jobId}! Note: This is a simulation - actual team assignment requires API implementation.`,
-            team: teamMemberIds.map(resourceId => ({
-              resourceId,
-              resourceName: `Employee ${resourceId}`,
-              jobAccess: true,
-              bonusPart: false
+            message: `${results.failureCount === 0 ? '✅' : '⚠️'} Team changes for job ${jobId} applied: ${results.successCount} successful, ${results.failureCount} failed`,
+            executed: true,
+            results,
+            team: team.map(member => ({
+              resourceId: member.resourceId,
+              resourceName: resources.get(member.resourceId)?.Name || `Resource ${member.resourceId}`,
+              jobAccess: member.jobAccess,
+              bonusPart: member.bonusPart,
+              roleId: member.roleId,
+              defaultTaskId: member.defaultTaskId,
+              hourlySalePrice: member.hourlySalePrice
             }))
           };
         }
@@ -444,7 +670,7 @@ export function createJobManagementTool(workbookClient: WorkbookClient) {
             return {
               success: false,
               operation: 'update',
-              message: `❌ Failed to update job ${jobId}: ${'error' in updateResponse ? updateResponse.error : 'Unknown error'}`
+              message: `❌ Failed to update job ${jobId}: ${describeError(updateResponse)}`
             };
           }
 
@@ -521,7 +747,7 @@ export function createJobManagementTool(workbookClient: WorkbookClient) {
             return {
               success: false,
               operation: 'patch',
-              message: `❌ Failed to patch job ${jobId}: ${'error' in patchResponse ? patchResponse.error : 'Unknown error'}`
+              message: `❌ Failed to patch job ${jobId}: ${describeError(patchResponse)}`
             };
           }
 
@@ -585,4 +811,55 @@ function getJobStatusName(statusId: number): string {
   case JobStatus.ON_HOLD: return 'On Hold';
   default: return 'Unknown';
   }
+}
+
+/**
+ * Explain why a team change cannot be applied, or return undefined when it can
+ * Members added or updated must be active employees; default tasks must belong to the job
+ */
+function getTeamChangeIssue(
+  change: JobTeamChange,
+  typeId: number | undefined,
+  active: boolean | undefined,
+  isMember: boolean,
+  jobTaskIds: Set<number>,
+  tasksLoaded: boolean
+): string | undefined {
+  if (change.action === 'remove') {
+    return isMember ? undefined : 'Not on the job team';
+  }
+  if (typeId === undefined) {
+    return 'Resource not found';
+  }
+  if (typeId !== ResourceTypes.EMPLOYEE) {
+    return 'Only employees can be assigned to a job team';
+  }
+  if (active === false) {
+    return 'Employee is inactive';
+  }
+  if (change.defaultTaskId !== undefined && tasksLoaded && !jobTaskIds.has(change.defaultTaskId)) {
+    return `Task ${change.defaultTaskId} does not belong to this job`;
+  }
+  return undefined;
+}
+
+/**
+ * Describe a team change for the preview, showing current → new values for updates
+ */
+function describeTeamChange(change: JobTeamChange, member: MappedJobTeamMember | undefined): string {
+  if (change.action === 'remove') {
+    return 'Will be removed from the team';
+  }
+
+  const details = [
+    change.roleId !== undefined ? `role: ${member?.roleId ?? 'none'} → ${change.roleId}` : undefined,
+    change.defaultTaskId !== undefined ? `default task: ${member?.defaultTaskId ?? 'none'} → ${change.defaultTaskId}` : undefined,
+    change.hourlySalePrice !== undefined ? `hourly price: ${member?.hourlySalePrice ?? 'none'} → ${change.hourlySalePrice}` : undefined,
+    change.bonusPart !== undefined ? `bonus part: ${member?.bonusPart ?? false} → ${change.bonusPart}` : undefined
+  ].filter(Boolean);
+
+  if (change.action === 'add') {
+    return details.length > 0 ? `Will be added (${details.join(', ')})` : 'Will be added';
+  }
+  return details.length > 0 ? `Will be updated (${details.join(', ')})` : 'Already on the team (no change)';
 }
\ No newline at end of file
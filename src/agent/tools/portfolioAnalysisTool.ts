@@ -2,7 +2,8 @@ import { createTool } from '@mastra/core/tools';
 import { z } from 'zod';
 import { WorkbookClient } from '../../services/index.js';
 import { ResourceTypes } from '../../constants/resourceTypes.js';
-import { ensureFreshData } from '../../utils/freshnessDetection.js';
+import { ensureFreshData, formatFreshness } from '../../utils/freshnessDetection.js';
+import { describeError } from '../../utils/errorGuidance.js';
 
 /**
  * Create portfolio analysis tool for analyzing employee workload and client distribution
@@ -89,7 +90,7 @@ export function createPortfolioAnalysisTool(workbookClient: WorkbookClient) {
         ensureFreshData('portfolio analysis', 'portfolioAnalysisTool');
       
         // Get complete dataset
-        const allResourcesResponse = await workbookClient.resources.getAllResourcesComplete();
+        const allResourcesResponse = await workbookClient.mirror.getAllResources();
       
         if (!allResourcesResponse.success || !allResourcesResponse.data) {
           return {
@@ -102,7 +103,7 @@ export function createPortfolioAnalysisTool(workbookClient: WorkbookClient) {
               minClientsPerEmployee: 0,
               workloadDistribution: 'balanced' as const
             },
-            message: `Error fetching resources: ${allResourcesResponse.error}`
+            message: `Error fetching resources: ${describeError(allResourcesResponse)}`
           };
         }
       
@@ -181,7 +182,7 @@ export function createPortfolioAnalysisTool(workbookClient: WorkbookClient) {
               // Fetch contact counts only for top clients
               const topClientsWithContacts = await Promise.all(
                 clientsToFetchContacts.map(async client => {
-                  const contactsResponse = await workbookClient.resources.getContactsForResource(client.Id);
+                  const contactsResponse = await workbookClient.mirror.getContactsForResource(client.Id);
                   const contactCount = contactsResponse.success ? (contactsResponse.data?.length || 0) : 0;
                   totalContacts += contactCount;
                 
@@ -287,7 +288,7 @@ export function createPortfolioAnalysisTool(workbookClient: WorkbookClient) {
           }
         }
       
-        const cacheStatus = allResourcesResponse.cached ? ' (cached)' : '';
+        const cacheStatus = formatFreshness(allResourcesResponse);
         const modeDescription = analysisMode === 'detailed' ? ' with contact details' 
           : analysisMode === 'top-performers' ? ' (top performers)'
             : ' (summary only)';
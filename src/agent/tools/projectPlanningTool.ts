@@ -0,0 +1,589 @@
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { WorkbookClient, CacheTags } from '../../services/index.js';
+import { TaskStatus } from '../../types/workbook.types.js';
+import { MappedTaskData, MappedTaskTree } from '../../types/job-api.types.js';
+import { ensureFreshData } from '../../utils/freshnessDetection.js';
+import { describeError } from '../../utils/errorGuidance.js';
+
+const taskTreeSchema = z.object({
+  jobId: z.number(),
+  planId: z.number().optional(),
+  totalTasks: z.number(),
+  phases: z.array(z.object({
+    phaseNumber: z.number(),
+    taskCount: z.number(),
+    openTaskCount: z.number(),
+    startDate: z.string().optional(),
+    endDate: z.string().optional(),
+    tasks: z.array(z.object({
+      id: z.number(),
+      taskNumber: z.number(),
+      taskName: z.string(),
+      startDate: z.string(),
+      endDate: z.string(),
+      workDays: z.number(),
+      milestone: z.boolean(),
+      closed: z.boolean()
+    }))
+  }))
+});
+
+/**
+ * Create project planning tool for restructuring job plans
+ * Factory function that accepts initialized WorkbookClient
+ */
+export function createProjectPlanningTool(workbookClient: WorkbookClient) {
+  return createTool({
+    id: 'project-planning',
+    description: `PROJECT PLANNING TOOL - Use this tool to view and restructure the task plan of a job.
+
+    PRIMARY USE CASES:
+    - Show the task tree (phases and tasks) of a job
+    - Create, rename, reorder and close tasks
+    - Create, reorder and close phases
+    - Move tasks from one job to another
+
+    DO NOT USE for:
+    - Creating or updating the job itself (use jobManagementTool instead)
+    - Registering time on tasks (use timeTrackingTool instead)
+    - Capacity and booking analysis (use resourcePlanningTool instead)
+
+    Phases are identified by phase number. Every operation returns the updated task tree.`,
+
+    inputSchema: z.object({
+      operation: z.enum([
+        'get_plan',
+        'create_task',
+        'rename_task',
+        'reorder_task',
+        'close_task',
+        'create_phase',
+        'reorder_phase',
+        'close_phase',
+        'move_task'
+      ]).describe('Planning operation to perform'),
+
+      jobId: z.number()
+        .describe('Job ID whose plan is viewed or changed (source job for move_task)'),
+      taskId: z.number()
+        .optional()
+        .describe('Task ID (required for rename_task, reorder_task, close_task and move_task)'),
+      taskName: z.string()
+        .optional()
+        .describe('Task name (required for create_task, create_phase and rename_task)'),
+      phaseNumber: z.number()
+        .optional()
+        .describe('Phase number to work on (create_task target phase, reorder_phase/close_phase source phase)'),
+      targetPhaseNumber: z.number()
+        .optional()
+        .describe('Destination phase number (reorder_task, reorder_phase, move_task)'),
+      position: z.number()
+        .optional()
+        .describe('New task number within the phase (for reorder_task)'),
+      afterTaskId: z.number()
+        .optional()
+        .describe('Insert the new task after this task ID of the same job (for create_task, defaults to last)'),
+      targetJobId: z.number()
+        .optional()
+        .describe('Destination job ID (required for move_task)'),
+      planId: z.number()
+        .optional()
+        .describe('Plan ID - only needed when the job has no tasks yet'),
+      activityId: z.number()
+        .optional()
+        .describe('Activity ID for new tasks'),
+      startDate: z.string()
+        .optional()
+        .describe('Start date for new tasks (ISO format)'),
+      workDays: z.number()
+        .min(1)
+        .optional()
+        .describe('Duration of new tasks in working days'),
+      includeClosed: z.boolean()
+        .default(false)
+        .describe('Include closed tasks in the returned task tree')
+    }),
+
+    outputSchema: z.object({
+      success: z.boolean(),
+      operation: z.string(),
+      message: z.string(),
+      taskTree: taskTreeSchema.optional(),
+      affectedTaskIds: z.array(z.number()).optional()
+    }),
+
+    execute: async ({ context }) => {
+      try {
+        const {
+          operation,
+          jobId,
+          taskId,
+          taskName,
+          phaseNumber,
+          targetPhaseNumber,
+          position,
+          afterTaskId,
+          targetJobId,
+          planId,
+          activityId,
+          startDate,
+          workDays,
+          includeClosed
+        } = context;
+
+        console.log(`🗂️ Project Planning Tool - Operation: ${operation}`, context);
+
+        // Use universal freshness detection (Phase 7A)
+        ensureFreshData(`project planning ${operation}`, 'projectPlanningTool', [CacheTags.JOB]);
+
+        // Current plan is needed by every operation (validation, numbering or output)
+        const tasksResponse = await workbookClient.jobs.getJobTasks(jobId, !includeClosed);
+        if (!tasksResponse.success) {
+          return {
+            success: false,
+            operation,
+            message: `❌ Failed to load plan for job ${jobId}: ${describeError(tasksResponse)}`
+          };
+        }
+        const tasks = (tasksResponse.data || []) as MappedTaskData[];
+
+        switch (operation) {
+        case 'get_plan': {
+          const taskTree = buildTaskTree(jobId, tasks);
+
+          return {
+            success: true,
+            operation: 'get_plan',
+            message: `✅ Job ${jobId} has ${taskTree.totalTasks} tasks in ${taskTree.phases.length} phases`,
+            taskTree
+          };
+        }
+
+        case 'create_task':
+        case 'create_phase': {
+          if (!taskName) {
+            return {
+              success: false,
+              operation,
+              message: operation === 'create_phase'
+                ? 'Task name is required - a new phase is created with its first task'
+                : 'Task name is required for creating a task'
+            };
+          }
+
+          const resolvedPlanId = planId || tasks[0]?.planId;
+          if (!resolvedPlanId) {
+            return {
+              success: false,
+              operation,
+              message: `❌ Job ${jobId} has no tasks yet - please provide the plan ID`
+            };
+          }
+
+          // Workbook inserts after a task number (position in the plan), not a task ID
+          const afterTask = afterTaskId ? tasks.find(t => t.id === afterTaskId) : undefined;
+          if (afterTaskId && !afterTask) {
+            return {
+              success: false,
+              operation,
+              message: getTaskNotInJobMessage(afterTaskId, jobId, includeClosed)
+            };
+          }
+
+          const highestPhase = tasks.reduce((max, task) => Math.max(max, task.phaseNumber || 1), 0);
+          const resolvedPhase = operation === 'create_phase'
+            ? highestPhase + 1
+            : phaseNumber || afterTask?.phaseNumber || Math.max(highestPhase, 1);
+
+          const insertResponse = await workbookClient.jobs.insertTask({
+            planId: resolvedPlanId,
+            taskName,
+            phaseNumber: resolvedPhase,
+            activityId,
+            startDate,
+            workDays,
+            afterTaskNumber: afterTask?.taskNumber,
+            placeLast: !afterTask
+          });
+
+          if (!insertResponse.success || !insertResponse.data) {
+            return {
+              success: false,
+              operation,
+              message: `❌ Failed to create task "${taskName}": ${describeError(insertResponse)}`
+            };
+          }
+
+          const created = insertResponse.data as { id: number };
+
+          return {
+            success: true,
+            operation,
+            message: operation === 'create_phase'
+              ? `✅ Created phase ${resolvedPhase} with task "${taskName}" (ID ${created.id})`
+              : `✅ Created task "${taskName}" (ID ${created.id}) in phase ${resolvedPhase}`,
+            taskTree: await loadTaskTree(workbookClient, jobId, includeClosed),
+            affectedTaskIds: [created.id]
+          };
+        }
+
+        case 'rename_task': {
+          if (!taskId || !taskName) {
+            return {
+              success: false,
+              operation: 'rename_task',
+              message: 'Task ID and new task name are required for renaming a task'
+            };
+          }
+
+          if (!tasks.some(t => t.id === taskId)) {
+            return {
+              success: false,
+              operation: 'rename_task',
+              message: getTaskNotInJobMessage(taskId, jobId, includeClosed)
+            };
+          }
+
+          const renameResponse = await workbookClient.jobs.patchTask(taskId, { TaskName: taskName });
+          if (!renameResponse.success) {
+            return {
+              success: false,
+              operation: 'rename_task',
+              message: `❌ Failed to rename task ${taskId}: ${describeError(renameResponse)}`
+            };
+          }
+
+          return {
+            success: true,
+            operation: 'rename_task',
+            message: `✅ Task ${taskId} renamed to "${taskName}"`,
+            taskTree: await loadTaskTree(workbookClient, jobId, includeClosed),
+            affectedTaskIds: [taskId]
+          };
+        }
+
+        case 'reorder_task': {
+          if (!taskId || (!position && !targetPhaseNumber)) {
+            return {
+              success: false,
+              operation: 'reorder_task',
+              message: 'Task ID and a new position or target phase number are required for reordering a task'
+            };
+          }
+
+          const task = tasks.find(t => t.id === taskId);
+          if (!task) {
+            return {
+              success: false,
+              operation: 'reorder_task',
+              message: getTaskNotInJobMessage(taskId, jobId, includeClosed)
+            };
+          }
+
+          const reorderResponse = await workbookClient.jobs.patchTask(taskId, {
+            PhaseNumber: targetPhaseNumber || task.phaseNumber,
+            ...(position && { TaskNumber: position })
+          });
+
+          if (!reorderResponse.success) {
+            return {
+              success: false,
+              operation: 'reorder_task',
+              message: `❌ Failed to reorder task ${taskId}: ${describeError(reorderResponse)}`
+            };
+          }
+
+          return {
+            success: true,
+            operation: 'reorder_task',
+            message: `✅ Task "${task.taskName}" moved to phase ${targetPhaseNumber || task.phaseNumber}${position ? `, position ${position}` : ''}`,
+            taskTree: await loadTaskTree(workbookClient, jobId, includeClosed),
+            affectedTaskIds: [taskId]
+          };
+        }
+
+        case 'close_task': {
+          if (!taskId) {
+            return {
+              success: false,
+              operation: 'close_task',
+              message: 'Task ID is required for closing a task'
+            };
+          }
+
+          if (!tasks.some(t => t.id === taskId)) {
+            return {
+              success: false,
+              operation: 'close_task',
+              message: getTaskNotInJobMessage(taskId, jobId, includeClosed)
+            };
+          }
+
+          const closeResponse = await workbookClient.jobs.patchTask(taskId, {
+            TaskStatus: TaskStatus.CLOSED,
+            AllowTimeRegistration: false
+          });
+
+          if (!closeResponse.success) {
+            return {
+              success: false,
+              operation: 'close_task',
+              message: `❌ Failed to close task ${taskId}: ${describeError(closeResponse)}`
+            };
+          }
+
+          return {
+            success: true,
+            operation: 'close_task',
+            message: `✅ Task ${taskId} closed for further time registration`,
+            taskTree: await loadTaskTree(workbookClient, jobId, includeClosed),
+            affectedTaskIds: [taskId]
+          };
+        }
+
+        case 'reorder_phase': {
+          if (!phaseNumber || !targetPhaseNumber) {
+            return {
+              success: false,
+              operation: 'reorder_phase',
+              message: 'Phase number and target phase number are required for reordering a phase'
+            };
+          }
+
+          if (!tasks.some(task => task.phaseNumber === phaseNumber)) {
+            return {
+              success: false,
+              operation: 'reorder_phase',
+              message: `❌ Job ${jobId} has no phase ${phaseNumber}`
+            };
+          }
+
+          // Shift the phases between source and target by one to make room
+          const renumbering = tasks
+            .map(task => ({ task, newPhase: getShiftedPhase(task.phaseNumber, phaseNumber, targetPhaseNumber) }))
+            .filter(({ task, newPhase }) => newPhase !== task.phaseNumber);
+
+          const affectedTaskIds: number[] = [];
+          const failures: string[] = [];
+          for (const { task, newPhase } of renumbering) {
+            const patchResponse = await workbookClient.jobs.patchTask(task.id, { PhaseNumber: newPhase });
+            if (patchResponse.success) {
+              affectedTaskIds.push(task.id);
+            } else {
+              failures.push(`${task.taskName}: ${describeError(patchResponse)}`);
+            }
+          }
+
+          return {
+            success: failures.length === 0,
+            operation: 'reorder_phase',
+            message: failures.length === 0
+              ? `✅ Phase ${phaseNumber} moved to position ${targetPhaseNumber} (${affectedTaskIds.length} tasks renumbered)`
+              : `⚠️ Phase reorder partially failed for ${failures.length} tasks: ${failures.join('; ')}`,
+            taskTree: await loadTaskTree(workbookClient, jobId, includeClosed),
+            affectedTaskIds
+          };
+        }
+
+        case 'close_phase': {
+          if (!phaseNumber) {
+            return {
+              success: false,
+              operation: 'close_phase',
+              message: 'Phase number is required for closing a phase'
+            };
+          }
+
+          const phaseTasks = tasks.filter(task => task.phaseNumber === phaseNumber && task.taskStatus !== TaskStatus.CLOSED);
+          if (phaseTasks.length === 0) {
+            return {
+              success: false,
+              operation: 'close_phase',
+              message: `❌ Phase ${phaseNumber} on job ${jobId} has no open tasks`
+            };
+          }
+
+          const affectedTaskIds: number[] = [];
+          const failures: string[] = [];
+          for (const task of phaseTasks) {
+            const closeResponse = await workbookClient.jobs.patchTask(task.id, {
+              TaskStatus: TaskStatus.CLOSED,
+              AllowTimeRegistration: false
+            });
+            if (closeResponse.success) {
+              affectedTaskIds.push(task.id);
+            } else {
+              failures.push(`${task.taskName}: ${describeError(closeResponse)}`);
+            }
+          }
+
+          return {
+            success: failures.length === 0,
+            operation: 'close_phase',
+            message: failures.length === 0
+              ? `✅ Closed phase ${phaseNumber} (${affectedTaskIds.length} tasks)`
+              : `⚠️ Closed ${affectedTaskIds.length} tasks in phase ${phaseNumber}, ${failures.length} failed: ${failures.join('; ')}`,
+            taskTree: await loadTaskTree(workbookClient, jobId, includeClosed),
+            affectedTaskIds
+          };
+        }
+
+        case 'move_task': {
+          if (!taskId || !targetJobId) {
+            return {
+              success: false,
+              operation: 'move_task',
+              message: 'Task ID and target job ID are required for moving a task'
+            };
+          }
+
+          if (!tasks.some(t => t.id === taskId)) {
+            return {
+              success: false,
+              operation: 'move_task',
+              message: getTaskNotInJobMessage(taskId, jobId, includeClosed)
+            };
+          }
+
+          // Resolve the destination plan from the target job's existing tasks
+          let targetPlanId = planId;
+          if (!targetPlanId) {
+            const targetTasksResponse = await workbookClient.jobs.getJobTasks(targetJobId, true);
+            const targetTasks = (targetTasksResponse.success && targetTasksResponse.data ? targetTasksResponse.data : []) as MappedTaskData[];
+            targetPlanId = targetTasks[0]?.planId;
+          }
+
+          if (!targetPlanId) {
+            return {
+              success: false,
+              operation: 'move_task',
+              message: `❌ Could not resolve the plan of job ${targetJobId} - please provide the plan ID`
+            };
+          }
+
+          const moveResponse = await workbookClient.jobs.moveTaskToJob({
+            Id: taskId,
+            JobId: targetJobId,
+            PlanId: targetPlanId,
+            PhaseNumber: targetPhaseNumber,
+            DuplicatePhase: false
+          });
+
+          if (!moveResponse.success) {
+            return {
+              success: false,
+              operation: 'move_task',
+              message: `❌ Failed to move task ${taskId} to job ${targetJobId}: ${describeError(moveResponse)}`
+            };
+          }
+
+          return {
+            success: true,
+            operation: 'move_task',
+            message: `✅ Task ${taskId} moved from job ${jobId} to job ${targetJobId}`,
+            taskTree: await loadTaskTree(workbookClient, targetJobId, includeClosed),
+            affectedTaskIds: [taskId]
+          };
+        }
+
+        default:
+          return {
+            success: false,
+            operation: operation,
+            message: `Unknown operation: ${operation}. Supported operations: get_plan, create_task, rename_task, reorder_task, close_task, create_phase, reorder_phase, close_phase, move_task`
+          };
+        }
+
+      } catch (error) {
+        console.error('❌ Error in projectPlanningTool:', error);
+        return {
+          success: false,
+          operation: context.operation || 'unknown',
+          message: `Error in project planning: ${error instanceof Error ? error.message : 'Unknown error'}`
+        };
+      }
+    }
+  });
+}
+
+/**
+ * Refusal for a task that is not in the loaded plan of the job, so another job's task is never changed
+ */
+function getTaskNotInJobMessage(taskId: number, jobId: number, includeClosed: boolean): string {
+  return `❌ Task ${taskId} is not part of job ${jobId}${includeClosed ? '' : ' (or it is closed - set includeClosed to change closed tasks)'}`;
+}
+
+/**
+ * Group job tasks into a phase → task tree ordered by phase and task number
+ */
+function buildTaskTree(jobId: number, tasks: MappedTaskData[]): MappedTaskTree {
+  const phaseMap = new Map<number, MappedTaskData[]>();
+  tasks.forEach(task => {
+    const phase = task.phaseNumber || 1;
+    if (!phaseMap.has(phase)) {
+      phaseMap.set(phase, []);
+    }
+    phaseMap.get(phase)!.push(task);
+  });
+
+  const phases = Array.from(phaseMap.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([phaseNumber, phaseTasks]) => {
+      const sorted = [...phaseTasks].sort((a, b) => a.taskNumber - b.taskNumber);
+      const startDates = sorted.map(task => task.startDate).filter(Boolean).sort();
+      const endDates = sorted.map(task => task.endDate).filter(Boolean).sort();
+
+      return {
+        phaseNumber,
+        taskCount: sorted.length,
+        openTaskCount: sorted.filter(task => task.taskStatus !== TaskStatus.CLOSED).length,
+        startDate: startDates[0],
+        endDate: endDates[endDates.length - 1],
+        tasks: sorted.map(task => ({
+          id: task.id,
+          taskNumber: task.taskNumber,
+          taskName: task.taskName,
+          startDate: task.startDate,
+          endDate: task.endDate,
+          workDays: task.workDays,
+          milestone: task.milestone,
+          closed: task.taskStatus === TaskStatus.CLOSED
+        }))
+      };
+    });
+
+  return {
+    jobId,
+    planId: tasks[0]?.planId,
+    totalTasks: tasks.length,
+    phases
+  };
+}
+
+/**
+ * Reload the plan after a change and return it as a task tree
+ */
+async function loadTaskTree(workbookClient: WorkbookClient, jobId: number, includeClosed: boolean): Promise<MappedTaskTree | undefined> {
+  const tasksResponse = await workbookClient.jobs.getJobTasks(jobId, !includeClosed);
+  if (!tasksResponse.success || !tasksResponse.data) {
+    return undefined;
+  }
+  return buildTaskTree(jobId, tasksResponse.data as MappedTaskData[]);
+}
+
+/**
+ * Calculate the new phase number of a task when a phase is moved from one position to another
+ */
+function getShiftedPhase(current: number, from: number, to: number): number {
+  if (current === from) {
+    return to;
+  }
+  if (from < to && current > from && current <= to) {
+    return current - 1;
+  }
+  if (from > to && current >= to && current < from) {
+    return current + 1;
+  }
+  return current;
+}
\ No newline at end of file
@@ -116,7 +116,7 @@ export function createRelationshipMappingTool(workbookClient: WorkbookClient) {
           }
         } else {
           // Get top companies with hierarchical data
-          const allResourcesResponse = await workbookClient.resources.getAllResourcesComplete();
+          const allResourcesResponse = await workbookClient.mirror.getAllResources();
           if (allResourcesResponse.success && allResourcesResponse.data) {
             targetCompanyIds = allResourcesResponse.data
               .filter(r => (r.TypeId === ResourceTypes.CLIENT || 
@@ -1,8 +1,43 @@
 import { createTool } from '@mastra/core/tools';
 import { z } from 'zod';
 import { WorkbookClient } from '../../services/index.js';
-import { MappedCapacityVisualization } from '../../types/job-api.types.js';
+import { MappedCapacityVisualization, MappedTaskData } from '../../types/job-api.types.js';
+import { JobStatus, ServiceResponse } from '../../types/workbook.types.js';
 import { ensureFreshData } from '../../utils/freshnessDetection.js';
+import { describeError } from '../../utils/errorGuidance.js';
+
+const forecastBucketSchema = z.object({
+  weekStart: z.string(),
+  department: z.string(),
+  demand: z.number(),
+  bookedHours: z.number(),
+  unbookedHours: z.number(),
+  capacity: z.number(),
+  shortfall: z.number(),
+  surplus: z.number(),
+  utilization: z.number()
+});
+
+interface ForecastBucket {
+  weekStart: string;
+  department: string;
+  demand: number;
+  bookedHours: number;
+  unbookedHours: number;
+  capacity: number;
+  shortfall: number;
+  surplus: number;
+  utilization: number;
+}
+
+interface DemandForecast {
+  totalDemand: number;
+  totalCapacity: number;
+  jobsAnalyzed: number;
+  employeesAnalyzed: number;
+  byDepartment: Omit<ForecastBucket, 'weekStart'>[];
+  byWeek: ForecastBucket[];
+}
 
 /**
  * Create resource planning tool for capacity planning and resource allocation
@@ -17,7 +52,7 @@ export function createResourcePlanningTool(workbookClient: WorkbookClient) {
     - Analyze resource capacity and utilization
     - Plan resource allocation across jobs and projects
     - Track employee availability and workload
-    - Forecast resource needs and conflicts
+    - Forecast resource needs: shortfall per department and week from booked task hours, capacity and job end dates
     - Monitor resource performance metrics
     
     DO NOT USE for:
@@ -43,7 +78,7 @@ export function createResourcePlanningTool(workbookClient: WorkbookClient) {
         .describe('Job ID for job-specific resource planning'),
       departmentId: z.number()
         .optional()
-        .describe('Department ID for department-level planning'),
+        .describe('Department ID for department-level planning (filters forecast_needs to jobs in this department)'),
       
       // Time period filters
       startDate: z.string()
@@ -88,7 +123,7 @@ export function createResourcePlanningTool(workbookClient: WorkbookClient) {
         .min(1)
         .max(100)
         .default(20)
-        .describe('Maximum number of resources to return')
+        .describe('Maximum number of resources to return (for forecast_needs: maximum number of jobs to analyze)')
     }),
 
     outputSchema: z.object({
@@ -153,6 +188,10 @@ export function createResourcePlanningTool(workbookClient: WorkbookClient) {
         shortfall: z.number(),
         surplus: z.number(),
         criticalRoles: z.array(z.string()),
+        byDepartment: z.array(forecastBucketSchema.omit({ weekStart: true })).optional(),
+        byWeek: z.array(forecastBucketSchema).optional(),
+        jobsAnalyzed: z.number().optional(),
+        employeesAnalyzed: z.number().optional(),
         recommendations: z.array(z.string())
       }).optional(),
       summary: z.object({
@@ -175,9 +214,11 @@ export function createResourcePlanningTool(workbookClient: WorkbookClient) {
           resourceId,
           resourceIds,
           jobId,
+          departmentId,
           startDate,
           endDate,
           periodType,
+          targetUtilization,
           includeOvertime,
           skillRequired,
           plannedHours,
@@ -207,7 +248,7 @@ export function createResourcePlanningTool(workbookClient: WorkbookClient) {
             return {
               success: false,
               operation: 'get_capacity',
-              message: `❌ Failed to retrieve capacity data for job ${jobId}: ${capacityResponse.error}`
+              message: `❌ Failed to retrieve capacity data for job ${jobId}: ${describeError(capacityResponse)}`
             };
           }
 
@@ -286,7 +327,7 @@ export function createResourcePlanningTool(workbookClient: WorkbookClient) {
             return {
               success: false,
               operation: 'get_utilization',
-              message: `❌ Failed to retrieve team data for utilization analysis: ${teamResponse.error}`
+              message: `❌ Failed to retrieve team data for utilization analysis: ${describeError(teamResponse)}`
             };
           }
 
@@ -440,34 +481,50 @@ export function createResourcePlanningTool(workbookClient: WorkbookClient) {
         }
 
         case 'forecast_needs': {
-          console.log(`🔮 Forecasting resource needs for ${periodType} period`);
-            
-          // Simulate demand forecasting
-          const totalDemand = jobId ? 160 : 1200; // Hours needed
-          const totalCapacity = 1000; // Available capacity
-          const utilizationForecast = (totalDemand / totalCapacity) * 100;
-            
+          const period = getForecastPeriod(periodType, startDate, endDate);
+          console.log(`🔮 Forecasting resource needs from ${period.from} to ${period.to}${jobId ? ` for job ${jobId}` : ''}`);
+
+          const forecastResponse = await buildDemandForecast(workbookClient, {
+            jobId,
+            departmentId,
+            from: period.from,
+            to: period.to,
+            targetUtilization,
+            maxJobs: limit
+          });
+
+          if (!forecastResponse.success || !forecastResponse.data) {
+            return {
+              success: false,
+              operation: 'forecast_needs',
+              message: `❌ Failed to build resource forecast: ${describeError(forecastResponse)}`
+            };
+          }
+
+          const forecast = forecastResponse.data;
+          const shortDepartments = forecast.byDepartment.filter(department => department.shortfall > 0);
+
           return {
             success: true,
             operation: 'forecast_needs',
-            message: `✅ Resource forecast completed for ${periodType} period`,
+            message: forecast.jobsAnalyzed === 0
+              ? `⚠️ No open jobs with planned work found between ${period.from} and ${period.to}`
+              : `${shortDepartments.length > 0 ? '⚠️' : '✅'} Resource forecast ${period.from} to ${period.to}: ` +
+                `${forecast.totalDemand} hours demand vs ${forecast.totalCapacity} hours capacity at ${targetUtilization}% target utilization ` +
+                `(${forecast.jobsAnalyzed} jobs, ${forecast.employeesAnalyzed} employees)`,
             forecast: {
-              period: `${periodType} - ${startDate || new Date().toISOString().slice(0, 7)}`,
-              totalDemand: totalDemand,
-              totalCapacity: totalCapacity,
-              utilizationForecast: utilizationForecast,
-              shortfall: Math.max(0, totalDemand - totalCapacity),
-              surplus: Math.max(0, totalCapacity - totalDemand),
-              criticalRoles: utilizationForecast > 100 ? ['Project Manager', 'Senior Developer'] : [],
-              recommendations: utilizationForecast > 100 ? [
-                'Consider hiring additional project managers',
-                'Evaluate contractor resources for peak periods',
-                'Prioritize high-value projects'
-              ] : [
-                'Current capacity meets forecasted demand',
-                'Opportunity for additional project intake',
-                'Consider cross-training for skill flexibility'
-              ]
+              period: `${period.from} to ${period.to}`,
+              totalDemand: forecast.totalDemand,
+              totalCapacity: forecast.totalCapacity,
+              utilizationForecast: forecast.totalCapacity > 0 ? parseFloat(((forecast.totalDemand / forecast.totalCapacity) * 100).toFixed(1)) : 0,
+              shortfall: roundHours(Math.max(0, forecast.totalDemand - forecast.totalCapacity)),
+              surplus: roundHours(Math.max(0, forecast.totalCapacity - forecast.totalDemand)),
+              criticalRoles: shortDepartments.map(department => department.department),
+              byDepartment: forecast.byDepartment,
+              byWeek: forecast.byWeek.filter(week => week.shortfall > 0 || !!departmentId || !!jobId).slice(0, limit * 4),
+              jobsAnalyzed: forecast.jobsAnalyzed,
+              employeesAnalyzed: forecast.employeesAnalyzed,
+              recommendations: buildForecastRecommendations(forecast)
             }
           };
         }
@@ -489,7 +546,7 @@ export function createResourcePlanningTool(workbookClient: WorkbookClient) {
             return {
               success: false,
               operation: 'get_availability',
-              message: `❌ Failed to get team data for capacity analysis: ${teamResponse.error || 'No team members found'}`
+              message: `❌ Failed to get team data for capacity analysis: ${describeError(teamResponse, 'No team members found')}`
             };
           }
 
@@ -499,7 +556,7 @@ export function createResourcePlanningTool(workbookClient: WorkbookClient) {
             return {
               success: false,
               operation: 'get_availability',
-              message: `❌ Failed to get task data for capacity analysis: ${'error' in tasksResponse ? tasksResponse.error : 'No tasks found'}`
+              message: `❌ Failed to get task data for capacity analysis: ${describeError(tasksResponse, 'No tasks found')}`
             };
           }
 
@@ -545,7 +602,7 @@ export function createResourcePlanningTool(workbookClient: WorkbookClient) {
             return {
               success: false,
               operation: 'get_availability',
-              message: `❌ Failed to get capacity data: ${'error' in capacityResponse ? capacityResponse.error : 'Unknown error'}`
+              message: `❌ Failed to get capacity data: ${describeError(capacityResponse)}`
             };
           }
 
@@ -699,4 +756,274 @@ export function createResourcePlanningTool(workbookClient: WorkbookClient) {
       }
     }
   });
+}
+
+/**
+ * Resolve the forecast window - explicit dates win, otherwise periodType from today
+ */
+function getForecastPeriod(periodType: 'week' | 'month' | 'quarter' | 'year', startDate?: string, endDate?: string) {
+  const weeks = { week: 1, month: 4, quarter: 13, year: 52 }[periodType];
+  const from = (startDate || new Date().toISOString()).slice(0, 10);
+  const to = (endDate || new Date(new Date(from).getTime() + (weeks * 7 - 1) * 24 * 60 * 60 * 1000).toISOString()).slice(0, 10);
+  return { from, to };
+}
+
+/**
+ * Build a demand forecast per department and week
+ * - Booked demand: each employee's total booked hours per day (CapacityVisualizationMultiRequest)
+ * - Unbooked demand: estimate-to-complete not yet booked (ETCResourceByJobIdVisualizationRequest),
+ *   spread evenly over the weeks left until the job end date
+ * - Capacity: employee capacity per day at the target utilization
+ * Employees belong to their resource folder department when it matches a department, otherwise
+ * to the department of the job they work on; unbooked hours belong to the job's department.
+ */
+async function buildDemandForecast(
+  workbookClient: WorkbookClient,
+  options: { jobId?: number; departmentId?: number; from: string; to: string; targetUtilization: number; maxJobs: number }
+): Promise<ServiceResponse<DemandForecast>> {
+  const { from, to } = options;
+
+  // Jobs in scope: the requested job, or active jobs in the department that overlap the period
+  // The department filter runs in the search so the job limit applies to the department's own jobs
+  let jobIds: number[];
+  if (options.jobId) {
+    jobIds = [options.jobId];
+  } else {
+    const jobsResponse = await workbookClient.jobs.searchJobs({
+      statusIds: [JobStatus.ACTIVE],
+      departmentId: options.departmentId,
+      dateFrom: from,
+      dateTo: to,
+      dateField: 'overlap',
+      sortBy: 'endDate',
+      pageSize: options.maxJobs
+    });
+    if (!jobsResponse.success || !jobsResponse.data) {
+      return { success: false, error: jobsResponse.error || 'No job data received', apiError: jobsResponse.apiError };
+    }
+    jobIds = jobsResponse.data.jobs.map(job => job.id);
+  }
+
+  const departmentsResponse = await workbookClient.jobs.getDepartments();
+  const departments = departmentsResponse.success && departmentsResponse.data
+    ? departmentsResponse.data as Array<{ id: number; name: string }>
+    : [];
+  const departmentName = (id?: number) => departments.find(department => department.id === id)?.name || (id ? `Department ${id}` : 'Unassigned');
+
+  // Load details, tasks, team and unbooked estimate for every job in parallel
+  const jobs = (await Promise.all(jobIds.map(async id => {
+    const [detailsResponse, tasksResponse, teamResponse, etcResponse] = await Promise.all([
+      workbookClient.jobs.getJobDetails(id),
+      workbookClient.jobs.getJobTasks(id, true),
+      workbookClient.jobs.getJobTeam(id),
+      workbookClient.jobs.getResourceCapacity(id)
+    ]);
+
+    const details = detailsResponse.success && detailsResponse.data
+      ? detailsResponse.data as { endDate?: string; companyDepartmentId?: number }
+      : {};
+    const tasks = tasksResponse.success && tasksResponse.data ? tasksResponse.data as MappedTaskData[] : [];
+    const periodTasks = tasks.filter(task => (!task.startDate || task.startDate.slice(0, 10) <= to) && (!task.endDate || task.endDate.slice(0, 10) >= from));
+    const team = teamResponse.success && teamResponse.data ? teamResponse.data as Array<{ resourceId: number }> : [];
+    const etcRows = etcResponse.success && Array.isArray(etcResponse.data) ? etcResponse.data as Array<{ HoursNotBooked: number }> : [];
+
+    return {
+      jobId: id,
+      endDate: details.endDate ? details.endDate.slice(0, 10) : to,
+      departmentId: details.companyDepartmentId,
+      periodTasks,
+      team,
+      unbookedHours: etcRows.reduce((sum, row) => sum + (row.HoursNotBooked || 0), 0)
+    };
+  })))
+    .filter(job => job.periodTasks.length > 0 || job.unbookedHours > 0)
+    .filter(job => !options.departmentId || job.departmentId === options.departmentId);
+
+  // One capacity reference per employee - capacity and total bookings are per employee and day
+  const references = new Map<number, { resourceId: number; taskId: number; jobDepartmentId?: number }>();
+  jobs.forEach(job => {
+    const taskId = job.periodTasks[0]?.id;
+    if (!taskId) {
+      return;
+    }
+    job.team.forEach(member => {
+      if (!references.has(member.resourceId)) {
+        references.set(member.resourceId, { resourceId: member.resourceId, taskId, jobDepartmentId: job.departmentId });
+      }
+    });
+  });
+
+  const buckets = new Map<string, ForecastBucket>();
+  const getBucket = (weekStart: string, department: string) => {
+    const key = `${weekStart}|${department}`;
+    if (!buckets.has(key)) {
+      buckets.set(key, { weekStart, department, demand: 0, bookedHours: 0, unbookedHours: 0, capacity: 0, shortfall: 0, surplus: 0, utilization: 0 });
+    }
+    return buckets.get(key)!;
+  };
+
+  if (references.size > 0) {
+    const employeesResponse = await workbookClient.resources.getBulkByIds(Array.from(references.keys()));
+    const employeeFolders = new Map<number, string | undefined>(
+      (employeesResponse.success && employeesResponse.data ? employeesResponse.data : []).map(employee => [employee.Id, employee.ResourceFolder])
+    );
+
+    const capacityResponse = await workbookClient.jobs.getCapacityVisualization(
+      Array.from(references.values()).map(ref => ({ resourceId: ref.resourceId, taskId: ref.taskId })),
+      { includeAbsence: true, includeCurrentHours: true, includeEmptyCapacity: true, periodType: 1 }
+    );
+    if (!capacityResponse.success) {
+      return { success: false, error: 'error' in capacityResponse ? capacityResponse.error : 'Unknown error' };
+    }
+
+    const seenDays = new Set<string>();
+    ((capacityResponse.data || []) as MappedCapacityVisualization[])
+      .filter(day => day.dayDate && day.dayDate.slice(0, 10) >= from && day.dayDate.slice(0, 10) <= to)
+      .forEach(day => {
+        // Rows repeat per reference - count each employee day once
+        const dayKey = `${day.resourceId}|${day.dayDate.slice(0, 10)}`;
+        if (seenDays.has(dayKey)) {
+          return;
+        }
+        seenDays.add(dayKey);
+
+        const reference = references.get(day.resourceId);
+        const folder = employeeFolders.get(day.resourceId)?.toLowerCase();
+        const department = departments.find(dept => dept.name.toLowerCase() === folder)?.name || departmentName(reference?.jobDepartmentId);
+
+        const bucket = getBucket(getWeekStart(day.dayDate), department);
+        bucket.bookedHours += day.totalHoursBooked || day.hoursBooked || 0;
+        bucket.capacity += ((day.capacity || 0) * options.targetUtilization) / 100;
+      });
+  }
+
+  // Spread unbooked estimate evenly over the weeks between the period start and the job end date
+  jobs.filter(job => job.unbookedHours > 0).forEach(job => {
+    const lastDay = job.endDate < from ? from : job.endDate > to ? to : job.endDate;
+    const weeks = getWeekStarts(from, lastDay);
+    const remainingWeeks = getWeekStarts(from, job.endDate < from ? from : job.endDate).length;
+    // Only the share that falls inside the forecast window is counted
+    const hoursPerWeek = job.unbookedHours / Math.max(remainingWeeks, 1);
+    weeks.forEach(weekStart => {
+      getBucket(weekStart, departmentName(job.departmentId)).unbookedHours += hoursPerWeek;
+    });
+  });
+
+  const byWeek = Array.from(buckets.values())
+    .map(bucket => finalizeBucket(bucket))
+    .sort((a, b) => a.weekStart.localeCompare(b.weekStart) || a.department.localeCompare(b.department));
+
+  const departmentTotals = new Map<string, ForecastBucket>();
+  byWeek.forEach(week => {
+    if (!departmentTotals.has(week.department)) {
+      departmentTotals.set(week.department, { ...week, weekStart: '', bookedHours: 0, unbookedHours: 0, capacity: 0 });
+    }
+    const total = departmentTotals.get(week.department)!;
+    total.bookedHours += week.bookedHours;
+    total.unbookedHours += week.unbookedHours;
+    total.capacity += week.capacity;
+  });
+
+  const byDepartment = Array.from(departmentTotals.values())
+    .map(total => {
+      const department = finalizeBucket(total);
+      return {
+        department: department.department,
+        demand: department.demand,
+        bookedHours: department.bookedHours,
+        unbookedHours: department.unbookedHours,
+        capacity: department.capacity,
+        shortfall: department.shortfall,
+        surplus: department.surplus,
+        utilization: department.utilization
+      };
+    })
+    .sort((a, b) => b.shortfall - a.shortfall);
+
+  return {
+    success: true,
+    data: {
+      totalDemand: roundHours(byDepartment.reduce((sum, department) => sum + department.demand, 0)),
+      totalCapacity: roundHours(byDepartment.reduce((sum, department) => sum + department.capacity, 0)),
+      jobsAnalyzed: jobs.length,
+      employeesAnalyzed: references.size,
+      byDepartment,
+      byWeek
+    }
+  };
+}
+
+/**
+ * Derive demand, shortfall, surplus and utilization for a forecast bucket
+ */
+function finalizeBucket(bucket: ForecastBucket): ForecastBucket {
+  const demand = bucket.bookedHours + bucket.unbookedHours;
+  return {
+    weekStart: bucket.weekStart,
+    department: bucket.department,
+    demand: roundHours(demand),
+    bookedHours: roundHours(bucket.bookedHours),
+    unbookedHours: roundHours(bucket.unbookedHours),
+    capacity: roundHours(bucket.capacity),
+    shortfall: roundHours(Math.max(0, demand - bucket.capacity)),
+    surplus: roundHours(Math.max(0, bucket.capacity - demand)),
+    utilization: bucket.capacity > 0 ? parseFloat(((demand / bucket.capacity) * 100).toFixed(1)) : 0
+  };
+}
+
+/**
+ * Recommendations based on where and when the shortfall occurs
+ */
+function buildForecastRecommendations(forecast: DemandForecast): string[] {
+  const recommendations: string[] = [];
+  const shortDepartments = forecast.byDepartment.filter(department => department.shortfall > 0);
+  const shortWeeks = forecast.byWeek.filter(week => week.shortfall > 0);
+
+  if (forecast.jobsAnalyzed === 0) {
+    return ['No planned work found in the period - check the date range or job filter'];
+  }
+
+  shortDepartments.slice(0, 3).forEach(department => {
+    const weeks = shortWeeks.filter(week => week.department === department.department);
+    recommendations.push(`${department.department}: ${department.shortfall} hours short over ${weeks.length} week(s), first in week of ${weeks[0]?.weekStart || 'n/a'}`);
+  });
+
+  const surplusDepartments = forecast.byDepartment.filter(department => department.surplus > 0 && department.shortfall === 0);
+  if (shortDepartments.length > 0 && surplusDepartments.length > 0) {
+    recommendations.push(`Consider moving work to departments with spare capacity: ${surplusDepartments.slice(0, 3).map(department => `${department.department} (${department.surplus}h)`).join(', ')}`);
+  }
+  if (shortDepartments.length === 0) {
+    recommendations.push('Capacity covers booked and unbooked demand in every department for the period');
+  }
+  if (forecast.byDepartment.some(department => department.unbookedHours > 0)) {
+    recommendations.push('Unbooked estimate-to-complete hours are included - book them on tasks to sharpen the forecast');
+  }
+
+  return recommendations;
+}
+
+/**
+ * Monday of the week containing the date (YYYY-MM-DD)
+ */
+function getWeekStart(date: string): string {
+  const day = new Date(date.slice(0, 10) + 'T00:00:00Z');
+  const offset = (day.getUTCDay() + 6) % 7;
+  day.setUTCDate(day.getUTCDate() - offset);
+  return day.toISOString().slice(0, 10);
+}
+
+/**
+ * Week start dates from the week containing `from` up to the week containing `to`
+ */
+function getWeekStarts(from: string, to: string): string[] {
+  const weeks: string[] = [];
+  const last = getWeekStart(to);
+  for (let week = getWeekStart(from); week <= last; week = new Date(new Date(week + 'T00:00:00Z').getTime() + 7 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10)) {
+    weeks.push(week);
+  }
+  return weeks;
+}
+
+function roundHours(hours: number): number {
+  return Math.round(hours * 10) / 10;
 }
\ No newline at end of file
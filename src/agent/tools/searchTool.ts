@@ -2,7 +2,8 @@ import { createTool } from '@mastra/core/tools';
 import { z } from 'zod';
 import { WorkbookClient, Resource } from '../../services/index.js';
 import { ResourceTypes } from '../../constants/resourceTypes.js';
-import { ensureFreshData } from '../../utils/freshnessDetection.js';
+import { ensureFreshData, formatFreshness } from '../../utils/freshnessDetection.js';
+import { describeError } from '../../utils/errorGuidance.js';
 
 /**
  * Create search people tool for the Workbook CRM system
@@ -75,7 +76,7 @@ export function createSearchContactsTool(workbookClient: WorkbookClient) {
           else if (query.toLowerCase().includes('employee') || query.toLowerCase().includes('staff') || 
                   query.toLowerCase().includes('all') || query.toLowerCase() === 'employees' ||
                   query.toLowerCase() === 'staff') {
-            resourcesResponse = await workbookClient.resources.getAllResourcesComplete();
+            resourcesResponse = await workbookClient.mirror.getAllResources();
           }
           // For name/initials searches
           else {
@@ -83,7 +84,7 @@ export function createSearchContactsTool(workbookClient: WorkbookClient) {
           }
         } else {
         // No query provided, get all people (use complete dataset)
-          resourcesResponse = await workbookClient.resources.getAllResourcesComplete();
+          resourcesResponse = await workbookClient.mirror.getAllResources();
         }
 
         if (!resourcesResponse.success) {
@@ -91,7 +92,7 @@ export function createSearchContactsTool(workbookClient: WorkbookClient) {
             people: [],
             totalFound: 0,
             query: query || '',
-            message: `Error searching people: ${resourcesResponse.error}`
+            message: `Error searching people: ${describeError(resourcesResponse)}`
           };
         }
 
@@ -113,7 +114,7 @@ export function createSearchContactsTool(workbookClient: WorkbookClient) {
           status: resource.Active ? 'Active' : 'Inactive'
         }));
       
-        const cacheStatus = resourcesResponse.cached ? ' (cached)' : '';
+        const cacheStatus = formatFreshness(resourcesResponse);
         const message = query 
           ? `Found ${formattedPeople.length} people matching "${query}"${cacheStatus}`
           : `Retrieved ${formattedPeople.length} people${cacheStatus}`;
@@ -217,7 +218,7 @@ export function createGetContactStatsTool(workbookClient: WorkbookClient) {
               suppliers: 0,
               contacts: 0
             },
-            message: `Error getting statistics: ${statsResponse.error}`
+            message: `Error getting statistics: ${describeError(statsResponse)}`
           };
         }
 
@@ -0,0 +1,843 @@
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { WorkbookClient, Resource } from '../../services/index.js';
+import { MappedTaskData, MappedTimeRegistration, MappedTimeEntryDay, MappedTimeEntryReview } from '../../types/job-api.types.js';
+import { ResourceTypes } from '../../constants/resourceTypes.js';
+import { ensureFreshData } from '../../utils/freshnessDetection.js';
+import { describeError } from '../../utils/errorGuidance.js';
+import { getCurrentUser } from '../../services/identity/userContext.js';
+import { AccessDeniedResult, denyToolCall } from './toolPermissions.js';
+
+/**
+ * Create time tracking tool for registering and reviewing time entries
+ * Factory function that accepts initialized WorkbookClient
+ */
+export function createTimeTrackingTool(workbookClient: WorkbookClient) {
+  return createTool({
+    id: 'time-tracking',
+    description: `TIME TRACKING TOOL - Use this tool for registering and reviewing time entries.
+
+    PRIMARY USE CASES:
+    - List time entries by employee, job and date range
+    - Register hours on a job ("log 3 hours on job 1234 today")
+    - Edit or delete draft time entries
+    - Report working days that have no hours or still hold draft entries
+    - List time entries awaiting approval by a manager ("what timesheets are waiting for me to approve?")
+    - Summarize pending, approved and rejected hours per employee or per manager
+    - Approve or reject submitted time entries (rejections require a comment)
+    - Find employees with incomplete timesheets versus their capacity ("who hasn't filled in their hours last week?")
+    - Raise the Workbook follow-up reminder for missing time registration
+
+    DO NOT USE for:
+    - Job cost and revenue analysis (use jobFinancialsTool instead)
+    - Capacity and workload planning (use resourcePlanningTool instead)
+    - Creating or updating jobs (use jobManagementTool instead)
+
+    Only draft entries can be edited or deleted - submitted and approved entries are locked.
+    Only submitted entries can be approved or rejected. Always include entry IDs when presenting pending approvals.
+    Present each incomplete timesheet as "Name: X of Y hours".`,
+
+    inputSchema: z.object({
+      operation: z.enum(['list_entries', 'register', 'edit', 'delete', 'unsubmitted_days', 'pending_approvals', 'approval_summary', 'approve', 'reject', 'missing_timesheets', 'raise_follow_up'])
+        .describe('Time tracking operation to perform'),
+
+      // Filters and identification
+      resourceId: z.number()
+        .optional()
+        .describe('Employee resource ID (required for unsubmitted_days, optional filter for list_entries, defaults to the employee of the Teams user, else the API user, for register)'),
+      jobId: z.number()
+        .optional()
+        .describe('Job ID (required for register, optional filter for list_entries)'),
+      entryId: z.number()
+        .optional()
+        .describe('Time entry ID (required for edit and delete)'),
+      entryIds: z.array(z.number())
+        .optional()
+        .describe('Time entry IDs to approve or reject'),
+      approverId: z.number()
+        .optional()
+        .describe('Resource ID of the approving manager (pending_approvals, approval_summary, missing_timesheets; recorded on approve/reject)'),
+      approverName: z.string()
+        .optional()
+        .describe('Name of the approving manager (alternative to approverId)'),
+      comment: z.string()
+        .optional()
+        .describe('Reason for rejection (required for reject, shown to the employee)'),
+      departmentId: z.number()
+        .optional()
+        .describe('Department ID to limit missing_timesheets to'),
+      raiseNotification: z.boolean()
+        .default(false)
+        .describe('Also raise the Workbook follow-up reminder when missing_timesheets finds incomplete timesheets'),
+      startDate: z.string()
+        .optional()
+        .describe('Start of date range (ISO format, defaults to 7 days ago, 30 days ago for approvals, Monday of last week for missing_timesheets)'),
+      endDate: z.string()
+        .optional()
+        .describe('End of date range (ISO format, defaults to today)'),
+
+      // Registration fields
+      taskId: z.number()
+        .optional()
+        .describe('Task ID to register on (defaults to the first open task on the job)'),
+      date: z.string()
+        .optional()
+        .describe('Registration date (ISO format, defaults to today)'),
+      hours: z.number()
+        .min(0)
+        .max(24)
+        .optional()
+        .describe('Number of hours (required for register)'),
+      description: z.string()
+        .optional()
+        .describe('Description of the work performed'),
+      billable: z.boolean()
+        .optional()
+        .describe('Whether the time is billable (defaults to true)'),
+
+      limit: z.number()
+        .min(1)
+        .max(200)
+        .default(50)
+        .describe('Maximum number of entries to return (for list_entries)')
+    }),
+
+    outputSchema: z.object({
+      success: z.boolean(),
+      operation: z.string(),
+      message: z.string(),
+      entry: z.object({
+        id: z.number(),
+        jobId: z.number(),
+        taskId: z.number(),
+        resourceId: z.number(),
+        registrationDate: z.string(),
+        hours: z.number(),
+        description: z.string(),
+        approvalStatusText: z.string(),
+        isDraft: z.boolean()
+      }).optional(),
+      entries: z.array(z.object({
+        id: z.number(),
+        jobId: z.number(),
+        jobName: z.string().optional(),
+        customerName: z.string().optional(),
+        taskName: z.string().optional(),
+        resourceId: z.number(),
+        registrationDate: z.string(),
+        hours: z.number(),
+        description: z.string(),
+        approvalStatusText: z.string(),
+        isDraft: z.boolean()
+      })).optional(),
+      totalHours: z.number().optional(),
+      unsubmittedDays: z.array(z.object({
+        date: z.string(),
+        hoursRegistered: z.number(),
+        draftEntries: z.number()
+      })).optional(),
+      pendingApprovals: z.array(z.object({
+        entryId: z.number(),
+        resourceId: z.number(),
+        employeeName: z.string(),
+        registrationDate: z.string(),
+        hours: z.number(),
+        jobId: z.number(),
+        jobName: z.string().optional(),
+        taskName: z.string().optional(),
+        description: z.string()
+      })).optional(),
+      approvalSummary: z.object({
+        approverName: z.string().optional(),
+        startDate: z.string(),
+        endDate: z.string(),
+        pendingHours: z.number(),
+        approvedHours: z.number(),
+        rejectedHours: z.number(),
+        pendingEntryCount: z.number(),
+        resources: z.array(z.object({
+          resourceId: z.number(),
+          employeeName: z.string(),
+          registeredHours: z.number(),
+          capacityHours: z.number(),
+          draftHours: z.number(),
+          pendingHours: z.number(),
+          approvedHours: z.number(),
+          rejectedHours: z.number()
+        }))
+      }).optional(),
+      timesheetFollowUp: z.object({
+        startDate: z.string(),
+        endDate: z.string(),
+        employeeCount: z.number(),
+        incompleteCount: z.number(),
+        totalMissingHours: z.number(),
+        reminderRaised: z.boolean(),
+        incomplete: z.array(z.object({
+          resourceId: z.number(),
+          name: z.string(),
+          email: z.string().optional(),
+          capacityHours: z.number(),
+          registeredHours: z.number(),
+          absenceHours: z.number(),
+          missingHours: z.number(),
+          completionPercent: z.number()
+        }))
+      }).optional(),
+      review: z.object({
+        decision: z.string(),
+        reviewedCount: z.number(),
+        reviewedHours: z.number(),
+        reviewedIds: z.array(z.number()),
+        skipped: z.array(z.object({
+          id: z.number(),
+          reason: z.string()
+        }))
+      }).optional()
+    }),
+
+    execute: async ({ context }) => {
+      try {
+        const {
+          operation,
+          resourceId,
+          jobId,
+          entryId,
+          entryIds,
+          approverId,
+          approverName,
+          comment,
+          departmentId,
+          raiseNotification,
+          startDate,
+          endDate,
+          taskId,
+          date,
+          hours,
+          description,
+          billable,
+          limit
+        } = context;
+
+        console.log(`⏱️ Time Tracking Tool - Operation: ${operation}`, context);
+
+        // Use universal freshness detection (Phase 7A)
+        ensureFreshData(`time tracking ${operation}`, 'timeTrackingTool');
+
+        const today = new Date().toISOString().slice(0, 10);
+        const weekAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+        const monthAgo = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+        switch (operation) {
+        case 'list_entries': {
+          if (!resourceId && !jobId) {
+            return {
+              success: false,
+              operation: 'list_entries',
+              message: 'An employee resource ID or job ID is required for listing time entries'
+            };
+          }
+
+          const entriesResponse = await workbookClient.jobs.getTimeEntriesByFilter({
+            resourceId,
+            jobId,
+            startDate: startDate || weekAgo,
+            endDate: endDate || today
+          });
+
+          if (!entriesResponse.success) {
+            return {
+              success: false,
+              operation: 'list_entries',
+              message: `❌ Failed to retrieve time entries: ${describeError(entriesResponse)}`
+            };
+          }
+
+          const entries = (entriesResponse.data || []) as MappedTimeRegistration[];
+          const totalHours = Math.round(entries.reduce((sum, entry) => sum + entry.hours, 0) * 100) / 100;
+
+          return {
+            success: true,
+            operation: 'list_entries',
+            message: `✅ Found ${entries.length} time entries totalling ${totalHours} hours (${startDate || weekAgo} to ${endDate || today})`,
+            entries: entries.slice(0, limit).map(formatEntry),
+            totalHours
+          };
+        }
+
+        case 'register': {
+          if (!jobId || hours === undefined) {
+            return {
+              success: false,
+              operation: 'register',
+              message: 'Job ID and hours are required for registering time'
+            };
+          }
+
+          const registerFor = resourceId ?? getCurrentUser()?.employee?.id;
+          const registerDenied = await checkOwnTime('register', context, async () => registerFor);
+          if (registerDenied) {
+            return registerDenied;
+          }
+
+          // Resolve task - time is always registered on a task within the job
+          let targetTaskId = taskId;
+          if (!targetTaskId) {
+            const tasksResponse = await workbookClient.jobs.getJobTasks(jobId, true);
+            if (!tasksResponse.success || !tasksResponse.data) {
+              return {
+                success: false,
+                operation: 'register',
+                message: `❌ Could not find tasks for job ${jobId}: ${describeError(tasksResponse)}`
+              };
+            }
+
+            const openTask = (tasksResponse.data as MappedTaskData[]).find(task => task.allowTimeRegistration);
+            if (!openTask) {
+              return {
+                success: false,
+                operation: 'register',
+                message: `❌ Job ${jobId} has no tasks open for time registration`
+              };
+            }
+            targetTaskId = openTask.id;
+          }
+
+          console.log(`📝 Registering ${hours}h on job ${jobId}, task ${targetTaskId}`);
+
+          const registerResponse = await workbookClient.jobs.registerTimeEntry({
+            resourceId: registerFor,
+            jobId,
+            taskId: targetTaskId,
+            date: date || today,
+            hours,
+            description,
+            billable
+          });
+
+          if (!registerResponse.success || !registerResponse.data) {
+            return {
+              success: false,
+              operation: 'register',
+              message: `❌ Failed to register time on job ${jobId}: ${describeError(registerResponse)}`
+            };
+          }
+
+          const entry = registerResponse.data as MappedTimeRegistration;
+
+          return {
+            success: true,
+            operation: 'register',
+            message: `✅ Registered ${entry.hours} hours on job ${entry.jobId} for ${entry.registrationDate.slice(0, 10)} (entry ${entry.id})`,
+            entry: formatEntryDetail(entry)
+          };
+        }
+
+        case 'edit': {
+          if (!entryId) {
+            return {
+              success: false,
+              operation: 'edit',
+              message: 'Time entry ID is required for editing'
+            };
+          }
+
+          if (hours === undefined && !date && description === undefined && !taskId && billable === undefined) {
+            return {
+              success: false,
+              operation: 'edit',
+              message: 'At least one field (hours, date, description, taskId, billable) is required for editing'
+            };
+          }
+
+          const editDenied = await checkOwnTime('edit', context, () => getEntryOwner(workbookClient, entryId));
+          if (editDenied) {
+            return editDenied;
+          }
+
+          const updateResponse = await workbookClient.jobs.updateTimeEntry(entryId, {
+            date,
+            hours,
+            description,
+            taskId,
+            billable
+          });
+
+          if (!updateResponse.success || !updateResponse.data) {
+            return {
+              success: false,
+              operation: 'edit',
+              message: `❌ Failed to edit time entry ${entryId}: ${describeError(updateResponse)}`
+            };
+          }
+
+          return {
+            success: true,
+            operation: 'edit',
+            message: `✅ Time entry ${entryId} updated`,
+            entry: formatEntryDetail(updateResponse.data as MappedTimeRegistration)
+          };
+        }
+
+        case 'delete': {
+          if (!entryId) {
+            return {
+              success: false,
+              operation: 'delete',
+              message: 'Time entry ID is required for deleting'
+            };
+          }
+
+          const deleteDenied = await checkOwnTime('delete', context, () => getEntryOwner(workbookClient, entryId));
+          if (deleteDenied) {
+            return deleteDenied;
+          }
+
+          const deleteResponse = await workbookClient.jobs.deleteTimeEntry(entryId);
+
+          if (!deleteResponse.success || !deleteResponse.data) {
+            return {
+              success: false,
+              operation: 'delete',
+              message: `❌ Failed to delete time entry ${entryId}: ${describeError(deleteResponse)}`
+            };
+          }
+
+          const deleted = deleteResponse.data as MappedTimeRegistration;
+
+          return {
+            success: true,
+            operation: 'delete',
+            message: `✅ Deleted draft time entry ${entryId} (${deleted.hours} hours on job ${deleted.jobId})`,
+            entry: formatEntryDetail(deleted)
+          };
+        }
+
+        case 'unsubmitted_days': {
+          if (!resourceId) {
+            return {
+              success: false,
+              operation: 'unsubmitted_days',
+              message: 'Employee resource ID is required for reporting unsubmitted days'
+            };
+          }
+
+          const daysResponse = await workbookClient.jobs.getUnsubmittedDays(resourceId, startDate || weekAgo, endDate || today);
+
+          if (!daysResponse.success) {
+            return {
+              success: false,
+              operation: 'unsubmitted_days',
+              message: `❌ Failed to check unsubmitted days: ${describeError(daysResponse)}`
+            };
+          }
+
+          const days = (daysResponse.data || []) as MappedTimeEntryDay[];
+
+          return {
+            success: true,
+            operation: 'unsubmitted_days',
+            message: days.length === 0
+              ? `✅ All working days from ${startDate || weekAgo} to ${endDate || today} are submitted`
+              : `⚠️ ${days.length} working days are missing hours or still have draft entries`,
+            unsubmittedDays: days.map(day => ({
+              date: day.date,
+              hoursRegistered: day.hoursRegistered,
+              draftEntries: day.draftEntries
+            }))
+          };
+        }
+
+        case 'pending_approvals':
+        case 'approval_summary': {
+          const scope = await resolveApprovalScope(workbookClient, { approverId, approverName, resourceId });
+          if ('error' in scope) {
+            return {
+              success: false,
+              operation,
+              message: scope.error
+            };
+          }
+
+          const periodStart = startDate || monthAgo;
+          const periodEnd = endDate || today;
+          const scopeLabel = scope.approver ? scope.approver.Name : scope.employees[0].Name;
+          const employeeNames = new Map(scope.employees.map(employee => [employee.Id, employee.Name]));
+
+          if (scope.employees.length === 0) {
+            return {
+              success: true,
+              operation,
+              message: `✅ ${scopeLabel} has no active employees to approve time for`
+            };
+          }
+
+          const summaryResponse = await workbookClient.jobs.getManagerApprovalSummary(
+            scope.approver?.Id || scope.employees[0].Id,
+            scope.employees.map(employee => employee.Id),
+            periodStart,
+            periodEnd
+          );
+
+          if (!summaryResponse.success || !summaryResponse.data) {
+            return {
+              success: false,
+              operation,
+              message: `❌ Failed to retrieve approval status: ${describeError(summaryResponse)}`
+            };
+          }
+
+          const summary = summaryResponse.data;
+
+          if (operation === 'pending_approvals') {
+            const pending = summary.resources
+              .flatMap(resource => resource.pendingEntries)
+              .sort((a, b) => a.registrationDate.localeCompare(b.registrationDate));
+            const employeesWithPending = summary.resources.filter(resource => resource.pendingEntries.length > 0).length;
+
+            return {
+              success: true,
+              operation: 'pending_approvals',
+              message: pending.length === 0
+                ? `✅ No time entries awaiting approval by ${scopeLabel} (${periodStart} to ${periodEnd})`
+                : `⏳ ${pending.length} time entries (${summary.pendingHours} hours) from ${employeesWithPending} employees awaiting approval by ${scopeLabel} (${periodStart} to ${periodEnd})`,
+              pendingApprovals: pending.slice(0, limit).map(entry => ({
+                entryId: entry.id,
+                resourceId: entry.resourceId,
+                employeeName: employeeNames.get(entry.resourceId) || `Resource ${entry.resourceId}`,
+                registrationDate: entry.registrationDate.slice(0, 10),
+                hours: entry.hours,
+                jobId: entry.jobId,
+                jobName: entry.jobName,
+                taskName: entry.taskName,
+                description: entry.description
+              }))
+            };
+          }
+
+          return {
+            success: true,
+            operation: 'approval_summary',
+            message: `✅ Approval status for ${scope.approver ? `employees of ${scopeLabel}` : scopeLabel} (${periodStart} to ${periodEnd}): ${summary.pendingHours} hours pending, ${summary.approvedHours} approved, ${summary.rejectedHours} rejected`,
+            approvalSummary: {
+              approverName: scope.approver?.Name,
+              startDate: periodStart,
+              endDate: periodEnd,
+              pendingHours: summary.pendingHours,
+              approvedHours: summary.approvedHours,
+              rejectedHours: summary.rejectedHours,
+              pendingEntryCount: summary.pendingEntryCount,
+              resources: summary.resources
+                .sort((a, b) => b.pendingHours - a.pendingHours)
+                .map(resource => ({
+                  resourceId: resource.resourceId,
+                  employeeName: employeeNames.get(resource.resourceId) || `Resource ${resource.resourceId}`,
+                  registeredHours: resource.registeredHours,
+                  capacityHours: resource.capacityHours,
+                  draftHours: resource.draftHours,
+                  pendingHours: resource.pendingHours,
+                  approvedHours: resource.approvedHours,
+                  rejectedHours: resource.rejectedHours
+                }))
+            }
+          };
+        }
+
+        case 'approve':
+        case 'reject': {
+          const ids = entryIds && entryIds.length > 0 ? entryIds : entryId ? [entryId] : [];
+          if (ids.length === 0) {
+            return {
+              success: false,
+              operation,
+              message: `Time entry IDs are required to ${operation} time entries`
+            };
+          }
+
+          if (operation === 'reject' && !comment) {
+            return {
+              success: false,
+              operation: 'reject',
+              message: 'A comment explaining the rejection is required - it is shown to the employee'
+            };
+          }
+
+          const reviewResponse = await workbookClient.jobs.reviewTimeEntries(ids, operation, { approverId, comment });
+
+          if (!reviewResponse.success || !reviewResponse.data) {
+            return {
+              success: false,
+              operation,
+              message: `❌ Failed to ${operation} time entries: ${describeError(reviewResponse)}`
+            };
+          }
+
+          const review: MappedTimeEntryReview = reviewResponse.data;
+          const reviewedHours = Math.round(review.reviewed.reduce((sum, entry) => sum + entry.hours, 0) * 100) / 100;
+          const verb = operation === 'approve' ? 'Approved' : 'Rejected';
+
+          return {
+            success: review.reviewed.length > 0,
+            operation,
+            message: review.reviewed.length === 0
+              ? `❌ No time entries were ${verb.toLowerCase()}: ${review.skipped.map(skip => `${skip.id} (${skip.reason})`).join(', ')}`
+              : `✅ ${verb} ${review.reviewed.length} time entries (${reviewedHours} hours)${review.skipped.length > 0 ? `. ⚠️ ${review.skipped.length} skipped: ${review.skipped.map(skip => `${skip.id} (${skip.reason})`).join(', ')}` : ''}`,
+            review: {
+              decision: review.decision,
+              reviewedCount: review.reviewed.length,
+              reviewedHours,
+              reviewedIds: review.reviewed.map(entry => entry.id),
+              skipped: review.skipped
+            }
+          };
+        }
+
+        case 'missing_timesheets': {
+          // Company-wide unless a manager or employee is given
+          let employeeIds: number[] | undefined;
+          let scopeLabel = 'all employees';
+          if (approverId || approverName || resourceId) {
+            const scope = await resolveApprovalScope(workbookClient, { approverId, approverName, resourceId });
+            if ('error' in scope) {
+              return {
+                success: false,
+                operation: 'missing_timesheets',
+                message: scope.error
+              };
+            }
+            employeeIds = scope.employees.map(employee => employee.Id);
+            scopeLabel = scope.approver ? `employees of ${scope.approver.Name}` : scope.employees[0].Name;
+            if (employeeIds.length === 0) {
+              return {
+                success: true,
+                operation: 'missing_timesheets',
+                message: `✅ ${scope.approver?.Name || 'The approver'} has no active employees to follow up on`
+              };
+            }
+          }
+
+          const lastWeek = getPreviousWeek();
+          const periodStart = startDate || lastWeek.start;
+          const periodEnd = endDate || lastWeek.end;
+
+          const followUpResponse = await workbookClient.followUp.getIncompleteTimesheets({
+            startDate: periodStart,
+            endDate: periodEnd,
+            employeeIds,
+            departmentIds: departmentId ? [departmentId] : undefined
+          });
+
+          if (!followUpResponse.success || !followUpResponse.data) {
+            return {
+              success: false,
+              operation: 'missing_timesheets',
+              message: `❌ Failed to check timesheets: ${describeError(followUpResponse)}`
+            };
+          }
+
+          const followUp = followUpResponse.data;
+
+          let reminderRaised = false;
+          let reminderNote = '';
+          if (raiseNotification && followUp.incompleteCount > 0) {
+            const reminderResponse = await workbookClient.followUp.raiseTimesheetReminder();
+            reminderRaised = reminderResponse.success;
+            reminderNote = reminderResponse.success
+              ? '. 🔔 Workbook follow-up reminder raised'
+              : `. ⚠️ Could not raise the Workbook follow-up reminder: ${describeError(reminderResponse)}`;
+          }
+
+          return {
+            success: true,
+            operation: 'missing_timesheets',
+            message: followUp.incompleteCount === 0
+              ? `✅ All ${followUp.employeeCount} employees have complete timesheets for ${periodStart} to ${periodEnd} (${scopeLabel})`
+              : `⚠️ ${followUp.incompleteCount} of ${followUp.employeeCount} employees have incomplete timesheets for ${periodStart} to ${periodEnd}: ${followUp.totalMissingHours} hours missing (${scopeLabel})${reminderNote}`,
+            timesheetFollowUp: {
+              startDate: periodStart,
+              endDate: periodEnd,
+              employeeCount: followUp.employeeCount,
+              incompleteCount: followUp.incompleteCount,
+              totalMissingHours: followUp.totalMissingHours,
+              reminderRaised,
+              incomplete: followUp.incomplete.slice(0, limit).map(status => ({
+                resourceId: status.resourceId,
+                name: status.name,
+                email: status.email,
+                capacityHours: status.capacityHours,
+                registeredHours: status.registeredHours,
+                absenceHours: status.absenceHours,
+                missingHours: status.missingHours,
+                completionPercent: status.completionPercent
+              }))
+            }
+          };
+        }
+
+        case 'raise_follow_up': {
+          const reminderResponse = await workbookClient.followUp.raiseTimesheetReminder();
+
+          if (!reminderResponse.success) {
+            return {
+              success: false,
+              operation: 'raise_follow_up',
+              message: `❌ Failed to raise the Workbook follow-up reminder: ${describeError(reminderResponse)}`
+            };
+          }
+
+          return {
+            success: true,
+            operation: 'raise_follow_up',
+            message: '🔔 Workbook follow-up reminder raised - employees with missing time registration are notified in Workbook'
+          };
+        }
+
+        default:
+          return {
+            success: false,
+            operation: operation,
+            message: `Unknown operation: ${operation}. Supported operations: list_entries, register, edit, delete, unsubmitted_days, pending_approvals, approval_summary, approve, reject, missing_timesheets, raise_follow_up`
+          };
+        }
+
+      } catch (error) {
+        console.error('❌ Error in timeTrackingTool:', error);
+        return {
+          success: false,
+          operation: context.operation || 'unknown',
+          message: `Error in time tracking: ${error instanceof Error ? error.message : 'Unknown error'}`
+        };
+      }
+    }
+  });
+}
+
+/**
+ * Shape a time registration for list output
+ */
+function formatEntry(entry: MappedTimeRegistration) {
+  return {
+    id: entry.id,
+    jobId: entry.jobId,
+    jobName: entry.jobName,
+    customerName: entry.customerName,
+    taskName: entry.taskName,
+    resourceId: entry.resourceId,
+    registrationDate: entry.registrationDate,
+    hours: entry.hours,
+    description: entry.description,
+    approvalStatusText: entry.approvalStatusText,
+    isDraft: entry.isDraft
+  };
+}
+
+/**
+ * Shape a single time registration for register/edit/delete output
+ */
+function formatEntryDetail(entry: MappedTimeRegistration) {
+  return {
+    id: entry.id,
+    jobId: entry.jobId,
+    taskId: entry.taskId,
+    resourceId: entry.resourceId,
+    registrationDate: entry.registrationDate,
+    hours: entry.hours,
+    description: entry.description,
+    approvalStatusText: entry.approvalStatusText,
+    isDraft: entry.isDraft
+  };
+}
+
+/**
+ * Refusal when the current user writes time of another employee; undefined when the write is allowed
+ * Users with time.approve (admins included) may write anyone's time, others only their own
+ */
+async function checkOwnTime(
+  operation: 'register' | 'edit' | 'delete',
+  input: Record<string, unknown>,
+  getOwnerId: () => Promise<number | undefined>
+): Promise<AccessDeniedResult & { operation: string } | undefined> {
+  const user = getCurrentUser();
+  if (!user || user.permissions.includes('time.approve')) {
+    return undefined;
+  }
+
+  const ownerId = await getOwnerId();
+  if (ownerId !== undefined && ownerId === user.employee?.id) {
+    return undefined;
+  }
+
+  const denied = await denyToolCall(user, {
+    toolId: 'time-tracking',
+    operation,
+    input,
+    permission: 'time.approve',
+    entityType: 'time_entry',
+    action: ownerId !== undefined
+      ? `${operation} time of employee ${ownerId} in time-tracking`
+      : `${operation} time that cannot be verified as their own in time-tracking`,
+    reason: `Time of employee ${ownerId ?? 'unknown'} is not the user's own (employee ${user.employee?.id ?? 'none'})`
+  });
+  return { ...denied, operation };
+}
+
+/**
+ * Employee a time entry is registered on, undefined when the entry cannot be read
+ */
+async function getEntryOwner(workbookClient: WorkbookClient, entryId: number): Promise<number | undefined> {
+  const entryResponse = await workbookClient.jobs.getRawTimeEntry(entryId);
+  return entryResponse.success && entryResponse.data ? (entryResponse.data as MappedTimeRegistration).resourceId : undefined;
+}
+
+/**
+ * Resolve whose time is reviewed: the active employees managed by an approver, or a single employee
+ */
+async function resolveApprovalScope(
+  workbookClient: WorkbookClient,
+  options: { approverId?: number; approverName?: string; resourceId?: number }
+): Promise<{ approver?: Resource; employees: Resource[] } | { error: string }> {
+  const employeesResponse = await workbookClient.resources.getByType(ResourceTypes.EMPLOYEE);
+  if (!employeesResponse.success || !employeesResponse.data) {
+    return { error: `❌ Failed to load employees: ${describeError(employeesResponse)}` };
+  }
+
+  const employees = employeesResponse.data.filter(employee => employee.Active !== false);
+
+  if (options.approverId || options.approverName) {
+    const nameQuery = options.approverName?.toLowerCase();
+    const approver = options.approverId
+      ? employees.find(employee => employee.Id === options.approverId)
+      : employees.find(employee => employee.Name.toLowerCase() === nameQuery) ||
+        employees.find(employee => employee.Name.toLowerCase().includes(nameQuery!));
+
+    if (!approver) {
+      return { error: `❌ Approver ${options.approverId || options.approverName} not found among active employees` };
+    }
+
+    return {
+      approver,
+      employees: employees.filter(employee => employee.ResponsibleResourceId === approver.Id && employee.Id !== approver.Id)
+    };
+  }
+
+  if (options.resourceId) {
+    const employee = employees.find(candidate => candidate.Id === options.resourceId);
+    if (!employee) {
+      return { error: `❌ Employee ${options.resourceId} not found among active employees` };
+    }
+    return { employees: [employee] };
+  }
+
+  return { error: 'An approver (approverId or approverName) or an employee resource ID is required for approvals' };
+}
+
+/**
+ * Monday to Sunday of the previous calendar week (YYYY-MM-DD)
+ */
+function getPreviousWeek(): { start: string; end: string } {
+  const today = new Date();
+  const daysSinceMonday = (today.getUTCDay() + 6) % 7;
+  const start = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate() - daysSinceMonday - 7));
+  const end = new Date(start.getTime() + 6 * 24 * 60 * 60 * 1000);
+  return { start: start.toISOString().slice(0, 10), end: end.toISOString().slice(0, 10) };
+}
\ No newline at end of file
@@ -0,0 +1,22 @@
+/**
+ * Tool Audit
+ * Attributes the Workbook writes services make during a tool call to that tool in the audit log
+ */
+
+import { withAuditedTool } from '../../services/audit/auditLog.js';
+import { GuardedTool } from './toolPermissions.js';
+
+/**
+ * Run the execute function of every tool inside its audit context
+ */
+export function auditTools<T extends Record<string, unknown>>(tools: T): T {
+  for (const candidate of Object.values(tools)) {
+    const tool = candidate as GuardedTool;
+    const execute = tool.execute;
+    if (!execute) {
+      continue;
+    }
+    tool.execute = (executionContext, options) => withAuditedTool(tool.id, () => execute.call(tool, executionContext, options));
+  }
+  return tools;
+}
\ No newline at end of file
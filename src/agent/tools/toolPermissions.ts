@@ -0,0 +1,208 @@
+/**
+ * Tool Permissions
+ * Gates write and financial tool operations on the role of the Teams user (see services/identity)
+ * and keeps margin figures from users whose role does not include them
+ */
+
+import { Permission, UserIdentity } from '../../types/workbook.types.js';
+import { getCurrentUser } from '../../services/identity/userContext.js';
+import { getCurrentTenantId } from '../../services/tenants/tenantContext.js';
+import { trackSecurityEvent } from '../../utils/telemetry.js';
+import { auditLog } from '../../services/audit/auditLog.js';
+import { AuditEntityType } from '../../services/audit/auditStore.js';
+import { isWipExport } from './enhancedExportTool.js';
+
+interface ToolRule {
+  permission: Permission;
+  entityType?: AuditEntityType;                         // Writes: denied attempts also go to the audit log
+  operations?: string[];                                // All operations when omitted
+  // eslint-disable-next-line no-unused-vars
+  when?: (input: Record<string, unknown>) => boolean;   // Further narrows the operations
+}
+
+const TOOL_RULES: Record<string, ToolRule[]> = {
+  'bulk-operations': [
+    { permission: 'resources.write', entityType: 'resource', operations: ['activate', 'deactivate', 'updateEmail', 'updateFolder'] }
+  ],
+  'job-management': [
+    { permission: 'jobs.write', entityType: 'job', operations: ['create', 'update', 'patch', 'assign_team'] }
+  ],
+  'project-planning': [
+    {
+      permission: 'jobs.write',
+      entityType: 'task',
+      operations: ['create_task', 'rename_task', 'reorder_task', 'close_task', 'create_phase', 'reorder_phase', 'close_phase', 'move_task']
+    }
+  ],
+  'time-tracking': [
+    { permission: 'time.write', entityType: 'time_entry', operations: ['register', 'edit', 'delete'] },
+    { permission: 'time.approve', entityType: 'time_entry', operations: ['approve', 'reject'] },
+    { permission: 'time.approve', entityType: 'follow_up', operations: ['raise_follow_up'] },
+    { permission: 'time.approve', entityType: 'follow_up', operations: ['missing_timesheets'], when: input => input.raiseNotification === true }
+  ],
+  'job-financials': [
+    { permission: 'financials.read' },
+    { permission: 'financials.margins', operations: ['analyze_profitability', 'price_optimization', 'financial_forecast'] }
+  ],
+  'billing': [
+    { permission: 'financials.read' }
+  ],
+  'enhanced-export': [
+    { permission: 'financials.read', when: isWipExport }
+  ],
+  'client-profile': [
+    { permission: 'financials.read' }
+  ],
+  'business-analytics': [
+    { permission: 'financials.read' },
+    { permission: 'financials.margins', operations: ['gross_profit', 'overview'] }
+  ],
+  'audit-log': [
+    { permission: 'audit.read' }
+  ]
+};
+
+// Tools whose other operations still return margin fields, removed for users without financials.margins
+const MARGIN_TOOLS = new Set(['job-financials', 'business-analytics']);
+const MARGIN_KEY_PATTERN = /margin|profit/i;
+
+export interface Denial {
+  toolId: string;
+  operation?: string;
+  input: Record<string, unknown>;
+  permission: Permission;                               // Permission that would have allowed the call
+  entityType?: AuditEntityType;
+  action: string;                                       // What was refused, e.g. "edit in time-tracking"
+  reason: string;                                       // Recorded in the audit log
+}
+
+export interface AccessDeniedResult {
+  success: false;
+  operation?: string;
+  accessDenied: true;
+  message: string;
+}
+
+export interface GuardedTool {
+  id: string;
+  // eslint-disable-next-line no-unused-vars
+  execute?: (executionContext: { context?: Record<string, unknown> }, options?: unknown) => Promise<unknown>;
+}
+
+/**
+ * Wrap the execute function of every gated tool with a permission check
+ * Calls outside a Teams turn (no current user) are not gated
+ */
+export function authorizeTools<T extends Record<string, unknown>>(tools: T): T {
+  for (const candidate of Object.values(tools)) {
+    const tool = candidate as GuardedTool;
+    const rules = TOOL_RULES[tool.id];
+    const execute = tool.execute;
+    if (!rules || !execute) {
+      continue;
+    }
+
+    tool.execute = async (executionContext, options) => {
+      const user = getCurrentUser();
+      if (!user) {
+        return execute.call(tool, executionContext, options);
+      }
+
+      const input = executionContext.context || {};
+      const operation = typeof input.operation === 'string' ? input.operation : undefined;
+      const missing = rules.find(rule =>
+        (!rule.operations || (operation !== undefined && rule.operations.includes(operation)))
+        && (!rule.when || rule.when(input))
+        && !user.permissions.includes(rule.permission)
+      );
+
+      if (missing) {
+        return denyToolCall(user, {
+          toolId: tool.id,
+          operation,
+          input,
+          permission: missing.permission,
+          entityType: missing.entityType,
+          action: describeRule(tool.id, operation),
+          reason: `Role ${user.role} lacks ${missing.permission}`
+        });
+      }
+
+      const result = await execute.call(tool, executionContext, options);
+      return MARGIN_TOOLS.has(tool.id) && !canSeeMargins()
+        ? withoutMargins(result)
+        : result;
+    };
+  }
+  return tools;
+}
+
+/**
+ * Whether the current user may see margin figures; tools leave margin remarks out of their text when not
+ * Always true outside a Teams turn, like the permission checks
+ */
+export function canSeeMargins(): boolean {
+  const user = getCurrentUser();
+  return !user || user.permissions.includes('financials.margins');
+}
+
+/**
+ * Refuse a tool call of the current user: tracked as a security event, audited when it was a write,
+ * and answered with a result the agent passes on
+ */
+export async function denyToolCall(user: UserIdentity, denial: Denial): Promise<AccessDeniedResult> {
+  trackSecurityEvent('ToolAccessDenied', {
+    tool: denial.toolId,
+    operation: denial.operation,
+    permission: denial.permission,
+    role: user.role,
+    aadObjectId: user.aadObjectId,
+    employeeId: user.employee?.id,
+    tenantId: getCurrentTenantId()
+  });
+  if (denial.entityType) {
+    await auditLog.record({
+      action: `${denial.toolId}.${denial.operation}`,
+      entityType: denial.entityType,
+      entityIds: getTargetIds(denial.input),
+      outcome: 'denied',
+      error: denial.reason
+    });
+  }
+  return {
+    success: false,
+    operation: denial.operation,
+    accessDenied: true,
+    message: `❌ ${user.name || 'This user'} (role: ${user.role}) is not allowed to ${denial.action} (needs ${denial.permission}). ` +
+      'Ask a Workbook administrator if you need this access.'
+  };
+}
+
+function describeRule(toolId: string, operation: string | undefined): string {
+  return operation ? `${operation.replace(/_/g, ' ')} in ${toolId}` : `use ${toolId}`;
+}
+
+/**
+ * IDs a write tool call targets, as far as its input names them
+ */
+function getTargetIds(input: Record<string, unknown>): number[] {
+  return [input.resourceIds, input.entryIds, input.entryId, input.taskId, input.jobId]
+    .flat()
+    .filter((id): id is number => typeof id === 'number');
+}
+
+/**
+ * Copy of a tool result without margin/profit fields
+ * Text is left alone: the tools build their messages without margins themselves (see canSeeMargins)
+ */
+function withoutMargins(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(withoutMargins);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value as Record<string, unknown>)
+      .filter(([key]) => !MARGIN_KEY_PATTERN.test(key))
+      .map(([key, child]) => [key, withoutMargins(child)]));
+  }
+  return value;
+}
\ No newline at end of file
@@ -2,7 +2,7 @@ import { createTool } from '@mastra/core/tools';
 import { z } from 'zod';
 import { WorkbookClient, Resource } from '../../services/index.js';
 import { ResourceTypes, ResourceTypeNames } from '../../constants/resourceTypes.js';
-import { ensureFreshData } from '../../utils/freshnessDetection.js';
+import { ensureFreshData, formatFreshness } from '../../utils/freshnessDetection.js';
 
 /**
  * Create universal search tool that intelligently routes queries to appropriate search methods
@@ -76,9 +76,10 @@ export function createUniversalSearchTool(workbookClient: WorkbookClient) {
         // Handle truly empty queries more conservatively
           if (!effectiveQuery || effectiveQuery.trim() === '' || effectiveQuery === 'all') {
             searchStrategy = 'Complete dataset retrieval';
-            const response = await workbookClient.resources.getAllResourcesComplete();
+            const response = await workbookClient.mirror.getAllResources();
             if (response.success && response.data) {
               results = response.data;
+              searchStrategy += formatFreshness(response);
             }
           }
           // Handle vague queries with suggestions instead of data dump
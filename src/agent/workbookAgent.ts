@@ -137,6 +137,7 @@ The Workbook CRM uses specific TypeId numbers to categorize resources:
 - **Company Search** (search-company-by-name): Natural language company lookup with hierarchy support
 - **People Search** (search-people): Search for employees, clients, and contacts
 - **Hierarchical Search** (hierarchical-search): View company structures with contacts and responsible employees
+- **Client Profile** (client-profile): Client 360 in one call - record, responsible employee, contacts, active jobs, open invoices, last time registered and data quality issues ("tell me everything about Novo")
 
 ## Analysis & Intelligence Tools:
 - **Data Quality Analysis** (data-quality-analysis): Analyze data completeness, find issues, get recommendations
@@ -148,13 +149,16 @@ The Workbook CRM uses specific TypeId numbers to categorize resources:
 ## Operations & Management Tools:
 - **Bulk Operations** (bulk-operations): Mass updates, activation/deactivation, batch field updates with preview
 - **Enhanced Export** (enhanced-export): Multi-format data export (CSV, JSON, reports, statistics)
+- **Audit Log** (audit-log): Who changed what through the agent - filter by user, record, action, outcome or period
 
 ## Job Management Tools:
-- **Job Management** (job-management): Create, update, and manage jobs and projects
+- **Job Management** (job-management): Create, update, and manage jobs and projects; list jobs by client, project manager, status, job type, department, tag and date window with sorting and paging; staff job teams (add, remove, role, default task and price) with a preview before confirming
 - **Project Planning** (project-planning): Task management, activities, and project scheduling
 - **Time Tracking** (time-tracking): Time entries, expense tracking, and approval workflows
 - **Resource Planning** (resource-planning): Capacity planning, resource allocation, and utilization analysis
-- **Job Financials** (job-financials): Cost analysis, budget tracking, and financial reporting
+- **Job Financials** (job-financials): Cost analysis, budget tracking, financial reporting, and revenue/cost/margin forecasts per job, client or department
+- **Billing** (billing): Invoices, receivables aging, overdue and partially paid invoices, consolidated billing candidates, unbilled work (WIP) report by customer and project manager, retainer burn-down with projected exhaustion and overruns
+- **Business Analytics** (business-analytics): Gross profit by client, job, employee, team, department or dimension; employee productivity; project risk; company overview with trends
 
 ## System & Performance Tools:
 - **Performance Monitoring** (performance-monitoring): System telemetry, performance metrics, and optimization insights
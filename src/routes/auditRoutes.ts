@@ -0,0 +1,85 @@
+/**
+ * Admin routes for querying the audit log of Workbook writes made through the agent
+ */
+import * as restify from 'restify';
+import crypto from 'crypto';
+import { z } from 'zod';
+import { auditLog } from '../services/audit/auditLog.js';
+import { MAX_AUDIT_QUERY_LIMIT } from '../services/audit/auditStore.js';
+import { keyVaultService } from '../services/keyVault.js';
+
+const auditQuerySchema = z.object({
+  tenant: z.string().optional(),
+  user: z.string().optional(),
+  employeeId: z.coerce.number().int().positive().optional(),
+  entityType: z.enum(['resource', 'job', 'task', 'time_entry', 'follow_up']).optional(),
+  entityId: z.coerce.number().int().positive().optional(),
+  action: z.string().optional(),
+  tool: z.string().optional(),
+  outcome: z.enum(['success', 'failure', 'denied']).optional(),
+  from: z.string().refine(value => !isNaN(Date.parse(value)), 'Invalid date').optional(),
+  to: z.string().refine(value => !isNaN(Date.parse(value)), 'Invalid date').optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_AUDIT_QUERY_LIMIT).optional()
+});
+
+/**
+ * Admin API key from Key Vault (ADMIN_API_KEY locally), undefined when none is configured
+ */
+async function getAdminApiKey(): Promise<string | undefined> {
+  try {
+    return await keyVaultService.getSecret('admin-api-key');
+  } catch {
+    return undefined;
+  }
+}
+
+function isAuthorized(provided: string | string[] | undefined, expected: string): boolean {
+  if (typeof provided !== 'string') {
+    return false;
+  }
+  const providedHash = crypto.createHash('sha256').update(provided).digest();
+  const expectedHash = crypto.createHash('sha256').update(expected).digest();
+  return crypto.timingSafeEqual(providedHash, expectedHash);
+}
+
+/**
+ * GET /api/admin/audit - audit entries filtered by tenant, user, entity, action, outcome and period
+ * Requires the admin API key in the x-admin-key header
+ */
+export async function handleAuditQuery(req: restify.Request, res: restify.Response) {
+  const adminApiKey = await getAdminApiKey();
+  if (!adminApiKey) {
+    res.status(503);
+    res.json({ error: 'Admin API not configured' });
+    return;
+  }
+
+  if (!isAuthorized(req.headers['x-admin-key'], adminApiKey)) {
+    res.status(401);
+    res.json({ error: 'Unauthorized' });
+    return;
+  }
+
+  if (!auditLog.hasStore()) {
+    res.status(503);
+    res.json({ error: 'Audit log not available' });
+    return;
+  }
+
+  const parsed = auditQuerySchema.safeParse(req.query || {});
+  if (!parsed.success) {
+    res.status(400);
+    res.json({ error: 'Invalid query', details: parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`) });
+    return;
+  }
+
+  try {
+    const { tenant, ...filters } = parsed.data;
+    const entries = await auditLog.query({ ...filters, tenantId: tenant });
+    res.json({ entries, count: entries.length });
+  } catch (error) {
+    console.error('❌ Error querying audit log:', error);
+    res.status(500);
+    res.json({ error: 'Failed to query audit log' });
+  }
+}
\ No newline at end of file
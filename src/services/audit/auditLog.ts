@@ -0,0 +1,121 @@
+/**
+ * Audit Log
+ * Records who changed what in Workbook through the agent, from which conversation and tool, and how it went
+ * Entries are written to the attached AuditStore; without one they are only logged
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { getCurrentUser, getCurrentConversationId } from '../identity/userContext.js';
+import { getCurrentTenantId } from '../tenants/tenantContext.js';
+import { AuditChange, AuditEntityType, AuditEntry, AuditOutcome, AuditQuery, AuditStore } from './auditStore.js';
+
+// A write about to be made, as described by the service making it
+export interface AuditedWrite {
+  action: string;
+  entityType: AuditEntityType;
+  entityIds: number[];
+  before?: Record<string, unknown>;
+  after?: Record<string, unknown>;
+}
+
+export interface AuditRecord extends AuditedWrite {
+  tenantId?: string;
+  outcome: AuditOutcome;
+  error?: string;
+}
+
+// Agent tool whose execution is in progress, so writes made by services are attributed to it
+const toolContext = new AsyncLocalStorage<string>();
+
+/**
+ * Run a tool call so audit entries written during it name the tool
+ */
+export function withAuditedTool<T>(toolId: string, fn: () => Promise<T>): Promise<T> {
+  return toolContext.run(toolId, fn);
+}
+
+/**
+ * Values of some fields of a record, e.g. the before side of a write
+ */
+export function pickFields(record: object | undefined, fields: string[]): Record<string, unknown> {
+  const values = (record || {}) as Record<string, unknown>;
+  return Object.fromEntries(fields.map(field => [field, values[field]]));
+}
+
+export class AuditLog {
+  private store?: AuditStore;
+
+  /**
+   * Write entries to a store from now on
+   */
+  async useStore(store: AuditStore): Promise<void> {
+    await store.initialize();
+    this.store = store;
+    console.log(`📜 Audit log attached (${store.kind})`);
+  }
+
+  hasStore(): boolean {
+    return !!this.store;
+  }
+
+  /**
+   * Record a write with the user, conversation and tool of the current turn
+   * A failing store is logged and never fails the write itself
+   */
+  async record(write: AuditRecord): Promise<void> {
+    const user = getCurrentUser();
+    const entry: AuditEntry = {
+      occurredAt: new Date().toISOString(),
+      tenantId: write.tenantId ?? getCurrentTenantId(),
+      actor: {
+        aadObjectId: user?.aadObjectId,
+        name: user?.name,
+        email: user?.email,
+        employeeId: user?.employee?.id,
+        role: user?.role
+      },
+      conversationId: getCurrentConversationId(),
+      tool: toolContext.getStore(),
+      action: write.action,
+      entityType: write.entityType,
+      entityIds: write.entityIds,
+      changes: toChanges(write.before, write.after),
+      outcome: write.outcome,
+      error: write.error
+    };
+
+    console.log(`📜 Audit: ${entry.actor.name || 'system'} ${entry.action} ${entry.entityType} ${entry.entityIds.join(', ')} - ${entry.outcome}`);
+    if (!this.store) {
+      return;
+    }
+
+    try {
+      await this.store.append(entry);
+    } catch (error) {
+      console.error('❌ Failed to write audit entry:', error, entry);
+    }
+  }
+
+  /**
+   * Entries matching a query, newest first
+   */
+  async query(query: AuditQuery): Promise<AuditEntry[]> {
+    if (!this.store) {
+      throw new Error('Audit log storage is not available');
+    }
+    return this.store.query(query);
+  }
+
+  async close(): Promise<void> {
+    await this.store?.close();
+    this.store = undefined;
+  }
+}
+
+function toChanges(before: Record<string, unknown> = {}, after: Record<string, unknown> = {}): Record<string, AuditChange> {
+  const fields = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+  return Object.fromEntries(fields.map(field => [field, { before: before[field], after: after[field] }]));
+}
+
+// Shared by every tenant's services; entries carry their tenant
+export const auditLog = new AuditLog();
\ No newline at end of file
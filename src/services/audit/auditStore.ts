@@ -0,0 +1,321 @@
+/**
+ * Audit Log Storage
+ * Append-only record of every write the agent makes to Workbook, kept for auditors
+ * PostgreSQL in Azure, a LibSQL file locally (same split as the resource mirror)
+ */
+
+import { createClient, Client, InValue } from '@libsql/client';
+import { Pool } from 'pg';
+import { keyVaultService } from '../keyVault.js';
+
+export type AuditOutcome = 'success' | 'failure' | 'denied';
+
+export type AuditEntityType = 'resource' | 'job' | 'task' | 'time_entry' | 'follow_up';
+
+// Teams user the write was made for
+export interface AuditActor {
+  aadObjectId?: string;
+  name?: string;
+  email?: string;
+  employeeId?: number;          // Workbook employee resource the user maps to
+  role?: string;
+}
+
+export interface AuditChange {
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface AuditEntry {
+  id?: number;                  // Assigned by the store
+  occurredAt: string;           // ISO timestamp
+  tenantId?: string;
+  actor: AuditActor;
+  conversationId?: string;
+  tool?: string;                // Agent tool that made the write, if any
+  action: string;               // e.g. resource.update, job.patch
+  entityType: AuditEntityType;
+  entityIds: number[];
+  changes: Record<string, AuditChange>;
+  outcome: AuditOutcome;
+  error?: string;
+}
+
+export interface AuditQuery {
+  tenantId?: string;
+  user?: string;                // Email, AAD object id or part of the name of the actor
+  employeeId?: number;
+  entityType?: AuditEntityType;
+  entityId?: number;
+  action?: string;
+  tool?: string;
+  outcome?: AuditOutcome;
+  from?: string;                // ISO date or timestamp, inclusive
+  to?: string;                  // ISO date (whole day) or timestamp, inclusive
+  limit?: number;
+}
+
+/* eslint-disable no-unused-vars */
+export interface AuditStore {
+  readonly kind: 'libsql' | 'postgres';
+  initialize(): Promise<void>;
+  append(entry: AuditEntry): Promise<void>;
+  query(query: AuditQuery): Promise<AuditEntry[]>;   // Newest first
+  close(): Promise<void>;
+}
+/* eslint-enable no-unused-vars */
+
+const AUDIT_TABLE = 'workbook_audit_log';
+
+export const DEFAULT_AUDIT_QUERY_LIMIT = 100;
+export const MAX_AUDIT_QUERY_LIMIT = 1000;
+
+const COLUMNS = [
+  'occurred_at', 'tenant_id', 'actor_aad_object_id', 'actor_name', 'actor_email', 'actor_employee_id', 'actor_role',
+  'conversation_id', 'tool', 'action', 'entity_type', 'entity_ids', 'changes', 'outcome', 'error'
+];
+
+/**
+ * Audit log in a LibSQL (SQLite) database file
+ */
+export class LibSQLAuditStore implements AuditStore {
+  readonly kind = 'libsql';
+  private client: Client;
+
+  constructor(url: string) {
+    this.client = createClient({ url });
+  }
+
+  async initialize(): Promise<void> {
+    await this.client.batch([
+      `CREATE TABLE IF NOT EXISTS ${AUDIT_TABLE} (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        occurred_at TEXT NOT NULL,
+        tenant_id TEXT,
+        actor_aad_object_id TEXT,
+        actor_name TEXT,
+        actor_email TEXT,
+        actor_employee_id INTEGER,
+        actor_role TEXT,
+        conversation_id TEXT,
+        tool TEXT,
+        action TEXT NOT NULL,
+        entity_type TEXT NOT NULL,
+        entity_ids TEXT NOT NULL,
+        changes TEXT NOT NULL,
+        outcome TEXT NOT NULL,
+        error TEXT
+      )`,
+      `CREATE INDEX IF NOT EXISTS idx_workbook_audit_occurred ON ${AUDIT_TABLE}(occurred_at)`,
+      `CREATE INDEX IF NOT EXISTS idx_workbook_audit_actor ON ${AUDIT_TABLE}(actor_email)`
+    ], 'write');
+  }
+
+  async append(entry: AuditEntry): Promise<void> {
+    await this.client.execute({
+      sql: `INSERT INTO ${AUDIT_TABLE} (${COLUMNS.join(', ')}) VALUES (${COLUMNS.map(() => '?').join(', ')})`,
+      args: toRow(entry).map(value => (typeof value === 'object' && value !== null ? JSON.stringify(value) : value) as InValue)
+    });
+  }
+
+  async query(query: AuditQuery): Promise<AuditEntry[]> {
+    const { where, args, limit } = buildFilter(query, 'libsql');
+    const result = await this.client.execute({
+      sql: `SELECT * FROM ${AUDIT_TABLE} ${where} ORDER BY occurred_at DESC, id DESC LIMIT ${limit}`,
+      args: args as InValue[]
+    });
+    return result.rows.map(row => fromRow({
+      ...row,
+      entity_ids: JSON.parse(String(row.entity_ids)),
+      changes: JSON.parse(String(row.changes))
+    }));
+  }
+
+  async close(): Promise<void> {
+    this.client.close();
+  }
+}
+
+/**
+ * Audit log in PostgreSQL, shared by every App Service instance
+ */
+export class PostgresAuditStore implements AuditStore {
+  readonly kind = 'postgres';
+  private pool: Pool;
+
+  constructor(connectionString: string) {
+    this.pool = new Pool({
+      connectionString,
+      ssl: { rejectUnauthorized: false }
+    });
+  }
+
+  async initialize(): Promise<void> {
+    await this.pool.query(`
+      CREATE TABLE IF NOT EXISTS ${AUDIT_TABLE} (
+        id BIGSERIAL PRIMARY KEY,
+        occurred_at TIMESTAMPTZ NOT NULL,
+        tenant_id VARCHAR(100),
+        actor_aad_object_id VARCHAR(100),
+        actor_name VARCHAR(255),
+        actor_email VARCHAR(255),
+        actor_employee_id INTEGER,
+        actor_role VARCHAR(100),
+        conversation_id VARCHAR(255),
+        tool VARCHAR(100),
+        action VARCHAR(100) NOT NULL,
+        entity_type VARCHAR(50) NOT NULL,
+        entity_ids JSONB NOT NULL,
+        changes JSONB NOT NULL,
+        outcome VARCHAR(20) NOT NULL,
+        error TEXT
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_workbook_audit_occurred ON ${AUDIT_TABLE}(occurred_at);
+      CREATE INDEX IF NOT EXISTS idx_workbook_audit_actor ON ${AUDIT_TABLE}(actor_email);
+    `);
+  }
+
+  async append(entry: AuditEntry): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO ${AUDIT_TABLE} (${COLUMNS.join(', ')}) VALUES (${COLUMNS.map((_, index) => `$${index + 1}`).join(', ')})`,
+      toRow(entry).map(value => (typeof value === 'object' && value !== null ? JSON.stringify(value) : value))
+    );
+  }
+
+  async query(query: AuditQuery): Promise<AuditEntry[]> {
+    const { where, args, limit } = buildFilter(query, 'postgres');
+    const result = await this.pool.query(
+      `SELECT * FROM ${AUDIT_TABLE} ${where} ORDER BY occurred_at DESC, id DESC LIMIT ${limit}`,
+      args
+    );
+    return result.rows.map(row => fromRow({
+      ...row,
+      occurred_at: row.occurred_at instanceof Date ? row.occurred_at.toISOString() : row.occurred_at
+    }));
+  }
+
+  async close(): Promise<void> {
+    await this.pool.end();
+  }
+}
+
+/**
+ * Column values of an entry, in COLUMNS order
+ */
+function toRow(entry: AuditEntry): unknown[] {
+  return [
+    entry.occurredAt, entry.tenantId ?? null, entry.actor.aadObjectId ?? null, entry.actor.name ?? null,
+    entry.actor.email ?? null, entry.actor.employeeId ?? null, entry.actor.role ?? null, entry.conversationId ?? null,
+    entry.tool ?? null, entry.action, entry.entityType, entry.entityIds, entry.changes, entry.outcome, entry.error ?? null
+  ];
+}
+
+function fromRow(row: Record<string, unknown>): AuditEntry {
+  const optional = (value: unknown) => (value === null || value === undefined ? undefined : String(value));
+  return {
+    id: Number(row.id),
+    occurredAt: String(row.occurred_at),
+    tenantId: optional(row.tenant_id),
+    actor: {
+      aadObjectId: optional(row.actor_aad_object_id),
+      name: optional(row.actor_name),
+      email: optional(row.actor_email),
+      employeeId: row.actor_employee_id === null || row.actor_employee_id === undefined ? undefined : Number(row.actor_employee_id),
+      role: optional(row.actor_role)
+    },
+    conversationId: optional(row.conversation_id),
+    tool: optional(row.tool),
+    action: String(row.action),
+    entityType: String(row.entity_type) as AuditEntityType,
+    entityIds: row.entity_ids as number[],
+    changes: row.changes as Record<string, AuditChange>,
+    outcome: String(row.outcome) as AuditOutcome,
+    error: optional(row.error)
+  };
+}
+
+/**
+ * WHERE clause, parameters and row limit of a query in either SQL dialect
+ */
+function buildFilter(query: AuditQuery, dialect: 'libsql' | 'postgres'): { where: string; args: unknown[]; limit: number } {
+  const args: unknown[] = [];
+  const param = (value: unknown) => {
+    args.push(value);
+    return dialect === 'postgres' ? `$${args.length}` : '?';
+  };
+
+  const conditions: string[] = [];
+  if (query.tenantId) {
+    conditions.push(`tenant_id = ${param(query.tenantId)}`);
+  }
+  if (query.user) {
+    const user = query.user.toLowerCase();
+    conditions.push(`(lower(actor_email) = ${param(user)} OR actor_aad_object_id = ${param(query.user)} OR lower(actor_name) LIKE ${param(`%${user}%`)})`);
+  }
+  if (query.employeeId !== undefined) {
+    conditions.push(`actor_employee_id = ${param(query.employeeId)}`);
+  }
+  if (query.entityType) {
+    conditions.push(`entity_type = ${param(query.entityType)}`);
+  }
+  if (query.entityId !== undefined) {
+    conditions.push(dialect === 'postgres'
+      ? `entity_ids @> ${param(JSON.stringify([query.entityId]))}::jsonb`
+      : `EXISTS (SELECT 1 FROM json_each(entity_ids) WHERE value = ${param(query.entityId)})`);
+  }
+  if (query.action) {
+    conditions.push(`action = ${param(query.action)}`);
+  }
+  if (query.tool) {
+    conditions.push(`tool = ${param(query.tool)}`);
+  }
+  if (query.outcome) {
+    conditions.push(`outcome = ${param(query.outcome)}`);
+  }
+  if (query.from) {
+    conditions.push(`occurred_at >= ${param(toBound(query.from, false))}`);
+  }
+  if (query.to) {
+    conditions.push(`occurred_at <= ${param(toBound(query.to, true))}`);
+  }
+
+  return {
+    where: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '',
+    args,
+    limit: Math.min(Math.max(Math.floor(query.limit || DEFAULT_AUDIT_QUERY_LIMIT), 1), MAX_AUDIT_QUERY_LIMIT)
+  };
+}
+
+/**
+ * ISO timestamp of a date bound; a plain date covers that whole day
+ */
+function toBound(value: string, endOfDay: boolean): string {
+  const date = new Date(/^\d{4}-\d{2}-\d{2}$/.test(value) ? `${value}T${endOfDay ? '23:59:59.999' : '00:00:00.000'}Z` : value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid audit date: ${value}`);
+  }
+  return date.toISOString();
+}
+
+/**
+ * Pick the audit log storage for the environment
+ * PostgreSQL in Azure (falling back to a LibSQL file), LibSQL locally; WORKBOOK_AUDIT_DB overrides the LibSQL URL
+ */
+export async function createAuditStore(): Promise<AuditStore> {
+  const isProduction = process.env.NODE_ENV === 'production' || !!process.env.WEBSITE_INSTANCE_ID;
+
+  if (isProduction) {
+    try {
+      const connectionString = await keyVaultService.getSecret('postgres-connection-string');
+      console.log('📜 Using PostgreSQL for the audit log');
+      return new PostgresAuditStore(connectionString);
+    } catch (error) {
+      console.error('Failed to get PostgreSQL connection for the audit log, falling back to LibSQL', error);
+    }
+  }
+
+  const url = process.env.WORKBOOK_AUDIT_DB || `file:./workbook-audit-${isProduction ? 'prod' : 'dev'}.db`;
+  console.log(`📜 Using LibSQL for the audit log: ${url}`);
+  return new LibSQLAuditStore(url);
+}
\ No newline at end of file
@@ -1,427 +1,342 @@
-import https from 'https';
+import { z } from 'zod';
 import { WorkbookConfig, ServiceResponse } from '../../types/workbook.types.js';
+import { HttpTransport, HttpMethod, TransportRequest } from './httpTransport.js';
+import { validateResponse } from './schemaValidation.js';
+import { TrafficRecorder } from './trafficRecorder.js';
+import { cacheManager, CacheScope } from './cache.js';
+import { auditLog, AuditedWrite } from '../audit/auditLog.js';
+
+// Schema of an API response; parsed JSON is checked against it before it is returned as T
+type ResponseSchema<T> = z.ZodType<T, z.ZodTypeDef, unknown>;
+
+// Caching of a read: TTL in seconds (the key's namespace TTL when omitted) and the tags (see CacheTags) writes invalidate it by
+export interface CachePolicy {
+  ttl?: number;
+  tags: string[];
+  refresh?: boolean;             // Skip the cached copy; the response is still cached
+}
+
+// Per-request transport options
+export interface RequestOptions {
+  idempotent?: boolean;          // A read sent as POST: retried on transient failures like a GET
+}
+
+// Chunking of large batch requests: items per request and requests in flight at once
+export interface BatchChunking {
+  chunkSize: number;
+  concurrency: number;
+}
 
 export abstract class BaseService {
   protected config: WorkbookConfig;
+  protected cache: CacheScope;                   // Cache entries of the tenant the client serves
+  private transport: HttpTransport;
+  private recorder?: TrafficRecorder;
+  private inFlight = new Map<string, Promise<unknown>>();
 
   constructor(config: WorkbookConfig) {
     this.config = {
       timeout: 120000, // 120 second timeout for large datasets
+      schemaValidation: 'lenient',
       ...config
     };
+    this.cache = cacheManager.scope(this.config.tenantId);
+    this.transport = new HttpTransport({
+      hostname: this.config.baseUrl,
+      timeout: this.config.timeout,
+      retry: this.config.retry,
+      circuitBreaker: this.config.circuitBreaker
+    });
+    if (this.config.traffic) {
+      this.recorder = new TrafficRecorder(this.config.traffic);
+    }
   }
 
   /**
    * Generic HTTP request method with error handling and type safety
+   * The response is validated against the schema when one is given
    */
   protected async request<T = unknown>(
     endpoint: string,
-    method: 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH' = 'GET',
-    body?: unknown
+    method: HttpMethod = 'GET',
+    body?: unknown,
+    schema?: ResponseSchema<T>,
+    options: RequestOptions = {}
   ): Promise<ServiceResponse<T>> {
-    return new Promise((resolve) => {
-      const requestBody = body ? JSON.stringify(body) : '';
-      
-      const headers: Record<string, string | number> = {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${this.config.apiKey}`,
-        'Content-Length': Buffer.byteLength(requestBody)
-      };
+    const requestBody = body ? JSON.stringify(body) : '';
 
-      // Add method override for GET requests (Workbook API requirement)
-      if (method === 'GET') {
-        headers['X-HTTP-METHOD-OVERRIDE'] = 'GET';
-      }
-
-      const options: https.RequestOptions = {
-        hostname: this.config.baseUrl,
-        path: `/api/json/reply/${endpoint}`,
-        method: method === 'GET' ? 'POST' : method, // Use POST with override for GET, but real PATCH for PATCH
-        headers,
-        timeout: this.config.timeout
-      };
+    const headers: Record<string, string | number> = {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${this.config.apiKey}`,
+      'Content-Length': Buffer.byteLength(requestBody)
+    };
 
-      const req = https.request(options, (res) => {
-        const chunks: Buffer[] = [];
-        
-        res.on('data', (chunk) => {
-          chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
-        });
-        
-        res.on('end', () => {
-          try {
-            // Properly decode UTF-8 data from chunks
-            const data = Buffer.concat(chunks).toString('utf8');
-            
-            // Handle successful responses
-            if (res.statusCode === 200) {
-              const parsedData = data ? JSON.parse(data) : undefined;
-              resolve({
-                success: true,
-                data: parsedData as T,
-                cached: false
-              });
-              return;
-            }
-
-            // Handle specific error cases
-            if (res.statusCode === 204) {
-              resolve({
-                success: true,
-                data: undefined as T,
-                cached: false
-              });
-              return;
-            }
-
-            if (res.statusCode === 500 && data.includes('do not have access')) {
-              resolve({
-                success: false,
-                error: 'Access denied to this endpoint'
-              });
-              return;
-            }
-
-            // Handle other error status codes
-            const errorMessage = data ? data.slice(0, 200) : `HTTP ${res.statusCode}`;
-            resolve({
-              success: false,
-              error: `API Error ${res.statusCode}: ${errorMessage}`
-            });
-
-          } catch (parseError) {
-            resolve({
-              success: false,
-              error: `Failed to parse response: ${parseError instanceof Error ? parseError.message : 'Unknown error'}`
-            });
-          }
-        });
-      });
-      
-      req.on('error', (error) => {
-        resolve({
-          success: false,
-          error: `Network error: ${error.message}`
-        });
-      });
+    // Add method override for GET requests (Workbook API requirement)
+    if (method === 'GET') {
+      headers['X-HTTP-METHOD-OVERRIDE'] = 'GET';
+    }
 
-      req.on('timeout', () => {
-        req.destroy();
-        resolve({
-          success: false,
-          error: 'Request timeout'
-        });
-      });
-      
-      req.write(requestBody);
-      req.end();
+    const response = await this.send<T>({
+      endpoint: getEndpointName(endpoint),
+      method,
+      wireMethod: method === 'GET' ? 'POST' : method, // Use POST with override for GET, but real PATCH for PATCH
+      idempotent: options.idempotent,
+      path: `/api/json/reply/${endpoint}`,
+      headers,
+      body: requestBody
     });
+
+    return this.validate(response, endpoint, schema);
   }
 
   /**
    * Helper method for GET requests (with POST override)
    */
-  protected async get<T = unknown>(endpoint: string, params?: unknown): Promise<ServiceResponse<T>> {
-    return this.request<T>(endpoint, 'GET', params);
+  protected async get<T = unknown>(endpoint: string, params?: unknown, schema?: ResponseSchema<T>): Promise<ServiceResponse<T>> {
+    return this.request<T>(endpoint, 'GET', params, schema);
   }
 
   /**
    * Helper method for pure GET requests with query parameters (no POST override)
    */
-  protected async pureGet<T = unknown>(endpoint: string, params?: Record<string, string | number | boolean>): Promise<ServiceResponse<T>> {
-    return new Promise((resolve) => {
-      // Build query string from parameters
-      let queryString = '';
-      if (params) {
-        const queryParams = new URLSearchParams();
-        Object.entries(params).forEach(([key, value]) => {
-          queryParams.append(key, String(value));
-        });
-        queryString = queryParams.toString();
-      }
-
-      const path = `/api/json/reply/${endpoint}${queryString ? `?${queryString}` : ''}`;
-      
-      const options: https.RequestOptions = {
-        hostname: this.config.baseUrl,
-        path: path,
-        method: 'GET',
-        headers: {
-          'Authorization': `Bearer ${this.config.apiKey}`,
-          'Content-Type': 'application/json'
-        },
-        timeout: this.config.timeout
-      };
-
-      const req = https.request(options, (res) => {
-        const chunks: Buffer[] = [];
-        
-        res.on('data', (chunk) => {
-          chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
-        });
-        
-        res.on('end', () => {
-          try {
-            // Properly decode UTF-8 data from chunks
-            const data = Buffer.concat(chunks).toString('utf8');
-            
-            if (res.statusCode === 200) {
-              const parsedData = data ? JSON.parse(data) : undefined;
-              resolve({
-                success: true,
-                data: parsedData as T,
-                cached: false
-              });
-              return;
-            }
-
-            if (res.statusCode === 204) {
-              resolve({
-                success: true,
-                data: undefined as T,
-                cached: false
-              });
-              return;
-            }
-
-            const errorMessage = data ? data.slice(0, 200) : `HTTP ${res.statusCode}`;
-            resolve({
-              success: false,
-              error: `API Error ${res.statusCode}: ${errorMessage}`
-            });
-
-          } catch (parseError) {
-            resolve({
-              success: false,
-              error: `Failed to parse response: ${parseError instanceof Error ? parseError.message : 'Unknown error'}`
-            });
-          }
-        });
-      });
-      
-      req.on('error', (error) => {
-        resolve({
-          success: false,
-          error: `Network error: ${error.message}`
-        });
+  protected async pureGet<T = unknown>(
+    endpoint: string,
+    params?: Record<string, string | number | boolean>,
+    schema?: ResponseSchema<T>
+  ): Promise<ServiceResponse<T>> {
+    // Build query string from parameters
+    let queryString = '';
+    if (params) {
+      const queryParams = new URLSearchParams();
+      Object.entries(params).forEach(([key, value]) => {
+        queryParams.append(key, String(value));
       });
+      queryString = queryParams.toString();
+    }
 
-      req.on('timeout', () => {
-        req.destroy();
-        resolve({
-          success: false,
-          error: 'Request timeout'
-        });
-      });
-      
-      req.end();
+    const response = await this.send<T>({
+      endpoint: getEndpointName(endpoint),
+      method: 'GET',
+      path: `/api/json/reply/${endpoint}${queryString ? `?${queryString}` : ''}`,
+      headers: {
+        'Authorization': `Bearer ${this.config.apiKey}`,
+        'Content-Type': 'application/json'
+      }
     });
+
+    return this.validate(response, endpoint, schema);
   }
 
   /**
-   * Helper method for POST requests
+   * Helper method for POST requests; reads sent as POST pass { idempotent: true } so they are retried
    */
-  protected async post<T = unknown>(endpoint: string, body?: unknown): Promise<ServiceResponse<T>> {
-    return this.request<T>(endpoint, 'POST', body);
+  protected async post<T = unknown>(endpoint: string, body?: unknown, schema?: ResponseSchema<T>, options?: RequestOptions): Promise<ServiceResponse<T>> {
+    return this.request<T>(endpoint, 'POST', body, schema, options);
   }
 
   /**
    * Pure POST method for direct payload posting
    */
-  protected async purePost<T = unknown>(endpoint: string, payload?: unknown): Promise<ServiceResponse<T>> {
-    return new Promise((resolve) => {
-      const requestBody = payload ? JSON.stringify(payload) : '';
-      
-      const headers: Record<string, string | number> = {
+  protected async purePost<T = unknown>(endpoint: string, payload?: unknown, schema?: ResponseSchema<T>, options?: RequestOptions): Promise<ServiceResponse<T>> {
+    return this.sendPayload<T>(endpoint, 'POST', payload, schema, options);
+  }
+
+  /**
+   * Helper method for PATCH requests (which Workbook implements as PATCH with Patch parameter)
+   */
+  protected async patch<T = unknown>(endpoint: string, patchData: unknown, schema?: ResponseSchema<T>): Promise<ServiceResponse<T>> {
+    return this.request<T>(endpoint, 'PATCH', { Patch: patchData }, schema);
+  }
+
+  /**
+   * Pure PATCH method for direct patch operations
+   */
+  protected async purePatch<T = unknown>(endpoint: string, payload?: unknown, schema?: ResponseSchema<T>): Promise<ServiceResponse<T>> {
+    return this.sendPayload<T>(endpoint, 'PATCH', payload, schema);
+  }
+
+  /**
+   * Send a JSON payload as-is, without the GET override or Patch wrapper
+   */
+  private async sendPayload<T>(endpoint: string, method: HttpMethod, payload?: unknown, schema?: ResponseSchema<T>, options: RequestOptions = {}): Promise<ServiceResponse<T>> {
+    const requestBody = payload ? JSON.stringify(payload) : '';
+
+    const response = await this.send<T>({
+      endpoint: getEndpointName(endpoint),
+      method,
+      idempotent: options.idempotent,
+      path: `/api/json/reply/${endpoint}`,
+      headers: {
         'Content-Type': 'application/json',
         'Authorization': `Bearer ${this.config.apiKey}`,
         'Content-Length': Buffer.byteLength(requestBody)
-      };
+      },
+      body: requestBody || undefined
+    });
 
-      const options: https.RequestOptions = {
-        hostname: this.config.baseUrl,
-        path: `/api/json/reply/${endpoint}`,
-        method: 'POST',
-        headers,
-        timeout: this.config.timeout
-      };
+    return this.validate(response, endpoint, schema);
+  }
 
-      const req = https.request(options, (res) => {
-        const chunks: Buffer[] = [];
-        
-        res.on('data', (chunk) => {
-          chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
-        });
-        
-        res.on('end', () => {
-          try {
-            const data = Buffer.concat(chunks).toString('utf8');
-            
-            if (res.statusCode === 200 || res.statusCode === 201) {
-              const parsedData = data ? JSON.parse(data) : undefined;
-              resolve({
-                success: true,
-                data: parsedData as T,
-                cached: false
-              });
-              return;
-            }
-
-            if (res.statusCode === 204) {
-              resolve({
-                success: true,
-                data: undefined as T,
-                cached: false
-              });
-              return;
-            }
-
-            const errorMessage = data ? data.slice(0, 200) : `HTTP ${res.statusCode}`;
-            resolve({
-              success: false,
-              error: `API Error ${res.statusCode}: ${errorMessage}`
-            });
-
-          } catch (parseError) {
-            resolve({
-              success: false,
-              error: `Failed to parse response: ${parseError instanceof Error ? parseError.message : 'Unknown error'}`
-            });
-          }
-        });
-      });
-      
-      req.on('error', (error) => {
-        resolve({
-          success: false,
-          error: `Network error: ${error.message}`
-        });
-      });
+  /**
+   * Send a request through the transport, or answer it from a recording in replay mode
+   * Recorded responses are captured before schema validation so replays validate the same way
+   */
+  private async send<T>(request: TransportRequest): Promise<ServiceResponse<T>> {
+    if (this.recorder?.mode === 'replay') {
+      return this.recorder.replay<T>(request);
+    }
 
-      req.on('timeout', () => {
-        req.destroy();
-        resolve({
-          success: false,
-          error: 'Request timeout'
-        });
-      });
-      
-      if (requestBody) {
-        req.write(requestBody);
-      }
-      req.end();
-    });
+    const startTime = Date.now();
+    const response = await this.transport.send<T>(request);
+    if (this.recorder?.mode === 'record') {
+      await this.recorder.record(request, response, Date.now() - startTime);
+    }
+    return response;
   }
 
   /**
-   * Helper method for PATCH requests (which Workbook implements as PATCH with Patch parameter)
+   * Check a successful response against its schema using the configured validation mode
    */
-  protected async patch<T = unknown>(endpoint: string, patchData: unknown): Promise<ServiceResponse<T>> {
-    return this.request<T>(endpoint, 'PATCH', { Patch: patchData });
+  private validate<T>(response: ServiceResponse<T>, endpoint: string, schema?: ResponseSchema<T>): ServiceResponse<T> {
+    if (!schema) {
+      return response;
+    }
+    return validateResponse(response, schema, getEndpointName(endpoint), this.config.schemaValidation || 'lenient');
   }
 
   /**
-   * Pure PATCH method for direct patch operations
+   * Helper method for batch operations (endpoints with [] suffix)
+   * Workbook API often expects arrays for batch operations
    */
-  protected async purePatch<T = unknown>(endpoint: string, payload?: unknown): Promise<ServiceResponse<T>> {
-    return new Promise((resolve) => {
-      const requestBody = payload ? JSON.stringify(payload) : '';
-      
-      const headers: Record<string, string | number> = {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${this.config.apiKey}`,
-        'Content-Length': Buffer.byteLength(requestBody)
-      };
+  protected async getBatch<T = unknown>(endpoint: string, params: unknown[], itemSchema?: ResponseSchema<T>): Promise<ServiceResponse<T[]>> {
+    return this.request<T[]>(`${endpoint}[]`, 'GET', params, itemSchema ? z.array(itemSchema) : undefined);
+  }
 
-      const options: https.RequestOptions = {
-        hostname: this.config.baseUrl,
-        path: `/api/json/reply/${endpoint}`,
-        method: 'PATCH',
-        headers,
-        timeout: this.config.timeout
-      };
+  /**
+   * Batch operation split into chunks sent with bounded concurrency
+   * Results keep the order of params; the first failing chunk fails the whole call
+   */
+  protected async getBatchChunked<T = unknown>(
+    endpoint: string,
+    params: unknown[],
+    chunking: BatchChunking,
+    itemSchema?: ResponseSchema<T>
+  ): Promise<ServiceResponse<T[]>> {
+    if (params.length <= chunking.chunkSize) {
+      return this.getBatch<T>(endpoint, params, itemSchema);
+    }
 
-      const req = https.request(options, (res) => {
-        const chunks: Buffer[] = [];
-        
-        res.on('data', (chunk) => {
-          chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
-        });
-        
-        res.on('end', () => {
-          try {
-            const data = Buffer.concat(chunks).toString('utf8');
-            
-            if (res.statusCode === 200) {
-              const parsedData = data ? JSON.parse(data) : undefined;
-              resolve({
-                success: true,
-                data: parsedData as T,
-                cached: false
-              });
-              return;
-            }
-
-            if (res.statusCode === 204) {
-              resolve({
-                success: true,
-                data: undefined as T,
-                cached: false
-              });
-              return;
-            }
-
-            const errorMessage = data ? data.slice(0, 200) : `HTTP ${res.statusCode}`;
-            resolve({
-              success: false,
-              error: `API Error ${res.statusCode}: ${errorMessage}`
-            });
-
-          } catch (parseError) {
-            resolve({
-              success: false,
-              error: `Failed to parse response: ${parseError instanceof Error ? parseError.message : 'Unknown error'}`
-            });
-          }
-        });
-      });
-      
-      req.on('error', (error) => {
-        resolve({
-          success: false,
-          error: `Network error: ${error.message}`
-        });
-      });
+    const chunks: unknown[][] = [];
+    for (let start = 0; start < params.length; start += chunking.chunkSize) {
+      chunks.push(params.slice(start, start + chunking.chunkSize));
+    }
 
-      req.on('timeout', () => {
-        req.destroy();
-        resolve({
-          success: false,
-          error: 'Request timeout'
-        });
-      });
-      
-      if (requestBody) {
-        req.write(requestBody);
+    const results: T[][] = new Array(chunks.length);
+    let failure: ServiceResponse<T[]> | undefined;
+    let next = 0;
+
+    // Each worker takes the next unsent chunk until all are sent or one fails
+    const worker = async (): Promise<void> => {
+      while (!failure && next < chunks.length) {
+        const index = next++;
+        const response = await this.getBatch<T>(endpoint, chunks[index], itemSchema);
+        if (!response.success || !response.data) {
+          failure = failure || {
+            success: false,
+            error: `${response.error || 'Batch request failed'} (chunk ${index + 1} of ${chunks.length})`,
+            apiError: response.apiError
+          };
+          return;
+        }
+        results[index] = response.data;
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(chunking.concurrency, chunks.length) }, worker));
+
+    if (failure) {
+      return failure;
+    }
+
+    return {
+      success: true,
+      data: results.flat(),
+      cached: false
+    };
+  }
+
+  /**
+   * Share one in-flight call between concurrent callers asking for the same key
+   * The entry is dropped once the call settles, so later callers start a fresh call (or hit the cache)
+   */
+  protected singleFlight<T>(key: string, fn: () => Promise<T>): Promise<T> {
+    const pending = this.inFlight.get(key) as Promise<T> | undefined;
+    if (pending) {
+      return pending;
+    }
+
+    const call = fn().finally(() => this.inFlight.delete(key));
+    this.inFlight.set(key, call);
+    return call;
+  }
+
+  /**
+   * Read through the cache with stale-while-revalidate
+   * Fresh entries are served as is; stale ones are served while a background call refreshes them;
+   * misses call the API once however many callers ask. Only successful responses are cached, and only
+   * when no write invalidated the policy's tags while the call was in flight (it may hold pre-write data)
+   */
+  protected async cachedRead<T>(key: string, policy: CachePolicy, fetch: () => Promise<ServiceResponse<T>>): Promise<ServiceResponse<T>> {
+    // Callers after an invalidation start their own call instead of joining one that began before it
+    const generation = this.cache.getTagGeneration(policy.tags);
+    const refresh = () => this.singleFlight(`${key}@${generation}`, async () => {
+      const response = await fetch();
+      if (response.success && response.data !== undefined && this.cache.getTagGeneration(policy.tags) === generation) {
+        this.cache.set(key, response.data, policy.ttl, policy.tags);
       }
-      req.end();
+      return { ...response, asOf: response.asOf || new Date().toISOString() };
     });
+
+    const entry = policy.refresh ? undefined : this.cache.getEntry<T>(key);
+    if (entry) {
+      if (entry.stale) {
+        refresh().catch(error => console.error(`❌ Background refresh of ${key} failed:`, error));
+      }
+      return { success: true, data: entry.value, cached: true, asOf: new Date(entry.storedAt).toISOString() };
+    }
+
+    return refresh();
   }
 
   /**
-   * Helper method for batch operations (endpoints with [] suffix)
-   * Workbook API often expects arrays for batch operations
+   * Make a write and record it in the audit log with its outcome
+   * The write may fill in its description as it learns more (before values, affected IDs)
    */
-  protected async getBatch<T = unknown>(endpoint: string, params: unknown[]): Promise<ServiceResponse<T[]>> {
-    return this.request<T[]>(`${endpoint}[]`, 'GET', params);
+  // eslint-disable-next-line no-unused-vars
+  protected async audited<R extends ServiceResponse<unknown>>(write: AuditedWrite, run: (write: AuditedWrite) => Promise<R>): Promise<R> {
+    let response: R;
+    try {
+      response = await run(write);
+    } catch (error) {
+      await auditLog.record({ ...write, tenantId: this.config.tenantId, outcome: 'failure', error: error instanceof Error ? error.message : String(error) });
+      throw error;
+    }
+
+    await auditLog.record({
+      ...write,
+      tenantId: this.config.tenantId,
+      outcome: response.success ? 'success' : 'failure',
+      error: response.success ? undefined : response.error
+    });
+    return response;
   }
 
   /**
    * Helper method for single item batch operation
    * Many Workbook endpoints expect [{Id: x}] instead of {Id: x}
    */
-  protected async getBatchById<T = unknown>(endpoint: string, id: number): Promise<ServiceResponse<T>> {
-    const response = await this.getBatch<T>(endpoint, [{ Id: id }]);
+  protected async getBatchById<T = unknown>(endpoint: string, id: number, itemSchema?: ResponseSchema<T>): Promise<ServiceResponse<T>> {
+    const response = await this.getBatch<T>(endpoint, [{ Id: id }], itemSchema);
     
     if (response.success && response.data && response.data.length > 0) {
       return {
@@ -433,7 +348,8 @@ export abstract class BaseService {
     
     return {
       success: false,
-      error: 'Resource not found or empty response'
+      error: response.error || 'Resource not found or empty response',
+      apiError: response.apiError
     };
   }
 
@@ -466,4 +382,11 @@ export abstract class BaseService {
     const paramString = JSON.stringify(sortedParams);
     return `${prefix}:${Buffer.from(paramString).toString('base64')}`;
   }
+}
+
+/**
+ * Endpoint name without query string, used to group calls for telemetry and circuit breaking
+ */
+function getEndpointName(endpoint: string): string {
+  return endpoint.split('?')[0];
 }
\ No newline at end of file
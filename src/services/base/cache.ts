@@ -1,61 +1,178 @@
-import NodeCache from 'node-cache';
-import { CacheConfig } from '../../types/workbook.types.js';
+import { CacheConfig, CacheNamespaceConfig } from '../../types/workbook.types.js';
+import { CacheBackend, CacheBackendKind, MemoryCacheBackend } from './cacheBackends.js';
 
 // Default cache configuration (in seconds)
 // Increased TTL for testing to reduce token consumption
 const DEFAULT_CONFIG: CacheConfig = {
   contactsTTL: 900,   // 15 minutes (increased from 5)
   jobsTTL: 300,       // 5 minutes (increased from 1)
-  resourcesTTL: 900   // 15 minutes (increased from 5)
+  resourcesTTL: 900,  // 15 minutes (increased from 5)
+  maxEntries: 5000,
+  maxSizeBytes: 100 * 1024 * 1024
 };
 
+// Namespace of keys that match no configured prefix
+const DEFAULT_NAMESPACE = 'default';
+
+// Separates a tenant scope from the key or tag it scopes, e.g. "acme::resources:stats"
+const SCOPE_SEPARATOR = '::';
+
+// Past its TTL an entry may still be served stale (see getEntry) for as long again while it is revalidated
+const STALE_WINDOW_FACTOR = 1;
+
+/**
+ * Cache tags: entries are tagged with what they contain so writes can invalidate exactly that
+ * - resource / contact    lists and aggregates of resources or contacts
+ * - resource:{id}         a single resource; contact:{id} a single contact
+ * - job / job:{id}        job lists and searches / everything cached about one job
+ * - invoices:{jobId}      invoices of a job
+ * - billing               everything the billing service caches (invoices, WIP, retainers); time writes change it
+ */
+export const CacheTags = {
+  RESOURCE: 'resource',
+  CONTACT: 'contact',
+  JOB: 'job',
+  BILLING: 'billing',
+  resource: (id: number | string) => `resource:${id}`,
+  contact: (id: number | string) => `contact:${id}`,
+  job: (id: number | string) => `job:${id}`,
+  invoices: (jobId: number | string) => `invoices:${jobId}`
+};
+
+/**
+ * Namespaces for the key prefixes the services use; TTLs follow the contacts/jobs/resources split
+ */
+function getDefaultNamespaces(config: CacheConfig): Record<string, CacheNamespaceConfig> {
+  return {
+    resources: { prefixes: ['resources:', 'resource:', 'resource-'], ttl: config.resourcesTTL },
+    contacts: { prefixes: ['contacts:', 'contact:'], ttl: config.contactsTTL },
+    jobs: {
+      prefixes: ['job', 'task', 'activities-', 'expenditure-', 'departments-', 'dept-', 'tags-', 'price-lists'],
+      ttl: config.jobsTTL
+    },
+    timeEntries: { prefixes: ['time-entries', 'approval-stats'], ttl: config.jobsTTL },
+    billing: { prefixes: ['billing-', 'invoice'], ttl: config.jobsTTL },
+    analytics: { prefixes: ['analytics-'], ttl: config.jobsTTL }
+  };
+}
+
+interface StoredEntry {
+  value: unknown;
+  namespace: string;
+  tags: string[];
+  storedAt: number;
+  freshUntil: number;
+  expiresAt: number;
+  size: number;
+}
+
+// Cached value with when it was stored, for stale-while-revalidate reads
+export interface CacheEntryInfo<T> {
+  value: T;
+  storedAt: number;
+  stale: boolean;                // Past its TTL; serve it but fetch a fresh copy
+}
+
+export interface CacheNamespaceStats {
+  keys: number;
+  sizeBytes: number;
+  hits: number;
+  misses: number;
+  evictions: number;
+  expirations: number;
+}
+
+// Totals keep the NodeCache.Stats fields (hits, misses, keys, ksize, vsize) used by health checks
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  keys: number;
+  ksize: number;
+  vsize: number;
+  evictions: number;
+  expirations: number;
+  backend: CacheBackendKind;
+  namespaces: Record<string, CacheNamespaceStats>;
+}
+
 class CacheManager {
-  private cache: NodeCache;
+  private entries = new Map<string, StoredEntry>();   // Insertion order doubles as least-recently-used order
   private config: CacheConfig;
+  private namespaces: Record<string, CacheNamespaceConfig>;
+  private counters: Record<string, CacheNamespaceStats> = {};
+  private backend: CacheBackend = new MemoryCacheBackend();
+  private pendingWrites: Promise<unknown> = Promise.resolve();
+  private generation = 0;                               // Bumped by every tag invalidation
+  private tagGenerations = new Map<string, number>();   // Generation of the last invalidation of each tag
 
   constructor(config?: Partial<CacheConfig>) {
     // Use longer TTL for testing to reduce API calls and token consumption
     const isTestEnvironment = process.env.NODE_ENV === 'test' || process.env.NODE_ENV === 'dev';
     const testConfig = isTestEnvironment ? {
       contactsTTL: 1800,   // 30 minutes for testing
-      jobsTTL: 600,        // 10 minutes for testing  
+      jobsTTL: 600,        // 10 minutes for testing
       resourcesTTL: 1800   // 30 minutes for testing
     } : {};
-    
+
     this.config = { ...DEFAULT_CONFIG, ...testConfig, ...config };
-    
-    // Initialize NodeCache with extended TTL for testing
-    this.cache = new NodeCache({
-      stdTTL: this.config.contactsTTL,
-      checkperiod: 60, // Check for expired keys every 60 seconds
-      useClones: false // Better performance, but be careful with object mutations
+    this.namespaces = { ...getDefaultNamespaces(this.config), ...this.config.namespaces };
+
+    // Check for expired keys every 60 seconds
+    setInterval(() => this.purgeExpired(), 60 * 1000).unref();
+  }
+
+  /**
+   * Persist entries in a backend and load the ones it already holds
+   * Reads stay synchronous from memory; writes go through to the backend
+   */
+  async useBackend(backend: CacheBackend): Promise<void> {
+    await backend.initialize();
+    const stored = await backend.load();
+
+    const previous = this.backend;
+    this.backend = backend;
+    await previous.close();
+
+    stored.forEach(({ key, ...entry }) => {
+      this.entries.set(key, entry);
+      this.enforceLimits(entry.namespace);
     });
 
-    // Log cache events in development
-    if (process.env.NODE_ENV === 'dev') {
-      this.cache.on('set', (key) => {
-        console.log(`Cache SET: ${key}`);
-      });
-      
-      this.cache.on('del', (key) => {
-        console.log(`Cache DEL: ${key}`);
-      });
-      
-      this.cache.on('expired', (key) => {
-        console.log(`Cache EXPIRED: ${key}`);
-      });
-    }
+    console.log(`🗄️ API cache backend: ${backend.kind} (${stored.length} entries loaded)`);
   }
 
   /**
-   * Get a value from cache
+   * Get a value from cache; stale entries count as missing
    */
   get<T = unknown>(key: string): T | undefined {
-    const value = this.cache.get<T>(key);
+    const entry = this.getEntry<T>(key);
+    return entry && !entry.stale ? entry.value : undefined;
+  }
+
+  /**
+   * Get a value with when it was stored, including stale values still inside their stale window
+   */
+  getEntry<T = unknown>(key: string): CacheEntryInfo<T> | undefined {
+    const entry = this.entries.get(key);
+    const namespace = entry?.namespace || this.getNamespace(key);
+    const now = Date.now();
+    let value: T | undefined;
+
+    if (entry && entry.expiresAt <= now) {
+      this.expire(key, entry);
+    } else if (entry) {
+      // Move to the end so eviction takes the least recently used first
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+      value = entry.value as T;
+    }
+
+    this.getCounters(namespace)[value !== undefined ? 'hits' : 'misses']++;
+
     if (process.env.NODE_ENV === 'dev' && value !== undefined) {
       console.log(`Cache HIT: ${key}`);
     }
-    
+
     // Track cache hit/miss for testing purposes
     if (process.env.NODE_ENV === 'dev' || process.env.NODE_ENV === 'test') {
       try {
@@ -69,76 +186,338 @@ class CacheManager {
         // Silently ignore errors
       }
     }
-    
-    return value;
+
+    return entry && value !== undefined
+      ? { value, storedAt: entry.storedAt, stale: entry.freshUntil <= now }
+      : undefined;
   }
 
   /**
    * Set a value in cache with custom TTL
+   * Without a TTL the key's namespace TTL applies; tags (see CacheTags) let writes invalidate the entry
    */
-  set<T = unknown>(key: string, value: T, ttl?: number): boolean {
-    return this.cache.set(key, value, ttl || this.config.contactsTTL);
+  set<T = unknown>(key: string, value: T, ttl?: number, tags: string[] = []): boolean {
+    const namespace = this.getNamespace(key);
+    const ttlMs = (ttl || this.namespaces[namespace]?.ttl || this.config.contactsTTL) * 1000;
+    const now = Date.now();
+    const entry: StoredEntry = {
+      value,
+      namespace,
+      tags,
+      storedAt: now,
+      freshUntil: now + ttlMs,
+      expiresAt: now + ttlMs * (1 + STALE_WINDOW_FACTOR),
+      size: Buffer.byteLength(JSON.stringify(value) ?? '')
+    };
+
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.enforceLimits(namespace);
+
+    if (process.env.NODE_ENV === 'dev') {
+      console.log(`Cache SET: ${key}`);
+    }
+
+    this.persist(() => this.backend.set({ key, ...entry }));
+    return true;
   }
 
   /**
    * Set contacts data with appropriate TTL
    */
-  setContacts<T = unknown>(key: string, value: T): boolean {
-    return this.cache.set(key, value, this.config.contactsTTL);
+  setContacts<T = unknown>(key: string, value: T, tags: string[] = [CacheTags.CONTACT]): boolean {
+    return this.set(key, value, this.config.contactsTTL, tags);
   }
 
   /**
    * Set jobs data with appropriate TTL
    */
-  setJobs<T = unknown>(key: string, value: T): boolean {
-    return this.cache.set(key, value, this.config.jobsTTL);
+  setJobs<T = unknown>(key: string, value: T, tags: string[] = [CacheTags.JOB]): boolean {
+    return this.set(key, value, this.config.jobsTTL, tags);
   }
 
   /**
    * Set resources data with appropriate TTL
    */
-  setResources<T = unknown>(key: string, value: T): boolean {
-    return this.cache.set(key, value, this.config.resourcesTTL);
+  setResources<T = unknown>(key: string, value: T, tags: string[] = [CacheTags.RESOURCE]): boolean {
+    return this.set(key, value, this.config.resourcesTTL, tags);
   }
 
   /**
    * Delete a specific key
    */
   del(key: string): number {
-    return this.cache.del(key);
+    return this.deleteKeys([key]);
   }
 
   /**
    * Delete multiple keys
    */
   delStartWith(startStr: string): number {
-    const keys = this.cache.keys().filter(key => key.startsWith(startStr));
-    return this.cache.del(keys);
+    return this.deleteKeys(this.getKeys().filter(key => key.startsWith(startStr)));
+  }
+
+  /**
+   * Delete every entry carrying any of the tags
+   */
+  invalidateTags(tags: string[]): number {
+    this.generation++;
+    tags.forEach(tag => this.tagGenerations.set(tag, this.generation));
+
+    const keys = [...this.entries]
+      .filter(([, entry]) => entry.tags.some(tag => tags.includes(tag)))
+      .map(([key]) => key);
+    const deleted = this.deleteKeys(keys);
+    if (deleted > 0) {
+      console.log(`Cache invalidated ${deleted} entries tagged ${tags.join(', ')}`);
+    }
+    return deleted;
+  }
+
+  /**
+   * Generation of the latest invalidation of any of the tags, 0 when none was invalidated
+   * A read started at an older generation may predate a write and must not be cached
+   */
+  getTagGeneration(tags: string[]): number {
+    return Math.max(0, ...tags.map(tag => this.tagGenerations.get(tag) || 0));
   }
 
   /**
    * Clear all cache
    */
   flush(): void {
-    this.cache.flushAll();
+    this.entries.clear();
+    this.persist(() => this.backend.clear());
     console.log('Cache flushed');
   }
 
   /**
-   * Get cache statistics
+   * View of the cache for one tenant; its keys and tags never meet another tenant's
+   * Without a tenant the view is the whole, unprefixed cache
    */
-  getStats(): NodeCache.Stats {
-    return this.cache.getStats();
+  scope(tenantId?: string): CacheScope {
+    return new CacheScope(this, tenantId ? `${tenantId}${SCOPE_SEPARATOR}` : '');
+  }
+
+  /**
+   * Get cache statistics, in total and per namespace
+   */
+  getStats(): CacheStats {
+    const namespaces: Record<string, CacheNamespaceStats> = {};
+    const statsFor = (name: string) => namespaces[name] || (namespaces[name] = { ...this.getCounters(name), keys: 0, sizeBytes: 0 });
+    Object.keys(this.counters).forEach(statsFor);
+
+    let ksize = 0;
+    this.entries.forEach((entry, key) => {
+      const stats = statsFor(entry.namespace);
+      stats.keys++;
+      stats.sizeBytes += entry.size;
+      ksize += key.length;
+    });
+
+    const totals = Object.values(namespaces);
+    const sum = (field: keyof CacheNamespaceStats) => totals.reduce((total, stats) => total + stats[field], 0);
+
+    return {
+      hits: sum('hits'),
+      misses: sum('misses'),
+      keys: this.entries.size,
+      ksize,
+      vsize: sum('sizeBytes'),
+      evictions: sum('evictions'),
+      expirations: sum('expirations'),
+      backend: this.backend.kind,
+      namespaces
+    };
   }
 
   /**
    * Get all cache keys (useful for debugging)
    */
   getKeys(): string[] {
-    return this.cache.keys();
+    return [...this.entries.keys()];
+  }
+
+  /**
+   * Namespace of a key: the configured namespace with the longest matching prefix
+   */
+  private getNamespace(scopedKey: string): string {
+    const separator = scopedKey.indexOf(SCOPE_SEPARATOR);
+    const key = separator >= 0 ? scopedKey.slice(separator + SCOPE_SEPARATOR.length) : scopedKey;
+    let match = DEFAULT_NAMESPACE;
+    let matchLength = 0;
+    Object.entries(this.namespaces).forEach(([name, namespace]) => {
+      namespace.prefixes.forEach(prefix => {
+        if (prefix.length > matchLength && key.startsWith(prefix)) {
+          match = name;
+          matchLength = prefix.length;
+        }
+      });
+    });
+    return match;
+  }
+
+  private getCounters(namespace: string): CacheNamespaceStats {
+    return this.counters[namespace] || (this.counters[namespace] = {
+      keys: 0, sizeBytes: 0, hits: 0, misses: 0, evictions: 0, expirations: 0
+    });
+  }
+
+  /**
+   * Evict least recently used entries while the namespace or the whole cache is over its limits
+   */
+  private enforceLimits(namespace: string): void {
+    const namespaceLimit = this.namespaces[namespace]?.maxEntries;
+    if (namespaceLimit !== undefined) {
+      const keys = [...this.entries].filter(([, entry]) => entry.namespace === namespace).map(([key]) => key);
+      this.evict(keys.slice(0, Math.max(0, keys.length - namespaceLimit)));
+    }
+
+    const { maxEntries = Infinity, maxSizeBytes = Infinity } = this.config;
+    let totalSize = 0;
+    this.entries.forEach(entry => {
+      totalSize += entry.size;
+    });
+
+    const evicted: string[] = [];
+    for (const [key, entry] of this.entries) {
+      if (this.entries.size - evicted.length <= maxEntries && totalSize <= maxSizeBytes) {
+        break;
+      }
+      evicted.push(key);
+      totalSize -= entry.size;
+    }
+    this.evict(evicted);
+  }
+
+  private evict(keys: string[]): void {
+    if (keys.length === 0) {
+      return;
+    }
+    keys.forEach(key => {
+      const entry = this.entries.get(key);
+      if (entry) {
+        this.getCounters(entry.namespace).evictions++;
+        this.entries.delete(key);
+      }
+    });
+    this.persist(() => this.backend.delete(keys));
+  }
+
+  private expire(key: string, entry: StoredEntry): void {
+    this.entries.delete(key);
+    this.getCounters(entry.namespace).expirations++;
+    if (process.env.NODE_ENV === 'dev') {
+      console.log(`Cache EXPIRED: ${key}`);
+    }
+  }
+
+  private purgeExpired(): void {
+    const now = Date.now();
+    this.entries.forEach((entry, key) => {
+      if (entry.expiresAt <= now) {
+        this.expire(key, entry);
+      }
+    });
+    this.persist(() => this.backend.purgeExpired());
+  }
+
+  private deleteKeys(keys: string[]): number {
+    const deleted = keys.filter(key => this.entries.delete(key));
+    if (deleted.length > 0) {
+      if (process.env.NODE_ENV === 'dev') {
+        deleted.forEach(key => console.log(`Cache DEL: ${key}`));
+      }
+      this.persist(() => this.backend.delete(deleted));
+    }
+    return deleted.length;
+  }
+
+  /**
+   * Write to the backend without holding up the caller; writes are applied in order
+   * and the in-memory cache stays authoritative when one fails
+   */
+  private persist(write: () => Promise<unknown>): void {
+    this.pendingWrites = this.pendingWrites
+      .then(write)
+      .catch(error => console.error(`❌ Cache backend (${this.backend.kind}) write failed:`, error));
+  }
+}
+
+/**
+ * CacheScope - CacheManager operations with keys and tags prefixed by a tenant scope
+ */
+class CacheScope {
+  private cache: CacheManager;
+  private prefix: string;
+
+  constructor(cache: CacheManager, prefix: string) {
+    this.cache = cache;
+    this.prefix = prefix;
+  }
+
+  get<T = unknown>(key: string): T | undefined {
+    return this.cache.get<T>(this.prefix + key);
+  }
+
+  getEntry<T = unknown>(key: string): CacheEntryInfo<T> | undefined {
+    return this.cache.getEntry<T>(this.prefix + key);
+  }
+
+  set<T = unknown>(key: string, value: T, ttl?: number, tags: string[] = []): boolean {
+    return this.cache.set(this.prefix + key, value, ttl, this.scopeTags(tags));
+  }
+
+  setContacts<T = unknown>(key: string, value: T, tags: string[] = [CacheTags.CONTACT]): boolean {
+    return this.cache.setContacts(this.prefix + key, value, this.scopeTags(tags));
+  }
+
+  setJobs<T = unknown>(key: string, value: T, tags: string[] = [CacheTags.JOB]): boolean {
+    return this.cache.setJobs(this.prefix + key, value, this.scopeTags(tags));
+  }
+
+  setResources<T = unknown>(key: string, value: T, tags: string[] = [CacheTags.RESOURCE]): boolean {
+    return this.cache.setResources(this.prefix + key, value, this.scopeTags(tags));
+  }
+
+  del(key: string): number {
+    return this.cache.del(this.prefix + key);
+  }
+
+  delStartWith(startStr: string): number {
+    return this.cache.delStartWith(this.prefix + startStr);
+  }
+
+  invalidateTags(tags: string[]): number {
+    return this.cache.invalidateTags(this.scopeTags(tags));
+  }
+
+  getTagGeneration(tags: string[]): number {
+    return this.cache.getTagGeneration(this.scopeTags(tags));
+  }
+
+  /**
+   * Clear the scope's entries (everything for the unprefixed scope)
+   */
+  flush(): void {
+    if (this.prefix) {
+      this.cache.delStartWith(this.prefix);
+    } else {
+      this.cache.flush();
+    }
+  }
+
+  getKeys(): string[] {
+    return this.cache.getKeys()
+      .filter(key => key.startsWith(this.prefix))
+      .map(key => key.slice(this.prefix.length));
+  }
+
+  private scopeTags(tags: string[]): string[] {
+    return this.prefix ? tags.map(tag => this.prefix + tag) : tags;
   }
 }
 
 // Export singleton instance
 export const cacheManager = new CacheManager();
-export { CacheManager };
\ No newline at end of file
+export { CacheManager, CacheScope };
\ No newline at end of file
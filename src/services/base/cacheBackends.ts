@@ -0,0 +1,248 @@
+/**
+ * Cache Storage Backends
+ * Persist CacheManager entries so restarts and scale-out instances start warm
+ * CacheManager keeps a synchronous in-memory copy; backends are written through and loaded on start
+ */
+
+import { createClient, Client } from '@libsql/client';
+import { Pool } from 'pg';
+import { keyVaultService } from '../keyVault.js';
+
+export type CacheBackendKind = 'memory' | 'libsql' | 'postgres';
+
+export interface CacheEntry {
+  key: string;
+  namespace: string;
+  tags: string[];
+  value: unknown;
+  storedAt: number;             // Epoch milliseconds
+  freshUntil: number;           // Served as fresh until, then stale while it is revalidated
+  expiresAt: number;            // Dropped after
+  size: number;                 // Serialized size in bytes
+}
+
+/* eslint-disable no-unused-vars */
+export interface CacheBackend {
+  readonly kind: CacheBackendKind;
+  initialize(): Promise<void>;
+  load(): Promise<CacheEntry[]>;                  // Unexpired entries
+  set(entry: CacheEntry): Promise<void>;
+  delete(keys: string[]): Promise<void>;
+  clear(): Promise<void>;
+  purgeExpired(): Promise<number>;
+  close(): Promise<void>;
+}
+/* eslint-enable no-unused-vars */
+
+const CACHE_TABLE = 'workbook_cache_entries';
+
+// Keys per statement when deleting, below SQLite's bound parameter limit
+const DELETE_CHUNK_SIZE = 500;
+
+/**
+ * Process-local backend: nothing outlives the process (the behaviour before persistent backends)
+ */
+export class MemoryCacheBackend implements CacheBackend {
+  readonly kind = 'memory';
+
+  async initialize(): Promise<void> {}
+  async load(): Promise<CacheEntry[]> {
+    return [];
+  }
+  async set(): Promise<void> {}
+  async delete(): Promise<void> {}
+  async clear(): Promise<void> {}
+  async purgeExpired(): Promise<number> {
+    return 0;
+  }
+  async close(): Promise<void> {}
+}
+
+/**
+ * Cache entries in a LibSQL (SQLite) database file
+ */
+export class LibSQLCacheBackend implements CacheBackend {
+  readonly kind = 'libsql';
+  private client: Client;
+
+  constructor(url: string) {
+    this.client = createClient({ url });
+  }
+
+  async initialize(): Promise<void> {
+    await this.client.batch([
+      `CREATE TABLE IF NOT EXISTS ${CACHE_TABLE} (
+        key TEXT PRIMARY KEY,
+        namespace TEXT NOT NULL,
+        tags TEXT NOT NULL,
+        value TEXT NOT NULL,
+        stored_at INTEGER NOT NULL,
+        fresh_until INTEGER NOT NULL,
+        expires_at INTEGER NOT NULL,
+        size INTEGER NOT NULL
+      )`,
+      `CREATE INDEX IF NOT EXISTS idx_workbook_cache_expires ON ${CACHE_TABLE}(expires_at)`
+    ], 'write');
+  }
+
+  async load(): Promise<CacheEntry[]> {
+    const result = await this.client.execute({
+      sql: `SELECT key, namespace, tags, value, stored_at, fresh_until, expires_at, size FROM ${CACHE_TABLE} WHERE expires_at > ?`,
+      args: [Date.now()]
+    });
+    return result.rows.map(row => ({
+      key: String(row.key),
+      namespace: String(row.namespace),
+      tags: JSON.parse(String(row.tags)) as string[],
+      value: JSON.parse(String(row.value)),
+      storedAt: Number(row.stored_at),
+      freshUntil: Number(row.fresh_until),
+      expiresAt: Number(row.expires_at),
+      size: Number(row.size)
+    }));
+  }
+
+  async set(entry: CacheEntry): Promise<void> {
+    await this.client.execute({
+      sql: `INSERT INTO ${CACHE_TABLE} (key, namespace, tags, value, stored_at, fresh_until, expires_at, size)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+            ON CONFLICT(key) DO UPDATE SET namespace = excluded.namespace, tags = excluded.tags, value = excluded.value,
+            stored_at = excluded.stored_at, fresh_until = excluded.fresh_until, expires_at = excluded.expires_at, size = excluded.size`,
+      args: [
+        entry.key, entry.namespace, JSON.stringify(entry.tags), JSON.stringify(entry.value),
+        entry.storedAt, entry.freshUntil, entry.expiresAt, entry.size
+      ]
+    });
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    for (let start = 0; start < keys.length; start += DELETE_CHUNK_SIZE) {
+      const chunk = keys.slice(start, start + DELETE_CHUNK_SIZE);
+      await this.client.execute({
+        sql: `DELETE FROM ${CACHE_TABLE} WHERE key IN (${chunk.map(() => '?').join(', ')})`,
+        args: chunk
+      });
+    }
+  }
+
+  async clear(): Promise<void> {
+    await this.client.execute(`DELETE FROM ${CACHE_TABLE}`);
+  }
+
+  async purgeExpired(): Promise<number> {
+    const result = await this.client.execute({ sql: `DELETE FROM ${CACHE_TABLE} WHERE expires_at <= ?`, args: [Date.now()] });
+    return result.rowsAffected;
+  }
+
+  async close(): Promise<void> {
+    this.client.close();
+  }
+}
+
+/**
+ * Cache entries in PostgreSQL, shared by every App Service instance
+ */
+export class PostgresCacheBackend implements CacheBackend {
+  readonly kind = 'postgres';
+  private pool: Pool;
+
+  constructor(connectionString: string) {
+    this.pool = new Pool({
+      connectionString,
+      ssl: { rejectUnauthorized: false }
+    });
+  }
+
+  async initialize(): Promise<void> {
+    await this.pool.query(`
+      CREATE TABLE IF NOT EXISTS ${CACHE_TABLE} (
+        key VARCHAR(512) PRIMARY KEY,
+        namespace VARCHAR(100) NOT NULL,
+        tags JSONB NOT NULL,
+        value JSONB NOT NULL,
+        stored_at BIGINT NOT NULL,
+        fresh_until BIGINT NOT NULL,
+        expires_at BIGINT NOT NULL,
+        size INTEGER NOT NULL
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_workbook_cache_expires
+        ON ${CACHE_TABLE}(expires_at);
+    `);
+  }
+
+  async load(): Promise<CacheEntry[]> {
+    const result = await this.pool.query(
+      `SELECT key, namespace, tags, value, stored_at, fresh_until, expires_at, size FROM ${CACHE_TABLE} WHERE expires_at > $1`,
+      [Date.now()]
+    );
+    return result.rows.map(row => ({
+      key: row.key,
+      namespace: row.namespace,
+      tags: row.tags,
+      value: row.value,
+      storedAt: Number(row.stored_at),
+      freshUntil: Number(row.fresh_until),
+      expiresAt: Number(row.expires_at),
+      size: row.size
+    }));
+  }
+
+  async set(entry: CacheEntry): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO ${CACHE_TABLE} (key, namespace, tags, value, stored_at, fresh_until, expires_at, size)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       ON CONFLICT (key) DO UPDATE SET namespace = EXCLUDED.namespace, tags = EXCLUDED.tags, value = EXCLUDED.value,
+       stored_at = EXCLUDED.stored_at, fresh_until = EXCLUDED.fresh_until, expires_at = EXCLUDED.expires_at, size = EXCLUDED.size`,
+      [
+        entry.key, entry.namespace, JSON.stringify(entry.tags), JSON.stringify(entry.value),
+        entry.storedAt, entry.freshUntil, entry.expiresAt, entry.size
+      ]
+    );
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    if (keys.length === 0) {
+      return;
+    }
+    await this.pool.query(`DELETE FROM ${CACHE_TABLE} WHERE key = ANY($1)`, [keys]);
+  }
+
+  async clear(): Promise<void> {
+    await this.pool.query(`DELETE FROM ${CACHE_TABLE}`);
+  }
+
+  async purgeExpired(): Promise<number> {
+    const result = await this.pool.query(`DELETE FROM ${CACHE_TABLE} WHERE expires_at <= $1`, [Date.now()]);
+    return result.rowCount ?? 0;
+  }
+
+  async close(): Promise<void> {
+    await this.pool.end();
+  }
+}
+
+/**
+ * Create the backend selected by WORKBOOK_CACHE_BACKEND (memory unless set to libsql or postgres)
+ * LibSQL uses WORKBOOK_CACHE_DB (default file:./workbook-cache-dev.db); PostgreSQL the Key Vault connection string
+ */
+export async function createCacheBackend(kind: string | undefined = process.env.WORKBOOK_CACHE_BACKEND): Promise<CacheBackend> {
+  if (kind === 'postgres') {
+    try {
+      const connectionString = await keyVaultService.getSecret('postgres-connection-string');
+      console.log('🗄️ Using PostgreSQL for the API cache');
+      return new PostgresCacheBackend(connectionString);
+    } catch (error) {
+      console.error('Failed to get PostgreSQL connection for the API cache, falling back to LibSQL', error);
+      kind = 'libsql';
+    }
+  }
+
+  if (kind === 'libsql') {
+    const url = process.env.WORKBOOK_CACHE_DB || 'file:./workbook-cache-dev.db';
+    console.log(`🗄️ Using LibSQL for the API cache: ${url}`);
+    return new LibSQLCacheBackend(url);
+  }
+
+  return new MemoryCacheBackend();
+}
\ No newline at end of file
@@ -0,0 +1,368 @@
+import http from 'http';
+import https from 'https';
+import { ServiceResponse, RetryConfig, CircuitBreakerConfig, ApiError, ApiErrorKind } from '../../types/workbook.types.js';
+import { trackApiPerformance, trackEvent } from '../../utils/telemetry.js';
+
+const DEFAULT_RETRY_CONFIG: RetryConfig = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+  maxRetryAfterMs: 30000,
+  retryableStatusCodes: [408, 429, 502, 503, 504]
+};
+
+const DEFAULT_CIRCUIT_BREAKER_CONFIG: CircuitBreakerConfig = {
+  failureThreshold: 5,
+  resetTimeoutMs: 30000
+};
+
+// Methods that are safe to send twice; Workbook reads sent as POST with a GET override count as GET
+// PUT is not among them: Workbook creates jobs, tasks and time entries with PUT, so a retry can duplicate them
+// Reads Workbook only serves as POST (ResourceIdsRequest, batch visualizations) mark themselves idempotent
+const IDEMPOTENT_METHODS = ['GET'];
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH';
+
+export interface TransportRequest {
+  endpoint: string;                 // Endpoint name used for telemetry and the circuit breaker
+  method: HttpMethod;               // Logical method; decides whether the call may be retried
+  wireMethod?: HttpMethod;          // Method sent on the wire when it differs (GET sent as POST with override)
+  idempotent?: boolean;             // Safe to send twice whatever the method; defaults to the method's
+  path: string;
+  headers: Record<string, string | number>;
+  body?: string;
+}
+
+interface AttemptResult<T> {
+  response: ServiceResponse<T>;
+  statusCode: number;               // 0 when no HTTP response was received
+  retryAfterMs?: number;
+  transient: boolean;               // Failure that may succeed when sent again
+}
+
+type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Circuit breaker for a single endpoint
+ * Opens after consecutive transient failures and lets one trial call through after the reset timeout
+ */
+class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+  private endpoint: string;
+  private config: CircuitBreakerConfig;
+
+  constructor(endpoint: string, config: CircuitBreakerConfig) {
+    this.endpoint = endpoint;
+    this.config = config;
+  }
+
+  /**
+   * Whether a call may be sent now; moves an expired open circuit to half-open
+   */
+  canRequest(): boolean {
+    if (this.state === 'closed') {
+      return true;
+    }
+    if (this.state === 'open' && Date.now() - this.openedAt >= this.config.resetTimeoutMs) {
+      this.state = 'half-open';
+      this.trialInFlight = false;
+    }
+    if (this.state === 'half-open' && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return true;
+    }
+    return false;
+  }
+
+  recordSuccess(): void {
+    if (this.state !== 'closed') {
+      console.log(`🟢 Circuit closed for ${this.endpoint}`);
+      trackEvent('WorkbookApi.CircuitClosed', { endpoint: this.endpoint });
+    }
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.trialInFlight = false;
+  }
+
+  recordFailure(): void {
+    this.consecutiveFailures++;
+    if (this.state === 'half-open' || this.consecutiveFailures >= this.config.failureThreshold) {
+      if (this.state !== 'open') {
+        console.warn(`🔴 Circuit opened for ${this.endpoint} after ${this.consecutiveFailures} failures`);
+        trackEvent('WorkbookApi.CircuitOpened', { endpoint: this.endpoint, failures: this.consecutiveFailures });
+      }
+      this.state = 'open';
+      this.openedAt = Date.now();
+      this.trialInFlight = false;
+    }
+  }
+
+  isOpen(): boolean {
+    return this.state === 'open';
+  }
+
+  /**
+   * Seconds until an open circuit lets a trial call through
+   */
+  getRetryInSeconds(): number {
+    return Math.max(Math.ceil((this.config.resetTimeoutMs - (Date.now() - this.openedAt)) / 1000), 0);
+  }
+}
+
+// Shared by every service so all callers of an endpoint see the same circuit
+const circuitBreakers = new Map<string, CircuitBreaker>();
+
+/**
+ * HttpTransport - Single HTTPS transport for the Workbook API
+ * Retries idempotent calls with jittered backoff, honours Retry-After, applies a per-endpoint
+ * circuit breaker and reports every attempt to Application Insights
+ */
+export class HttpTransport {
+  private hostname: string;
+  private port?: number;
+  private secure: boolean;
+  private timeout?: number;
+  private retryConfig: RetryConfig;
+  private circuitBreakerConfig: CircuitBreakerConfig;
+
+  constructor(options: {
+    hostname: string;
+    timeout?: number;
+    retry?: Partial<RetryConfig>;
+    circuitBreaker?: Partial<CircuitBreakerConfig>;
+  }) {
+    // A plain hostname is the Workbook tenant over HTTPS; a full URL (e.g. the local simulator) may use HTTP and a port
+    const url = options.hostname.includes('://') ? new URL(options.hostname) : undefined;
+    this.hostname = url ? url.hostname : options.hostname;
+    this.port = url?.port ? Number(url.port) : undefined;
+    this.secure = url ? url.protocol === 'https:' : true;
+    this.timeout = options.timeout;
+    this.retryConfig = { ...DEFAULT_RETRY_CONFIG, ...options.retry };
+    this.circuitBreakerConfig = { ...DEFAULT_CIRCUIT_BREAKER_CONFIG, ...options.circuitBreaker };
+  }
+
+  /**
+   * Send a request, retrying transient failures of idempotent calls
+   */
+  async send<T = unknown>(request: TransportRequest): Promise<ServiceResponse<T>> {
+    const breaker = this.getCircuitBreaker(request.endpoint);
+    const idempotent = request.idempotent ?? IDEMPOTENT_METHODS.includes(request.method);
+    const maxAttempts = idempotent ? this.retryConfig.maxRetries + 1 : 1;
+
+    for (let attempt = 1; ; attempt++) {
+      if (!breaker.canRequest()) {
+        const retryInSeconds = breaker.getRetryInSeconds();
+        const apiError = new ApiError(
+          ApiErrorKind.UPSTREAM,
+          `Workbook API circuit open for ${request.endpoint}: too many recent failures, retry in ${retryInSeconds}s`,
+          { statusCode: 0, endpoint: request.endpoint, retryAfterMs: retryInSeconds * 1000 }
+        );
+        return { success: false, error: apiError.message, apiError };
+      }
+
+      const startTime = Date.now();
+      const result = await this.sendOnce<T>(request);
+      trackApiPerformance(request.endpoint, request.method, result.statusCode, Date.now() - startTime);
+
+      if (!result.transient) {
+        // A server error that is not worth retrying still counts against the endpoint's health
+        if (!result.response.success && result.statusCode >= 500 && result.response.apiError?.kind === ApiErrorKind.UPSTREAM) {
+          breaker.recordFailure();
+        } else {
+          breaker.recordSuccess();
+        }
+        return result.response;
+      }
+
+      breaker.recordFailure();
+
+      // No point retrying into a circuit this failure just opened
+      if (attempt >= maxAttempts || breaker.isOpen()) {
+        return result.response;
+      }
+
+      const delay = this.getRetryDelay(attempt, result.retryAfterMs);
+      if (delay === undefined) {
+        return result.response;
+      }
+
+      console.warn(`🔁 Retrying ${request.method} ${request.endpoint} in ${delay}ms (attempt ${attempt + 1}/${maxAttempts}): ${result.response.error}`);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+
+  /**
+   * Delay before the next attempt: Retry-After when given, otherwise full-jitter exponential backoff
+   * Returns undefined when the server asks to wait longer than maxRetryAfterMs
+   */
+  private getRetryDelay(attempt: number, retryAfterMs?: number): number | undefined {
+    if (retryAfterMs !== undefined) {
+      return retryAfterMs <= this.retryConfig.maxRetryAfterMs ? retryAfterMs : undefined;
+    }
+
+    const ceiling = Math.min(this.retryConfig.maxDelayMs, this.retryConfig.baseDelayMs * 2 ** (attempt - 1));
+    return Math.round(Math.random() * ceiling);
+  }
+
+  private getCircuitBreaker(endpoint: string): CircuitBreaker {
+    const key = `${this.hostname}:${this.port ?? ''}:${endpoint}`;
+    let breaker = circuitBreakers.get(key);
+    if (!breaker) {
+      breaker = new CircuitBreaker(endpoint, this.circuitBreakerConfig);
+      circuitBreakers.set(key, breaker);
+    }
+    return breaker;
+  }
+
+  /**
+   * Send a single HTTPS request and classify the outcome
+   */
+  private sendOnce<T>(request: TransportRequest): Promise<AttemptResult<T>> {
+    return new Promise((resolve) => {
+      const fail = (kind: ApiErrorKind, message: string, statusCode: number, transient: boolean, detail?: string, retryAfterMs?: number) => {
+        const apiError = new ApiError(kind, message, { statusCode, endpoint: request.endpoint, detail, retryAfterMs });
+        resolve({ response: { success: false, error: message, apiError }, statusCode, retryAfterMs, transient });
+      };
+
+      const options: https.RequestOptions = {
+        hostname: this.hostname,
+        port: this.port,
+        path: request.path,
+        method: request.wireMethod || request.method,
+        headers: request.headers,
+        timeout: this.timeout
+      };
+
+      const req = (this.secure ? https : http).request(options, (res) => {
+        const chunks: Buffer[] = [];
+
+        res.on('data', (chunk) => {
+          chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+        });
+
+        res.on('end', () => {
+          const statusCode = res.statusCode || 0;
+
+          try {
+            // Properly decode UTF-8 data from chunks
+            const data = Buffer.concat(chunks).toString('utf8');
+
+            if (statusCode === 200 || statusCode === 201) {
+              const parsedData = data ? JSON.parse(data) : undefined;
+              resolve({ response: { success: true, data: parsedData as T, cached: false }, statusCode, transient: false });
+              return;
+            }
+
+            if (statusCode === 204) {
+              resolve({ response: { success: true, data: undefined as T, cached: false }, statusCode, transient: false });
+              return;
+            }
+
+            const detail = extractErrorDetail(data);
+            if (statusCode === 500 && data.includes('do not have access')) {
+              fail(ApiErrorKind.ACCESS_DENIED, 'Access denied to this endpoint', statusCode, false, detail);
+              return;
+            }
+
+            fail(
+              getErrorKind(statusCode),
+              `API Error ${statusCode}: ${detail || `HTTP ${statusCode}`}`,
+              statusCode,
+              this.retryConfig.retryableStatusCodes.includes(statusCode),
+              detail,
+              parseRetryAfter(res.headers['retry-after'])
+            );
+          } catch (parseError) {
+            fail(ApiErrorKind.PARSE, `Failed to parse response: ${parseError instanceof Error ? parseError.message : 'Unknown error'}`, statusCode, false);
+          }
+        });
+      });
+
+      req.on('error', (error) => {
+        fail(ApiErrorKind.UPSTREAM, `Network error: ${error.message}`, 0, true);
+      });
+
+      req.on('timeout', () => {
+        req.destroy();
+        fail(ApiErrorKind.TIMEOUT, 'Request timeout', 0, true);
+      });
+
+      if (request.body !== undefined) {
+        req.write(request.body);
+      }
+      req.end();
+    });
+  }
+}
+
+/**
+ * Convert a Retry-After header (seconds or HTTP date) to milliseconds
+ */
+function parseRetryAfter(header: string | string[] | undefined): number | undefined {
+  const value = Array.isArray(header) ? header[0] : header;
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(seconds * 1000, 0);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(date - Date.now(), 0);
+}
+
+/**
+ * Map an HTTP error status to an error kind
+ */
+function getErrorKind(statusCode: number): ApiErrorKind {
+  if (statusCode === 401 || statusCode === 403) {
+    return ApiErrorKind.ACCESS_DENIED;
+  }
+  if (statusCode === 404) {
+    return ApiErrorKind.NOT_FOUND;
+  }
+  if (statusCode === 408) {
+    return ApiErrorKind.TIMEOUT;
+  }
+  if (statusCode === 429) {
+    return ApiErrorKind.RATE_LIMITED;
+  }
+  if (statusCode >= 500) {
+    return ApiErrorKind.UPSTREAM;
+  }
+  return ApiErrorKind.VALIDATION;
+}
+
+/**
+ * Readable error message from an error body: the ServiceStack ResponseStatus message when present,
+ * otherwise the text with HTML markup removed
+ */
+function extractErrorDetail(data: string): string | undefined {
+  if (!data) {
+    return undefined;
+  }
+
+  try {
+    const parsed = JSON.parse(data) as { ResponseStatus?: { Message?: string; ErrorCode?: string }; Message?: string };
+    const message = parsed.ResponseStatus?.Message || parsed.ResponseStatus?.ErrorCode || parsed.Message;
+    if (message) {
+      return message.slice(0, 200);
+    }
+  } catch {
+    // Not JSON - fall through to plain text/HTML handling
+  }
+
+  const title = data.match(/<title[^>]*>([^<]*)<\/title>/i)?.[1];
+  const text = (title || data)
+    .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  return text ? text.slice(0, 200) : undefined;
+}
\ No newline at end of file
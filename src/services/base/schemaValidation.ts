@@ -0,0 +1,68 @@
+import { z } from 'zod';
+import { ServiceResponse, SchemaValidationMode, ApiError, ApiErrorKind } from '../../types/workbook.types.js';
+import { trackEvent } from '../../utils/telemetry.js';
+
+// Drift already reported, keyed by endpoint, field path and issue; array indexes are collapsed
+// so one renamed field on a list of thousands of resources is logged once
+const reportedDrift = new Set<string>();
+
+/**
+ * Validate the data of a successful API response against its schema
+ * Lenient mode logs drift and returns the data unchanged, strict mode turns drift into a PARSE error
+ */
+export function validateResponse<T>(
+  response: ServiceResponse<T>,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  endpoint: string,
+  mode: SchemaValidationMode
+): ServiceResponse<T> {
+  if (mode === 'off' || !response.success || response.data === undefined) {
+    return response;
+  }
+
+  const result = schema.safeParse(response.data);
+  if (result.success) {
+    return response;
+  }
+
+  const issues = result.error.issues.map(issue => ({
+    path: formatPath(issue.path),
+    message: issue.message
+  }));
+
+  if (mode === 'strict') {
+    const summary = issues.slice(0, 5).map(issue => `${issue.path}: ${issue.message}`).join('; ');
+    const apiError = new ApiError(
+      ApiErrorKind.PARSE,
+      `Schema drift in ${endpoint} response: ${summary}${issues.length > 5 ? ` (+${issues.length - 5} more)` : ''}`,
+      { statusCode: 200, endpoint, detail: summary, response: response.data }
+    );
+    return { success: false, error: apiError.message, apiError };
+  }
+
+  issues.forEach(issue => {
+    const key = `${endpoint}:${issue.path}:${issue.message}`;
+    if (reportedDrift.has(key)) {
+      return;
+    }
+    reportedDrift.add(key);
+    console.warn(`⚠️ Schema drift in ${endpoint} response at ${issue.path}: ${issue.message}`);
+    trackEvent('WorkbookApi.SchemaDrift', { endpoint, path: issue.path, message: issue.message });
+  });
+
+  return response;
+}
+
+/**
+ * Field path of a validation issue with array indexes collapsed, e.g. [].Email
+ */
+function formatPath(path: Array<string | number>): string {
+  if (path.length === 0) {
+    return '(root)';
+  }
+
+  return path
+    .map(segment => typeof segment === 'number' ? '[]' : `.${segment}`)
+    .join('')
+    .replace(/^\./, '');
+}
\ No newline at end of file
@@ -0,0 +1,337 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { ServiceResponse, TrafficConfig, ApiError, ApiErrorKind } from '../../types/workbook.types.js';
+import { TransportRequest } from './httpTransport.js';
+import { getCurrentConversationId } from '../identity/userContext.js';
+
+const RECORDING_VERSION = 1;
+const NO_CONVERSATION = 'no-conversation';
+
+// Keys whose values are dropped entirely
+const SECRET_KEY_PATTERN = /password|apikey|api_key|secret|token|authorization/i;
+// Keys whose values are replaced with a stable pseudonym so equal values stay equal after redaction
+const PII_KEYS = new Set([
+  'Email', 'Phone1', 'Phone2', 'CellPhone', 'Address1', 'Address2', 'PostCode', 'UserLogin',
+  'DebtorAttention', 'DeliveryDebtorAttention', 'PayModeAccountNo', 'PayModeIdentificationNo'
+]);
+// Person and contact names, pseudonymised unless WORKBOOK_TRAFFIC_REDACT_NAMES=false
+const NAME_KEYS = new Set([
+  'Name', 'ResourceName', 'EmployeeName', 'ContactName', 'ProjectManagerName', 'JobResponsibleName', 'Initials', 'DebtorLabel'
+]);
+// Dates in requests, which default to today; left out of replay keys so a recording matches on later days
+const DATE_VALUE_PATTERN = /^\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/;
+const EMAIL_PATTERN = /[^\s@"<>]+@[^\s@"<>]+\.[a-z]{2,}/gi;
+const BEARER_PATTERN = /Bearer\s+[A-Za-z0-9\-._~+/]+=*/g;
+
+export interface RecordedApiError {
+  kind: ApiErrorKind;
+  message: string;
+  statusCode: number;
+  endpoint: string;
+  detail?: string;
+  retryAfterMs?: number;
+}
+
+export interface TrafficEntry {
+  sequence: number;
+  key: string;                       // Method, redacted path and body hash without dates; used to match replayed calls
+  endpoint: string;
+  method: string;
+  path: string;
+  requestBody?: unknown;
+  response: {
+    success: boolean;
+    data?: unknown;
+    error?: string;
+    apiError?: RecordedApiError;
+  };
+  durationMs: number;
+  recordedAt: string;
+}
+
+export interface TrafficRecording {
+  version: number;
+  conversationId: string;
+  startedAt: string;
+  entries: TrafficEntry[];
+}
+
+// A recording in progress; loaded from its file when a later turn of the conversation continues it
+interface OpenRecording {
+  conversationId: string;
+  recording: Promise<TrafficRecording>;
+}
+
+// Shared by every service: recordings of turns in progress keyed by file, pending writes, and loaded replays
+// A conversation's recordings are dropped from memory once its last running turn has written them
+const recordings = new Map<string, OpenRecording>();
+const activeTurns = new Map<string, number>();
+const pendingWrites = new Map<string, Promise<void>>();
+const replays = new Map<string, Map<string, TrafficEntry[]>>();
+
+/**
+ * Run one turn of the current conversation (see withConversation) so its recording is released when the turn ends
+ * Concurrent conversations record to separate files
+ */
+export async function withTrafficConversation<T>(fn: () => Promise<T>): Promise<T> {
+  const id = getCurrentConversationId() || NO_CONVERSATION;
+  activeTurns.set(id, (activeTurns.get(id) || 0) + 1);
+  try {
+    return await fn();
+  } finally {
+    await endTurn(id);
+  }
+}
+
+/**
+ * Release the recordings of a conversation when no other turn of it is running
+ */
+async function endTurn(conversationId: string): Promise<void> {
+  const turns = (activeTurns.get(conversationId) || 1) - 1;
+  if (turns > 0) {
+    activeTurns.set(conversationId, turns);
+    return;
+  }
+  activeTurns.delete(conversationId);
+
+  for (const [file, open] of recordings) {
+    if (open.conversationId !== conversationId) {
+      continue;
+    }
+    await pendingWrites.get(file);
+    // A turn that started while the write was pending keeps the recording open
+    if (!activeTurns.has(conversationId)) {
+      recordings.delete(file);
+      pendingWrites.delete(file);
+    }
+  }
+}
+
+/**
+ * TrafficRecorder - Records Workbook API request/response pairs per conversation and replays them
+ * Secrets are removed and PII is pseudonymised before anything is written to disk
+ */
+export class TrafficRecorder {
+  private config: TrafficConfig;
+
+  constructor(config: TrafficConfig) {
+    this.config = config;
+  }
+
+  get mode(): TrafficConfig['mode'] {
+    return this.config.mode;
+  }
+
+  /**
+   * Append a request/response pair to the current conversation's recording
+   */
+  async record(request: TransportRequest, response: ServiceResponse<unknown>, durationMs: number): Promise<void> {
+    const conversationId = getCurrentConversationId() || NO_CONVERSATION;
+    const file = path.join(this.config.path, `${toFileName(conversationId)}.json`);
+
+    let open = recordings.get(file);
+    if (!open) {
+      open = { conversationId, recording: loadRecording(file, conversationId) };
+      recordings.set(file, open);
+    }
+    const recording = await open.recording;
+
+    const { key, path: redactedPath, body } = this.describeRequest(request);
+    recording.entries.push({
+      sequence: recording.entries.length + 1,
+      key,
+      endpoint: request.endpoint,
+      method: request.method,
+      path: redactedPath,
+      requestBody: body,
+      response: {
+        success: response.success,
+        data: this.redact(response.data),
+        error: response.error ? this.redactText(response.error) : undefined,
+        apiError: response.apiError ? toRecordedApiError(response.apiError, this) : undefined
+      },
+      durationMs,
+      recordedAt: new Date().toISOString()
+    });
+
+    // Rewrite the whole file after each call so a crash mid-conversation still leaves a usable recording
+    const snapshot = JSON.stringify(recording, null, 2);
+    const write = (pendingWrites.get(file) || Promise.resolve())
+      .then(() => fs.promises.mkdir(this.config.path, { recursive: true }))
+      .then(() => fs.promises.writeFile(file, snapshot, 'utf8'))
+      .catch(error => console.error(`❌ Failed to write traffic recording ${file}:`, error));
+    pendingWrites.set(file, write);
+    await write;
+  }
+
+  /**
+   * Serve the recorded response for a request; identical requests are answered in recorded order
+   * and the last recorded answer is repeated once they run out
+   */
+  replay<T>(request: TransportRequest): ServiceResponse<T> {
+    const queue = this.getReplayEntries().get(this.describeRequest(request).key);
+    if (!queue || queue.length === 0) {
+      return { success: false, error: `Replay: no recorded response for ${request.method} ${request.endpoint}` };
+    }
+
+    const entry = queue.length > 1 ? queue.shift()! : queue[0];
+    const { response } = entry;
+    return {
+      success: response.success,
+      data: response.data as T,
+      error: response.error,
+      apiError: response.apiError
+        ? new ApiError(response.apiError.kind, response.apiError.message, response.apiError)
+        : undefined,
+      cached: false
+    };
+  }
+
+  /**
+   * Replace secrets and PII in a response or request body
+   */
+  redact(value: unknown, key?: string): unknown {
+    if (value === null || value === undefined) {
+      return value;
+    }
+    if (key && SECRET_KEY_PATTERN.test(key)) {
+      return '[REDACTED]';
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => this.redact(item));
+    }
+    if (typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value as Record<string, unknown>).map(([childKey, child]) => [childKey, this.redact(child, childKey)]));
+    }
+    if (typeof value === 'string') {
+      if (key && (PII_KEYS.has(key) || (this.config.redactNames && NAME_KEYS.has(key)))) {
+        return pseudonymise(value);
+      }
+      return this.redactText(value);
+    }
+    return value;
+  }
+
+  /**
+   * Replace email addresses and bearer tokens inside free text
+   */
+  redactText(text: string): string {
+    return text
+      .replace(BEARER_PATTERN, 'Bearer [REDACTED]')
+      .replace(EMAIL_PATTERN, email => pseudonymise(email));
+  }
+
+  /**
+   * Redacted path and body of a request and the key replayed calls are matched on
+   */
+  private describeRequest(request: TransportRequest): { key: string; path: string; body?: unknown } {
+    const [pathname, query] = request.path.split('?');
+    const params = new URLSearchParams(query || '');
+    const redactedQuery = new URLSearchParams(
+      [...params.entries()].map(([name, value]) => [name, String(this.redact(value, name))])
+    ).toString();
+    const redactedPath = redactedQuery ? `${pathname}?${redactedQuery}` : pathname;
+
+    let body: unknown;
+    if (request.body) {
+      try {
+        body = this.redact(JSON.parse(request.body));
+      } catch {
+        body = this.redactText(request.body);
+      }
+    }
+
+    return { key: getReplayKey(request.method, redactedPath, body), path: redactedPath, body };
+  }
+
+  private getReplayEntries(): Map<string, TrafficEntry[]> {
+    let entries = replays.get(this.config.path);
+    if (!entries) {
+      const recording = JSON.parse(fs.readFileSync(this.config.path, 'utf8')) as TrafficRecording;
+      entries = new Map();
+      // Keys are rebuilt from the redacted requests so recordings made before a key change still match
+      for (const entry of recording.entries) {
+        const key = getReplayKey(entry.method, entry.path, entry.requestBody);
+        entries.set(key, [...(entries.get(key) || []), entry]);
+      }
+      replays.set(this.config.path, entries);
+      console.log(`⏯️ Replaying ${recording.entries.length} Workbook API calls from ${this.config.path}`);
+    }
+    return entries;
+  }
+}
+
+/**
+ * Recording to append a conversation's calls to: the file written by an earlier turn, or a new one
+ */
+async function loadRecording(file: string, conversationId: string): Promise<TrafficRecording> {
+  try {
+    const existing = JSON.parse(await fs.promises.readFile(file, 'utf8')) as TrafficRecording;
+    if (existing.version === RECORDING_VERSION && existing.conversationId === conversationId) {
+      return existing;
+    }
+  } catch {
+    // No recording of this conversation yet (or an unreadable one, which is replaced)
+  }
+  console.log(`⏺️ Recording Workbook API traffic to ${file}`);
+  return { version: RECORDING_VERSION, conversationId, startedAt: new Date().toISOString(), entries: [] };
+}
+
+/**
+ * Key replayed calls are matched on: method, redacted path and a hash of the redacted body, with
+ * dates replaced so requests that default to today still match a recording made on another day
+ */
+function getReplayKey(method: string, redactedPath: string, body: unknown): string {
+  const [pathname, query] = redactedPath.split('?');
+  const params = new URLSearchParams(query || '');
+  const datelessQuery = new URLSearchParams(
+    [...params.entries()].map(([name, value]) => [name, DATE_VALUE_PATTERN.test(value) ? '<date>' : value])
+  ).toString();
+  const bodyHash = body === undefined ? '-' : crypto.createHash('sha256').update(JSON.stringify(withoutDates(body))).digest('hex').slice(0, 16);
+  return `${method} ${datelessQuery ? `${pathname}?${datelessQuery}` : pathname} ${bodyHash}`;
+}
+
+function withoutDates(value: unknown): unknown {
+  if (typeof value === 'string') {
+    return DATE_VALUE_PATTERN.test(value) ? '<date>' : value;
+  }
+  if (Array.isArray(value)) {
+    return value.map(withoutDates);
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value as Record<string, unknown>).map(([key, child]) => [key, withoutDates(child)]));
+  }
+  return value;
+}
+
+function toRecordedApiError(error: ApiError, recorder: TrafficRecorder): RecordedApiError {
+  return {
+    kind: error.kind,
+    message: recorder.redactText(error.message),
+    statusCode: error.statusCode,
+    endpoint: error.endpoint,
+    detail: error.detail ? recorder.redactText(error.detail) : undefined,
+    retryAfterMs: error.retryAfterMs
+  };
+}
+
+/**
+ * Stable stand-in for a PII value; emails stay well-formed so data quality checks behave the same
+ */
+function pseudonymise(value: string): string {
+  if (value.trim() === '') {
+    return value;
+  }
+  const hash = crypto.createHash('sha256').update(value.toLowerCase()).digest('hex').slice(0, 8);
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value) ? `user-${hash}@redacted.invalid` : `redacted-${hash}`;
+}
+
+/**
+ * File name for a conversation's recording, safe on every file system
+ */
+function toFileName(conversationId: string): string {
+  const date = new Date().toISOString().split('T')[0];
+  const safeId = conversationId.replace(/[^a-zA-Z0-9_-]/g, '_').slice(0, 60);
+  return `${date}-${safeId}`;
+}
\ No newline at end of file
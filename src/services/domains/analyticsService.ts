@@ -0,0 +1,640 @@
+import { BaseService } from '../base/baseService.js';
+import { JobService } from './jobService.js';
+import { ResourceService } from './resourceService.js';
+import {
+  WorkbookConfig,
+  ServiceResponse,
+  CubeProjectData,
+  CubeQuery,
+  CubeDimension,
+  CubeAggregateRow,
+  ExpenseType,
+  ResourceProductivityReport,
+  ProjectAnalyticsReport,
+  ComprehensiveAnalytics,
+  MonthlyActualsQuery,
+  MonthlyActual,
+  SeriesForecast,
+  SeriesForecastPoint,
+  TimeEntryApprovalStatus
+} from '../../types/workbook.types.js';
+import { MappedExpenditureSummary, MappedTimeRegistration } from '../../types/job-api.types.js';
+import { ResourceTypes } from '../../constants/resourceTypes.js';
+
+const ALL_EXPENSE_TYPES = [ExpenseType.TIME, ExpenseType.EXPENSE, ExpenseType.PRODUCT, ExpenseType.MILESTONE];
+// Months queried in parallel; every month already fans out to one request per expense type
+const MONTHLY_BATCH_SIZE = 3;
+const SEASON_LENGTH = 12;
+// Prefix of the project risk factor that reveals the margin, so callers can leave it out
+export const LOW_MARGIN_RISK_FACTOR = 'Low profit margin';
+
+/**
+ * AnalyticsService - Business intelligence over the finance project cube
+ * Based on comprehensive-endpoints.md CubeProjectRequest documentation
+ */
+export class AnalyticsService extends BaseService {
+  private jobs: JobService;
+  private resources: ResourceService;
+
+  constructor(config: WorkbookConfig, jobs: JobService, resources: ResourceService) {
+    super(config);
+    this.jobs = jobs;
+    this.resources = resources;
+  }
+
+  /**
+   * Get cube lines for a date range, one request per expense type in parallel
+   * API: CubeProjectRequest
+   */
+  async getCubeLines(query: CubeQuery): Promise<ServiceResponse<CubeProjectData[]>> {
+    const cacheKey = this.generateCacheKey('analytics-cube', { ...query });
+    const cached = this.cache.get<CubeProjectData[]>(cacheKey);
+    if (cached) {
+      return { success: true, data: cached, cached: true };
+    }
+
+    try {
+      const expenseTypes = query.expenseTypes && query.expenseTypes.length > 0 ? query.expenseTypes : ALL_EXPENSE_TYPES;
+
+      const responses = await Promise.all(expenseTypes.map(expenseType => {
+        const params: Record<string, string | number | boolean> = {
+          ExpenseType: expenseType,
+          ReferenceId: 0,
+          StartDate: query.startDate,
+          EndDate: query.endDate
+        };
+        if (query.jobId) {
+          params.JobId = query.jobId;
+        }
+        return this.pureGet<CubeProjectData[] | CubeProjectData>('CubeProjectRequest', params);
+      }));
+
+      const failed = responses.find(response => !response.success);
+      if (failed && !failed.success) {
+        return { success: false, error: failed.error, apiError: failed.apiError };
+      }
+
+      const lines = responses
+        .flatMap(response => (response.success && response.data ? (Array.isArray(response.data) ? response.data : [response.data]) : []))
+        .filter(line => !query.customerId || line.CustomerId === query.customerId);
+
+      this.cache.set(cacheKey, lines, 600); // 10 minute cache (cube is a reporting snapshot)
+      return { success: true, data: lines, cached: false };
+    } catch (error) {
+      console.error('Error fetching cube lines:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  /**
+   * Aggregate cube lines by customer, job, employee, team, department or Dimension1-5
+   * Sorted by gross profit, highest first
+   * API: CubeProjectRequest
+   */
+  async aggregate(query: CubeQuery, groupBy: CubeDimension): Promise<ServiceResponse<CubeAggregateRow[]>> {
+    const linesResponse = await this.getCubeLines(query);
+    if (!linesResponse.success || !linesResponse.data) {
+      return { success: false, error: linesResponse.error || 'No cube data received', apiError: linesResponse.apiError };
+    }
+
+    return {
+      success: true,
+      data: aggregateCubeLines(linesResponse.data, groupBy),
+      cached: linesResponse.cached
+    };
+  }
+
+  /**
+   * Build productivity reports per employee from time lines, with approval figures from time entries
+   * API: CubeProjectRequest + ResourceRequest[] (employees) + TimeEntryRequest (approval status)
+   */
+  async getResourceProductivity(query: CubeQuery, limit: number = 10): Promise<ServiceResponse<ResourceProductivityReport[]>> {
+    const linesResponse = await this.getCubeLines({ ...query, expenseTypes: [ExpenseType.TIME] });
+    if (!linesResponse.success || !linesResponse.data) {
+      return { success: false, error: linesResponse.error || 'No cube data received', apiError: linesResponse.apiError };
+    }
+
+    try {
+      const reports = await this.buildProductivityReports(linesResponse.data, query);
+      const topReports = reports.slice(0, limit);
+
+      // Approval figures are only fetched for the employees being reported
+      await Promise.all(topReports.map(async report => {
+        if (!report.ResourceId) {
+          return;
+        }
+        const entriesResponse = await this.jobs.getTimeEntriesByFilter({
+          resourceId: report.ResourceId,
+          startDate: query.startDate,
+          endDate: query.endDate
+        });
+        if (entriesResponse.success && entriesResponse.data) {
+          const entries = entriesResponse.data as MappedTimeRegistration[];
+          report.ApprovedHours = sumHours(entries.filter(entry => entry.approvalStatus === TimeEntryApprovalStatus.APPROVED));
+          report.RejectedHours = sumHours(entries.filter(entry => entry.approvalStatus === TimeEntryApprovalStatus.REJECTED));
+          report.PendingHours = sumHours(entries.filter(entry =>
+            entry.approvalStatus === TimeEntryApprovalStatus.SUBMITTED || entry.approvalStatus === TimeEntryApprovalStatus.DRAFT));
+        }
+      }));
+
+      return { success: true, data: topReports, cached: linesResponse.cached };
+    } catch (error) {
+      console.error('Error building resource productivity:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  /**
+   * Build analytics reports per job: schedule, budget, margin, team and risk
+   * Budget figures come from the expenditure summary of each reported job
+   * API: CubeProjectRequest + ExpenditureSummaryHoursAndCostRequest
+   */
+  async getProjectAnalytics(query: CubeQuery, limit: number = 10): Promise<ServiceResponse<ProjectAnalyticsReport[]>> {
+    const linesResponse = await this.getCubeLines(query);
+    if (!linesResponse.success || !linesResponse.data) {
+      return { success: false, error: linesResponse.error || 'No cube data received', apiError: linesResponse.apiError };
+    }
+
+    try {
+      const reports = await this.buildProjectReports(linesResponse.data, limit);
+      return { success: true, data: reports, cached: linesResponse.cached };
+    } catch (error) {
+      console.error('Error building project analytics:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  /**
+   * Build the company-wide analytics overview with trends against the previous period of equal length
+   * API: CubeProjectRequest (current and previous period) + ExpenditureSummaryHoursAndCostRequest
+   */
+  async getComprehensiveAnalytics(query: CubeQuery, limit: number = 5): Promise<ServiceResponse<ComprehensiveAnalytics>> {
+    const periodLength = new Date(query.endDate).getTime() - new Date(query.startDate).getTime();
+    const previousEnd = new Date(new Date(query.startDate).getTime() - 24 * 60 * 60 * 1000);
+    const previousStart = new Date(previousEnd.getTime() - periodLength);
+
+    const [linesResponse, previousResponse] = await Promise.all([
+      this.getCubeLines(query),
+      this.getCubeLines({
+        ...query,
+        startDate: previousStart.toISOString().slice(0, 10),
+        endDate: previousEnd.toISOString().slice(0, 10)
+      })
+    ]);
+
+    if (!linesResponse.success || !linesResponse.data) {
+      return { success: false, error: linesResponse.error || 'No cube data received', apiError: linesResponse.apiError };
+    }
+
+    try {
+      const lines = linesResponse.data;
+      const previousLines = previousResponse.success && previousResponse.data ? previousResponse.data : [];
+
+      const totals = sumLines(lines);
+      const previousTotals = sumLines(previousLines);
+
+      const productivity = await this.buildProductivityReports(lines.filter(line => line.ExpenseType === ExpenseType.TIME), query);
+      const projects = await this.buildProjectReports(lines, 25);
+
+      const departments = aggregateCubeLines(lines, 'department');
+      const departmentHeadCount = countEmployeesPerDepartment(lines);
+
+      const data: ComprehensiveAnalytics = {
+        CompanyMetrics: {
+          TotalRevenue: round(totals.actualizedSale),
+          TotalCosts: round(totals.actualizedCost),
+          GrossProfit: round(totals.grossProfit),
+          ProfitMargin: percent(totals.grossProfit, totals.actualizedSale),
+          ActiveProjects: new Set(lines.map(line => line.JobId)).size,
+          ActiveEmployees: new Set(lines.map(line => line.EmployeeName).filter(Boolean)).size,
+          ActiveClients: new Set(lines.map(line => line.CustomerId)).size
+        },
+        DepartmentMetrics: departments.map(department => ({
+          DepartmentName: department.name,
+          Revenue: department.actualizedSale,
+          Costs: department.actualizedCost,
+          Utilization: percent(department.billableHours, department.hours),
+          HeadCount: departmentHeadCount.get(department.key) || 0
+        })),
+        TopPerformers: {
+          ByRevenue: [...productivity].sort((a, b) => b.TotalRevenue - a.TotalRevenue).slice(0, limit),
+          ByUtilization: [...productivity].sort((a, b) => b.UtilizationRate - a.UtilizationRate).slice(0, limit),
+          ByProjects: [...productivity].sort((a, b) => b.ProjectCount - a.ProjectCount).slice(0, limit)
+        },
+        ProjectHealth: {
+          OnTrack: projects.filter(project => project.RiskLevel === 'LOW' && project.DaysRemaining >= 0).length,
+          AtRisk: projects.filter(project => project.RiskLevel !== 'LOW' && project.DaysRemaining >= 0).length,
+          Delayed: projects.filter(project => project.DaysRemaining < 0 && project.CompletionPercentage < 100).length,
+          Completed: projects.filter(project => project.DaysRemaining < 0 && project.CompletionPercentage >= 100).length
+        },
+        Trends: {
+          RevenueGrowth: growth(totals.actualizedSale, previousTotals.actualizedSale),
+          CostGrowth: growth(totals.actualizedCost, previousTotals.actualizedCost),
+          UtilizationTrend: round(percent(totals.billableHours, totals.hours) - percent(previousTotals.billableHours, previousTotals.hours)),
+          Period: `${query.startDate} to ${query.endDate} vs ${previousStart.toISOString().slice(0, 10)} to ${previousEnd.toISOString().slice(0, 10)}`
+        }
+      };
+
+      return { success: true, data, cached: linesResponse.cached };
+    } catch (error) {
+      console.error('Error building comprehensive analytics:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  /**
+   * Build monthly actuals (revenue, cost, gross profit) for jobs, a customer or a job department
+   * Cube lines carry no posting date, so every month is queried as its own StartDate/EndDate window
+   * API: CubeProjectRequest (one window per month)
+   */
+  async getMonthlyActuals(query: MonthlyActualsQuery): Promise<ServiceResponse<MonthlyActual[]>> {
+    const months = getMonthRange(query.fromMonth, query.toMonth);
+    if (months.length === 0) {
+      return { success: false, error: `Invalid month range ${query.fromMonth} to ${query.toMonth}` };
+    }
+
+    const jobIds = query.jobIds && query.jobIds.length > 0 ? new Set(query.jobIds) : undefined;
+    const department = query.departmentName?.toLowerCase();
+
+    try {
+      const actuals: MonthlyActual[] = [];
+      let allCached = true;
+
+      for (let i = 0; i < months.length; i += MONTHLY_BATCH_SIZE) {
+        const batch = months.slice(i, i + MONTHLY_BATCH_SIZE);
+        const responses = await Promise.all(batch.map(month => this.getCubeLines({
+          startDate: `${month}-01`,
+          endDate: getMonthEnd(month),
+          jobId: query.jobIds && query.jobIds.length === 1 ? query.jobIds[0] : undefined,
+          customerId: query.customerId
+        })));
+
+        for (let j = 0; j < batch.length; j++) {
+          const response = responses[j];
+          if (!response.success || !response.data) {
+            return { success: false, error: response.error || `No cube data received for ${batch[j]}`, apiError: response.apiError };
+          }
+          allCached = allCached && !!response.cached;
+
+          const lines = response.data.filter(line =>
+            (!jobIds || jobIds.has(line.JobId)) &&
+            (!department || (line.JobDepartmentName || '').toLowerCase() === department));
+          const totals = sumLines(lines);
+
+          actuals.push({
+            month: batch[j],
+            revenue: round(totals.actualizedSale),
+            cost: round(totals.actualizedCost),
+            grossProfit: round(totals.grossProfit),
+            hours: round(totals.hours),
+            jobCount: new Set(lines.map(line => line.JobId)).size
+          });
+        }
+      }
+
+      return { success: true, data: actuals, cached: allCached };
+    } catch (error) {
+      console.error('Error building monthly actuals:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  /**
+   * Group time lines per employee and resolve employee resource IDs by name
+   */
+  private async buildProductivityReports(timeLines: CubeProjectData[], query: CubeQuery): Promise<ResourceProductivityReport[]> {
+    const employeesResponse = await this.resources.getByType(ResourceTypes.EMPLOYEE);
+    const employeesByName = new Map(
+      (employeesResponse.success && employeesResponse.data ? employeesResponse.data : [])
+        .map(employee => [employee.Name.toLowerCase(), employee] as const)
+    );
+
+    const byEmployee = new Map<string, CubeProjectData[]>();
+    timeLines.filter(line => line.EmployeeName).forEach(line => {
+      const name = line.EmployeeName!;
+      if (!byEmployee.has(name)) {
+        byEmployee.set(name, []);
+      }
+      byEmployee.get(name)!.push(line);
+    });
+
+    return Array.from(byEmployee.entries()).map(([name, lines]) => {
+      const totals = sumLines(lines);
+      const employee = employeesByName.get(name.toLowerCase());
+
+      return {
+        ResourceId: employee?.Id || 0,
+        ResourceName: name,
+        Department: employee?.ResourceFolder || mostCommon(lines.map(line => line.JobDepartmentName)) || 'Unassigned',
+        Team: mostCommon(lines.map(line => line.TeamName)),
+        Period: `${query.startDate} to ${query.endDate}`,
+        TotalHours: round(totals.hours),
+        BillableHours: round(totals.billableHours),
+        NonBillableHours: round(totals.hours - totals.billableHours),
+        UtilizationRate: percent(totals.billableHours, totals.hours),
+        TotalRevenue: round(totals.actualizedSale),
+        AverageHourlyRate: totals.billableHours > 0 ? round(totals.actualizedSale / totals.billableHours) : 0,
+        CostRecoveryRate: percent(totals.actualizedSale, totals.actualizedCost),
+        ProjectCount: new Set(lines.map(line => line.JobId)).size,
+        ClientCount: new Set(lines.map(line => line.CustomerId)).size,
+        ApprovedHours: 0,
+        PendingHours: 0,
+        RejectedHours: 0
+      };
+    }).sort((a, b) => b.TotalRevenue - a.TotalRevenue);
+  }
+
+  /**
+   * Group cube lines per job and enrich the top jobs (by revenue) with quoted budget figures
+   */
+  private async buildProjectReports(lines: CubeProjectData[], limit: number): Promise<ProjectAnalyticsReport[]> {
+    const byJob = new Map<number, CubeProjectData[]>();
+    lines.forEach(line => {
+      if (!byJob.has(line.JobId)) {
+        byJob.set(line.JobId, []);
+      }
+      byJob.get(line.JobId)!.push(line);
+    });
+
+    const topJobs = Array.from(byJob.entries())
+      .map(([jobId, jobLines]) => ({ jobId, jobLines, totals: sumLines(jobLines) }))
+      .sort((a, b) => b.totals.actualizedSale - a.totals.actualizedSale)
+      .slice(0, limit);
+
+    return Promise.all(topJobs.map(async ({ jobId, jobLines, totals }) => {
+      const first = jobLines[0];
+
+      // Quoted price from the expenditure summary is the job budget
+      let quotedPrice = 0;
+      let actualPrice = totals.actualizedSale;
+      const summaryResponse = await this.jobs.getExpenditureSummary(jobId);
+      if (summaryResponse.success && summaryResponse.data) {
+        const rows = summaryResponse.data as MappedExpenditureSummary[];
+        quotedPrice = rows.reduce((sum, row) => sum + (row.quotedPrice || 0), 0);
+        actualPrice = rows.reduce((sum, row) => sum + (row.actualPrice || 0), 0) || actualPrice;
+      }
+
+      const daysRemaining = first.JobEndDate
+        ? Math.ceil((new Date(first.JobEndDate).getTime() - Date.now()) / (24 * 60 * 60 * 1000))
+        : 0;
+      const budgetUtilization = percent(actualPrice, quotedPrice);
+      const profitMargin = percent(totals.grossProfit, totals.actualizedSale);
+      const teamSize = new Set(jobLines.map(line => line.EmployeeName).filter(Boolean)).size;
+
+      const riskFactors: string[] = [];
+      if (quotedPrice > 0 && budgetUtilization > 100) {
+        riskFactors.push(`Over budget (${budgetUtilization}% of quoted price used)`);
+      }
+      if (daysRemaining < 0 && (quotedPrice === 0 || budgetUtilization < 100)) {
+        riskFactors.push(`Past end date by ${Math.abs(daysRemaining)} days`);
+      }
+      if (totals.actualizedSale > 0 && profitMargin < 20) {
+        riskFactors.push(`${LOW_MARGIN_RISK_FACTOR} (${profitMargin}%)`);
+      }
+      if (quotedPrice > 0 && daysRemaining >= 0 && daysRemaining <= 14 && budgetUtilization < 75) {
+        riskFactors.push(`Ends in ${daysRemaining} days with ${budgetUtilization}% of budget used`);
+      }
+
+      return {
+        JobId: jobId,
+        JobName: first.JobName,
+        ClientName: first.CustomerName,
+        ProjectManager: first.JobResponsibleName,
+        CompletionPercentage: quotedPrice > 0 ? Math.min(budgetUtilization, 100) : 0,
+        DaysRemaining: daysRemaining,
+        IsOnSchedule: daysRemaining >= 0,
+        BudgetUtilization: budgetUtilization,
+        BudgetRemaining: round(quotedPrice - actualPrice),
+        ProfitMargin: profitMargin,
+        IsOverBudget: quotedPrice > 0 && actualPrice > quotedPrice,
+        TeamSize: teamSize,
+        TotalHoursLogged: round(totals.hours),
+        // Average hours logged per team member
+        AverageProductivity: teamSize > 0 ? round(totals.hours / teamSize) : 0,
+        RiskLevel: riskFactors.length >= 2 ? 'HIGH' as const : riskFactors.length === 1 ? 'MEDIUM' as const : 'LOW' as const,
+        RiskFactors: riskFactors
+      };
+    }));
+  }
+}
+
+/**
+ * Aggregate cube lines by a dimension, sorted by gross profit
+ */
+export function aggregateCubeLines(lines: CubeProjectData[], groupBy: CubeDimension): CubeAggregateRow[] {
+  const groups = new Map<string, { name: string; lines: CubeProjectData[] }>();
+  lines.forEach(line => {
+    const { key, name } = getDimensionValue(line, groupBy);
+    if (!groups.has(key)) {
+      groups.set(key, { name, lines: [] });
+    }
+    groups.get(key)!.lines.push(line);
+  });
+
+  return Array.from(groups.entries()).map(([key, group]) => {
+    const totals = sumLines(group.lines);
+    return {
+      key,
+      name: group.name,
+      lineCount: group.lines.length,
+      jobCount: new Set(group.lines.map(line => line.JobId)).size,
+      hours: round(totals.hours),
+      billableHours: round(totals.billableHours),
+      theoreticalSale: round(totals.theoreticalSale),
+      actualizedSale: round(totals.actualizedSale),
+      actualizedCost: round(totals.actualizedCost),
+      grossProfit: round(totals.grossProfit),
+      marginPercent: percent(totals.grossProfit, totals.actualizedSale)
+    };
+  }).sort((a, b) => b.grossProfit - a.grossProfit);
+}
+
+/**
+ * Forecast a monthly series with a least-squares trend and, given two full years of history, additive monthly seasonality
+ * Confidence bands use the residual standard deviation widened by the prediction error of the trend
+ * @param values - Monthly values, oldest first
+ * @param firstMonthOfYear - Calendar month (0-11) of the first value
+ * @param horizon - Number of months to project after the last value
+ * @param z - Normal quantile of the confidence level (e.g. 1.28 for 80%)
+ */
+export function forecastSeries(values: number[], firstMonthOfYear: number, horizon: number, z: number): SeriesForecast {
+  const n = values.length;
+
+  if (n < 3) {
+    const mean = n > 0 ? values.reduce((sum, value) => sum + value, 0) / n : 0;
+    const stdDev = n > 1 ? Math.sqrt(values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (n - 1)) : Math.abs(mean) * 0.5;
+    return {
+      method: 'average',
+      slope: 0,
+      residualStdDev: round(stdDev),
+      points: Array.from({ length: horizon }, () => toForecastPoint(mean, stdDev * Math.sqrt(1 + 1 / Math.max(n, 1)), z))
+    };
+  }
+
+  const isSeasonal = n >= 2 * SEASON_LENGTH;
+  const seasonOf = (t: number) => (firstMonthOfYear + t) % SEASON_LENGTH;
+  let seasonalIndex: number[] = new Array(SEASON_LENGTH).fill(0);
+  let fit = fitLine(values);
+
+  if (isSeasonal) {
+    // Average detrended value per calendar month, centred so the seasonal effect sums to zero over a year
+    const residualsByMonth: number[][] = Array.from({ length: SEASON_LENGTH }, () => []);
+    values.forEach((value, t) => residualsByMonth[seasonOf(t)].push(value - (fit.intercept + fit.slope * t)));
+    const rawIndex = residualsByMonth.map(residuals =>
+      residuals.length > 0 ? residuals.reduce((sum, residual) => sum + residual, 0) / residuals.length : 0);
+    const meanIndex = rawIndex.reduce((sum, value) => sum + value, 0) / SEASON_LENGTH;
+    seasonalIndex = rawIndex.map(value => value - meanIndex);
+    fit = fitLine(values.map((value, t) => value - seasonalIndex[seasonOf(t)]));
+  }
+
+  const residuals = values.map((value, t) => value - (fit.intercept + fit.slope * t + seasonalIndex[seasonOf(t)]));
+  const degreesOfFreedom = Math.max(n - 2 - (isSeasonal ? SEASON_LENGTH - 1 : 0), 1);
+  const residualStdDev = Math.sqrt(residuals.reduce((sum, residual) => sum + residual ** 2, 0) / degreesOfFreedom);
+
+  const meanT = (n - 1) / 2;
+  const sumSquaresT = (n * (n * n - 1)) / 12;
+
+  return {
+    method: isSeasonal ? 'seasonal_trend' : 'linear_trend',
+    slope: round(fit.slope),
+    residualStdDev: round(residualStdDev),
+    points: Array.from({ length: horizon }, (_, h) => {
+      const t = n + h;
+      const standardError = residualStdDev * Math.sqrt(1 + 1 / n + (t - meanT) ** 2 / sumSquaresT);
+      return toForecastPoint(fit.intercept + fit.slope * t + seasonalIndex[seasonOf(t)], standardError, z);
+    })
+  };
+}
+
+/**
+ * Shift a YYYY-MM month by a number of months
+ */
+export function shiftMonth(month: string, offset: number): string {
+  const [year, monthNumber] = month.split('-').map(Number);
+  const date = new Date(Date.UTC(year, monthNumber - 1 + offset, 1));
+  return date.toISOString().slice(0, 7);
+}
+
+/**
+ * All YYYY-MM months from one month to another, inclusive
+ */
+function getMonthRange(fromMonth: string, toMonth: string): string[] {
+  const months: string[] = [];
+  if (!/^\d{4}-\d{2}$/.test(fromMonth) || !/^\d{4}-\d{2}$/.test(toMonth)) {
+    return months;
+  }
+  for (let month = fromMonth; month <= toMonth; month = shiftMonth(month, 1)) {
+    months.push(month);
+  }
+  return months;
+}
+
+/**
+ * Last day (YYYY-MM-DD) of a YYYY-MM month
+ */
+function getMonthEnd(month: string): string {
+  const [year, monthNumber] = month.split('-').map(Number);
+  return new Date(Date.UTC(year, monthNumber, 0)).toISOString().slice(0, 10);
+}
+
+/**
+ * Ordinary least squares line through values at t = 0..n-1
+ */
+function fitLine(values: number[]): { intercept: number; slope: number } {
+  const n = values.length;
+  const meanT = (n - 1) / 2;
+  const meanValue = values.reduce((sum, value) => sum + value, 0) / n;
+  let covariance = 0;
+  let variance = 0;
+  values.forEach((value, t) => {
+    covariance += (t - meanT) * (value - meanValue);
+    variance += (t - meanT) ** 2;
+  });
+  const slope = variance > 0 ? covariance / variance : 0;
+  return { intercept: meanValue - slope * meanT, slope };
+}
+
+function toForecastPoint(value: number, standardError: number, z: number): SeriesForecastPoint {
+  return {
+    value: round(value),
+    low: round(value - z * standardError),
+    high: round(value + z * standardError),
+    standardError: round(standardError)
+  };
+}
+
+/**
+ * Resolve the grouping key and display name of a cube line for a dimension
+ */
+function getDimensionValue(line: CubeProjectData, groupBy: CubeDimension): { key: string; name: string } {
+  switch (groupBy) {
+  case 'customer': return { key: String(line.CustomerId), name: line.CustomerName };
+  case 'job': return { key: String(line.JobId), name: `${line.JobId} ${line.JobName}` };
+  case 'employee': return { key: line.EmployeeName || 'Unassigned', name: line.EmployeeName || 'Unassigned' };
+  case 'team': return { key: line.TeamName || 'Unassigned', name: line.TeamName || 'Unassigned' };
+  case 'department': return { key: line.JobDepartmentName || 'Unassigned', name: line.JobDepartmentName || 'Unassigned' };
+  case 'dimension1': return { key: line.Dimension1 || 'Unassigned', name: line.Dimension1 || 'Unassigned' };
+  case 'dimension2': return { key: line.Dimension2 || 'Unassigned', name: line.Dimension2 || 'Unassigned' };
+  case 'dimension3': return { key: line.Dimension3 || 'Unassigned', name: line.Dimension3 || 'Unassigned' };
+  case 'dimension4': return { key: line.Dimension4 || 'Unassigned', name: line.Dimension4 || 'Unassigned' };
+  case 'dimension5': return { key: line.Dimension5 || 'Unassigned', name: line.Dimension5 || 'Unassigned' };
+  default: return { key: 'all', name: 'All' };
+  }
+}
+
+/**
+ * Sum the financial and hour figures of cube lines
+ * Hours count time lines only; billable hours are time lines with a sale price
+ */
+function sumLines(lines: CubeProjectData[]) {
+  return lines.reduce((totals, line) => {
+    const isTime = line.ExpenseType === ExpenseType.TIME;
+    totals.hours += isTime ? line.Quantity || 0 : 0;
+    totals.billableHours += isTime && ((line.SalePerUnit || 0) > 0 || (line.TheoreticalSale || 0) > 0) ? line.Quantity || 0 : 0;
+    totals.theoreticalSale += line.TheoreticalSale || 0;
+    totals.actualizedSale += line.ActualizedSale || 0;
+    totals.actualizedCost += line.ActualizedCost || 0;
+    totals.grossProfit += line.ActualGrossProfit || 0;
+    return totals;
+  }, { hours: 0, billableHours: 0, theoreticalSale: 0, actualizedSale: 0, actualizedCost: 0, grossProfit: 0 });
+}
+
+/**
+ * Count distinct employees per job department
+ */
+function countEmployeesPerDepartment(lines: CubeProjectData[]): Map<string, number> {
+  const employees = new Map<string, Set<string>>();
+  lines.filter(line => line.EmployeeName).forEach(line => {
+    const department = line.JobDepartmentName || 'Unassigned';
+    if (!employees.has(department)) {
+      employees.set(department, new Set());
+    }
+    employees.get(department)!.add(line.EmployeeName!);
+  });
+  return new Map(Array.from(employees.entries()).map(([department, names]) => [department, names.size]));
+}
+
+/**
+ * Most frequent non-empty value
+ */
+function mostCommon(values: Array<string | undefined>): string | undefined {
+  const counts = new Map<string, number>();
+  values.filter((value): value is string => !!value).forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+  return Array.from(counts.entries()).sort(([, a], [, b]) => b - a)[0]?.[0];
+}
+
+function sumHours(entries: MappedTimeRegistration[]): number {
+  return round(entries.reduce((sum, entry) => sum + entry.hours, 0));
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function percent(part: number, total: number): number {
+  return total > 0 ? Math.round((part / total) * 1000) / 10 : 0;
+}
+
+function growth(current: number, previous: number): number {
+  return previous !== 0 ? Math.round(((current - previous) / Math.abs(previous)) * 1000) / 10 : 0;
+}
\ No newline at end of file
@@ -0,0 +1,273 @@
+import { BaseService } from '../base/baseService.js';
+import { JobService } from './jobService.js';
+import { ResourceService } from './resourceService.js';
+import { BillingService } from './billingService.js';
+import {
+  WorkbookConfig,
+  ServiceResponse,
+  Resource,
+  Contact,
+  JobStatus,
+  MappedBillingInvoice,
+  ClientProfile,
+  ClientProfileReceivables,
+  ClientProfileLastRegistration,
+  ClientDataQualityIssue
+} from '../../types/workbook.types.js';
+import { MappedJobSummary, MappedTimeRegistration } from '../../types/job-api.types.js';
+import { ResourceTypes, ResourceTypeNames } from '../../constants/resourceTypes.js';
+
+// Jobs searched for the latest time registration, most recently ending first
+const LAST_REGISTRATION_JOB_LIMIT = 20;
+// How far back time registrations are searched
+const LAST_REGISTRATION_LOOKBACK_DAYS = 365;
+// Jobs whose time entries are loaded in parallel
+const TIME_ENTRY_BATCH_SIZE = 5;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * ClientProfileService - Client 360 view combining resource, contacts, jobs, invoices and time
+ * Fans out to ResourceService, JobService and BillingService concurrently
+ */
+export class ClientProfileService extends BaseService {
+  private jobs: JobService;
+  private resources: ResourceService;
+  private billing: BillingService;
+
+  constructor(config: WorkbookConfig, jobs: JobService, resources: ResourceService, billing: BillingService) {
+    super(config);
+    this.jobs = jobs;
+    this.resources = resources;
+    this.billing = billing;
+  }
+
+  /**
+   * Find the client companies matching a name, exact name matches first
+   * API: ResourceIdsRequest + ResourceRequest[]
+   */
+  async findClients(name: string): Promise<ServiceResponse<Resource[]>> {
+    const response = await this.resources.findCompaniesByName(name);
+    if (!response.success || !response.data) {
+      return response;
+    }
+
+    const lowerName = name.trim().toLowerCase();
+    const data = [...response.data].sort((a, b) =>
+      Number(b.Name.toLowerCase() === lowerName) - Number(a.Name.toLowerCase() === lowerName) ||
+      Number(b.Active) - Number(a.Active) ||
+      a.Name.localeCompare(b.Name)
+    );
+
+    return { success: true, data, cached: response.cached };
+  }
+
+  /**
+   * Build the full profile of a client
+   * Sections that fail are listed in unavailableSections instead of failing the profile
+   * API: ResourceRequest + ContactsForResourceRequest + JobsRequest + InvoiceRequest + TimeEntryRequest
+   */
+  async getClientProfile(clientId: number): Promise<ServiceResponse<ClientProfile>> {
+    try {
+      const clientResponse = await this.resources.getById(clientId);
+      if (!clientResponse.success || !clientResponse.data) {
+        return { success: false, error: clientResponse.error || `Client ${clientId} not found`, apiError: clientResponse.apiError };
+      }
+
+      const client = clientResponse.data;
+      const unavailableSections: ClientProfile['unavailableSections'] = [];
+
+      const [contactsResponse, responsibleResponse, jobsResponse, invoicesResponse] = await Promise.all([
+        this.resources.getContactsForResource(clientId),
+        client.ResponsibleResourceId
+          ? this.resources.getById(client.ResponsibleResourceId)
+          : Promise.resolve<ServiceResponse<Resource>>({ success: true }),
+        this.jobs.searchJobs({ customerId: clientId, sortBy: 'endDate', sortDirection: 'desc', pageSize: 1000 }),
+        this.billing.getCustomerInvoices(clientId)
+      ]);
+
+      if (!contactsResponse.success) {
+        unavailableSections.push({ section: 'contacts', error: contactsResponse.error || 'Unknown error' });
+      }
+      if (!responsibleResponse.success) {
+        unavailableSections.push({ section: 'responsibleEmployee', error: responsibleResponse.error || 'Unknown error' });
+      }
+      if (!jobsResponse.success) {
+        unavailableSections.push({ section: 'jobs', error: jobsResponse.error || 'Unknown error' });
+      }
+      if (!invoicesResponse.success) {
+        unavailableSections.push({ section: 'invoices', error: invoicesResponse.error || 'Unknown error' });
+      }
+
+      const contacts = contactsResponse.data || [];
+      const responsible = responsibleResponse.data;
+      const jobs = jobsResponse.data?.jobs || [];
+      const activeJobs = jobs.filter(job => job.statusId === JobStatus.ACTIVE);
+      const openInvoices = (invoicesResponse.data || [])
+        .filter(invoice => invoice.balanceDue > 0)
+        .sort((a, b) => b.daysOverdue - a.daysOverdue);
+
+      const lastRegistrationResponse = await this.getLastRegistration(jobs);
+      if (!lastRegistrationResponse.success) {
+        unavailableSections.push({ section: 'lastRegistration', error: lastRegistrationResponse.error || 'Unknown error' });
+      }
+
+      const data: ClientProfile = {
+        client: {
+          id: client.Id,
+          name: client.Name,
+          typeName: ResourceTypeNames[client.TypeId as keyof typeof ResourceTypeNames] || `Type${client.TypeId}`,
+          active: client.Active,
+          email: client.Email || undefined,
+          phone: client.Phone1 || client.CellPhone || undefined,
+          address: client.Address1 || undefined,
+          city: client.City || undefined,
+          postCode: client.PostCode || undefined,
+          country: client.Country || undefined,
+          folder: client.ResourceFolder || undefined,
+          createDate: client.CreateDate,
+          updateDate: client.UpdateDate
+        },
+        responsibleEmployee: responsible
+          ? { id: responsible.Id, name: responsible.Name, email: responsible.Email || undefined, active: responsible.Active }
+          : undefined,
+        contacts: contacts.map(contact => ({
+          id: contact.Id,
+          name: contact.Name,
+          title: contact.Title || undefined,
+          email: contact.Email || undefined,
+          phone: contact.Phone1 || contact.CellPhone || undefined,
+          active: contact.Active
+        })),
+        activeJobs,
+        totalJobCount: jobsResponse.data?.totalCount ?? jobs.length,
+        openInvoices,
+        receivables: summarizeReceivables(openInvoices),
+        lastRegistration: lastRegistrationResponse.data,
+        dataQualityIssues: contactsResponse.success && responsibleResponse.success
+          ? findDataQualityIssues(client, responsible, contacts, activeJobs)
+          : [],
+        unavailableSections,
+        generatedAt: new Date().toISOString()
+      };
+
+      return { success: true, data, cached: false };
+    } catch (error) {
+      console.error('Error building client profile:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  /**
+   * Find the latest time registration on a client's jobs within the lookback window
+   * API: TimeEntryRequest
+   */
+  private async getLastRegistration(jobs: MappedJobSummary[]): Promise<ServiceResponse<ClientProfileLastRegistration | undefined>> {
+    const since = new Date(Date.now() - LAST_REGISTRATION_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+    const candidates = jobs
+      .filter(job => job.statusId === JobStatus.ACTIVE || !job.endDate || new Date(job.endDate) >= since)
+      .slice(0, LAST_REGISTRATION_JOB_LIMIT);
+
+    const startDate = since.toISOString().split('T')[0];
+    let latest: ClientProfileLastRegistration | undefined;
+    let failure: string | undefined;
+
+    for (let i = 0; i < candidates.length; i += TIME_ENTRY_BATCH_SIZE) {
+      const batch = candidates.slice(i, i + TIME_ENTRY_BATCH_SIZE);
+      const responses = await Promise.all(batch.map(job => this.jobs.getTimeEntriesByFilter({ jobId: job.id, startDate })));
+
+      responses.forEach((response, index) => {
+        if (!response.success || !response.data) {
+          failure = failure || ('error' in response ? response.error : undefined) || 'No time entries data received';
+          return;
+        }
+        (response.data as MappedTimeRegistration[]).forEach(entry => {
+          if (!latest || new Date(entry.registrationDate) > new Date(latest.registrationDate)) {
+            latest = {
+              registrationDate: entry.registrationDate,
+              hours: entry.hours,
+              jobId: entry.jobId,
+              jobName: entry.jobName || batch[index].jobName,
+              resourceId: entry.resourceId
+            };
+          }
+        });
+      });
+    }
+
+    if (!latest && failure) {
+      return { success: false, error: failure };
+    }
+
+    if (latest) {
+      const employeeResponse = await this.resources.getById(latest.resourceId);
+      latest.resourceName = employeeResponse.data?.Name;
+    }
+
+    return { success: true, data: latest, cached: false };
+  }
+}
+
+/**
+ * Total outstanding and overdue balances of open invoices
+ */
+function summarizeReceivables(openInvoices: MappedBillingInvoice[]): ClientProfileReceivables {
+  const round = (value: number) => Math.round(value * 100) / 100;
+
+  return {
+    openInvoiceCount: openInvoices.length,
+    outstandingAmount: round(openInvoices.reduce((sum, invoice) => sum + invoice.balanceDue, 0)),
+    overdueAmount: round(openInvoices.filter(invoice => invoice.isOverdue).reduce((sum, invoice) => sum + invoice.balanceDue, 0)),
+    oldestDaysOverdue: openInvoices.reduce((max, invoice) => Math.max(max, invoice.daysOverdue), 0),
+    currencyCode: openInvoices[0]?.currencyCode || 'DKK'
+  };
+}
+
+/**
+ * Check the client record, its responsible employee and contacts for gaps and inconsistencies
+ */
+function findDataQualityIssues(
+  client: Resource,
+  responsible: Resource | undefined,
+  contacts: Contact[],
+  activeJobs: MappedJobSummary[]
+): ClientDataQualityIssue[] {
+  const issues: ClientDataQualityIssue[] = [];
+
+  if (!client.Email || client.Email.trim() === '') {
+    issues.push({ field: 'email', severity: 'warning', message: 'Client has no email address' });
+  } else if (!EMAIL_PATTERN.test(client.Email)) {
+    issues.push({ field: 'email', severity: 'critical', message: `Client email "${client.Email}" is invalid` });
+  }
+
+  if (!client.ResponsibleResourceId) {
+    issues.push({ field: 'responsibleEmployee', severity: 'critical', message: 'Client has no responsible employee' });
+  } else if (responsible && (!responsible.Active || responsible.TypeId !== ResourceTypes.EMPLOYEE)) {
+    issues.push({ field: 'responsibleEmployee', severity: 'critical', message: `Responsible "${responsible.Name}" is not an active employee` });
+  }
+
+  if (!client.Address1 || !client.City) {
+    issues.push({ field: 'address', severity: 'warning', message: 'Client address or city is missing' });
+  }
+
+  if (!client.Active && activeJobs.length > 0) {
+    issues.push({ field: 'active', severity: 'warning', message: `Client is inactive but has ${activeJobs.length} active jobs` });
+  }
+
+  const activeContacts = contacts.filter(contact => contact.Active);
+  if (activeContacts.length === 0) {
+    issues.push({ field: 'contacts', severity: 'warning', message: 'Client has no active contacts' });
+  }
+
+  const contactsWithoutEmail = activeContacts.filter(contact => !contact.Email || contact.Email.trim() === '');
+  if (contactsWithoutEmail.length > 0) {
+    issues.push({ field: 'contacts', severity: 'warning', message: `${contactsWithoutEmail.length} active contacts have no email address` });
+  }
+
+  const contactsWithInvalidEmail = activeContacts.filter(contact => contact.Email && contact.Email.trim() !== '' && !EMAIL_PATTERN.test(contact.Email));
+  if (contactsWithInvalidEmail.length > 0) {
+    issues.push({ field: 'contacts', severity: 'critical', message: `${contactsWithInvalidEmail.length} contacts have an invalid email address` });
+  }
+
+  return issues;
+}
\ No newline at end of file
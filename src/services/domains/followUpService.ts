@@ -0,0 +1,173 @@
+import { BaseService } from '../base/baseService.js';
+import { JobService } from './jobService.js';
+import { ResourceService } from './resourceService.js';
+import {
+  WorkbookConfig,
+  ServiceResponse,
+  Resource,
+  StrideTimeType,
+  FollowUpReferenceType
+} from '../../types/workbook.types.js';
+import { MappedTimesheetFollowUp, MappedTimesheetStatus } from '../../types/job-api.types.js';
+import { ResourceTypes } from '../../constants/resourceTypes.js';
+
+// Missing hours below this are rounding noise, not an incomplete timesheet
+const DEFAULT_TOLERANCE_HOURS = 0.5;
+
+/**
+ * FollowUpService - Missing-timesheet follow-up against employee capacity
+ * Based on comprehensive-endpoints.md FollowUpTimeEntryChecklist and RaiseFollowUpNotification documentation
+ */
+export class FollowUpService extends BaseService {
+  private jobs: JobService;
+  private resources: ResourceService;
+
+  constructor(config: WorkbookConfig, jobs: JobService, resources: ResourceService) {
+    super(config);
+    this.jobs = jobs;
+    this.resources = resources;
+  }
+
+  /**
+   * Find employees whose registered hours (including absence) fall short of their capacity for a period
+   * Scope is the employees of a manager, explicit employees, or all active employees
+   * API: FollowUpTimeEntryChecklistVisualizationRequest + ResourcesTimeEntryApprovalStatisticsVisualizationRequest (capacity)
+   */
+  async getIncompleteTimesheets(query: {
+    startDate: string;
+    endDate: string;
+    managerId?: number;
+    employeeIds?: number[];
+    departmentIds?: number[];
+    toleranceHours?: number;
+  }): Promise<ServiceResponse<MappedTimesheetFollowUp>> {
+    try {
+      const employeesResponse = await this.resources.getByType(ResourceTypes.EMPLOYEE);
+      if (!employeesResponse.success || !employeesResponse.data) {
+        return { success: false, error: employeesResponse.error || 'No employees received', apiError: employeesResponse.apiError };
+      }
+
+      const employees = employeesResponse.data
+        .filter(employee => employee.Active !== false)
+        .filter(employee => !query.managerId || (employee.ResponsibleResourceId === query.managerId && employee.Id !== query.managerId))
+        .filter(employee => !query.employeeIds || query.employeeIds.length === 0 || query.employeeIds.includes(employee.Id));
+
+      if (employees.length === 0) {
+        return {
+          success: true,
+          data: { startDate: query.startDate, endDate: query.endDate, employeeCount: 0, incompleteCount: 0, totalMissingHours: 0, incomplete: [], complete: [] },
+          cached: false
+        };
+      }
+
+      const employeeIds = employees.map(employee => employee.Id);
+      const days = Math.max(Math.round((new Date(query.endDate).getTime() - new Date(query.startDate).getTime()) / (24 * 60 * 60 * 1000)) + 1, 1);
+
+      const [checklistResponse, statisticsResponse] = await Promise.all([
+        this.jobs.getTimeEntryChecklist({
+          startDate: query.startDate,
+          endDate: query.endDate,
+          employeeIds,
+          departmentIds: query.departmentIds
+        }),
+        // One block spanning the period gives capacity per employee
+        this.jobs.getResourcesTimeEntryApprovalStatistics(employeeIds, query.startDate, {
+          stride: days,
+          strideTimeType: StrideTimeType.DAY,
+          count: 1
+        })
+      ]);
+
+      if (!checklistResponse.success || !checklistResponse.data) {
+        return { success: false, error: checklistResponse.error || 'No time entry checklist received', apiError: checklistResponse.apiError };
+      }
+      if (!statisticsResponse.success || !statisticsResponse.data) {
+        return { success: false, error: statisticsResponse.error || 'No capacity statistics received', apiError: statisticsResponse.apiError };
+      }
+
+      const capacity = new Map(statisticsResponse.data.map(resource => [
+        resource.resourceId,
+        resource.blocks.reduce((sum, block) => sum + block.capacityHours, 0)
+      ]));
+
+      const registered = new Map<number, { hours: number; absence: number }>();
+      checklistResponse.data.forEach(row => {
+        const totals = registered.get(row.employeeId) || { hours: 0, absence: 0 };
+        if (row.isAbsence) {
+          totals.absence += row.hours;
+        } else {
+          totals.hours += row.hours;
+        }
+        registered.set(row.employeeId, totals);
+      });
+
+      // With a department filter the checklist decides who is in scope
+      const inScope = query.departmentIds && query.departmentIds.length > 0
+        ? employees.filter(employee => registered.has(employee.Id))
+        : employees;
+
+      const tolerance = query.toleranceHours ?? DEFAULT_TOLERANCE_HOURS;
+      const statuses = inScope
+        .map(employee => toTimesheetStatus(employee, capacity.get(employee.Id) || 0, registered.get(employee.Id), tolerance))
+        .filter(status => status.capacityHours > 0);
+
+      const incomplete = statuses.filter(status => !status.isComplete).sort((a, b) => b.missingHours - a.missingHours);
+
+      return {
+        success: true,
+        data: {
+          startDate: query.startDate,
+          endDate: query.endDate,
+          employeeCount: statuses.length,
+          incompleteCount: incomplete.length,
+          totalMissingHours: round(incomplete.reduce((sum, status) => sum + status.missingHours, 0)),
+          incomplete,
+          complete: statuses.filter(status => status.isComplete)
+        },
+        cached: checklistResponse.cached && statisticsResponse.cached
+      };
+    } catch (error) {
+      console.error('Error building timesheet follow-up:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  /**
+   * Raise the Workbook time entry follow-up so employees are reminded inside Workbook
+   * API: RaiseFollowUpNotificationRequest
+   */
+  async raiseTimesheetReminder(): Promise<ServiceResponse<{ referenceType: FollowUpReferenceType; raisedAt: string }>> {
+    return this.jobs.raiseFollowUpNotification(FollowUpReferenceType.TIME_ENTRY);
+  }
+}
+
+/**
+ * Compare registered and absence hours of an employee with their capacity
+ */
+function toTimesheetStatus(
+  employee: Resource,
+  capacityHours: number,
+  registered: { hours: number; absence: number } | undefined,
+  tolerance: number
+): MappedTimesheetStatus {
+  const registeredHours = registered?.hours || 0;
+  const absenceHours = registered?.absence || 0;
+  const missingHours = Math.max(capacityHours - registeredHours - absenceHours, 0);
+
+  return {
+    resourceId: employee.Id,
+    name: employee.Name,
+    email: employee.Email || undefined,
+    managerId: employee.ResponsibleResourceId,
+    capacityHours: round(capacityHours),
+    registeredHours: round(registeredHours),
+    absenceHours: round(absenceHours),
+    missingHours: round(missingHours),
+    completionPercent: capacityHours > 0 ? Math.round(((registeredHours + absenceHours) / capacityHours) * 1000) / 10 : 100,
+    isComplete: missingHours <= tolerance
+  };
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
\ No newline at end of file
@@ -1,7 +1,16 @@
+import { z } from 'zod';
 import { BaseService } from '../base/baseService.js';
-import { WorkbookConfig, ServiceResponse } from '../../types/workbook.types.js';
-import { cacheManager } from '../base/cache.js';
-import { JobTeamMember, TaskResourcePrice, TaskResponse, Activity, TaskInsertResponse, ExpenditureEntry, PriceList, JobCreateResponse, JobPatchResponse, JobSimpleVisualization, Tag, Invoice, InvoicePaymentStatus, ExpenditureSummary, DepartmentProfitSplit, JobType, TimeEntryTaskResourceSum, CapacityVisualization, JobPatchPayload, Department } from '../../types/job-api.types.js';
+import { WorkbookConfig, ServiceResponse, TimeEntryApprovalStatus, StrideTimeType, FollowUpReferenceType, MoveTaskToJobParams } from '../../types/workbook.types.js';
+import { CacheTags } from '../base/cache.js';
+import { pickFields } from '../audit/auditLog.js';
+import { JobTeamMember, JobTeamMemberPayload, MappedJobTeamMember, JobTeamMemberSettings, JobTeamChange, MappedJobTeamChangeResult, TaskResourcePrice, TaskResponse, Activity, TaskInsertResponse, ExpenditureEntry, PriceList, JobCreateResponse, JobPatchResponse, JobSimpleVisualization, Tag, Invoice, InvoicePaymentStatus, ExpenditureSummary, DepartmentProfitSplit, JobType, TimeEntryTaskResourceSum, CapacityVisualization, JobPatchPayload, Department, TimeEntry, RawTimeEntry, MappedTimeRegistration, MappedTimeEntryDay, TimeEntryApprovalStatistics, TimeEntryApprovalStatisticsEntry, ResourcesTimeEntryApprovalStatistics, MappedApprovalStatisticsBlock, MappedResourceApprovalStatistics, MappedResourceApprovalHours, MappedManagerApprovalSummary, MappedTimeEntryReview, TimeEntryChecklistRow, MappedTimeEntryChecklistRow, JobIdReference, JobSearchParams, MappedJobSummary, MappedJobSearchResult, MappedJobData, MappedInvoice } from '../../types/job-api.types.js';
+import { ActivitySchema, CapacityVisualizationSchema, DepartmentSchema, DepartmentProfitSplitSchema, ExpenditureEntrySchema, ExpenditureSummarySchema, InvoiceSchema, InvoicePaymentStatusSchema, JobCreateResponseSchema, JobIdReferenceSchema, JobPatchResponseSchema, JobSimpleVisualizationSchema, JobTeamMemberSchema, JobTypeSchema, PriceListSchema, RawTimeEntrySchema, ResourcesTimeEntryApprovalStatisticsSchema, TagSchema, TaskResourcePriceSchema, TaskResponseSchema, TimeEntrySchema, TimeEntryApprovalStatisticsSchema, TimeEntryChecklistRowSchema, TimeEntryTaskResourceSumSchema } from '../../types/job-api.schemas.js';
+
+// Resources whose time entries are loaded in parallel when summarizing approvals
+const APPROVAL_BATCH_SIZE = 5;
+
+// Job ids hydrated per JobSimpleVisualizationRequest[] call when searching jobs
+const JOB_DETAILS_BATCH_SIZE = 50;
 
 /**
  * JobService - Job management API operations
@@ -17,14 +26,15 @@ export class JobService extends BaseService {
    * API: JobTeamAllRequest[]
    */
   async getJobTeam(jobId: number): Promise<ServiceResponse<unknown[]>> {
-    const cacheKey = `job-team-${jobId}`;
-    const cached = cacheManager.get(cacheKey);
-    if (cached) {
-      return { success: true, data: cached as unknown[], cached: true };
-    }
+    return this.cachedRead(`job-team-${jobId}`, { ttl: 300, tags: [CacheTags.job(jobId)] }, () => this.fetchJobTeam(jobId));
+  }
 
+  /**
+   * Fetch job team members from the API
+   */
+  private async fetchJobTeam(jobId: number): Promise<ServiceResponse<unknown[]>> {
     try {
-      const response = await this.post<JobTeamMember[]>('JobTeamAllRequest[]', [{ Id: jobId }]);
+      const response = await this.post<JobTeamMember[]>('JobTeamAllRequest[]', [{ Id: jobId }], z.array(JobTeamMemberSchema), { idempotent: true });
       
       if (!response.success) {
         return response;
@@ -34,17 +44,8 @@ export class JobService extends BaseService {
         return { success: false, error: 'No job team data received' };
       }
 
-      const data = response.data.map((member: JobTeamMember) => ({
-        jobId: member.JobId,
-        resourceId: member.ResourceId,
-        resourceName: '', // Need to fetch from ResourceService
-        bonusPart: member.BonusPart,
-        jobAccess: member.JobAccess,
-        id: member.Id,
-        portalAccessType: member.PortalAccessType
-      }));
+      const data = response.data.map(mapJobTeamMember);
 
-      cacheManager.set(cacheKey, data, 300); // 5 minute cache
       return { success: true, data, cached: false };
     } catch (error) {
       console.error('Error fetching job team:', error);
@@ -52,19 +53,159 @@ export class JobService extends BaseService {
     }
   }
 
+  /**
+   * Add a resource to a job team with optional role, default task and price
+   * API: JobTeamRequest (POST)
+   */
+  async addJobTeamMember(jobId: number, resourceId: number, settings: JobTeamMemberSettings = {}): Promise<ServiceResponse<MappedJobTeamMember>> {
+    return this.audited({ action: 'job.team.add', entityType: 'job', entityIds: [jobId], after: { ResourceId: resourceId, ...settings } }, async () => {
+      try {
+        const payload: JobTeamMemberPayload = {
+          JobId: jobId,
+          ResourceId: resourceId,
+          JobAccess: settings.jobAccess ?? true,
+          BonusPart: settings.bonusPart ?? false,
+          ...toJobTeamMemberPayload(settings)
+        };
+
+        const response = await this.post<JobTeamMember>('JobTeamRequest', payload, JobTeamMemberSchema);
+
+        if (!response.success) {
+          return { success: false, error: response.error, apiError: response.apiError };
+        }
+
+        this.cache.invalidateTags([CacheTags.job(jobId)]);
+
+        const member = response.data || { ...payload, Id: 0, PortalAccessType: 0 } as JobTeamMember;
+        return { success: true, data: mapJobTeamMember(member), cached: false };
+      } catch (error) {
+        console.error('Error adding job team member:', error);
+        return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+      }
+    });
+  }
+
+  /**
+   * Change the role, default task, price or access of a job team member
+   * API: JobTeamRequest (PATCH)
+   */
+  async updateJobTeamMember(jobId: number, teamMemberId: number, settings: JobTeamMemberSettings): Promise<ServiceResponse<MappedJobTeamMember>> {
+    return this.audited({ action: 'job.team.update', entityType: 'job', entityIds: [jobId], after: { TeamMemberId: teamMemberId, ...settings } }, async () => {
+      try {
+        const payload: JobTeamMemberPayload = { Id: teamMemberId, ...toJobTeamMemberPayload(settings) };
+        if (settings.jobAccess !== undefined) {
+          payload.JobAccess = settings.jobAccess;
+        }
+        if (settings.bonusPart !== undefined) {
+          payload.BonusPart = settings.bonusPart;
+        }
+
+        const response = await this.patch<JobTeamMember>('JobTeamRequest', payload, JobTeamMemberSchema);
+
+        if (!response.success) {
+          return { success: false, error: response.error, apiError: response.apiError };
+        }
+
+        if (!response.data) {
+          return { success: false, error: 'No job team member data received' };
+        }
+
+        this.cache.invalidateTags([CacheTags.job(jobId)]);
+        return { success: true, data: mapJobTeamMember(response.data), cached: false };
+      } catch (error) {
+        console.error('Error updating job team member:', error);
+        return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+      }
+    });
+  }
+
+  /**
+   * Remove a member from a job team
+   * API: JobTeamRequest (DELETE)
+   */
+  async removeJobTeamMember(jobId: number, teamMemberId: number): Promise<ServiceResponse<{ jobId: number; teamMemberId: number }>> {
+    return this.audited({ action: 'job.team.remove', entityType: 'job', entityIds: [jobId], before: { TeamMemberId: teamMemberId } }, async () => {
+      try {
+        const response = await this.request(`JobTeamRequest?Id=${teamMemberId}`, 'DELETE');
+
+        if (!response.success) {
+          return { success: false, error: response.error, apiError: response.apiError };
+        }
+
+        this.cache.invalidateTags([CacheTags.job(jobId)]);
+        return { success: true, data: { jobId, teamMemberId }, cached: false };
+      } catch (error) {
+        console.error('Error removing job team member:', error);
+        return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+      }
+    });
+  }
+
+  /**
+   * Apply a set of team changes to a job against its current team
+   * Adding an existing member updates its settings; updating or removing a non-member fails for that member only
+   * API: JobTeamAllRequest[] + JobTeamRequest
+   */
+  async applyTeamChanges(jobId: number, changes: JobTeamChange[]): Promise<ServiceResponse<MappedJobTeamChangeResult>> {
+    try {
+      this.cache.invalidateTags([CacheTags.job(jobId)]);
+      const teamResponse = await this.getJobTeam(jobId);
+      if (!teamResponse.success || !teamResponse.data) {
+        return { success: false, error: teamResponse.error || 'No job team data received', apiError: teamResponse.apiError };
+      }
+
+      const currentTeam = new Map((teamResponse.data as MappedJobTeamMember[]).map(member => [member.resourceId, member]));
+      const result: MappedJobTeamChangeResult = { jobId, successful: [], failed: [], team: [] };
+
+      for (const change of changes) {
+        const { action, resourceId, ...settings } = change;
+        const existing = currentTeam.get(resourceId);
+
+        let response: ServiceResponse<unknown>;
+        if (action === 'remove') {
+          response = existing
+            ? await this.removeJobTeamMember(jobId, existing.id)
+            : { success: false, error: `Resource ${resourceId} is not on the team of job ${jobId}` };
+        } else if (existing) {
+          response = Object.values(settings).some(value => value !== undefined)
+            ? await this.updateJobTeamMember(jobId, existing.id, settings)
+            : { success: true }; // Already on the team with nothing to change
+        } else if (action === 'add') {
+          response = await this.addJobTeamMember(jobId, resourceId, settings);
+        } else {
+          response = { success: false, error: `Resource ${resourceId} is not on the team of job ${jobId}` };
+        }
+
+        if (response.success) {
+          result.successful.push({ resourceId, action });
+        } else {
+          result.failed.push({ resourceId, action, error: response.error || 'Unknown error' });
+        }
+      }
+
+      const updatedTeam = await this.getJobTeam(jobId);
+      result.team = updatedTeam.success && updatedTeam.data ? updatedTeam.data as MappedJobTeamMember[] : [];
+
+      return { success: true, data: result, cached: false };
+    } catch (error) {
+      console.error('Error applying job team changes:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
   /**
    * Get task resource pricing
    * API: TasksResourcePriceRequest
    */
   async getTaskResourcePrices(taskIds: number[]) {
     const cacheKey = `task-prices-${taskIds.join('-')}`;
-    const cached = cacheManager.get(cacheKey);
+    const cached = this.cache.get(cacheKey);
     if (cached) {
       return { success: true as const, data: cached, cached: true };
     }
 
     try {
-      const response = await this.post<TaskResourcePrice[]>('TasksResourcePriceRequest', { Ids: taskIds });
+      const response = await this.post<TaskResourcePrice[]>('TasksResourcePriceRequest', { Ids: taskIds }, z.array(TaskResourcePriceSchema), { idempotent: true });
       
       if (!response.success) {
         return response;
@@ -84,7 +225,7 @@ export class JobService extends BaseService {
         currency: task.IsoCode
       }));
 
-      cacheManager.set(cacheKey, data, 300); // 5 minute cache
+      this.cache.set(cacheKey, data, 300); // 5 minute cache
       return { success: true, data, cached: false };
     } catch (error) {
       console.error('Error fetching task resource prices:', error);
@@ -97,17 +238,18 @@ export class JobService extends BaseService {
    * API: TasksRequest
    */
   async getJobTasks(jobId: number, active: boolean = true) {
-    const cacheKey = `job-tasks-${jobId}-${active}`;
-    const cached = cacheManager.get(cacheKey);
-    if (cached) {
-      return { success: true as const, data: cached, cached: true };
-    }
+    return this.cachedRead(`job-tasks-${jobId}-${active}`, { ttl: 300, tags: [CacheTags.job(jobId)] }, () => this.fetchJobTasks(jobId, active));
+  }
 
+  /**
+   * Fetch the tasks of a job from the API
+   */
+  private async fetchJobTasks(jobId: number, active: boolean): Promise<ServiceResponse<unknown[]>> {
     try {
       const response = await this.pureGet<TaskResponse[]>('TasksRequest', {
         Active: active ? 'true' : 'false',
         JobId: jobId.toString()
-      });
+      }, z.array(TaskResponseSchema));
       
       if (!response.success) {
         return response;
@@ -146,7 +288,6 @@ export class JobService extends BaseService {
         bookingLevel: task.BookingLevel
       }));
 
-      cacheManager.set(cacheKey, data, 300); // 5 minute cache
       return { success: true, data, cached: false };
     } catch (error) {
       console.error('Error fetching job tasks:', error);
@@ -160,13 +301,13 @@ export class JobService extends BaseService {
    */
   async getTask(taskId: number) {
     const cacheKey = `task-${taskId}`;
-    const cached = cacheManager.get(cacheKey);
+    const cached = this.cache.get(cacheKey);
     if (cached) {
       return { success: true, data: cached, cached: true };
     }
 
     try {
-      const response = await this.post<TaskResponse[]>('TaskRequest[]', [{ Id: taskId }]);
+      const response = await this.post<TaskResponse[]>('TaskRequest[]', [{ Id: taskId }], z.array(TaskResponseSchema), { idempotent: true });
       
       if (!response.success) {
         return response;
@@ -206,7 +347,7 @@ export class JobService extends BaseService {
         billable: task.Billable
       };
 
-      cacheManager.set(cacheKey, data, 300); // 5 minute cache
+      this.cache.set(cacheKey, data, 300); // 5 minute cache
       return { success: true, data, cached: false };
     } catch (error) {
       console.error('Error fetching task:', error);
@@ -220,7 +361,7 @@ export class JobService extends BaseService {
    */
   async getActivities(jobId?: number, active = true) {
     const cacheKey = `activities-${jobId || 'all'}-${active}`;
-    const cached = cacheManager.get(cacheKey);
+    const cached = this.cache.get(cacheKey);
     if (cached) {
       return { success: true as const, data: cached, cached: true };
     }
@@ -231,7 +372,7 @@ export class JobService extends BaseService {
         params.JobId = jobId.toString();
       }
 
-      const response = await this.pureGet<Activity[]>('ActivityVisualizationsRequest', params);
+      const response = await this.pureGet<Activity[]>('ActivityVisualizationsRequest', params, z.array(ActivitySchema));
       
       if (!response.success) {
         return response;
@@ -246,7 +387,7 @@ export class JobService extends BaseService {
         activityText: activity.ActivityText
       }));
 
-      cacheManager.set(cacheKey, data, 900); // 15 minute cache (activities don't change often)
+      this.cache.set(cacheKey, data, 900); // 15 minute cache (activities don't change often)
       return { success: true, data, cached: false };
     } catch (error) {
       console.error('Error fetching activities:', error);
@@ -269,59 +410,151 @@ export class JobService extends BaseService {
     afterTaskNumber?: number;
     placeLast?: boolean;
   }) {
-    try {
-      const payload = {
-        PlanId: taskData.planId,
-        TaskName: taskData.taskName,
-        PhaseNumber: taskData.phaseNumber || 1,
-        ActivityId: taskData.activityId || 1120,
-        StartDate: taskData.startDate || new Date().toISOString(),
-        WorkDays: taskData.workDays || 5,
-        PriorityId: taskData.priorityId || 2,
-        PlaceLast: taskData.placeLast || false,
-        ...(taskData.afterTaskNumber && { AfterTaskNumber: taskData.afterTaskNumber })
-      };
-
-      const response = await this.request<TaskInsertResponse>(
-        'TaskInsertPositionRequest',
-        'PUT',
-        payload
-      );
+    return this.audited({ action: 'task.create', entityType: 'task', entityIds: [] }, async audit => {
+      try {
+        const payload = {
+          PlanId: taskData.planId,
+          TaskName: taskData.taskName,
+          PhaseNumber: taskData.phaseNumber || 1,
+          ActivityId: taskData.activityId || 1120,
+          StartDate: taskData.startDate || new Date().toISOString(),
+          WorkDays: taskData.workDays || 5,
+          PriorityId: taskData.priorityId || 2,
+          PlaceLast: taskData.placeLast || false,
+          ...(taskData.afterTaskNumber && { AfterTaskNumber: taskData.afterTaskNumber })
+        };
+        audit.after = payload;
+
+        const response = await this.request<TaskInsertResponse>(
+          'TaskInsertPositionRequest',
+          'PUT',
+          payload,
+          TaskResponseSchema
+        );
       
-      if (!response.success) {
-        return response;
+        if (!response.success) {
+          return response;
+        }
+
+        if (!response.data) {
+          return { success: false, error: 'No task insertion data received' };
+        }
+        audit.entityIds = [response.data.Id];
+
+        // Clear cached task lists so the new task shows up in the plan
+        this.cache.delStartWith('job-tasks-');
+
+        return {
+          success: true,
+          data: {
+            id: response.data.Id,
+            planId: response.data.PlanId,
+            phaseNumber: response.data.PhaseNumber,
+            taskNumber: response.data.TaskNumber,
+            taskName: response.data.TaskName,
+            activityId: response.data.ActivityId,
+            startDate: response.data.StartDate,
+            workDays: response.data.WorkDays,
+            endDate: response.data.EndDate,
+            taskStatus: response.data.TaskStatus,
+            bookingStatus: response.data.BookingStatus,
+            milestone: response.data.Milestone,
+            priorityId: response.data.PriorityId,
+            allowTimeRegistration: response.data.AllowTimeRegistration,
+            billable: response.data.Billable,
+            createDate: response.data.CreateDate,
+            updateDate: response.data.UpdateDate
+          }
+        };
+      } catch (error) {
+        console.error('Error inserting task:', error);
+        return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
       }
+    });
+  }
 
-      if (!response.data) {
-        return { success: false, error: 'No task insertion data received' };
+  /**
+   * Patch task fields (rename, renumber, change phase, close)
+   * API: TaskPatchRequest
+   */
+  async patchTask(taskId: number, patchData: Record<string, unknown>) {
+    return this.audited({ action: 'task.patch', entityType: 'task', entityIds: [taskId] }, async audit => {
+      try {
+        const payload = {
+          Patch: {
+            Id: taskId,
+            ...patchData
+          }
+        };
+        audit.before = await this.getCurrentValues('TaskRequest[]', taskId, Object.keys(patchData));
+        audit.after = patchData;
+
+        const response = await this.purePatch<TaskResponse>('TaskPatchRequest', payload, TaskResponseSchema);
+      
+        if (!response.success) {
+          return response;
+        }
+
+        // Clear cache since the plan changed
+        this.cache.del(`task-${taskId}`);
+        this.cache.delStartWith('job-tasks-');
+
+        return {
+          success: true,
+          data: {
+            taskId,
+            taskName: response.data?.TaskName,
+            phaseNumber: response.data?.PhaseNumber,
+            taskNumber: response.data?.TaskNumber,
+            taskStatus: response.data?.TaskStatus
+          }
+        };
+      } catch (error) {
+        console.error('Error patching task:', error);
+        return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
       }
+    });
+  }
 
-      return {
-        success: true,
-        data: {
-          id: response.data.Id,
-          planId: response.data.PlanId,
-          phaseNumber: response.data.PhaseNumber,
-          taskNumber: response.data.TaskNumber,
-          taskName: response.data.TaskName,
-          activityId: response.data.ActivityId,
-          startDate: response.data.StartDate,
-          workDays: response.data.WorkDays,
-          endDate: response.data.EndDate,
-          taskStatus: response.data.TaskStatus,
-          bookingStatus: response.data.BookingStatus,
-          milestone: response.data.Milestone,
-          priorityId: response.data.PriorityId,
-          allowTimeRegistration: response.data.AllowTimeRegistration,
-          billable: response.data.Billable,
-          createDate: response.data.CreateDate,
-          updateDate: response.data.UpdateDate
+  /**
+   * Move a task to another job plan
+   * API: MoveTaskToJobRequest
+   */
+  async moveTaskToJob(params: MoveTaskToJobParams) {
+    return this.audited({ action: 'task.move', entityType: 'task', entityIds: [params.Id] }, async audit => {
+      try {
+        const payload: MoveTaskToJobParams = {
+          MoveBetweenActive: false,
+          MoveToCalendarSyncJob: false,
+          ...params
+        };
+        audit.before = await this.getCurrentValues('TaskRequest[]', params.Id, ['PlanId', 'PhaseNumber']);
+        audit.after = { JobId: params.JobId, PlanId: params.PlanId, PhaseNumber: params.PhaseNumber };
+
+        const response = await this.request<TaskResponse>('MoveTaskToJobRequest', 'POST', payload, TaskResponseSchema);
+      
+        if (!response.success) {
+          return response;
         }
-      };
-    } catch (error) {
-      console.error('Error inserting task:', error);
-      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
-    }
+
+        this.cache.del(`task-${params.Id}`);
+        this.cache.delStartWith('job-tasks-');
+
+        return {
+          success: true,
+          data: {
+            taskId: params.Id,
+            jobId: params.JobId,
+            planId: response.data?.PlanId ?? params.PlanId,
+            phaseNumber: response.data?.PhaseNumber ?? params.PhaseNumber,
+            taskNumber: response.data?.TaskNumber
+          }
+        };
+      } catch (error) {
+        console.error('Error moving task to job:', error);
+        return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+      }
+    });
   }
 
   /**
@@ -330,13 +563,13 @@ export class JobService extends BaseService {
    */
   async getTimeEntries(jobId: number) {
     const cacheKey = `time-entries-${jobId}`;
-    const cached = cacheManager.get(cacheKey);
+    const cached = this.cache.get(cacheKey);
     if (cached) {
       return { success: true as const, data: cached, cached: true };
     }
 
     try {
-      const response = await this.pureGet<ExpenditureEntry[]>('ExpenditureOpenEntriesRequest', { JobId: jobId.toString() });
+      const response = await this.pureGet<ExpenditureEntry[]>('ExpenditureOpenEntriesRequest', { JobId: jobId.toString() }, z.array(ExpenditureEntrySchema));
       
       if (!response.success) {
         return response;
@@ -367,7 +600,7 @@ export class JobService extends BaseService {
         totalAmountCostDisplayCurrency: entry.TotalAmountCostDisplayCurrency
       }));
 
-      cacheManager.set(cacheKey, data, 60); // 1 minute cache (time entries change frequently)
+      this.cache.set(cacheKey, data, 60); // 1 minute cache (time entries change frequently)
       return { success: true, data, cached: false };
     } catch (error) {
       console.error('Error fetching time entries:', error);
@@ -375,19 +608,737 @@ export class JobService extends BaseService {
     }
   }
 
+  /**
+   * Get time entries filtered by employee, job and date range
+   * API: TimeEntryRequest
+   */
+  async getTimeEntriesByFilter(filters: {
+    resourceId?: number;
+    jobId?: number;
+    startDate?: string;
+    endDate?: string;
+  }) {
+    const cacheKey = `time-entries-filter-${filters.resourceId ?? 'all'}-${filters.jobId ?? 'all'}-${filters.startDate ?? ''}-${filters.endDate ?? ''}`;
+    const cached = this.cache.get(cacheKey);
+    if (cached) {
+      return { success: true as const, data: cached as MappedTimeRegistration[], cached: true };
+    }
+
+    try {
+      const params: Record<string, string | number | boolean> = {};
+      if (filters.resourceId) {
+        params.ResourceId = filters.resourceId;
+      }
+      if (filters.jobId) {
+        params.JobId = filters.jobId;
+      }
+      if (filters.startDate) {
+        params.StartDate = filters.startDate;
+      }
+      if (filters.endDate) {
+        params.EndDate = filters.endDate;
+      }
+
+      const response = await this.pureGet<TimeEntry[]>('TimeEntryRequest', params, z.array(TimeEntrySchema));
+      
+      if (!response.success) {
+        return response;
+      }
+
+      if (!response.data) {
+        return { success: false, error: 'No time entries data received' };
+      }
+
+      const data: MappedTimeRegistration[] = response.data.map((entry: TimeEntry) => ({
+        id: entry.Id,
+        jobId: entry.JobId,
+        jobName: entry.JobName,
+        customerName: entry.CustomerName,
+        taskId: entry.TaskId,
+        taskName: entry.TaskName,
+        activityId: entry.ActivityId,
+        resourceId: entry.EmployeeId,
+        registrationDate: entry.RegistrationDate,
+        hours: entry.Hours,
+        description: entry.Description,
+        billable: entry.Billable,
+        approvalStatus: entry.ApprovalStatus,
+        approvalStatusText: this.getApprovalStatusText(entry.ApprovalStatus),
+        isDraft: entry.ApprovalStatus === TimeEntryApprovalStatus.DRAFT,
+        rejectComment: entry.ApprovalRejectComment
+      }));
+
+      this.cache.set(cacheKey, data, 60); // 1 minute cache (time entries change frequently)
+      return { success: true, data, cached: false };
+    } catch (error) {
+      console.error('Error fetching filtered time entries:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  /**
+   * Get a single time entry with full audit fields
+   * API: RawTimeEntryRequest?Id={entryId}
+   */
+  async getRawTimeEntry(entryId: number) {
+    try {
+      const response = await this.pureGet<RawTimeEntry>('RawTimeEntryRequest', { Id: entryId }, RawTimeEntrySchema);
+      
+      if (!response.success) {
+        return response;
+      }
+
+      if (!response.data) {
+        return { success: false, error: `Time entry ${entryId} not found` };
+      }
+
+      return { success: true, data: this.mapRawTimeEntry(response.data), cached: false };
+    } catch (error) {
+      console.error('Error fetching raw time entry:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  /**
+   * Register a new time entry
+   * API: RawTimeEntryRequest (PUT)
+   */
+  async registerTimeEntry(entry: {
+    resourceId?: number;
+    jobId: number;
+    taskId: number;
+    activityId?: number;
+    date: string;
+    hours: number;
+    description?: string;
+    billable?: boolean;
+  }) {
+    return this.audited({ action: 'time_entry.create', entityType: 'time_entry', entityIds: [] }, async audit => {
+      try {
+        const payload = {
+          JobId: entry.jobId,
+          TaskId: entry.taskId,
+          RegistrationDate: entry.date,
+          Hours: entry.hours,
+          Description: entry.description || '',
+          Billable: entry.billable ?? true,
+          ...(entry.resourceId && { ResourceId: entry.resourceId }),
+          ...(entry.activityId && { ActivityId: entry.activityId })
+        };
+        audit.after = payload;
+
+        const response = await this.request<RawTimeEntry>('RawTimeEntryRequest', 'PUT', payload, RawTimeEntrySchema);
+      
+        if (!response.success) {
+          return response;
+        }
+
+        if (!response.data) {
+          return { success: false, error: 'No time entry registration data received' };
+        }
+        audit.entityIds = [response.data.Id];
+
+        // Clear cached time entry lists since a new entry was added
+        this.cache.delStartWith('time-entries-');
+        this.cache.invalidateTags([CacheTags.BILLING, CacheTags.job(entry.jobId)]);
+
+        return { success: true, data: this.mapRawTimeEntry(response.data), cached: false };
+      } catch (error) {
+        console.error('Error registering time entry:', error);
+        return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+      }
+    });
+  }
+
+  /**
+   * Edit a draft time entry - submitted or approved entries are rejected
+   * API: RawTimeEntryRequest (PATCH)
+   */
+  async updateTimeEntry(entryId: number, updates: {
+    date?: string;
+    hours?: number;
+    description?: string;
+    taskId?: number;
+    billable?: boolean;
+  }) {
+    return this.audited({ action: 'time_entry.update', entityType: 'time_entry', entityIds: [entryId] }, async audit => {
+      try {
+        const existing = await this.getRawTimeEntry(entryId);
+        if (!existing.success || !existing.data) {
+          return {
+            success: false,
+            error: 'error' in existing && existing.error ? existing.error : `Time entry ${entryId} not found`,
+            apiError: 'apiError' in existing ? existing.apiError : undefined
+          };
+        }
+
+        const entry = existing.data as MappedTimeRegistration;
+        if (!entry.isDraft) {
+          return { success: false, error: `Time entry ${entryId} is ${entry.approvalStatusText.toLowerCase()} and can no longer be edited` };
+        }
+
+        const patchData = {
+          Id: entryId,
+          ...(updates.date !== undefined && { RegistrationDate: updates.date }),
+          ...(updates.hours !== undefined && { Hours: updates.hours }),
+          ...(updates.description !== undefined && { Description: updates.description }),
+          ...(updates.taskId !== undefined && { TaskId: updates.taskId }),
+          ...(updates.billable !== undefined && { Billable: updates.billable })
+        };
+        const fields = Object.keys(patchData).filter(field => field !== 'Id');
+        audit.before = pickFields(toRawTimeEntryFields(entry), fields);
+        audit.after = pickFields(patchData, fields);
+
+        const response = await this.patch<RawTimeEntry>('RawTimeEntryRequest', patchData, RawTimeEntrySchema);
+      
+        if (!response.success) {
+          return response;
+        }
+
+        this.cache.delStartWith('time-entries-');
+        this.cache.invalidateTags([CacheTags.BILLING, CacheTags.job(entry.jobId)]);
+
+        // Some Workbook patch endpoints return 204 - fall back to the merged local view
+        const data = response.data ? this.mapRawTimeEntry(response.data) : {
+          ...entry,
+          registrationDate: updates.date ?? entry.registrationDate,
+          hours: updates.hours ?? entry.hours,
+          description: updates.description ?? entry.description,
+          taskId: updates.taskId ?? entry.taskId,
+          billable: updates.billable ?? entry.billable
+        };
+
+        return { success: true, data, cached: false };
+      } catch (error) {
+        console.error('Error updating time entry:', error);
+        return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+      }
+    });
+  }
+
+  /**
+   * Delete a draft time entry - submitted or approved entries are rejected
+   * API: RawTimeEntryRequest (DELETE)
+   */
+  async deleteTimeEntry(entryId: number) {
+    return this.audited({ action: 'time_entry.delete', entityType: 'time_entry', entityIds: [entryId] }, async audit => {
+      try {
+        const existing = await this.getRawTimeEntry(entryId);
+        if (!existing.success || !existing.data) {
+          return {
+            success: false,
+            error: 'error' in existing && existing.error ? existing.error : `Time entry ${entryId} not found`,
+            apiError: 'apiError' in existing ? existing.apiError : undefined
+          };
+        }
+
+        const entry = existing.data as MappedTimeRegistration;
+        if (!entry.isDraft) {
+          return { success: false, error: `Time entry ${entryId} is ${entry.approvalStatusText.toLowerCase()} and can no longer be deleted` };
+        }
+        audit.before = { JobId: entry.jobId, ResourceId: entry.resourceId, ...toRawTimeEntryFields(entry) };
+
+        const response = await this.request(`RawTimeEntryRequest?Id=${entryId}`, 'DELETE');
+      
+        if (!response.success) {
+          return response;
+        }
+
+        this.cache.delStartWith('time-entries-');
+        this.cache.invalidateTags([CacheTags.BILLING, CacheTags.job(entry.jobId)]);
+
+        return { success: true, data: entry, cached: false };
+      } catch (error) {
+        console.error('Error deleting time entry:', error);
+        return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+      }
+    });
+  }
+
+  /**
+   * Get working days in a period that have no registered hours or still hold draft entries
+   * API: TimeEntryRequest
+   */
+  async getUnsubmittedDays(resourceId: number, startDate: string, endDate: string) {
+    try {
+      const entriesResponse = await this.getTimeEntriesByFilter({ resourceId, startDate, endDate });
+      
+      if (!entriesResponse.success) {
+        return entriesResponse;
+      }
+
+      const entries = (entriesResponse.data || []) as MappedTimeRegistration[];
+      const days: MappedTimeEntryDay[] = [];
+
+      const current = new Date(startDate.slice(0, 10));
+      const last = new Date(endDate.slice(0, 10));
+      while (current <= last) {
+        const weekday = current.getUTCDay();
+        if (weekday !== 0 && weekday !== 6) {
+          const date = current.toISOString().slice(0, 10);
+          const dayEntries = entries.filter(entry => entry.registrationDate.slice(0, 10) === date);
+          const hoursRegistered = dayEntries.reduce((sum, entry) => sum + entry.hours, 0);
+          const draftEntries = dayEntries.filter(entry => entry.isDraft).length;
+
+          days.push({
+            date,
+            hoursRegistered: Math.round(hoursRegistered * 100) / 100,
+            draftEntries,
+            submitted: hoursRegistered > 0 && draftEntries === 0
+          });
+        }
+        current.setUTCDate(current.getUTCDate() + 1);
+      }
+
+      return { success: true, data: days.filter(day => !day.submitted), cached: entriesResponse.cached };
+    } catch (error) {
+      console.error('Error calculating unsubmitted days:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  /**
+   * Get time entry approval statistics for one resource, per period block
+   * API: TimeEntryApprovalStatisticsVisualizationRequest
+   */
+  async getTimeEntryApprovalStatistics(resourceId: number, beginDate: string, options: {
+    stride?: number;
+    strideTimeType?: StrideTimeType;
+    count?: number;
+  } = {}): Promise<ServiceResponse<MappedApprovalStatisticsBlock[]>> {
+    const stride = options.stride ?? 1;
+    const strideTimeType = options.strideTimeType ?? StrideTimeType.WEEK;
+    const count = options.count ?? 4;
+    const cacheKey = `approval-stats-${resourceId}-${beginDate}-${stride}-${strideTimeType}-${count}`;
+    const cached = this.cache.get<MappedApprovalStatisticsBlock[]>(cacheKey);
+    if (cached) {
+      return { success: true, data: cached, cached: true };
+    }
+
+    try {
+      const response = await this.pureGet<TimeEntryApprovalStatistics>('TimeEntryApprovalStatisticsVisualizationRequest', {
+        ResourceId: resourceId,
+        StrideTimeType: strideTimeType,
+        BeginDate: beginDate,
+        Stride: stride,
+        Count: count
+      }, TimeEntryApprovalStatisticsSchema);
+
+      if (!response.success) {
+        return { success: false, error: response.error, apiError: response.apiError };
+      }
+
+      if (!response.data) {
+        return { success: false, error: `No approval statistics received for resource ${resourceId}` };
+      }
+
+      const data = (response.data.Entries || []).map(entry => this.mapApprovalStatisticsBlock(entry));
+
+      this.cache.set(cacheKey, data, 60); // 1 minute cache (approvals change frequently)
+      return { success: true, data, cached: false };
+    } catch (error) {
+      console.error('Error fetching time entry approval statistics:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  /**
+   * Get time entry approval statistics for several resources over the same period blocks
+   * API: ResourcesTimeEntryApprovalStatisticsVisualizationRequest
+   */
+  async getResourcesTimeEntryApprovalStatistics(resourceIds: number[], beginDate: string, options: {
+    stride?: number;
+    strideTimeType?: StrideTimeType;
+    count?: number;
+  } = {}): Promise<ServiceResponse<MappedResourceApprovalStatistics[]>> {
+    if (resourceIds.length === 0) {
+      return { success: true, data: [], cached: false };
+    }
+
+    const stride = options.stride ?? 1;
+    const strideTimeType = options.strideTimeType ?? StrideTimeType.WEEK;
+    const count = options.count ?? 4;
+    const cacheKey = `approval-stats-multi-${[...resourceIds].sort((a, b) => a - b).join('_')}-${beginDate}-${stride}-${strideTimeType}-${count}`;
+    const cached = this.cache.get<MappedResourceApprovalStatistics[]>(cacheKey);
+    if (cached) {
+      return { success: true, data: cached, cached: true };
+    }
+
+    try {
+      const response = await this.pureGet<ResourcesTimeEntryApprovalStatistics>('ResourcesTimeEntryApprovalStatisticsVisualizationRequest', {
+        ResourceIds: resourceIds.join(','),
+        StrideTimeType: strideTimeType,
+        BeginDate: beginDate,
+        Stride: stride,
+        Count: count
+      }, ResourcesTimeEntryApprovalStatisticsSchema);
+
+      if (!response.success) {
+        return { success: false, error: response.error, apiError: response.apiError };
+      }
+
+      if (!response.data) {
+        return { success: false, error: 'No approval statistics received' };
+      }
+
+      // Block dates are only returned once at the top level
+      const blocks = response.data.Blocks || [];
+      const data = (response.data.ResourceData || []).map(resource => ({
+        resourceId: resource.ResourceId,
+        blocks: (resource.Entries || []).map(entry => this.mapApprovalStatisticsBlock({
+          ...entry,
+          BeginDate: entry.BeginDate ?? blocks[entry.BlockNumber]?.BeginDate,
+          EndDate: entry.EndDate ?? blocks[entry.BlockNumber]?.EndDate
+        }))
+      }));
+
+      this.cache.set(cacheKey, data, 60); // 1 minute cache (approvals change frequently)
+      return { success: true, data, cached: false };
+    } catch (error) {
+      console.error('Error fetching resources time entry approval statistics:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  /**
+   * Get draft, pending, approved and rejected hours per resource for a period
+   * Approval statistics tell which resources registered time; hours per status come from their time entries
+   * API: ResourcesTimeEntryApprovalStatisticsVisualizationRequest + TimeEntryRequest
+   */
+  async getApprovalHours(resourceIds: number[], startDate: string, endDate: string): Promise<ServiceResponse<MappedResourceApprovalHours[]>> {
+    try {
+      // One block spanning the whole period
+      const days = Math.max(Math.round((new Date(endDate.slice(0, 10)).getTime() - new Date(startDate.slice(0, 10)).getTime()) / (24 * 60 * 60 * 1000)) + 1, 1);
+      const statisticsResponse = await this.getResourcesTimeEntryApprovalStatistics(resourceIds, startDate.slice(0, 10), {
+        stride: days,
+        strideTimeType: StrideTimeType.DAY,
+        count: 1
+      });
+
+      if (!statisticsResponse.success || !statisticsResponse.data) {
+        return { success: false, error: statisticsResponse.error || 'No approval statistics received', apiError: statisticsResponse.apiError };
+      }
+
+      const statistics = new Map(statisticsResponse.data.map(resource => [resource.resourceId, resource.blocks]));
+      const results: MappedResourceApprovalHours[] = [];
+
+      // Entries are fetched a few resources at a time to keep the API load bounded
+      for (let i = 0; i < resourceIds.length; i += APPROVAL_BATCH_SIZE) {
+        const batch = resourceIds.slice(i, i + APPROVAL_BATCH_SIZE);
+        const batchResults = await Promise.all(batch.map(async resourceId => {
+          const blocks = statistics.get(resourceId) || [];
+          const registeredHours = blocks.reduce((sum, block) => sum + block.registeredHours, 0);
+          const summary: MappedResourceApprovalHours = {
+            resourceId,
+            registeredHours: Math.round(registeredHours * 100) / 100,
+            capacityHours: Math.round(blocks.reduce((sum, block) => sum + block.capacityHours, 0) * 100) / 100,
+            draftHours: 0,
+            pendingHours: 0,
+            approvedHours: 0,
+            rejectedHours: 0,
+            approvalRequired: blocks.some(block => block.approvalRequired),
+            pendingEntries: []
+          };
+
+          if (registeredHours === 0) {
+            return summary;
+          }
+
+          const entriesResponse = await this.getTimeEntriesByFilter({ resourceId, startDate, endDate });
+          if (!entriesResponse.success) {
+            throw new Error(`Failed to load time entries for resource ${resourceId}: ${'error' in entriesResponse ? entriesResponse.error : 'Unknown error'}`);
+          }
+
+          const entries = (entriesResponse.data || []) as MappedTimeRegistration[];
+          const sumByStatus = (status: TimeEntryApprovalStatus) =>
+            Math.round(entries.filter(entry => entry.approvalStatus === status).reduce((sum, entry) => sum + entry.hours, 0) * 100) / 100;
+
+          summary.draftHours = sumByStatus(TimeEntryApprovalStatus.DRAFT);
+          summary.pendingHours = sumByStatus(TimeEntryApprovalStatus.SUBMITTED);
+          summary.approvedHours = sumByStatus(TimeEntryApprovalStatus.APPROVED);
+          summary.rejectedHours = sumByStatus(TimeEntryApprovalStatus.REJECTED);
+          summary.pendingEntries = entries.filter(entry => entry.approvalStatus === TimeEntryApprovalStatus.SUBMITTED);
+          return summary;
+        }));
+        results.push(...batchResults);
+      }
+
+      return { success: true, data: results, cached: statisticsResponse.cached };
+    } catch (error) {
+      console.error('Error calculating approval hours:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  /**
+   * Get the approval queue of a manager across the resources they approve
+   * API: ResourcesTimeEntryApprovalStatisticsVisualizationRequest + TimeEntryRequest
+   */
+  async getManagerApprovalSummary(managerId: number, resourceIds: number[], startDate: string, endDate: string): Promise<ServiceResponse<MappedManagerApprovalSummary>> {
+    const hoursResponse = await this.getApprovalHours(resourceIds, startDate, endDate);
+    if (!hoursResponse.success || !hoursResponse.data) {
+      return { success: false, error: hoursResponse.error || 'No approval data received', apiError: hoursResponse.apiError };
+    }
+
+    const resources = hoursResponse.data;
+    const total = (field: 'pendingHours' | 'approvedHours' | 'rejectedHours') =>
+      Math.round(resources.reduce((sum, resource) => sum + resource[field], 0) * 100) / 100;
+
+    return {
+      success: true,
+      data: {
+        managerId,
+        startDate,
+        endDate,
+        resourceCount: resources.length,
+        pendingHours: total('pendingHours'),
+        approvedHours: total('approvedHours'),
+        rejectedHours: total('rejectedHours'),
+        pendingEntryCount: resources.reduce((sum, resource) => sum + resource.pendingEntries.length, 0),
+        resources
+      },
+      cached: hoursResponse.cached
+    };
+  }
+
+  /**
+   * Approve or reject submitted time entries - drafts and entries already decided are skipped
+   * API: RawTimeEntryRequest (PATCH)
+   */
+  async reviewTimeEntries(entryIds: number[], decision: 'approve' | 'reject', options: {
+    approverId?: number;
+    comment?: string;
+  } = {}): Promise<ServiceResponse<MappedTimeEntryReview>> {
+    return this.audited({
+      action: `time_entry.${decision}`,
+      entityType: 'time_entry',
+      entityIds: entryIds,
+      after: decision === 'approve'
+        ? { ApprovalStatus: TimeEntryApprovalStatus.APPROVED }
+        : { ApprovalStatus: TimeEntryApprovalStatus.REJECTED, ApprovalRejectComment: options.comment }
+    }, async audit => {
+      if (decision === 'reject' && !options.comment) {
+        return { success: false, error: 'A comment is required when rejecting time entries' };
+      }
+
+      try {
+        const result: MappedTimeEntryReview = { decision, reviewed: [], skipped: [] };
+        const now = new Date().toISOString();
+
+        for (const entryId of entryIds) {
+          const existing = await this.getRawTimeEntry(entryId);
+          if (!existing.success || !existing.data) {
+            result.skipped.push({ id: entryId, reason: 'error' in existing && existing.error ? existing.error : 'Not found' });
+            continue;
+          }
+
+          const entry = existing.data as MappedTimeRegistration;
+          if (entry.approvalStatus !== TimeEntryApprovalStatus.SUBMITTED) {
+            result.skipped.push({ id: entryId, reason: `Entry is ${entry.approvalStatusText.toLowerCase()}, only submitted entries can be reviewed` });
+            continue;
+          }
+
+          const patchData = decision === 'approve'
+            ? {
+              Id: entryId,
+              ApprovalStatus: TimeEntryApprovalStatus.APPROVED,
+              ...(options.approverId && { ApprovalEmployeeResourceId: options.approverId, ApprovalEmployeeDate: now })
+            }
+            : {
+              Id: entryId,
+              ApprovalStatus: TimeEntryApprovalStatus.REJECTED,
+              ApprovalRejectComment: options.comment,
+              ApprovalRejectDate: now,
+              ...(options.approverId && { ApprovalRejectResourceId: options.approverId })
+            };
+
+          const response = await this.patch<RawTimeEntry>('RawTimeEntryRequest', patchData, RawTimeEntrySchema);
+          if (!response.success) {
+            result.skipped.push({ id: entryId, reason: response.error || 'Update failed' });
+            continue;
+          }
+
+          // Some Workbook patch endpoints return 204 - fall back to the local view with the new status
+          const status = decision === 'approve' ? TimeEntryApprovalStatus.APPROVED : TimeEntryApprovalStatus.REJECTED;
+          result.reviewed.push(response.data ? this.mapRawTimeEntry(response.data) : {
+            ...entry,
+            approvalStatus: status,
+            approvalStatusText: this.getApprovalStatusText(status),
+            rejectComment: decision === 'reject' ? options.comment : entry.rejectComment
+          });
+        }
+
+        if (result.reviewed.length > 0) {
+          this.cache.delStartWith('time-entries-');
+          this.cache.delStartWith('approval-stats-');
+          const reviewedJobIds = [...new Set(result.reviewed.map(entry => entry.jobId))];
+          this.cache.invalidateTags([CacheTags.BILLING, ...reviewedJobIds.map(jobId => CacheTags.job(jobId))]);
+        }
+        audit.entityIds = result.reviewed.map(entry => entry.id);
+
+        return { success: true, data: result, cached: false };
+      } catch (error) {
+        console.error('Error reviewing time entries:', error);
+        return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+      }
+    });
+  }
+
+  /**
+   * Get the time entry follow-up checklist: registered hours per employee, job and day type
+   * API: FollowUpTimeEntryChecklistVisualizationRequest
+   */
+  async getTimeEntryChecklist(filters: {
+    startDate: string;
+    endDate: string;
+    employeeIds?: number[];
+    departmentIds?: number[];
+    companyIds?: number[];
+    teamIds?: number[];
+    displayType?: number;
+  }): Promise<ServiceResponse<MappedTimeEntryChecklistRow[]>> {
+    const cacheKey = this.generateCacheKey('time-entries-checklist', { ...filters });
+    const cached = this.cache.get<MappedTimeEntryChecklistRow[]>(cacheKey);
+    if (cached) {
+      return { success: true, data: cached, cached: true };
+    }
+
+    try {
+      const params: Record<string, string | number | boolean> = {
+        DisplayType: filters.displayType ?? 1,
+        StartDate: filters.startDate,
+        EndDate: filters.endDate
+      };
+      if (filters.employeeIds && filters.employeeIds.length > 0) {
+        params.MyEmployeesIds = filters.employeeIds.join(',');
+      }
+      if (filters.departmentIds && filters.departmentIds.length > 0) {
+        params.CompanyDepartmentIds = filters.departmentIds.join(',');
+      }
+      if (filters.companyIds && filters.companyIds.length > 0) {
+        params.CompanyIds = filters.companyIds.join(',');
+      }
+      if (filters.teamIds && filters.teamIds.length > 0) {
+        params.TeamIds = filters.teamIds.join(',');
+      }
+
+      const response = await this.pureGet<TimeEntryChecklistRow[]>('FollowUpTimeEntryChecklistVisualizationRequest', params, z.array(TimeEntryChecklistRowSchema));
+
+      if (!response.success) {
+        return { success: false, error: response.error, apiError: response.apiError };
+      }
+
+      const data: MappedTimeEntryChecklistRow[] = (response.data || []).map(row => ({
+        employeeId: row.EmployeeId,
+        jobId: row.JobId,
+        projectId: row.ProjektId,
+        hours: row.Hours || 0,
+        dayTypeId: row.DayTypeId,
+        absenceId: row.AbsenceId,
+        isAbsence: row.AbsenceId !== null && row.AbsenceId !== undefined
+      }));
+
+      this.cache.set(cacheKey, data, 60); // 1 minute cache (time entries change frequently)
+      return { success: true, data, cached: false };
+    } catch (error) {
+      console.error('Error fetching time entry checklist:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  /**
+   * Raise the Workbook follow-up notification, which reminds employees through Workbook itself
+   * API: RaiseFollowUpNotificationRequest (POST)
+   */
+  async raiseFollowUpNotification(referenceType: FollowUpReferenceType = FollowUpReferenceType.TIME_ENTRY): Promise<ServiceResponse<{ referenceType: FollowUpReferenceType; raisedAt: string }>> {
+    return this.audited({ action: 'follow_up.raise', entityType: 'follow_up', entityIds: [], after: { ReferenceType: referenceType } }, async () => {
+      try {
+        const response = await this.purePost('RaiseFollowUpNotificationRequest', { ReferenceType: referenceType });
+
+        if (!response.success) {
+          return { success: false, error: response.error, apiError: response.apiError };
+        }
+
+        return { success: true, data: { referenceType, raisedAt: new Date().toISOString() }, cached: false };
+      } catch (error) {
+        console.error('Error raising follow-up notification:', error);
+        return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+      }
+    });
+  }
+
+  /**
+   * Current values of the fields a write is about to change, for the before side of its audit entry
+   * API: JobSimpleVisualizationRequest[] / TaskRequest[] (read past the cache)
+   */
+  private async getCurrentValues(endpoint: 'JobSimpleVisualizationRequest[]' | 'TaskRequest[]', id: number, fields: string[]): Promise<Record<string, unknown>> {
+    const response = await this.post<Record<string, unknown>[]>(endpoint, [{ Id: id }], undefined, { idempotent: true });
+    return pickFields(response.data?.[0], fields);
+  }
+
+  /**
+   * Map RawTimeEntryRequest response to camelCase time registration
+   */
+  private mapRawTimeEntry(entry: RawTimeEntry): MappedTimeRegistration {
+    return {
+      id: entry.Id,
+      jobId: entry.JobId,
+      taskId: entry.TaskId,
+      activityId: entry.ActivityId,
+      resourceId: entry.ResourceId,
+      registrationDate: entry.RegistrationDate,
+      hours: entry.Hours,
+      description: entry.Description,
+      billable: entry.Billable,
+      approvalStatus: entry.ApprovalStatus,
+      approvalStatusText: this.getApprovalStatusText(entry.ApprovalStatus),
+      isDraft: entry.ApprovalStatus === TimeEntryApprovalStatus.DRAFT
+    };
+  }
+
+  /**
+   * Map an approval statistics block to camelCase
+   */
+  private mapApprovalStatisticsBlock(entry: TimeEntryApprovalStatisticsEntry): MappedApprovalStatisticsBlock {
+    return {
+      blockNumber: entry.BlockNumber,
+      beginDate: entry.BeginDate || '',
+      endDate: entry.EndDate || '',
+      registeredHours: entry.TimeRegistrationHours || 0,
+      capacityHours: entry.CapacityHours || 0,
+      hasApprovedRecords: entry.HasApprovedRecords,
+      hasPendingRecords: entry.HasNonApprovedRecords,
+      hasRejectedRecords: entry.HasRejectedRecords,
+      approvalRequired: entry.ApprovalRequired
+    };
+  }
+
+  /**
+   * Convert time entry approval status to human-readable text
+   */
+  private getApprovalStatusText(status: number): string {
+    switch (status) {
+    case TimeEntryApprovalStatus.DRAFT: return 'Draft';
+    case TimeEntryApprovalStatus.SUBMITTED: return 'Submitted';
+    case TimeEntryApprovalStatus.REJECTED: return 'Rejected';
+    case TimeEntryApprovalStatus.APPROVED: return 'Approved';
+    default: return 'Unknown';
+    }
+  }
+
   /**
    * Get price lists for jobs
    * API: PriceListsJobRequest
    */
   async getPriceLists() {
     const cacheKey = 'price-lists';
-    const cached = cacheManager.get(cacheKey);
+    const cached = this.cache.get(cacheKey);
     if (cached) {
       return { success: true as const, data: cached, cached: true };
     }
 
     try {
-      const response = await this.pureGet<PriceList[]>('PriceListsJobRequest', {});
+      const response = await this.pureGet<PriceList[]>('PriceListsJobRequest', {}, z.array(PriceListSchema));
       
       if (!response.success) {
         return response;
@@ -407,7 +1358,7 @@ export class JobService extends BaseService {
         enableActivityAccess: priceList.EnableActivityAccess
       }));
 
-      cacheManager.set(cacheKey, data, 3600); // 1 hour cache (price lists don't change often)
+      this.cache.set(cacheKey, data, 3600); // 1 hour cache (price lists don't change often)
       return { success: true, data, cached: false };
     } catch (error) {
       console.error('Error fetching price lists:', error);
@@ -435,57 +1386,62 @@ export class JobService extends BaseService {
     jobFolder?: string;
     mandatoryDimensions?: Record<string, string>;
   }) {
-    try {
-      const payload = {
-        Name: jobData.name,
-        ProjectId: jobData.projectId,
-        AccountManagerResourceId: jobData.accountManagerResourceId || 27,
-        JobManagerResourceId: jobData.jobManagerResourceId || 53,
-        CompanyId: jobData.companyId || 1,
-        StartDate: jobData.startDate || new Date().toISOString(),
-        DeliveryDate: jobData.deliveryDate || new Date(Date.now() + 90 * 24 * 60 * 60 * 1000).toISOString(), // 90 days from now
-        JobStatusId: jobData.jobStatusId || '1',
-        PriceListId: jobData.priceListId || 1,
-        TeamId: jobData.teamId || 1,
-        Chargeable: jobData.chargeable !== false,
-        TimeRegistrationAllowed: jobData.timeRegistrationAllowed || 1,
-        JobFolder: jobData.jobFolder || jobData.name,
-        ContactResourceId: null,
-        CostingCodeId: null,
-        DebtorId: null,
-        FolderIds: [],
-        JobId: null,
-        MandatoryDimensions: jobData.mandatoryDimensions || { 1: '1', 14: '6' }
-      };
-
-      const response = await this.request<JobCreateResponse>(
-        'JobCreateRequest',
-        'PUT',
-        payload
-      );
+    return this.audited({ action: 'job.create', entityType: 'job', entityIds: [] }, async audit => {
+      try {
+        const payload = {
+          Name: jobData.name,
+          ProjectId: jobData.projectId,
+          AccountManagerResourceId: jobData.accountManagerResourceId || 27,
+          JobManagerResourceId: jobData.jobManagerResourceId || 53,
+          CompanyId: jobData.companyId || 1,
+          StartDate: jobData.startDate || new Date().toISOString(),
+          DeliveryDate: jobData.deliveryDate || new Date(Date.now() + 90 * 24 * 60 * 60 * 1000).toISOString(), // 90 days from now
+          JobStatusId: jobData.jobStatusId || '1',
+          PriceListId: jobData.priceListId || 1,
+          TeamId: jobData.teamId || 1,
+          Chargeable: jobData.chargeable !== false,
+          TimeRegistrationAllowed: jobData.timeRegistrationAllowed || 1,
+          JobFolder: jobData.jobFolder || jobData.name,
+          ContactResourceId: null,
+          CostingCodeId: null,
+          DebtorId: null,
+          FolderIds: [],
+          JobId: null,
+          MandatoryDimensions: jobData.mandatoryDimensions || { 1: '1', 14: '6' }
+        };
+        audit.after = payload;
+
+        const response = await this.request<JobCreateResponse>(
+          'JobCreateRequest',
+          'PUT',
+          payload,
+          JobCreateResponseSchema
+        );
       
-      if (!response.success) {
-        return response;
-      }
-
-      if (!response.data) {
-        return { success: false, error: 'No job creation data received' };
-      }
-
-      // Clear cache since we created a new job
-      cacheManager.delStartWith('job-');
+        if (!response.success) {
+          return response;
+        }
 
-      return {
-        success: true,
-        data: {
-          jobId: response.data.JobId,
-          message: `Job "${jobData.name}" created successfully with ID ${response.data.JobId}`
+        if (!response.data) {
+          return { success: false, error: 'No job creation data received' };
         }
-      };
-    } catch (error) {
-      console.error('Error creating job:', error);
-      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
-    }
+        audit.entityIds = [response.data.JobId];
+
+        // Job lists and searches now miss the new job
+        this.cache.invalidateTags([CacheTags.JOB]);
+
+        return {
+          success: true,
+          data: {
+            jobId: response.data.JobId,
+            message: `Job "${jobData.name}" created successfully with ID ${response.data.JobId}`
+          }
+        };
+      } catch (error) {
+        console.error('Error creating job:', error);
+        return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+      }
+    });
   }
 
   /**
@@ -501,56 +1457,61 @@ export class JobService extends BaseService {
     projectId?: number;
     billable?: boolean;
   }) {
-    try {
-      const payload = {
-        Patch: {
-          Id: jobId,
-          ...(updates.name && { JobName: updates.name }),
-          ...(updates.statusId && { StatusId: updates.statusId }),
-          ...(updates.startDate && { StartDate: updates.startDate }),
-          ...(updates.endDate && { EndDate: updates.endDate }),
-          ...(updates.responsibleId && { ResponsibleId: updates.responsibleId }),
-          ...(updates.projectId && { ProjectId: updates.projectId }),
-          ...(updates.billable !== undefined && { Billable: updates.billable })
+    return this.audited({ action: 'job.update', entityType: 'job', entityIds: [jobId] }, async audit => {
+      try {
+        const payload = {
+          Patch: {
+            Id: jobId,
+            ...(updates.name && { JobName: updates.name }),
+            ...(updates.statusId && { StatusId: updates.statusId }),
+            ...(updates.startDate && { StartDate: updates.startDate }),
+            ...(updates.endDate && { EndDate: updates.endDate }),
+            ...(updates.responsibleId && { ResponsibleId: updates.responsibleId }),
+            ...(updates.projectId && { ProjectId: updates.projectId }),
+            ...(updates.billable !== undefined && { Billable: updates.billable })
+          }
+        };
+        const fields = Object.keys(payload.Patch).filter(field => field !== 'Id');
+        audit.before = await this.getCurrentValues('JobSimpleVisualizationRequest[]', jobId, fields);
+        audit.after = pickFields(payload.Patch, fields);
+
+        const response = await this.patch<JobPatchResponse>('JobPatchRequest', payload, JobPatchResponseSchema);
+      
+        if (!response.success) {
+          return response;
         }
-      };
 
-      const response = await this.patch<JobPatchResponse>('JobPatchRequest', payload);
-      
-      if (!response.success) {
-        return response;
-      }
+        if (!response.data) {
+          return { success: false, error: 'No job update data received' };
+        }
 
-      if (!response.data) {
-        return { success: false, error: 'No job update data received' };
+        // Drop what is cached about this job and the lists it appears in
+        this.cache.invalidateTags([CacheTags.job(jobId), CacheTags.JOB]);
+
+        return {
+          success: true,
+          data: {
+            id: response.data.Id,
+            jobId: response.data.JobID,
+            jobName: response.data.JobName,
+            projectId: response.data.ProjectId,
+            statusId: response.data.StatusId,
+            jobTypeId: response.data.JobTypeId,
+            endDate: response.data.EndDate,
+            startDate: response.data.StartDate,
+            responsibleId: response.data.ResponsibleId,
+            companyId: response.data.CompanyId,
+            teamId: response.data.TeamId,
+            billable: response.data.Billable,
+            timeEntryAllowed: response.data.TimeEntryAllowed,
+            folderExtra: response.data.FolderExtra
+          }
+        };
+      } catch (error) {
+        console.error('Error updating job:', error);
+        return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
       }
-
-      // Clear related cache
-      cacheManager.delStartWith('job-');
-
-      return {
-        success: true,
-        data: {
-          id: response.data.Id,
-          jobId: response.data.JobID,
-          jobName: response.data.JobName,
-          projectId: response.data.ProjectId,
-          statusId: response.data.StatusId,
-          jobTypeId: response.data.JobTypeId,
-          endDate: response.data.EndDate,
-          startDate: response.data.StartDate,
-          responsibleId: response.data.ResponsibleId,
-          companyId: response.data.CompanyId,
-          teamId: response.data.TeamId,
-          billable: response.data.Billable,
-          timeEntryAllowed: response.data.TimeEntryAllowed,
-          folderExtra: response.data.FolderExtra
-        }
-      };
-    } catch (error) {
-      console.error('Error updating job:', error);
-      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
-    }
+    });
   }
 
   /**
@@ -558,12 +1519,13 @@ export class JobService extends BaseService {
    * API: ETCResourceByJobIdVisualizationRequest[]
    */
   async getResourceCapacity(jobId: number) {
-    const cacheKey = `resource-capacity-${jobId}`;
-    const cached = cacheManager.get(cacheKey);
-    if (cached) {
-      return { success: true as const, data: cached, cached: true };
-    }
+    return this.cachedRead(`resource-capacity-${jobId}`, { ttl: 300, tags: [CacheTags.job(jobId)] }, () => this.fetchResourceCapacity(jobId));
+  }
 
+  /**
+   * Fetch resource capacity of a job from the API
+   */
+  private async fetchResourceCapacity(jobId: number): Promise<ServiceResponse<unknown[]>> {
     try {
       const response = await this.post<{
         Id: number;
@@ -572,7 +1534,7 @@ export class JobService extends BaseService {
         HoursAmount: number;
         HoursNotBooked: number;
         HoursNotBookedAmount: number;
-      }[]>('ETCResourceByJobIdVisualizationRequest[]', [{ Id: jobId }]);
+      }[]>('ETCResourceByJobIdVisualizationRequest[]', [{ Id: jobId }], undefined, { idempotent: true });
       
       if (!response.success) {
         return response;
@@ -582,7 +1544,6 @@ export class JobService extends BaseService {
         return { success: false, error: 'No resource capacity data received' };
       }
 
-      cacheManager.set(cacheKey, response.data, 300); // 5 minute cache
       return { success: true, data: response.data, cached: false };
     } catch (error) {
       console.error('Error fetching resource capacity:', error);
@@ -595,17 +1556,18 @@ export class JobService extends BaseService {
    * API: JobSimpleVisualizationRequest[]
    */
   async getJobDetails(jobId: number) {
-    const cacheKey = `job-details-${jobId}`;
-    const cached = cacheManager.get(cacheKey);
-    if (cached) {
-      return { success: true as const, data: cached, cached: true };
-    }
+    return this.cachedRead(`job-details-${jobId}`, { ttl: 300, tags: [CacheTags.job(jobId)] }, () => this.fetchJobDetails(jobId));
+  }
 
+  /**
+   * Fetch job details from the API
+   */
+  private async fetchJobDetails(jobId: number): Promise<ServiceResponse<MappedJobData>> {
     try {
-      const response = await this.post<JobSimpleVisualization[]>('JobSimpleVisualizationRequest[]', [{ Id: jobId }]);
+      const response = await this.post<JobSimpleVisualization[]>('JobSimpleVisualizationRequest[]', [{ Id: jobId }], z.array(JobSimpleVisualizationSchema), { idempotent: true });
       
       if (!response.success) {
-        return response;
+        return { success: false, error: response.error, apiError: response.apiError };
       }
 
       if (!response.data || response.data.length === 0) {
@@ -633,7 +1595,6 @@ export class JobService extends BaseService {
         costingCodeId: job.CostingCodeId
       };
 
-      cacheManager.set(cacheKey, data, 300); // 5 minute cache
       return { success: true, data, cached: false };
     } catch (error) {
       console.error('Error fetching job details:', error);
@@ -641,19 +1602,120 @@ export class JobService extends BaseService {
     }
   }
 
+  /**
+   * Search jobs by client, project manager, status, job type, department, tag and date window
+   * The filters narrow JobsRequest server side; the hydrated jobs are filtered again so results stay exact
+   * API: JobsRequest + JobSimpleVisualizationRequest[]
+   */
+  async searchJobs(params: JobSearchParams = {}): Promise<ServiceResponse<MappedJobSearchResult>> {
+    const { page = 1, pageSize = 25, sortBy = 'endDate', sortDirection = 'asc', ...filters } = params;
+    const cacheKey = this.generateCacheKey('jobs-search', filters);
+
+    try {
+      let jobs = this.cache.get<MappedJobSummary[]>(cacheKey);
+      const cached = Boolean(jobs);
+
+      if (!jobs) {
+        const query: Record<string, string | number | boolean> = {};
+        if (filters.projectId) {
+          query.ProjectId = filters.projectId;
+        }
+        if (filters.customerId) {
+          query.CustomerId = filters.customerId;
+        }
+        if (filters.responsibleId) {
+          query.ResponsibleId = filters.responsibleId;
+        }
+        if (filters.statusIds && filters.statusIds.length > 0) {
+          query.StatusIds = filters.statusIds.join(',');
+        }
+        if (filters.jobTypeId) {
+          query.JobTypeId = filters.jobTypeId;
+        }
+        if (filters.departmentId) {
+          query.CompanyDepartmentId = filters.departmentId;
+        }
+        if (filters.tagId) {
+          query.TagIds = filters.tagId;
+        }
+
+        const idsResponse = await this.pureGet<JobIdReference[]>('JobsRequest', query, z.array(JobIdReferenceSchema));
+        if (!idsResponse.success) {
+          return { success: false, error: idsResponse.error, apiError: idsResponse.apiError };
+        }
+
+        const ids = (idsResponse.data || []).map(job => job.Id);
+        const details: JobSimpleVisualization[] = [];
+        for (let i = 0; i < ids.length; i += JOB_DETAILS_BATCH_SIZE) {
+          const batch = ids.slice(i, i + JOB_DETAILS_BATCH_SIZE);
+          const response = await this.post<JobSimpleVisualization[]>('JobSimpleVisualizationRequest[]', batch.map(Id => ({ Id })), z.array(JobSimpleVisualizationSchema), { idempotent: true });
+          if (!response.success) {
+            return { success: false, error: response.error, apiError: response.apiError };
+          }
+          details.push(...(response.data || []));
+        }
+
+        // Tags are not part of the job details, so the tag filter relies on JobsRequest alone
+        jobs = details
+          .filter(job => !filters.customerId || job.CustomerId === filters.customerId)
+          .filter(job => !filters.responsibleId || job.ResponsibleId === filters.responsibleId || job.JobRessAnsvarID === filters.responsibleId)
+          .filter(job => !filters.statusIds || filters.statusIds.length === 0 || filters.statusIds.includes(job.StatusId))
+          .filter(job => !filters.jobTypeId || job.JobTypeId === filters.jobTypeId)
+          .filter(job => !filters.departmentId || job.CompanyDepartmentId === filters.departmentId)
+          .filter(job => !filters.projectId || job.ProjectId === filters.projectId)
+          .filter(job => isInDateWindow(job, filters.dateFrom, filters.dateTo, filters.dateField || 'overlap'))
+          .map(job => ({
+            id: job.Id,
+            jobName: job.JobName,
+            customerId: job.CustomerId,
+            customerName: job.CustomerName,
+            projectId: job.ProjectId,
+            statusId: job.StatusId,
+            jobTypeId: job.JobTypeId,
+            responsibleId: job.ResponsibleId,
+            companyDepartmentId: job.CompanyDepartmentId,
+            billable: job.Billable,
+            startDate: job.StartDate || undefined,
+            endDate: job.EndDate || undefined
+          }));
+
+        this.cache.set(cacheKey, jobs, 300, [CacheTags.JOB]); // 5 minute cache (paging reuses the same result)
+      }
+
+      const direction = sortDirection === 'desc' ? -1 : 1;
+      const sorted = [...jobs].sort((a, b) => direction * compareJobs(a, b, sortBy));
+      const pageCount = Math.max(Math.ceil(sorted.length / pageSize), 1);
+
+      return {
+        success: true,
+        data: {
+          jobs: sorted.slice((page - 1) * pageSize, page * pageSize),
+          totalCount: sorted.length,
+          page,
+          pageSize,
+          pageCount
+        },
+        cached
+      };
+    } catch (error) {
+      console.error('Error searching jobs:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
   /**
    * Get all tags
    * API: TagsRequest
    */
   async getTags() {
     const cacheKey = 'tags-all';
-    const cached = cacheManager.get(cacheKey);
+    const cached = this.cache.get(cacheKey);
     if (cached) {
       return { success: true as const, data: cached, cached: true };
     }
 
     try {
-      const response = await this.pureGet<Tag[]>('TagsRequest', {});
+      const response = await this.pureGet<Tag[]>('TagsRequest', {}, z.array(TagSchema));
       
       if (!response.success) {
         return response;
@@ -675,7 +1737,7 @@ export class JobService extends BaseService {
         internal: tag.Internal
       }));
 
-      cacheManager.set(cacheKey, data, 3600); // 1 hour cache (tags don't change often)
+      this.cache.set(cacheKey, data, 3600); // 1 hour cache (tags don't change often)
       return { success: true, data, cached: false };
     } catch (error) {
       console.error('Error fetching tags:', error);
@@ -688,17 +1750,18 @@ export class JobService extends BaseService {
    * API: InvoicesRequest?JobId={id}
    */
   async getInvoices(jobId: number) {
-    const cacheKey = `invoices-${jobId}`;
-    const cached = cacheManager.get(cacheKey);
-    if (cached) {
-      return { success: true as const, data: cached, cached: true };
-    }
+    return this.cachedRead(`invoices-${jobId}`, { ttl: 300, tags: [CacheTags.invoices(jobId)] }, () => this.fetchInvoices(jobId));
+  }
 
+  /**
+   * Fetch the invoices of a job from the API (5 minute cache, invoices can change)
+   */
+  private async fetchInvoices(jobId: number): Promise<ServiceResponse<MappedInvoice[]>> {
     try {
-      const response = await this.pureGet<Invoice[]>('InvoicesRequest', { JobId: jobId.toString() });
+      const response = await this.pureGet<Invoice[]>('InvoicesRequest', { JobId: jobId.toString() }, z.array(InvoiceSchema));
       
       if (!response.success) {
-        return response;
+        return { success: false, error: response.error, apiError: response.apiError };
       }
 
       if (!response.data) {
@@ -725,7 +1788,6 @@ export class JobService extends BaseService {
         companyName: invoice.CompanyName
       }));
 
-      cacheManager.set(cacheKey, data, 300); // 5 minute cache (invoices can change)
       return { success: true, data, cached: false };
     } catch (error) {
       console.error('Error fetching invoices:', error);
@@ -739,13 +1801,13 @@ export class JobService extends BaseService {
    */
   async getInvoice(invoiceId: number) {
     const cacheKey = `invoice-${invoiceId}`;
-    const cached = cacheManager.get(cacheKey);
+    const cached = this.cache.get(cacheKey);
     if (cached) {
       return { success: true as const, data: cached, cached: true };
     }
 
     try {
-      const response = await this.pureGet<Invoice>('InvoiceRequest', { Id: invoiceId.toString() });
+      const response = await this.pureGet<Invoice>('InvoiceRequest', { Id: invoiceId.toString() }, InvoiceSchema);
       
       if (!response.success) {
         return response;
@@ -782,7 +1844,7 @@ export class JobService extends BaseService {
         salesDate: invoice.SalesDate
       };
 
-      cacheManager.set(cacheKey, data, 600); // 10 minute cache (invoice details are stable)
+      this.cache.set(cacheKey, data, 600); // 10 minute cache (invoice details are stable)
       return { success: true, data, cached: false };
     } catch (error) {
       console.error('Error fetching invoice:', error);
@@ -796,13 +1858,13 @@ export class JobService extends BaseService {
    */
   async getInvoicePaymentStatus(invoiceId: number) {
     const cacheKey = `invoice-payment-${invoiceId}`;
-    const cached = cacheManager.get(cacheKey);
+    const cached = this.cache.get(cacheKey);
     if (cached) {
       return { success: true as const, data: cached, cached: true };
     }
 
     try {
-      const response = await this.pureGet<InvoicePaymentStatus>('InvoicePaymentStatusRequest', { Id: invoiceId.toString() });
+      const response = await this.pureGet<InvoicePaymentStatus>('InvoicePaymentStatusRequest', { Id: invoiceId.toString() }, InvoicePaymentStatusSchema);
       
       if (!response.success) {
         return response;
@@ -825,7 +1887,7 @@ export class JobService extends BaseService {
         latestPaidDate: status.LatestPaidDate
       };
 
-      cacheManager.set(cacheKey, data, 60); // 1 minute cache (payment status changes frequently)
+      this.cache.set(cacheKey, data, 60); // 1 minute cache (payment status changes frequently)
       return { success: true, data, cached: false };
     } catch (error) {
       console.error('Error fetching invoice payment status:', error);
@@ -840,7 +1902,7 @@ export class JobService extends BaseService {
    */
   async getExpenditureSummary(jobId: number, showInCompanyCurrency: boolean = false) {
     const cacheKey = `expenditure-summary-${jobId}-${showInCompanyCurrency}`;
-    const cached = cacheManager.get(cacheKey);
+    const cached = this.cache.get(cacheKey);
     if (cached) {
       return { success: true as const, data: cached, cached: true };
     }
@@ -849,7 +1911,7 @@ export class JobService extends BaseService {
       const response = await this.pureGet<ExpenditureSummary[]>('ExpenditureSummaryHoursAndCostRequest', { 
         JobId: jobId.toString(),
         ShowInCompanyCurrency: showInCompanyCurrency ? '1' : '0'
-      });
+      }, z.array(ExpenditureSummarySchema));
       
       if (!response.success) {
         return response;
@@ -878,7 +1940,7 @@ export class JobService extends BaseService {
         unBilled: summary.UnBilled
       }));
 
-      cacheManager.set(cacheKey, data, 300); // 5 minute cache (summary data can change)
+      this.cache.set(cacheKey, data, 300); // 5 minute cache (summary data can change)
       return { success: true, data, cached: false };
     } catch (error) {
       console.error('Error fetching expenditure summary:', error);
@@ -892,7 +1954,7 @@ export class JobService extends BaseService {
    */
   async getDepartmentProfitSplit(jobId: number, showInCompanyCurrency: boolean = false, departmentGrouping: number = 1) {
     const cacheKey = `dept-profit-split-${jobId}-${showInCompanyCurrency}-${departmentGrouping}`;
-    const cached = cacheManager.get(cacheKey);
+    const cached = this.cache.get(cacheKey);
     if (cached) {
       return { success: true as const, data: cached, cached: true };
     }
@@ -902,7 +1964,7 @@ export class JobService extends BaseService {
         JobId: jobId.toString(),
         ShowInCompanyCurrency: showInCompanyCurrency ? 'true' : 'false',
         DepartmentGrouping: departmentGrouping.toString()
-      });
+      }, z.array(DepartmentProfitSplitSchema));
       
       if (!response.success) {
         return response;
@@ -930,7 +1992,7 @@ export class JobService extends BaseService {
         invoicePercentage: split.InvoicePercentage
       }));
 
-      cacheManager.set(cacheKey, data, 300); // 5 minute cache
+      this.cache.set(cacheKey, data, 300); // 5 minute cache
       return { success: true, data, cached: false };
     } catch (error) {
       console.error('Error fetching department profit split:', error);
@@ -944,7 +2006,7 @@ export class JobService extends BaseService {
    */
   async getDepartments(companyId: number = 1) {
     const cacheKey = `departments-${companyId}`;
-    const cached = cacheManager.get(cacheKey);
+    const cached = this.cache.get(cacheKey);
     if (cached) {
       return { success: true as const, data: cached, cached: true };
     }
@@ -952,7 +2014,7 @@ export class JobService extends BaseService {
     try {
       const response = await this.pureGet<Department[]>('DepartmentsRequest', {
         CompanyId: companyId.toString()
-      });
+      }, z.array(DepartmentSchema));
       
       if (!response.success) {
         return response;
@@ -969,7 +2031,7 @@ export class JobService extends BaseService {
         active: dept.Active
       }));
 
-      cacheManager.set(cacheKey, data, 3600); // 1 hour cache (departments rarely change)
+      this.cache.set(cacheKey, data, 3600); // 1 hour cache (departments rarely change)
       return { success: true, data, cached: false };
     } catch (error) {
       console.error('Error fetching departments:', error);
@@ -983,7 +2045,7 @@ export class JobService extends BaseService {
    */
   async getJobTypes(active: boolean = true, companyId: number = 1) {
     const cacheKey = `job-types-${active}-${companyId}`;
-    const cached = cacheManager.get(cacheKey);
+    const cached = this.cache.get(cacheKey);
     if (cached) {
       return { success: true as const, data: cached, cached: true };
     }
@@ -992,7 +2054,7 @@ export class JobService extends BaseService {
       const response = await this.pureGet<JobType[]>('JobTypesRequest', { 
         Active: active ? 'true' : 'false',
         CompanyId: companyId.toString()
-      });
+      }, z.array(JobTypeSchema));
       
       if (!response.success) {
         return response;
@@ -1011,7 +2073,7 @@ export class JobService extends BaseService {
         updatePriceQuote: jobType.UpdatePriceQuote
       }));
 
-      cacheManager.set(cacheKey, data, 3600); // 1 hour cache (job types rarely change)
+      this.cache.set(cacheKey, data, 3600); // 1 hour cache (job types rarely change)
       return { success: true, data, cached: false };
     } catch (error) {
       console.error('Error fetching job types:', error);
@@ -1030,7 +2092,7 @@ export class JobService extends BaseService {
         HasTimeEntry: task.hasTimeEntry
       }));
 
-      const response = await this.purePost<TimeEntryTaskResourceSum[]>('TimeEntryTaskResourceSumVisualizationRequest[]', payload);
+      const response = await this.purePost<TimeEntryTaskResourceSum[]>('TimeEntryTaskResourceSumVisualizationRequest[]', payload, z.array(TimeEntryTaskResourceSumSchema), { idempotent: true });
       
       if (!response.success) {
         return response;
@@ -1078,7 +2140,7 @@ export class JobService extends BaseService {
         PeriodType: options.periodType ?? 1
       };
 
-      const response = await this.purePost<CapacityVisualization[]>('CapacityVisualizationMultiRequest', payload);
+      const response = await this.purePost<CapacityVisualization[]>('CapacityVisualizationMultiRequest', payload, z.array(CapacityVisualizationSchema), { idempotent: true });
       
       if (!response.success) {
         return response;
@@ -1119,39 +2181,133 @@ export class JobService extends BaseService {
    * API: JobPatchRequest (PATCH method for any job field)
    */
   async patchJob(jobId: number, patchData: Record<string, unknown>) {
-    try {
-      const payload: JobPatchPayload = {
-        Patch: {
-          Id: jobId,
-          ...patchData
+    return this.audited({ action: 'job.patch', entityType: 'job', entityIds: [jobId] }, async audit => {
+      try {
+        const payload: JobPatchPayload = {
+          Patch: {
+            Id: jobId,
+            ...patchData
+          }
+        };
+        audit.before = await this.getCurrentValues('JobSimpleVisualizationRequest[]', jobId, Object.keys(patchData));
+        audit.after = patchData;
+
+        const response = await this.purePatch<JobPatchResponse>('JobPatchRequest', payload, JobPatchResponseSchema);
+      
+        if (!response.success) {
+          return response;
         }
-      };
 
-      const response = await this.purePatch<JobPatchResponse>('JobPatchRequest', payload);
-      
-      if (!response.success) {
-        return response;
-      }
+        if (!response.data) {
+          return { success: false, error: 'No job patch response received' };
+        }
 
-      if (!response.data) {
-        return { success: false, error: 'No job patch response received' };
+        // Drop what is cached about this job and the lists it appears in
+        this.cache.invalidateTags([CacheTags.job(jobId), CacheTags.JOB]);
+
+        return {
+          success: true,
+          data: {
+            jobId: response.data.Id,
+            jobName: response.data.JobName,
+            message: `Job ${response.data.Id} (${response.data.JobName}) updated successfully`
+          }
+        };
+      } catch (error) {
+        console.error('Error patching job:', error);
+        return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
       }
+    });
+  }
+}
 
-      // Clear cache since we updated the job
-      cacheManager.delStartWith(`job-${jobId}`);
-      cacheManager.delStartWith('job-');
+/**
+ * Check a job against a date window on its start date, end date or whole duration (overlap)
+ */
+function isInDateWindow(job: JobSimpleVisualization, dateFrom: string | undefined, dateTo: string | undefined, dateField: 'start' | 'end' | 'overlap'): boolean {
+  if (!dateFrom && !dateTo) {
+    return true;
+  }
 
-      return {
-        success: true,
-        data: {
-          jobId: response.data.Id,
-          jobName: response.data.JobName,
-          message: `Job ${response.data.Id} (${response.data.JobName}) updated successfully`
-        }
-      };
-    } catch (error) {
-      console.error('Error patching job:', error);
-      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
-    }
+  const from = dateFrom ? new Date(dateFrom).getTime() : -Infinity;
+  const to = dateTo ? new Date(`${dateTo.substring(0, 10)}T23:59:59.999Z`).getTime() : Infinity;
+  const start = job.StartDate ? new Date(job.StartDate).getTime() : undefined;
+  const end = job.EndDate ? new Date(job.EndDate).getTime() : undefined;
+
+  switch (dateField) {
+  case 'start':
+    return start !== undefined && start >= from && start <= to;
+  case 'end':
+    return end !== undefined && end >= from && end <= to;
+  default:
+    return (start === undefined || start <= to) && (end === undefined || end >= from);
+  }
+}
+
+/**
+ * Compare two jobs on a sort field; a job without the date counts as open-ended
+ */
+function compareJobs(a: MappedJobSummary, b: MappedJobSummary, sortBy: NonNullable<JobSearchParams['sortBy']>): number {
+  switch (sortBy) {
+  case 'name':
+    return a.jobName.localeCompare(b.jobName);
+  case 'customer':
+    return (a.customerName || '').localeCompare(b.customerName || '') || a.jobName.localeCompare(b.jobName);
+  case 'id':
+    return a.id - b.id;
+  default: {
+    const field = sortBy === 'startDate' ? 'startDate' : 'endDate';
+    const aTime = a[field] ? new Date(a[field] as string).getTime() : Number.MAX_SAFE_INTEGER;
+    const bTime = b[field] ? new Date(b[field] as string).getTime() : Number.MAX_SAFE_INTEGER;
+    return aTime - bTime;
+  }
+  }
+}
+
+/**
+ * Map a JobTeamAllRequest/JobTeamRequest row to a job team member
+ */
+function mapJobTeamMember(member: JobTeamMember): MappedJobTeamMember {
+  return {
+    jobId: member.JobId,
+    resourceId: member.ResourceId,
+    resourceName: '', // Need to fetch from ResourceService
+    bonusPart: member.BonusPart,
+    jobAccess: member.JobAccess,
+    id: member.Id,
+    portalAccessType: member.PortalAccessType,
+    roleId: member.JobRoleId ?? undefined,
+    defaultTaskId: member.DefaultTaskId ?? undefined,
+    hourlySalePrice: member.HourlySalePrice ?? undefined
+  };
+}
+
+/**
+ * Convert role, default task and price settings to JobTeamRequest fields, leaving out unset ones
+ */
+function toJobTeamMemberPayload(settings: JobTeamMemberSettings): JobTeamMemberPayload {
+  const payload: JobTeamMemberPayload = {};
+  if (settings.roleId !== undefined) {
+    payload.JobRoleId = settings.roleId;
+  }
+  if (settings.defaultTaskId !== undefined) {
+    payload.DefaultTaskId = settings.defaultTaskId;
+  }
+  if (settings.hourlySalePrice !== undefined) {
+    payload.HourlySalePrice = settings.hourlySalePrice;
   }
+  return payload;
+}
+
+/**
+ * Editable fields of a time registration under their RawTimeEntryRequest names
+ */
+function toRawTimeEntryFields(entry: MappedTimeRegistration): Record<string, unknown> {
+  return {
+    RegistrationDate: entry.registrationDate,
+    Hours: entry.hours,
+    Description: entry.description,
+    TaskId: entry.taskId,
+    Billable: entry.billable
+  };
 }
\ No newline at end of file
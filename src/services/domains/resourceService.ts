@@ -1,5 +1,7 @@
+import { z } from 'zod';
 import { BaseService } from '../base/baseService.js';
-import { cacheManager } from '../base/cache.js';
+import { CacheTags } from '../base/cache.js';
+import { pickFields } from '../audit/auditLog.js';
 import { 
   Resource,
   Contact,
@@ -8,39 +10,62 @@ import {
   WorkbookConfig 
 } from '../../types/workbook.types.js';
 import { ResourceTypes } from '../../constants/resourceTypes.js';
+import { ContactSchema, ResourceSchema } from '../../types/workbook.schemas.js';
+
+// ResourceRequest[] is sent in chunks so the full dataset never goes out as one enormous request
+const RESOURCE_BATCH_CHUNKING = { chunkSize: 250, concurrency: 4 };
+
+export interface ResourceStats {
+  total: number;
+  active: number;
+  inactive: number;
+  withEmail: number;
+  withCompany: number;
+  byResourceType: Record<number, number>;
+  inactiveByResourceType: Record<number, number>;
+  departments: string[];
+}
+
+// Told about every successful resource write, e.g. so the resource mirror can update its copy
+// eslint-disable-next-line no-unused-vars
+export type ResourceWriteListener = (id: number, updates: Partial<Resource>) => void | Promise<void>;
 
 /**
  * ResourceService - Manages all people data (employees, clients, contacts)
  * Note: In Workbook, "Resources" contain all the people information we need
  */
 export class ResourceService extends BaseService {
+  private writeListeners: ResourceWriteListener[] = [];
+
   constructor(config: WorkbookConfig) {
     super(config);
   }
 
+  /**
+   * Register a listener for successful resource writes
+   */
+  onWrite(listener: ResourceWriteListener): void {
+    this.writeListeners.push(listener);
+  }
+
   /**
    * Search resources with optional parameters and caching
    * Uses two-step pattern: ResourcesRequest (filter) + ResourceRequest[] (complete data)
    */
   async search(params?: Record<string, unknown>): Promise<ServiceResponse<Resource[]>> {
-    const cacheKey = this.generateCacheKey('resources:search', params);
-    
-    // Check cache first
-    const cached = cacheManager.get<Resource[]>(cacheKey);
-    if (cached) {
-      this.logApiCall('ResourcesRequest', 'GET', true);
-      return {
-        success: true,
-        data: cached,
-        cached: true
-      };
-    }
-
     // If no search parameters, fall back to complete dataset
     if (!params || Object.keys(params).length === 0) {
       return this.getAllResourcesComplete();
     }
 
+    const cacheKey = this.generateCacheKey('resources:search', params);
+    return this.cachedRead(cacheKey, { tags: [CacheTags.RESOURCE] }, () => this.fetchSearch(params));
+  }
+
+  /**
+   * Fetch a filtered search from the API
+   */
+  private async fetchSearch(params: Record<string, unknown>): Promise<ServiceResponse<Resource[]>> {
     // Step 1: Get filtered resource IDs using ResourcesRequest
     this.logApiCall('ResourcesRequest', 'GET');
     const idsResponse = await this.get<Resource[]>('ResourcesRequest', params);
@@ -48,7 +73,8 @@ export class ResourceService extends BaseService {
     if (!idsResponse.success || !idsResponse.data) {
       return {
         success: false,
-        error: idsResponse.error || 'Failed to get filtered resource IDs'
+        error: idsResponse.error || 'Failed to get filtered resource IDs',
+        apiError: idsResponse.apiError
       };
     }
 
@@ -65,14 +91,7 @@ export class ResourceService extends BaseService {
 
     // Step 2: Get complete resource data using ResourceRequest[] bulk operation
     this.logApiCall('ResourceRequest[]', 'GET');
-    const completeDataResponse = await this.getBulkByIds(filteredIds);
-    
-    // Cache successful responses
-    if (completeDataResponse.success && completeDataResponse.data) {
-      cacheManager.setResources(cacheKey, completeDataResponse.data);
-    }
-    
-    return completeDataResponse;
+    return this.getBulkByIds(filteredIds);
   }
 
   /**
@@ -85,29 +104,28 @@ export class ResourceService extends BaseService {
 
   /**
    * Get multiple resources by IDs using ResourceRequest[] bulk operation
+   * Large ID lists are fetched in chunks with bounded concurrency
    */
   async getBulkByIds(ids: number[]): Promise<ServiceResponse<Resource[]>> {
     const idObjects = ids.map(id => ({ Id: id }));
-    return this.getBatch<Resource>('ResourceRequest', idObjects);
+    return this.getBatchChunked<Resource>('ResourceRequest', idObjects, RESOURCE_BATCH_CHUNKING, ResourceSchema);
   }
 
   /**
    * Get all available resource IDs from ResourceIdsRequest
    * @param includeInactive - Whether to include inactive resources (default: true for complete dataset)
+   * @param bypassCache - Fetch from the API and refresh the cache
    */
-  async getAllResourceIds(includeInactive: boolean = true): Promise<ServiceResponse<number[]>> {
+  async getAllResourceIds(includeInactive: boolean = true, bypassCache: boolean = false): Promise<ServiceResponse<number[]>> {
     const cacheKey = includeInactive ? 'resource:ids:all' : 'resource:ids:active';
-    
-    // Check cache first
-    const cached = cacheManager.get<number[]>(cacheKey);
-    if (cached) {
-      return {
-        success: true,
-        data: cached,
-        cached: true
-      };
-    }
+    const policy = { ttl: 300, tags: [CacheTags.RESOURCE], refresh: bypassCache };
+    return this.cachedRead(cacheKey, policy, () => this.fetchAllResourceIds(includeInactive));
+  }
 
+  /**
+   * Fetch resource IDs from the API
+   */
+  private async fetchAllResourceIds(includeInactive: boolean): Promise<ServiceResponse<number[]>> {
     // Use the correct payload structure from browser network tab
     // Set HideInactive and Active based on includeInactive parameter
     const payload = {
@@ -128,40 +146,32 @@ export class ResourceService extends BaseService {
     };
 
     this.logApiCall('ResourceIdsRequest', 'POST');
-    const response = await this.post<number[]>('ResourceIdsRequest', payload);
-    
-    // Cache successful responses for 5 minutes
-    if (response.success && response.data) {
-      cacheManager.set(cacheKey, response.data, 300);
-    }
-    
-    return response;
+    return this.post<number[]>('ResourceIdsRequest', payload, z.array(z.number()), { idempotent: true });
   }
 
   /**
    * Get all resources using ResourceIdsRequest + ResourceRequest[] bulk pattern
    * This gets the complete dataset including all clients, employees, etc.
+   * Concurrent callers on a cold cache share one fetch
+   * @param bypassCache - Fetch from the API (IDs included) and refresh the cache, e.g. for the mirror's full reconcile
    */
-  async getAllResourcesComplete(): Promise<ServiceResponse<Resource[]>> {
-    const cacheKey = 'resources:complete:all';
-    
-    // Check cache first
-    const cached = cacheManager.get<Resource[]>(cacheKey);
-    if (cached) {
-      return {
-        success: true,
-        data: cached,
-        cached: true
-      };
-    }
+  async getAllResourcesComplete(bypassCache: boolean = false): Promise<ServiceResponse<Resource[]>> {
+    const policy = { ttl: 300, tags: [CacheTags.RESOURCE], refresh: bypassCache };
+    return this.cachedRead('resources:complete:all', policy, () => this.fetchAllResourcesComplete(bypassCache));
+  }
 
+  /**
+   * Fetch the complete dataset from the API
+   */
+  private async fetchAllResourcesComplete(bypassCache: boolean): Promise<ServiceResponse<Resource[]>> {
     // Get all available resource IDs
-    const idsResponse = await this.getAllResourceIds();
+    const idsResponse = await this.getAllResourceIds(true, bypassCache);
     if (!idsResponse.success || !idsResponse.data) {
       console.log('[RESOURCE DEBUG] getAllResourceIds failed:', idsResponse.error);
       return {
         success: false,
-        error: idsResponse.error || 'Failed to get resource IDs'
+        error: idsResponse.error || 'Failed to get resource IDs',
+        apiError: idsResponse.apiError
       };
     }
 
@@ -176,15 +186,18 @@ export class ResourceService extends BaseService {
     }
     
     console.log(`[RESOURCE DEBUG] Successfully retrieved ${resourcesResponse.data?.length || 0} complete resources`);
-    
-    // Cache successful responses for 5 minutes
-    if (resourcesResponse.success && resourcesResponse.data) {
-      cacheManager.set(cacheKey, resourcesResponse.data, 300);
-    }
-    
     return resourcesResponse;
   }
 
+  /**
+   * List resources of every type with ResourcesRequest alone, skipping the ResourceRequest[] follow-up
+   * Used by the resource mirror to spot new and changed records by UpdateDate/CreateDate
+   */
+  async listResourceSummaries(): Promise<ServiceResponse<Resource[]>> {
+    this.logApiCall('ResourcesRequest', 'GET');
+    return this.get<Resource[]>('ResourcesRequest', { ResourceType: [1, 2, 3, 4, 5, 6, 7, 8, 9, 10] });
+  }
+
   /**
    * Find companies by scanning known company IDs
    * This is a fallback when ResourcesRequest has permission issues
@@ -218,28 +231,12 @@ export class ResourceService extends BaseService {
    */
   async getById(id: number): Promise<ServiceResponse<Resource>> {
     const cacheKey = this.generateCacheKey('resource:single', { Id: id });
-    
-    // Check cache first
-    const cached = cacheManager.get<Resource>(cacheKey);
-    if (cached) {
-      this.logApiCall('ResourceRequest', 'GET', true);
-      return {
-        success: true,
-        data: cached,
-        cached: true
-      };
-    }
 
     // Make API call using batch operation (ResourceRequest[] pattern)
-    this.logApiCall('ResourceRequest[]', 'GET');
-    const response = await this.getBatchById<Resource>('ResourceRequest', id);
-    
-    // Cache successful responses
-    if (response.success && response.data) {
-      cacheManager.setResources(cacheKey, response.data);
-    }
-    
-    return response;
+    return this.cachedRead(cacheKey, { tags: [CacheTags.resource(id)] }, () => {
+      this.logApiCall('ResourceRequest[]', 'GET');
+      return this.getBatchById<Resource>('ResourceRequest', id, ResourceSchema);
+    });
   }
 
   /**
@@ -365,7 +362,8 @@ export class ResourceService extends BaseService {
     if (!allResourcesResponse.success || !allResourcesResponse.data) {
       return {
         success: false,
-        error: allResourcesResponse.error || 'Failed to fetch complete resource dataset'
+        error: allResourcesResponse.error || 'Failed to fetch complete resource dataset',
+        apiError: allResourcesResponse.apiError
       };
     }
 
@@ -399,7 +397,8 @@ export class ResourceService extends BaseService {
     if (!allResourcesResponse.success || !allResourcesResponse.data) {
       return {
         success: false,
-        error: allResourcesResponse.error || 'Failed to fetch complete resource dataset'
+        error: allResourcesResponse.error || 'Failed to fetch complete resource dataset',
+        apiError: allResourcesResponse.apiError
       };
     }
 
@@ -433,7 +432,8 @@ export class ResourceService extends BaseService {
     if (!allResourcesResponse.success || !allResourcesResponse.data) {
       return {
         success: false,
-        error: allResourcesResponse.error || 'Failed to fetch complete resource dataset'
+        error: allResourcesResponse.error || 'Failed to fetch complete resource dataset',
+        apiError: allResourcesResponse.apiError
       };
     }
 
@@ -466,7 +466,8 @@ export class ResourceService extends BaseService {
     if (!companyResponse.success) {
       return {
         success: false,
-        error: companyResponse.error || 'Failed to find company'
+        error: companyResponse.error || 'Failed to find company',
+        apiError: companyResponse.apiError
       };
     }
 
@@ -484,7 +485,8 @@ export class ResourceService extends BaseService {
     if (!hierarchyResponse.success || !hierarchyResponse.data) {
       return {
         success: false,
-        error: hierarchyResponse.error || 'Failed to build hierarchy'
+        error: hierarchyResponse.error || 'Failed to build hierarchy',
+        apiError: hierarchyResponse.apiError
       };
     }
 
@@ -500,41 +502,68 @@ export class ResourceService extends BaseService {
    * Update a resource using the PATCH-via-POST pattern
    */
   async update(id: string, updates: Partial<Resource>): Promise<ServiceResponse<unknown>> {
-    this.logApiCall('ResourcePatchRequest', 'PATCH');
+    // Activation changes are audited as their own actions so they are easy to find
+    const action = Object.keys(updates).length === 1 && updates.Active !== undefined
+      ? (updates.Active ? 'resource.activate' : 'resource.deactivate')
+      : 'resource.update';
+
+    return this.audited({ action, entityType: 'resource', entityIds: [Number(id)] }, async audit => {
+      this.logApiCall('ResourcePatchRequest', 'PATCH');
     
-    // Build patch data
-    const patchData: Record<string, unknown> = { Id: id };
+      // Build patch data
+      const patchData: Record<string, unknown> = { Id: id };
     
-    // Convert boolean fields to strings (Workbook API requirement)
-    if (updates.Active !== undefined) {
-      patchData.Active = updates.Active.toString();
-    }
+      // Convert boolean fields to strings (Workbook API requirement)
+      if (updates.Active !== undefined) {
+        patchData.Active = updates.Active.toString();
+      }
     
-    // Add other fields as strings
-    if (updates.Name !== undefined) {
-      patchData.Name = updates.Name;
-    }
-    if (updates.Email !== undefined) {
-      patchData.Email = updates.Email;
-    }
-    if (updates.Initials !== undefined) {
-      patchData.Initials = updates.Initials;
-    }
-    if (updates.Phone1 !== undefined) {
-      patchData.Phone1 = updates.Phone1;
-    }
-    if (updates.ResponsibleResourceId !== undefined) {
-      patchData.ResponsibleResourceId = updates.ResponsibleResourceId.toString();
-    }
+      // Add other fields as strings
+      if (updates.Name !== undefined) {
+        patchData.Name = updates.Name;
+      }
+      if (updates.Email !== undefined) {
+        patchData.Email = updates.Email;
+      }
+      if (updates.Initials !== undefined) {
+        patchData.Initials = updates.Initials;
+      }
+      if (updates.Phone1 !== undefined) {
+        patchData.Phone1 = updates.Phone1;
+      }
+      if (updates.ResponsibleResourceId !== undefined) {
+        patchData.ResponsibleResourceId = updates.ResponsibleResourceId.toString();
+      }
 
-    const response = await this.patch('ResourcePatchRequest', patchData);
+      // Values before the change come from the API, not the cache
+      const fields = Object.keys(patchData).filter(field => field !== 'Id');
+      const current = await this.getBatchById<Resource>('ResourceRequest', Number(id), ResourceSchema);
+      audit.before = pickFields(current.data, fields);
+      audit.after = pickFields(updates, fields);
+
+      const response = await this.patch('ResourcePatchRequest', patchData);
     
-    // Clear relevant cache entries on successful update
-    if (response.success) {
-      this.clearCacheForResource(parseInt(id));
-    }
+      // Drop the resource and every list that contains it, and let the mirror catch up
+      if (response.success) {
+        this.cache.invalidateTags([CacheTags.RESOURCE, CacheTags.resource(id)]);
+        await this.notifyWrite(Number(id), updates);
+      }
     
-    return response;
+      return response;
+    });
+  }
+
+  /**
+   * Tell the write listeners about a successful write; a failing listener never fails the write
+   */
+  private async notifyWrite(id: number, updates: Partial<Resource>): Promise<void> {
+    for (const listener of this.writeListeners) {
+      try {
+        await listener(id, updates);
+      } catch (error) {
+        console.error(`❌ Resource write listener failed for resource ${id}:`, error);
+      }
+    }
   }
 
   /**
@@ -554,37 +583,15 @@ export class ResourceService extends BaseService {
   /**
    * Get resource statistics (people stats)
    */
-  async getStats(): Promise<ServiceResponse<{ 
-    total: number; 
-    active: number; 
-    inactive: number;
-    withEmail: number;
-    withCompany: number;
-    byResourceType: Record<number, number>;
-    inactiveByResourceType: Record<number, number>;
-    departments: string[];
-  }>> {
-    const cacheKey = 'resources:stats';
-    
-    // Check cache first
-    const cached = cacheManager.get<{ 
-      total: number; 
-      active: number; 
-      inactive: number;
-      withEmail: number;
-      withCompany: number;
-      byResourceType: Record<number, number>;
-      inactiveByResourceType: Record<number, number>;
-      departments: string[];
-    }>(cacheKey);
-    if (cached) {
-      return {
-        success: true,
-        data: cached,
-        cached: true
-      };
-    }
+  async getStats(): Promise<ServiceResponse<ResourceStats>> {
+    // Cache stats for shorter time (1 minute since it's derived data)
+    return this.cachedRead('resources:stats', { ttl: 60, tags: [CacheTags.RESOURCE] }, () => this.computeStats());
+  }
 
+  /**
+   * Compute resource statistics from the complete dataset
+   */
+  private async computeStats(): Promise<ServiceResponse<ResourceStats>> {
     // Use getAllResourcesComplete to ensure we get all resource types
     const allResourcesResponse = await this.getAllResourcesComplete();
     
@@ -592,7 +599,8 @@ export class ResourceService extends BaseService {
       console.log('[STATS DEBUG] getAllResourcesComplete failed:', allResourcesResponse.error);
       return {
         success: false,
-        error: `Failed to fetch resources for statistics: ${allResourcesResponse.error}`
+        error: `Failed to fetch resources for statistics: ${allResourcesResponse.error}`,
+        apiError: allResourcesResponse.apiError
       };
     }
 
@@ -635,9 +643,6 @@ export class ResourceService extends BaseService {
       departments: Array.from(departments).sort()
     };
 
-    // Cache stats for shorter time (1 minute since it's derived data)
-    cacheManager.set(cacheKey, stats, 60);
-
     return {
       success: true,
       data: stats,
@@ -645,49 +650,24 @@ export class ResourceService extends BaseService {
     };
   }
 
-  /**
-   * Clear cache for a specific resource
-   */
-  private clearCacheForResource(resourceId: number): void {
-    cacheManager.del(`resource:single:${Buffer.from(JSON.stringify({Id: resourceId})).toString('base64')}`);
-    cacheManager.del(`contacts:forResource:${Buffer.from(JSON.stringify({ResourceId: resourceId})).toString('base64')}`);
-    cacheManager.del('resources:all');
-    cacheManager.del('resources:stats');
-    cacheManager.delStartWith('resources:search');
-  }
-
   /**
    * Get contacts for a specific resource/company
    * Uses ContactsForResourceRequest endpoint
+   * @param bypassCache - Always call the API (the response is still cached)
    */
-  async getContactsForResource(resourceId: number, active?: boolean): Promise<ServiceResponse<Contact[]>> {
+  async getContactsForResource(resourceId: number, active?: boolean, bypassCache: boolean = false): Promise<ServiceResponse<Contact[]>> {
     const cacheKey = this.generateCacheKey('contacts:forResource', { ResourceId: resourceId, Active: active });
-    
-    // Check cache first
-    const cached = cacheManager.get<Contact[]>(cacheKey);
-    if (cached) {
-      this.logApiCall('ContactsForResourceRequest', 'GET', true);
-      return {
-        success: true,
-        data: cached,
-        cached: true
-      };
-    }
-
-    // Make API call using pure GET with query parameters
-    this.logApiCall('ContactsForResourceRequest', 'GET');
-    const queryParams: Record<string, string | number | boolean> = { ResourceId: resourceId };
-    if (active !== undefined) {
-      queryParams.Active = active;
-    }
-    const response = await this.pureGet<Contact[]>('ContactsForResourceRequest', queryParams);
-    
-    // Cache successful responses
-    if (response.success && response.data) {
-      cacheManager.set(cacheKey, response.data, 300); // 5 minutes
-    }
-    
-    return response;
+    const policy = { ttl: 300, tags: [CacheTags.CONTACT, CacheTags.resource(resourceId)], refresh: bypassCache }; // 5 minutes
+
+    return this.cachedRead(cacheKey, policy, () => {
+      // Make API call using pure GET with query parameters
+      this.logApiCall('ContactsForResourceRequest', 'GET');
+      const queryParams: Record<string, string | number | boolean> = { ResourceId: resourceId };
+      if (active !== undefined) {
+        queryParams.Active = active;
+      }
+      return this.pureGet<Contact[]>('ContactsForResourceRequest', queryParams, z.array(ContactSchema));
+    });
   }
 
   /**
@@ -696,28 +676,11 @@ export class ResourceService extends BaseService {
    */
   async getContact(contactId: number): Promise<ServiceResponse<Contact>> {
     const cacheKey = this.generateCacheKey('contact:single', { Id: contactId });
-    
-    // Check cache first
-    const cached = cacheManager.get<Contact>(cacheKey);
-    if (cached) {
-      this.logApiCall('ContactRequest', 'GET', true);
-      return {
-        success: true,
-        data: cached,
-        cached: true
-      };
-    }
 
-    // Make API call
-    this.logApiCall('ContactRequest', 'GET');
-    const response = await this.get<Contact>('ContactRequest', { Id: contactId });
-    
-    // Cache successful responses
-    if (response.success && response.data) {
-      cacheManager.set(cacheKey, response.data, 300); // 5 minutes
-    }
-    
-    return response;
+    return this.cachedRead(cacheKey, { ttl: 300, tags: [CacheTags.contact(contactId)] }, () => { // 5 minutes
+      this.logApiCall('ContactRequest', 'GET');
+      return this.get<Contact>('ContactRequest', { Id: contactId }, ContactSchema);
+    });
   }
 
   /**
@@ -734,7 +697,8 @@ export class ResourceService extends BaseService {
         if (!resourceResponse.success || !resourceResponse.data) {
           return {
             success: false,
-            error: resourceResponse.error || 'Failed to fetch resource'
+            error: resourceResponse.error || 'Failed to fetch resource',
+            apiError: resourceResponse.apiError
           };
         }
         resources = [resourceResponse.data];
@@ -743,7 +707,8 @@ export class ResourceService extends BaseService {
         if (!resourcesResponse.success || !resourcesResponse.data) {
           return {
             success: false,
-            error: resourcesResponse.error || 'Failed to fetch resources'
+            error: resourcesResponse.error || 'Failed to fetch resources',
+            apiError: resourcesResponse.apiError
           };
         }
         resources = resourcesResponse.data;
@@ -799,8 +764,8 @@ export class ResourceService extends BaseService {
    * Clear all resource cache
    */
   clearCache(): void {
-    cacheManager.delStartWith('resource');
-    cacheManager.delStartWith('contact');
+    this.cache.delStartWith('resource');
+    this.cache.delStartWith('contact');
     console.log('Resource and contact cache cleared');
   }
 }
\ No newline at end of file
@@ -0,0 +1,90 @@
+/**
+ * Identity Resolver
+ * Maps a Teams user to the Workbook employee resource they are (by Workbook login or email) and to their role
+ */
+
+import { ResourceTypes } from '../../constants/resourceTypes.js';
+import { Resource, RolePolicies, UserIdentity } from '../../types/workbook.types.js';
+import { WorkbookClient } from '../workbookClient.js';
+import { findRole, getPermissions } from './rolePolicies.js';
+
+// Teams account of the sender of a message (TeamsInfo.getMember, else activity.from)
+export interface TeamsMember {
+  aadObjectId?: string;
+  name?: string;
+  email?: string;
+  userPrincipalName?: string;
+}
+
+// Identities are kept this long so role changes in Workbook apply without a restart
+const IDENTITY_TTL_MS = 15 * 60 * 1000;
+
+export class IdentityResolver {
+  private policies: RolePolicies;
+  private identities = new Map<string, { identity: UserIdentity; expiresAt: number }>();
+
+  constructor(policies: RolePolicies) {
+    this.policies = policies;
+  }
+
+  /**
+   * Identity of a Teams user within a tenant's Workbook instance
+   * A failed employee lookup gives the unmatched role for this turn only
+   */
+  async resolve(client: WorkbookClient, member: TeamsMember): Promise<UserIdentity> {
+    const logins = [member.email, member.userPrincipalName]
+      .filter((login): login is string => !!login)
+      .map(login => login.toLowerCase());
+    const key = `${client.getTenantId() || 'default'}:${member.aadObjectId || logins[0] || member.name || 'anonymous'}`;
+
+    const known = this.identities.get(key);
+    if (known && known.expiresAt > Date.now()) {
+      return known.identity;
+    }
+
+    let employee: Resource | undefined;
+    let lookupFailed = false;
+    if (logins.length > 0) {
+      const response = await client.resources.search({ ResourceType: [ResourceTypes.EMPLOYEE], Active: true });
+      if (response.success && response.data) {
+        employee = response.data.find(resource =>
+          (resource.UserLogin && logins.includes(resource.UserLogin.toLowerCase()))
+          || (resource.Email && logins.includes(resource.Email.toLowerCase()))
+        );
+      } else {
+        lookupFailed = true;
+        console.warn(`⚠️ Could not look up the Workbook employee of ${logins[0]}: ${response.error}`);
+      }
+    }
+
+    const role = findRole(this.policies, employee, logins);
+    const identity: UserIdentity = {
+      aadObjectId: member.aadObjectId,
+      name: member.name,
+      email: logins[0],
+      employee: employee
+        ? {
+          id: employee.Id,
+          name: employee.Name,
+          email: employee.Email,
+          accessRoleId: employee.ApplicationAccessRoleId,
+          department: employee.ResourceFolder
+        }
+        : undefined,
+      role: role.name,
+      permissions: getPermissions(role)
+    };
+
+    if (!lookupFailed) {
+      this.identities.set(key, { identity, expiresAt: Date.now() + IDENTITY_TTL_MS });
+    }
+    return identity;
+  }
+
+  /**
+   * Forget resolved identities, e.g. after changing a user's access role in Workbook
+   */
+  clear(): void {
+    this.identities.clear();
+  }
+}
\ No newline at end of file
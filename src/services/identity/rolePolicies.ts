@@ -0,0 +1,109 @@
+/**
+ * Role Policies
+ * Which roles Teams users get from their Workbook employee, and what each role may do
+ * Configured with WORKBOOK_ROLE_POLICIES (JSON object) or WORKBOOK_ROLE_POLICIES_FILE (path to one)
+ */
+
+import fs from 'fs';
+import { z } from 'zod';
+import { Permission, RolePolicies, RolePolicy, Resource } from '../../types/workbook.types.js';
+
+export const ALL_PERMISSIONS: [Permission, ...Permission[]] = [
+  'resources.write', 'jobs.write', 'time.write', 'time.approve', 'financials.read', 'financials.margins', 'audit.read'
+];
+
+// Built-in role without permissions, for users who map to no Workbook employee
+export const GUEST_ROLE = 'guest';
+
+// Used when no policies are configured: employees read financials without margins and keep their own time
+// Nobody gets resources.write, jobs.write, time.approve, financials.margins or audit.read, so startup warns about it
+export const DEFAULT_ROLE_POLICIES: RolePolicies = {
+  roles: [
+    { name: 'employee', permissions: ['time.write', 'financials.read'] }
+  ],
+  employeeRole: 'employee',
+  unmatchedRole: GUEST_ROLE
+};
+
+const RolePolicySchema = z.object({
+  name: z.string().min(1),
+  permissions: z.array(z.union([z.enum(ALL_PERMISSIONS), z.literal('*')])),
+  accessRoleIds: z.array(z.number()).optional(),
+  departments: z.array(z.string()).optional(),
+  emails: z.array(z.string()).optional()
+});
+
+const RolePoliciesSchema = z.object({
+  roles: z.array(RolePolicySchema),
+  employeeRole: z.string().min(1),
+  unmatchedRole: z.string().min(1).default(GUEST_ROLE)
+});
+
+/**
+ * Load the configured role policies, or the defaults when none are configured
+ * Invalid configuration throws rather than falling back to policies nobody wrote
+ */
+export function loadRolePolicies(): RolePolicies {
+  const source = process.env.WORKBOOK_ROLE_POLICIES_FILE
+    ? fs.readFileSync(process.env.WORKBOOK_ROLE_POLICIES_FILE, 'utf8')
+    : process.env.WORKBOOK_ROLE_POLICIES;
+
+  if (!source) {
+    console.warn(`⚠️ No WORKBOOK_ROLE_POLICIES configured: every employee gets the "${DEFAULT_ROLE_POLICIES.employeeRole}" role (time.write, financials.read), so bulk operations, job changes, time approval, margins and the audit log are refused for all users`);
+    return DEFAULT_ROLE_POLICIES;
+  }
+
+  const parsed = RolePoliciesSchema.safeParse(JSON.parse(source));
+  if (!parsed.success) {
+    throw new Error(`Invalid role policies: ${parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ')}`);
+  }
+
+  const policies = parsed.data;
+  const names = policies.roles.map(role => role.name);
+  const duplicate = names.find((name, index) => names.indexOf(name) !== index);
+  if (duplicate) {
+    throw new Error(`Invalid role policies: role "${duplicate}" is defined twice`);
+  }
+  for (const name of [policies.employeeRole, policies.unmatchedRole]) {
+    if (name !== GUEST_ROLE && !names.includes(name)) {
+      throw new Error(`Invalid role policies: unknown role "${name}"`);
+    }
+  }
+
+  return policies;
+}
+
+/**
+ * Role of a Teams user: the first role matching the employee's access role, department or email,
+ * then the employee role, or the unmatched role for users without a Workbook employee
+ * @param logins - Teams email/user principal name of the user (lower case)
+ */
+export function findRole(policies: RolePolicies, employee: Resource | undefined, logins: string[]): RolePolicy {
+  const emails = [...logins, employee?.Email, employee?.UserLogin]
+    .filter((email): email is string => !!email)
+    .map(email => email.toLowerCase());
+
+  const matched = policies.roles.find(role =>
+    (employee?.ApplicationAccessRoleId !== undefined && role.accessRoleIds?.includes(employee.ApplicationAccessRoleId))
+    || (employee?.ResourceFolder && role.departments?.some(department => department.toLowerCase() === employee.ResourceFolder!.toLowerCase()))
+    || role.emails?.some(email => emails.includes(email.toLowerCase()))
+  );
+  if (matched) {
+    return matched;
+  }
+
+  return getRole(policies, employee ? policies.employeeRole : policies.unmatchedRole);
+}
+
+/**
+ * Permissions a role grants, with '*' expanded
+ */
+export function getPermissions(role: RolePolicy): Permission[] {
+  return role.permissions.includes('*')
+    ? [...ALL_PERMISSIONS]
+    : role.permissions.filter((permission): permission is Permission => permission !== '*');
+}
+
+function getRole(policies: RolePolicies, name: string): RolePolicy {
+  return policies.roles.find(role => role.name === name) || { name: GUEST_ROLE, permissions: [] };
+}
\ No newline at end of file
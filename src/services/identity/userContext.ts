@@ -0,0 +1,55 @@
+/**
+ * User Context
+ * Teams user of the turn being handled, the conversation it belongs to and the message they sent, so tools
+ * can check what that user may do and what they asked for in their own words, and audit records and traffic
+ * recordings can be tied to the conversation
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { UserIdentity } from '../../types/workbook.types.js';
+
+const userContext = new AsyncLocalStorage<UserIdentity>();
+const messageContext = new AsyncLocalStorage<string>();
+const conversationContext = new AsyncLocalStorage<string | undefined>();
+
+/**
+ * Run one turn on behalf of a Teams user
+ */
+export function withUser<T>(identity: UserIdentity, fn: () => Promise<T>): Promise<T> {
+  return userContext.run(identity, fn);
+}
+
+/**
+ * User of the current turn, undefined outside a turn
+ */
+export function getCurrentUser(): UserIdentity | undefined {
+  return userContext.getStore();
+}
+
+/**
+ * Run one turn with the message the user sent
+ */
+export function withUserMessage<T>(message: string, fn: () => Promise<T>): Promise<T> {
+  return messageContext.run(message, fn);
+}
+
+/**
+ * Message of the current turn as the user wrote it, undefined outside a turn
+ */
+export function getCurrentUserMessage(): string | undefined {
+  return messageContext.getStore();
+}
+
+/**
+ * Run one turn as part of a Teams conversation
+ */
+export function withConversation<T>(conversationId: string | undefined, fn: () => Promise<T>): Promise<T> {
+  return conversationContext.run(conversationId, fn);
+}
+
+/**
+ * Conversation of the current turn, undefined outside a turn
+ */
+export function getCurrentConversationId(): string | undefined {
+  return conversationContext.getStore();
+}
\ No newline at end of file
@@ -2,8 +2,12 @@
 
 export { WorkbookClient } from './workbookClient.js';
 export { ResourceService } from './domains/resourceService.js';
+export { BillingService } from './domains/billingService.js';
+export { AnalyticsService, forecastSeries, shiftMonth, LOW_MARGIN_RISK_FACTOR } from './domains/analyticsService.js';
+export { FollowUpService } from './domains/followUpService.js';
+export { ClientProfileService } from './domains/clientProfileService.js';
 export { BaseService } from './base/baseService.js';
-export { cacheManager, CacheManager } from './base/cache.js';
+export { cacheManager, CacheManager, CacheTags } from './base/cache.js';
 export { RelationshipService } from './relationshipService.js';
 
 // Export types
@@ -46,7 +46,8 @@ class KeyVaultService {
       'workbook-api-key-prod': 'WORKBOOK_API_KEY_PROD',
       'workbook-password-dev': 'WORKBOOK_PASSWORD_DEV',
       'workbook-password-prod': 'WORKBOOK_PASSWORD_PROD',
-      'postgres-connection-string': 'POSTGRES_CONNECTION_STRING'
+      'postgres-connection-string': 'POSTGRES_CONNECTION_STRING',
+      'admin-api-key': 'ADMIN_API_KEY'
     };
 
     if (this.isProduction) {
@@ -0,0 +1,236 @@
+/**
+ * Resource Mirror Storage
+ * Persists the local mirror of Workbook resources and contacts so a restart does not need a full download
+ * LibSQL file locally, PostgreSQL in Azure (same split as the agent memory in workbookAgent.ts)
+ * Each tenant gets its own tables (and its own LibSQL file by default)
+ */
+
+import { createClient, Client, InStatement } from '@libsql/client';
+import { Pool } from 'pg';
+import { keyVaultService } from '../keyVault.js';
+
+export type MirrorEntity = 'resources' | 'contacts';
+
+export interface MirrorRecord {
+  id: number;
+  parentId?: number;            // Parent company of a contact
+  updateDate?: string;          // UpdateDate, or CreateDate for records never updated
+  data: unknown;                // Full record as returned by Workbook
+}
+
+export interface MirrorSyncState {
+  lastChangeScan?: string;
+  lastFullReconcile?: string;
+}
+
+/* eslint-disable no-unused-vars */
+export interface MirrorStore {
+  readonly kind: 'libsql' | 'postgres';
+  initialize(): Promise<void>;
+  load<T>(entity: MirrorEntity): Promise<T[]>;
+  upsert(entity: MirrorEntity, records: MirrorRecord[]): Promise<void>;
+  remove(entity: MirrorEntity, ids: number[]): Promise<void>;
+  getState(): Promise<MirrorSyncState>;
+  saveState(state: MirrorSyncState): Promise<void>;
+  close(): Promise<void>;
+}
+/* eslint-enable no-unused-vars */
+
+type MirrorTables = Record<MirrorEntity | 'state', string>;
+
+/**
+ * Table names of a tenant's mirror; the unsuffixed names belong to a client without a tenant
+ */
+function getMirrorTables(tenantId?: string): MirrorTables {
+  const suffix = tenantId ? `_${tenantId.toLowerCase().replace(/[^a-z0-9_]/g, '_')}` : '';
+  return {
+    resources: `workbook_mirror_resources${suffix}`,
+    contacts: `workbook_mirror_contacts${suffix}`,
+    state: `workbook_mirror_state${suffix}`
+  };
+}
+
+// Rows per statement when deleting by ID, below SQLite's bound parameter limit
+const DELETE_CHUNK_SIZE = 500;
+
+/**
+ * Mirror storage in a LibSQL (SQLite) database file
+ */
+export class LibSQLMirrorStore implements MirrorStore {
+  readonly kind = 'libsql';
+  private client: Client;
+  private tables: MirrorTables;
+
+  constructor(url: string, tenantId?: string) {
+    this.client = createClient({ url });
+    this.tables = getMirrorTables(tenantId);
+  }
+
+  async initialize(): Promise<void> {
+    const statements = [this.tables.resources, this.tables.contacts].map(table => `
+      CREATE TABLE IF NOT EXISTS ${table} (
+        id INTEGER PRIMARY KEY,
+        parent_id INTEGER,
+        update_date TEXT,
+        data TEXT NOT NULL,
+        synced_at TEXT NOT NULL
+      )
+    `);
+    statements.push(`CREATE TABLE IF NOT EXISTS ${this.tables.state} (key TEXT PRIMARY KEY, value TEXT NOT NULL)`);
+    await this.client.batch(statements, 'write');
+  }
+
+  async load<T>(entity: MirrorEntity): Promise<T[]> {
+    const result = await this.client.execute(`SELECT data FROM ${this.tables[entity]}`);
+    return result.rows.map(row => JSON.parse(String(row.data)) as T);
+  }
+
+  async upsert(entity: MirrorEntity, records: MirrorRecord[]): Promise<void> {
+    if (records.length === 0) {
+      return;
+    }
+    const syncedAt = new Date().toISOString();
+    const statements: InStatement[] = records.map(record => ({
+      sql: `INSERT INTO ${this.tables[entity]} (id, parent_id, update_date, data, synced_at) VALUES (?, ?, ?, ?, ?)
+            ON CONFLICT(id) DO UPDATE SET parent_id = excluded.parent_id, update_date = excluded.update_date,
+            data = excluded.data, synced_at = excluded.synced_at`,
+      args: [record.id, record.parentId ?? null, record.updateDate ?? null, JSON.stringify(record.data), syncedAt]
+    }));
+    await this.client.batch(statements, 'write');
+  }
+
+  async remove(entity: MirrorEntity, ids: number[]): Promise<void> {
+    for (let start = 0; start < ids.length; start += DELETE_CHUNK_SIZE) {
+      const chunk = ids.slice(start, start + DELETE_CHUNK_SIZE);
+      await this.client.execute({
+        sql: `DELETE FROM ${this.tables[entity]} WHERE id IN (${chunk.map(() => '?').join(', ')})`,
+        args: chunk
+      });
+    }
+  }
+
+  async getState(): Promise<MirrorSyncState> {
+    const result = await this.client.execute({ sql: `SELECT value FROM ${this.tables.state} WHERE key = ?`, args: ['sync'] });
+    return result.rows.length > 0 ? JSON.parse(String(result.rows[0].value)) as MirrorSyncState : {};
+  }
+
+  async saveState(state: MirrorSyncState): Promise<void> {
+    await this.client.execute({
+      sql: `INSERT INTO ${this.tables.state} (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value`,
+      args: ['sync', JSON.stringify(state)]
+    });
+  }
+
+  async close(): Promise<void> {
+    this.client.close();
+  }
+}
+
+/**
+ * Mirror storage in PostgreSQL
+ */
+export class PostgresMirrorStore implements MirrorStore {
+  readonly kind = 'postgres';
+  private pool: Pool;
+  private tables: MirrorTables;
+
+  constructor(connectionString: string, tenantId?: string) {
+    this.pool = new Pool({
+      connectionString,
+      ssl: { rejectUnauthorized: false }
+    });
+    this.tables = getMirrorTables(tenantId);
+  }
+
+  async initialize(): Promise<void> {
+    const createTables = [this.tables.resources, this.tables.contacts].map(table => `
+      CREATE TABLE IF NOT EXISTS ${table} (
+        id INTEGER PRIMARY KEY,
+        parent_id INTEGER,
+        update_date TEXT,
+        data JSONB NOT NULL,
+        synced_at TIMESTAMPTZ NOT NULL
+      );
+    `).join('\n');
+
+    await this.pool.query(`${createTables}
+      CREATE TABLE IF NOT EXISTS ${this.tables.state} (key VARCHAR(50) PRIMARY KEY, value JSONB NOT NULL);
+    `);
+  }
+
+  async load<T>(entity: MirrorEntity): Promise<T[]> {
+    const result = await this.pool.query(`SELECT data FROM ${this.tables[entity]}`);
+    return result.rows.map(row => row.data as T);
+  }
+
+  async upsert(entity: MirrorEntity, records: MirrorRecord[]): Promise<void> {
+    if (records.length === 0) {
+      return;
+    }
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      for (const record of records) {
+        await client.query(
+          `INSERT INTO ${this.tables[entity]} (id, parent_id, update_date, data, synced_at) VALUES ($1, $2, $3, $4, NOW())
+           ON CONFLICT (id) DO UPDATE SET parent_id = EXCLUDED.parent_id, update_date = EXCLUDED.update_date,
+           data = EXCLUDED.data, synced_at = EXCLUDED.synced_at`,
+          [record.id, record.parentId ?? null, record.updateDate ?? null, JSON.stringify(record.data)]
+        );
+      }
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async remove(entity: MirrorEntity, ids: number[]): Promise<void> {
+    if (ids.length === 0) {
+      return;
+    }
+    await this.pool.query(`DELETE FROM ${this.tables[entity]} WHERE id = ANY($1)`, [ids]);
+  }
+
+  async getState(): Promise<MirrorSyncState> {
+    const result = await this.pool.query(`SELECT value FROM ${this.tables.state} WHERE key = $1`, ['sync']);
+    return result.rows.length > 0 ? result.rows[0].value as MirrorSyncState : {};
+  }
+
+  async saveState(state: MirrorSyncState): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO ${this.tables.state} (key, value) VALUES ($1, $2) ON CONFLICT (key) DO UPDATE SET value = EXCLUDED.value`,
+      ['sync', JSON.stringify(state)]
+    );
+  }
+
+  async close(): Promise<void> {
+    await this.pool.end();
+  }
+}
+
+/**
+ * Pick the mirror storage for the environment
+ * PostgreSQL in Azure (falling back to a LibSQL file), LibSQL locally; WORKBOOK_MIRROR_DB overrides the LibSQL URL
+ * @param tenantId - Tenant whose mirror it is; keeps its tables and default file apart from other tenants'
+ */
+export async function createMirrorStore(tenantId?: string): Promise<MirrorStore> {
+  const isProduction = process.env.NODE_ENV === 'production' || !!process.env.WEBSITE_INSTANCE_ID;
+
+  if (isProduction) {
+    try {
+      const connectionString = await keyVaultService.getSecret('postgres-connection-string');
+      console.log('🪞 Using PostgreSQL for the resource mirror');
+      return new PostgresMirrorStore(connectionString, tenantId);
+    } catch (error) {
+      console.error('Failed to get PostgreSQL connection for the resource mirror, falling back to LibSQL', error);
+    }
+  }
+
+  const fileSuffix = tenantId ? `-${tenantId}` : '';
+  const url = process.env.WORKBOOK_MIRROR_DB || `file:./workbook-mirror${fileSuffix}-${isProduction ? 'prod' : 'dev'}.db`;
+  console.log(`🪞 Using LibSQL for the resource mirror: ${url}`);
+  return new LibSQLMirrorStore(url, tenantId);
+}
\ No newline at end of file
@@ -0,0 +1,443 @@
+import { Resource, Contact, ServiceResponse } from '../../types/workbook.types.js';
+import { ResourceTypes } from '../../constants/resourceTypes.js';
+import { ResourceService } from '../domains/resourceService.js';
+import { MirrorStore, MirrorRecord, MirrorSyncState } from './mirrorStore.js';
+import { trackEvent } from '../../utils/telemetry.js';
+
+// Resource types that own contact persons
+const CONTACT_PARENT_TYPES: number[] = [ResourceTypes.COMPANY, ResourceTypes.CLIENT, ResourceTypes.SUPPLIER, ResourceTypes.PROSPECT];
+// Resource fields a write can change that mirrored contacts also carry
+const CONTACT_WRITE_FIELDS = ['Active', 'Name', 'Email', 'Initials', 'Phone1'];
+
+export interface ResourceMirrorOptions {
+  changeScanIntervalMs: number;    // How often the resource list is scanned for new and changed records
+  reconcileIntervalMs: number;     // How often everything, contacts included, is re-downloaded to catch deletions
+  contactConcurrency: number;      // ContactsForResourceRequest calls in flight at once
+}
+
+const DEFAULT_OPTIONS: ResourceMirrorOptions = {
+  changeScanIntervalMs: 5 * 60 * 1000,
+  reconcileIntervalMs: 6 * 60 * 60 * 1000,
+  contactConcurrency: 4
+};
+
+export interface MirrorSyncSummary {
+  mode: 'changeScan' | 'reconcile';
+  resourcesUpdated: number;
+  resourcesRemoved: number;
+  contactsUpdated: number;
+  contactsRemoved: number;
+  contactFailures: number;         // Companies whose contacts could not be fetched; retried on the next sync
+  durationMs: number;
+}
+
+export interface MirrorStatus {
+  enabled: boolean;
+  ready: boolean;
+  store?: MirrorStore['kind'];
+  resourceCount: number;
+  contactCount: number;
+  asOf?: string;
+  lastChangeScan?: string;
+  lastFullReconcile?: string;
+  syncing: boolean;
+}
+
+/**
+ * ResourceMirror - Local copy of Workbook resources and contacts for read-only tools
+ * ResourcesRequest cannot filter on UpdateDate, so a change scan lists every resource and fetches the
+ * records whose UpdateDate/CreateDate moved, plus the contacts of changed companies and of changed contact
+ * persons. A periodic full reconcile re-downloads everything, contacts included, so deletions and edits the
+ * change dates miss are caught. Reads return the mirror with an asOf stamp, and go to the live API until
+ * the mirror is started and has completed its first reconcile.
+ */
+export class ResourceMirror {
+  private resources: ResourceService;
+  private store?: MirrorStore;
+  private options: ResourceMirrorOptions = DEFAULT_OPTIONS;
+  private resourcesById = new Map<number, Resource>();
+  private contactsById = new Map<number, Contact>();
+  private state: MirrorSyncState = {};
+  private syncing?: Promise<ServiceResponse<MirrorSyncSummary>>;
+  private timers: ReturnType<typeof setInterval>[] = [];
+
+  constructor(resources: ResourceService) {
+    this.resources = resources;
+    resources.onWrite((id, updates) => this.applyWrite(id, updates));
+  }
+
+  /**
+   * Load the mirror from storage, then keep it in sync in the background
+   */
+  async start(store: MirrorStore, options: Partial<ResourceMirrorOptions> = {}): Promise<void> {
+    this.store = store;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+
+    await store.initialize();
+    const [resources, contacts, state] = await Promise.all([
+      store.load<Resource>('resources'),
+      store.load<Contact>('contacts'),
+      store.getState()
+    ]);
+    resources.forEach(resource => this.resourcesById.set(resource.Id, resource));
+    contacts.forEach(contact => this.contactsById.set(contact.Id, contact));
+    this.state = state;
+
+    console.log(`🪞 Resource mirror loaded ${resources.length} resources and ${contacts.length} contacts (as of ${this.asOf || 'never'})`);
+
+    // Catch up now without holding up startup; a mirror that was never reconciled or is overdue gets a full pass
+    const reconcileDue = !state.lastFullReconcile
+      || Date.now() - Date.parse(state.lastFullReconcile) > this.options.reconcileIntervalMs;
+    void (reconcileDue ? this.reconcile() : this.scanChanges());
+
+    this.timers = [
+      setInterval(() => void this.scanChanges(), this.options.changeScanIntervalMs),
+      setInterval(() => void this.reconcile(), this.options.reconcileIntervalMs)
+    ];
+    this.timers.forEach(timer => timer.unref());
+  }
+
+  async stop(): Promise<void> {
+    this.timers.forEach(timer => clearInterval(timer));
+    this.timers = [];
+    await this.syncing;
+    await this.store?.close();
+    this.store = undefined;
+  }
+
+  /**
+   * True once the mirror has completed a full reconcile and can answer reads
+   */
+  get isReady(): boolean {
+    return !!this.store && !!this.state.lastFullReconcile;
+  }
+
+  /**
+   * When the mirror last heard from Workbook
+   */
+  get asOf(): string | undefined {
+    const { lastChangeScan, lastFullReconcile } = this.state;
+    if (!lastChangeScan || !lastFullReconcile) {
+      return lastChangeScan || lastFullReconcile;
+    }
+    return lastChangeScan > lastFullReconcile ? lastChangeScan : lastFullReconcile;
+  }
+
+  /**
+   * All resources, from the mirror when ready
+   */
+  async getAllResources(): Promise<ServiceResponse<Resource[]>> {
+    if (!this.isReady) {
+      return this.resources.getAllResourcesComplete();
+    }
+    return this.fromMirror([...this.resourcesById.values()]);
+  }
+
+  /**
+   * Resources of the given types and status, from the mirror when ready
+   */
+  async searchResources(filter: { resourceTypes?: number[]; active?: boolean }): Promise<ServiceResponse<Resource[]>> {
+    if (!this.isReady) {
+      const params: Record<string, unknown> = {};
+      if (filter.resourceTypes) {
+        params.ResourceType = filter.resourceTypes;
+      }
+      if (filter.active !== undefined) {
+        params.Active = filter.active;
+      }
+      return this.resources.search(params);
+    }
+
+    const resources = [...this.resourcesById.values()]
+      .filter(resource => !filter.resourceTypes || filter.resourceTypes.includes(resource.TypeId ?? 0))
+      .filter(resource => filter.active === undefined || resource.Active === filter.active);
+    return this.fromMirror(resources);
+  }
+
+  /**
+   * Contacts of a company, from the mirror when ready
+   */
+  async getContactsForResource(resourceId: number, active?: boolean): Promise<ServiceResponse<Contact[]>> {
+    if (!this.isReady) {
+      return this.resources.getContactsForResource(resourceId, active);
+    }
+
+    const contacts = [...this.contactsById.values()]
+      .filter(contact => contact.ParentResourceId === resourceId)
+      .filter(contact => active === undefined || contact.Active === active);
+    return this.fromMirror(contacts);
+  }
+
+  getStatus(): MirrorStatus {
+    return {
+      enabled: !!this.store,
+      ready: this.isReady,
+      store: this.store?.kind,
+      resourceCount: this.resourcesById.size,
+      contactCount: this.contactsById.size,
+      asOf: this.asOf,
+      lastChangeScan: this.state.lastChangeScan,
+      lastFullReconcile: this.state.lastFullReconcile,
+      syncing: !!this.syncing
+    };
+  }
+
+  /**
+   * Pull new and changed resources, and the contacts of changed companies and contact persons
+   */
+  scanChanges(): Promise<ServiceResponse<MirrorSyncSummary>> {
+    return this.exclusive('changeScan', () => this.runChangeScan());
+  }
+
+  /**
+   * Re-download every resource and contact, removing records deleted in Workbook
+   */
+  reconcile(): Promise<ServiceResponse<MirrorSyncSummary>> {
+    return this.exclusive('reconcile', () => this.runReconcile());
+  }
+
+  /**
+   * Run one sync at a time; a sync requested while another runs waits for it instead
+   */
+  private async exclusive(
+    mode: MirrorSyncSummary['mode'],
+    sync: () => Promise<ServiceResponse<MirrorSyncSummary>>
+  ): Promise<ServiceResponse<MirrorSyncSummary>> {
+    if (!this.store) {
+      return { success: false, error: 'Resource mirror is not started' };
+    }
+    if (this.syncing) {
+      return this.syncing;
+    }
+
+    this.syncing = sync()
+      .catch((error): ServiceResponse<MirrorSyncSummary> => ({
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }))
+      .then(result => {
+        if (result.success && result.data) {
+          const summary = result.data;
+          console.log(`🪞 Mirror ${mode} sync: ${summary.resourcesUpdated} resources updated, ${summary.resourcesRemoved} removed, ${summary.contactsUpdated} contacts updated, ${summary.contactsRemoved} removed (${summary.durationMs}ms)`);
+          trackEvent('ResourceMirror.Sync', { mode }, {
+            resourcesUpdated: summary.resourcesUpdated,
+            resourcesRemoved: summary.resourcesRemoved,
+            contactsUpdated: summary.contactsUpdated,
+            contactsRemoved: summary.contactsRemoved,
+            contactFailures: summary.contactFailures,
+            durationMs: summary.durationMs
+          });
+        } else {
+          console.error(`❌ Mirror ${mode} sync failed:`, result.error);
+        }
+        return result;
+      })
+      .finally(() => {
+        this.syncing = undefined;
+      });
+
+    return this.syncing;
+  }
+
+  private async runChangeScan(): Promise<ServiceResponse<MirrorSyncSummary>> {
+    const startTime = Date.now();
+    const listing = await this.resources.listResourceSummaries();
+    if (!listing.success || !listing.data) {
+      return { success: false, error: listing.error || 'Failed to list resources', apiError: listing.apiError };
+    }
+
+    // New records, or records whose change date moved past the mirrored copy
+    const changedIds = listing.data
+      .filter(summary => {
+        const mirrored = this.resourcesById.get(summary.Id);
+        return !mirrored || isNewer(getChangeDate(summary), getChangeDate(mirrored));
+      })
+      .map(summary => summary.Id);
+
+    let changed: Resource[] = [];
+    if (changedIds.length > 0) {
+      const response = await this.resources.getBulkByIds(changedIds);
+      if (!response.success || !response.data) {
+        return { success: false, error: response.error || 'Failed to fetch changed resources', apiError: response.apiError };
+      }
+      changed = response.data;
+      await this.store!.upsert('resources', changed.map(toRecord));
+      changed.forEach(resource => this.resourcesById.set(resource.Id, resource));
+    }
+
+    // Contact persons are listed as resources too, so an edited contact refreshes the contacts of its company
+    const parentIds = new Set(changed.flatMap(resource => {
+      if (isContactParent(resource)) {
+        return [resource.Id];
+      }
+      const parentId = resource.ParentResourceId ?? this.contactsById.get(resource.Id)?.ParentResourceId;
+      return resource.TypeId === ResourceTypes.CONTACT_PERSON && parentId ? [parentId] : [];
+    }));
+
+    const contacts = await this.refreshContacts([...parentIds]);
+
+    this.state = { ...this.state, lastChangeScan: new Date(startTime).toISOString() };
+    await this.store!.saveState(this.state);
+
+    return {
+      success: true,
+      data: {
+        mode: 'changeScan',
+        resourcesUpdated: changed.length,
+        resourcesRemoved: 0,
+        ...contacts,
+        durationMs: Date.now() - startTime
+      }
+    };
+  }
+
+  private async runReconcile(): Promise<ServiceResponse<MirrorSyncSummary>> {
+    const startTime = Date.now();
+    // Straight from the API: a reconcile built from cached data would be stamped fresh while it is not
+    const response = await this.resources.getAllResourcesComplete(true);
+    if (!response.success || !response.data) {
+      return { success: false, error: response.error || 'Failed to fetch resources', apiError: response.apiError };
+    }
+
+    const liveIds = new Set(response.data.map(resource => resource.Id));
+    const removedIds = [...this.resourcesById.keys()].filter(id => !liveIds.has(id));
+
+    await this.store!.upsert('resources', response.data.map(toRecord));
+    await this.store!.remove('resources', removedIds);
+    this.resourcesById = new Map(response.data.map(resource => [resource.Id, resource]));
+
+    // Contacts of companies that no longer exist go with them
+    const orphanedContactIds = [...this.contactsById.values()]
+      .filter(contact => !liveIds.has(contact.ParentResourceId))
+      .map(contact => contact.Id);
+    await this.store!.remove('contacts', orphanedContactIds);
+    orphanedContactIds.forEach(id => this.contactsById.delete(id));
+
+    const contacts = await this.refreshContacts(response.data.filter(isContactParent).map(resource => resource.Id));
+
+    const syncedAt = new Date(startTime).toISOString();
+    this.state = { lastChangeScan: syncedAt, lastFullReconcile: syncedAt };
+    await this.store!.saveState(this.state);
+
+    return {
+      success: true,
+      data: {
+        mode: 'reconcile',
+        resourcesUpdated: response.data.length,
+        resourcesRemoved: removedIds.length,
+        ...contacts,
+        contactsRemoved: contacts.contactsRemoved + orphanedContactIds.length,
+        durationMs: Date.now() - startTime
+      }
+    };
+  }
+
+  /**
+   * Apply a write made through ResourceService to the mirrored copies, so reads see it before the next sync
+   * A sync already running may have fetched the old values, so the write is applied again once it is done
+   */
+  private async applyWrite(id: number, updates: Partial<Resource>): Promise<void> {
+    await this.patchRecords(id, updates);
+    if (this.syncing) {
+      void this.syncing
+        .then(() => this.patchRecords(id, updates))
+        .catch(error => console.error(`❌ Mirror could not apply the write to resource ${id}:`, error));
+    }
+  }
+
+  private async patchRecords(id: number, updates: Partial<Resource>): Promise<void> {
+    if (!this.store) {
+      return;
+    }
+
+    const resource = this.resourcesById.get(id);
+    if (resource) {
+      const updated = { ...resource, ...updates };
+      this.resourcesById.set(id, updated);
+      await this.store.upsert('resources', [toRecord(updated)]);
+    }
+
+    const contact = this.contactsById.get(id);
+    if (contact) {
+      const contactUpdates = Object.entries(updates).filter(([field]) => CONTACT_WRITE_FIELDS.includes(field));
+      const updated = { ...contact, ...Object.fromEntries(contactUpdates) } as Contact;
+      this.contactsById.set(id, updated);
+      await this.store.upsert('contacts', [toRecord(updated)]);
+    }
+  }
+
+  /**
+   * Replace the mirrored contacts of each company with the live list, with bounded concurrency
+   */
+  private async refreshContacts(parentIds: number[]): Promise<Pick<MirrorSyncSummary, 'contactsUpdated' | 'contactsRemoved' | 'contactFailures'>> {
+    const totals = { contactsUpdated: 0, contactsRemoved: 0, contactFailures: 0 };
+    let next = 0;
+
+    const worker = async (): Promise<void> => {
+      while (next < parentIds.length) {
+        const parentId = parentIds[next++];
+        const response = await this.resources.getContactsForResource(parentId, undefined, true);
+        if (!response.success || !response.data) {
+          totals.contactFailures++;
+          continue;
+        }
+
+        const liveIds = new Set(response.data.map(contact => contact.Id));
+        const removedIds = [...this.contactsById.values()]
+          .filter(contact => contact.ParentResourceId === parentId && !liveIds.has(contact.Id))
+          .map(contact => contact.Id);
+
+        await this.store!.upsert('contacts', response.data.map(toRecord));
+        await this.store!.remove('contacts', removedIds);
+        response.data.forEach(contact => this.contactsById.set(contact.Id, contact));
+        removedIds.forEach(id => this.contactsById.delete(id));
+
+        totals.contactsUpdated += response.data.length;
+        totals.contactsRemoved += removedIds.length;
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(this.options.contactConcurrency, parentIds.length) }, worker));
+
+    if (totals.contactFailures > 0) {
+      console.warn(`⚠️ Mirror could not fetch contacts for ${totals.contactFailures} of ${parentIds.length} companies`);
+    }
+    return totals;
+  }
+
+  private fromMirror<T>(data: T): ServiceResponse<T> {
+    return {
+      success: true,
+      data,
+      cached: true,
+      asOf: this.asOf
+    };
+  }
+}
+
+function getChangeDate(record: { UpdateDate?: string; CreateDate?: string }): string | undefined {
+  return record.UpdateDate || record.CreateDate;
+}
+
+/**
+ * True when the listed change date is later than the mirrored one; records without dates never count as changed
+ */
+function isNewer(listed: string | undefined, mirrored: string | undefined): boolean {
+  if (!listed) {
+    return false;
+  }
+  return !mirrored || Date.parse(listed) > Date.parse(mirrored);
+}
+
+function isContactParent(resource: Resource): boolean {
+  return CONTACT_PARENT_TYPES.includes(resource.TypeId ?? 0);
+}
+
+function toRecord(record: Resource | Contact): MirrorRecord {
+  return {
+    id: record.Id,
+    parentId: record.ParentResourceId,
+    updateDate: getChangeDate(record),
+    data: record
+  };
+}
\ No newline at end of file
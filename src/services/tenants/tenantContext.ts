@@ -0,0 +1,32 @@
+/**
+ * Tenant Context
+ * Tenant of the Teams turn being handled, so code shared by every tenant (tools, freshness checks, exports)
+ * reaches that tenant's Workbook client, cache entries and files
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import path from 'path';
+
+const tenantContext = new AsyncLocalStorage<string>();
+
+/**
+ * Run one turn on behalf of a tenant
+ */
+export function withTenant<T>(tenantId: string, fn: () => Promise<T>): Promise<T> {
+  return tenantContext.run(tenantId, fn);
+}
+
+/**
+ * Tenant of the current turn, undefined outside a turn
+ */
+export function getCurrentTenantId(): string | undefined {
+  return tenantContext.getStore();
+}
+
+/**
+ * Local exports directory of the current tenant (exports/<tenant>, or exports outside a turn)
+ */
+export function getTenantExportsDir(): string {
+  const tenantId = getCurrentTenantId();
+  return tenantId ? path.join(process.cwd(), 'exports', tenantId) : path.join(process.cwd(), 'exports');
+}
\ No newline at end of file
@@ -0,0 +1,58 @@
+/**
+ * Tenant Profiles
+ * Workbook connection of each subsidiary and the Teams tenants/teams routed to it
+ * Configured with WORKBOOK_TENANTS (JSON array) or WORKBOOK_TENANTS_FILE (path to one)
+ */
+
+import fs from 'fs';
+import { z } from 'zod';
+import { TenantProfile } from '../../types/workbook.types.js';
+
+// The single Workbook instance used when no tenants are configured
+export const DEFAULT_TENANT_PROFILE: TenantProfile = {
+  id: 'default',
+  name: 'Ambition Demo',
+  baseUrl: 'ambitiondemo.workbook.net',
+  username: 'tg',
+  apiKeySecret: 'workbook-api-key-dev',
+  passwordSecret: 'workbook-password-dev'
+};
+
+const TenantProfileSchema = z.object({
+  // Ends up in cache keys, table names and file names
+  id: z.string().regex(/^[a-z0-9][a-z0-9_-]*$/i, 'Tenant ids may only contain letters, digits, "-" and "_"'),
+  name: z.string().min(1),
+  baseUrl: z.string().min(1),
+  username: z.string().optional(),
+  apiKeySecret: z.string().min(1),
+  passwordSecret: z.string().optional(),
+  teamsTenantIds: z.array(z.string()).optional(),
+  teamIds: z.array(z.string()).optional()
+});
+
+/**
+ * Load the configured tenant profiles, or the default profile when none are configured
+ * Invalid configuration throws so a misrouted tenant never silently falls back to another instance
+ */
+export function loadTenantProfiles(): TenantProfile[] {
+  const source = process.env.WORKBOOK_TENANTS_FILE
+    ? fs.readFileSync(process.env.WORKBOOK_TENANTS_FILE, 'utf8')
+    : process.env.WORKBOOK_TENANTS;
+
+  if (!source) {
+    return [DEFAULT_TENANT_PROFILE];
+  }
+
+  const parsed = z.array(TenantProfileSchema).min(1).safeParse(JSON.parse(source));
+  if (!parsed.success) {
+    throw new Error(`Invalid tenant configuration: ${parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ')}`);
+  }
+
+  const ids = parsed.data.map(profile => profile.id);
+  const duplicate = ids.find((id, index) => ids.indexOf(id) !== index);
+  if (duplicate) {
+    throw new Error(`Invalid tenant configuration: tenant id "${duplicate}" is used twice`);
+  }
+
+  return parsed.data;
+}
\ No newline at end of file
@@ -0,0 +1,108 @@
+/**
+ * Tenant Registry
+ * Routes each Teams turn to the Workbook instance of its tenant and keeps one WorkbookClient per tenant
+ */
+
+import { TenantProfile } from '../../types/workbook.types.js';
+import { WorkbookClient } from '../workbookClient.js';
+import { getCurrentTenantId } from './tenantContext.js';
+
+// eslint-disable-next-line no-unused-vars
+export type TenantClientFactory = (profile: TenantProfile) => Promise<WorkbookClient>;
+
+// Where a Teams activity came from
+export interface TenantRoute {
+  tenantId?: string;             // Azure AD tenant (activity.conversation.tenantId)
+  teamId?: string;               // Teams team (activity.channelData.team.id)
+}
+
+export class TenantRegistry {
+  private profiles: TenantProfile[];
+  private defaultProfile?: TenantProfile;
+  private createClient: TenantClientFactory;
+  private clients = new Map<string, Promise<WorkbookClient>>();
+  private readyClients = new Map<string, WorkbookClient>();
+
+  /**
+   * @param profiles - Tenant profiles (see tenantProfiles.ts)
+   * @param createClient - Builds and starts the client of a tenant
+   * @param defaultTenantId - Tenant of turns that match no profile (WORKBOOK_DEFAULT_TENANT); without it only a
+   * single configured tenant is a default, so one subsidiary's users are never routed to another's Workbook
+   */
+  constructor(profiles: TenantProfile[], createClient: TenantClientFactory, defaultTenantId: string | undefined = process.env.WORKBOOK_DEFAULT_TENANT) {
+    this.profiles = profiles;
+    this.createClient = createClient;
+    this.defaultProfile = defaultTenantId ? this.getProfile(defaultTenantId) : profiles.length === 1 ? profiles[0] : undefined;
+  }
+
+  /**
+   * Tenant profile of a Teams activity: a team match wins over a tenant match, then the default tenant
+   * Undefined when nothing matches and there is no default; such turns must be refused
+   */
+  resolve(route: TenantRoute): TenantProfile | undefined {
+    const { tenantId, teamId } = route;
+    return (teamId && this.profiles.find(profile => profile.teamIds?.includes(teamId)))
+      || (tenantId && this.profiles.find(profile => profile.teamsTenantIds?.includes(tenantId)))
+      || this.defaultProfile;
+  }
+
+  getProfile(tenantId: string): TenantProfile {
+    const profile = this.profiles.find(candidate => candidate.id === tenantId);
+    if (!profile) {
+      throw new Error(`Unknown tenant: ${tenantId}`);
+    }
+    return profile;
+  }
+
+  getProfiles(): TenantProfile[] {
+    return [...this.profiles];
+  }
+
+  getDefaultProfile(): TenantProfile | undefined {
+    return this.defaultProfile;
+  }
+
+  /**
+   * Client of a tenant, created on first use; concurrent first turns share one creation
+   * A failed creation is forgotten so the next turn tries again
+   */
+  getClient(tenantId: string): Promise<WorkbookClient> {
+    let client = this.clients.get(tenantId);
+    if (!client) {
+      client = this.createClient(this.getProfile(tenantId)).then(created => {
+        this.readyClients.set(tenantId, created);
+        return created;
+      });
+      client.catch(() => this.clients.delete(tenantId));
+      this.clients.set(tenantId, client);
+    }
+    return client;
+  }
+
+  /**
+   * WorkbookClient that forwards every call to the client of the current turn's tenant (see withTenant)
+   * Tools are built once against it; a tenant's client must be created with getClient before its turn runs
+   * Outside a turn calls go to the default tenant, and fail when there is none
+   */
+  createRoutedClient(): WorkbookClient {
+    return new Proxy({} as WorkbookClient, {
+      get: (_target, property) => {
+        const tenantId = getCurrentTenantId() || this.defaultProfile?.id;
+        if (!tenantId) {
+          throw new Error('No tenant for this Workbook call: it runs outside a Teams turn and no default tenant is configured');
+        }
+        const client = this.getReadyClient(tenantId);
+        const value = Reflect.get(client, property, client);
+        return typeof value === 'function' ? value.bind(client) : value;
+      }
+    });
+  }
+
+  private getReadyClient(tenantId: string): WorkbookClient {
+    const client = this.readyClients.get(tenantId);
+    if (!client) {
+      throw new Error(`Workbook client for tenant ${tenantId} is not initialized`);
+    }
+    return client;
+  }
+}
\ No newline at end of file
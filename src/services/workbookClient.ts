@@ -1,9 +1,16 @@
-import NodeCache from 'node-cache';
-import { WorkbookConfig } from '../types/workbook.types.js';
+import path from 'path';
+import { WorkbookConfig, SchemaValidationMode, TrafficConfig, TenantProfile } from '../types/workbook.types.js';
 import { ResourceService } from './domains/resourceService.js';
 import { JobService } from './domains/jobService.js';
-import { cacheManager } from './base/cache.js';
+import { BillingService } from './domains/billingService.js';
+import { AnalyticsService } from './domains/analyticsService.js';
+import { FollowUpService } from './domains/followUpService.js';
+import { ClientProfileService } from './domains/clientProfileService.js';
+import { cacheManager, CacheScope, CacheStats } from './base/cache.js';
+import { ResourceMirror } from './mirror/resourceMirror.js';
+import { createMirrorStore } from './mirror/mirrorStore.js';
 import { keyVaultService } from './keyVault.js';
+import { DEFAULT_TENANT_PROFILE } from './tenants/tenantProfiles.js';
 
 /**
  * Main Workbook API Client - Facade pattern for all services
@@ -12,15 +19,27 @@ import { keyVaultService } from './keyVault.js';
 export class WorkbookClient {
   public readonly resources: ResourceService;
   public readonly jobs: JobService;
+  public readonly billing: BillingService;
+  public readonly analytics: AnalyticsService;
+  public readonly followUp: FollowUpService;
+  public readonly clientProfiles: ClientProfileService;
+  public readonly mirror: ResourceMirror;
 
   private config: WorkbookConfig;
+  private cache: CacheScope;
 
   constructor(config: WorkbookConfig) {
     this.config = config;
+    this.cache = cacheManager.scope(config.tenantId);
     
     // Initialize domain services
     this.resources = new ResourceService(config);
     this.jobs = new JobService(config);
+    this.billing = new BillingService(config, this.jobs, this.resources);
+    this.analytics = new AnalyticsService(config, this.jobs, this.resources);
+    this.followUp = new FollowUpService(config, this.jobs, this.resources);
+    this.clientProfiles = new ClientProfileService(config, this.jobs, this.resources, this.billing);
+    this.mirror = new ResourceMirror(this.resources);
   }
 
   /**
@@ -45,7 +64,9 @@ export class WorkbookClient {
       baseUrl,
       username,
       password,
-      timeout: 30000
+      timeout: 30000,
+      schemaValidation: getSchemaValidationMode(),
+      traffic: getRecordingConfig()
     };
 
     console.log(`🌍 Workbook Client initialized for ${NODE_ENV.toUpperCase()} environment`);
@@ -53,42 +74,78 @@ export class WorkbookClient {
     return new WorkbookClient(config);
   }
 
+  /**
+   * Create WorkbookClient for the local Workbook API simulator (src/simulator)
+   * @param baseUrl - Simulator URL, e.g. http://127.0.0.1:4010
+   * @param tenantId - Tenant the client stands in for
+   */
+  static forSimulator(baseUrl: string, tenantId?: string): WorkbookClient {
+    const config: WorkbookConfig = {
+      apiKey: process.env.WORKBOOK_SIMULATOR_API_KEY || 'simulator',
+      baseUrl,
+      timeout: 30000,
+      schemaValidation: getSchemaValidationMode(),
+      traffic: getRecordingConfig(tenantId),
+      tenantId
+    };
+
+    console.log(`🧪 Workbook Client initialized for the local simulator (${baseUrl})`);
+
+    return new WorkbookClient(config);
+  }
+
+  /**
+   * Create WorkbookClient that answers every call from a recorded conversation (see trafficRecorder.ts)
+   * @param recordingFile - Recording written with WORKBOOK_TRAFFIC_MODE=record
+   * @param tenantId - Tenant the client stands in for
+   */
+  static forReplay(recordingFile: string, tenantId?: string): WorkbookClient {
+    const config: WorkbookConfig = {
+      apiKey: 'replay',
+      baseUrl: 'replay.invalid',
+      timeout: 30000,
+      schemaValidation: getSchemaValidationMode(),
+      traffic: {
+        mode: 'replay',
+        path: recordingFile,
+        redactNames: process.env.WORKBOOK_TRAFFIC_REDACT_NAMES !== 'false'
+      },
+      tenantId
+    };
+
+    console.log(`⏯️ Workbook Client initialized to replay ${recordingFile}`);
+
+    return new WorkbookClient(config);
+  }
+
   /**
    * Create WorkbookClient from Azure Key Vault (production)
+   * @param profile - Workbook instance and secret names of the tenant (the DEV API when not given)
    */
-  static async fromKeyVault(): Promise<WorkbookClient> {
+  static async fromKeyVault(profile: TenantProfile = DEFAULT_TENANT_PROFILE): Promise<WorkbookClient> {
     // Detect if running in Azure (production) or locally (development)
     const isProduction = process.env.NODE_ENV === 'production' || !!process.env.WEBSITE_INSTANCE_ID;
     const environment = isProduction ? 'PRODUCTION' : 'LOCAL';
 
-    console.log('� Loading Workbook configuration from Key Vault');
+    console.log(`� Loading Workbook configuration for ${profile.name} from Key Vault`);
     console.log(`📍 Running in ${environment} environment`);
-    console.log('� Using DEV Workbook API for both environments (as requested)');
 
     try {
-      // ALWAYS use DEV Workbook credentials regardless of environment
-      // This is the user's requirement: both prod and dev use the dev API
-      const apiKeySecret = 'workbook-api-key-dev';
-      const passwordSecret = 'workbook-password-dev';
-      
-      const secrets = await keyVaultService.getSecrets([
-        apiKeySecret,
-        passwordSecret
-      ]);
-
-      // ALWAYS use DEV Workbook API (ambitiondemo.workbook.net)
-      const baseUrl = 'ambitiondemo.workbook.net';
-      const username = 'tg';
+      const secretNames = profile.passwordSecret ? [profile.apiKeySecret, profile.passwordSecret] : [profile.apiKeySecret];
+      const secrets = await keyVaultService.getSecrets(secretNames);
 
       const config: WorkbookConfig = {
-        apiKey: secrets[apiKeySecret],
-        baseUrl,
-        username,
-        password: secrets[passwordSecret],
-        timeout: 30000
+        apiKey: secrets[profile.apiKeySecret],
+        baseUrl: profile.baseUrl,
+        username: profile.username,
+        password: profile.passwordSecret ? secrets[profile.passwordSecret] : undefined,
+        timeout: 30000,
+        schemaValidation: getSchemaValidationMode(),
+        traffic: getRecordingConfig(profile.id),
+        tenantId: profile.id
       };
 
-      console.log(`✅ Workbook Client initialized with DEV API (${baseUrl})`);
+      console.log(`✅ Workbook Client initialized for ${profile.name} (${profile.baseUrl})`);
       
       return new WorkbookClient(config);
     } catch (error) {
@@ -97,13 +154,29 @@ export class WorkbookClient {
     }
   }
 
+  /**
+   * Start the local resource mirror read by the read-only tools
+   * Until it is started and synced, mirror reads go to the API
+   */
+  async startMirror(): Promise<void> {
+    const store = await createMirrorStore(this.config.tenantId);
+    await this.mirror.start(store);
+  }
+
+  /**
+   * Tenant the client serves, if it was created for one
+   */
+  getTenantId(): string | undefined {
+    return this.config.tenantId;
+  }
+
   /**
    * Get cache statistics from all services
    */
   getCacheStats() {
     return {
       nodeCache: cacheManager.getStats(),
-      keys: cacheManager.getKeys(),
+      keys: this.cache.getKeys(),
       environment: process.env.NODE_ENV || 'prod'
     };
   }
@@ -112,7 +185,7 @@ export class WorkbookClient {
    * Clear all caches
    */
   clearAllCaches(): void {
-    cacheManager.flush();
+    this.cache.flush();
     console.log('� All caches cleared');
   }
 
@@ -127,7 +200,7 @@ export class WorkbookClient {
     };
     cache: {
       keys: number;
-      stats: NodeCache.Stats;
+      stats: CacheStats;
     };
     config: {
       environment: string;
@@ -137,7 +210,7 @@ export class WorkbookClient {
     const results: {
       status: 'healthy' | 'unhealthy';
       services: { resources: boolean; jobs: boolean; };
-      cache: { keys: number; stats: NodeCache.Stats; };
+      cache: { keys: number; stats: CacheStats; };
       config: { environment: string; baseUrl: string; };
     } = {
       status: 'healthy',
@@ -146,7 +219,7 @@ export class WorkbookClient {
         jobs: false
       },
       cache: {
-        keys: cacheManager.getKeys().length,
+        keys: this.cache.getKeys().length,
         stats: cacheManager.getStats()
       },
       config: {
@@ -178,4 +251,28 @@ export class WorkbookClient {
 
     return results;
   }
+}
+
+/**
+ * Schema validation mode from WORKBOOK_SCHEMA_VALIDATION (lenient unless set to strict or off)
+ */
+function getSchemaValidationMode(): SchemaValidationMode {
+  const mode = process.env.WORKBOOK_SCHEMA_VALIDATION;
+  return mode === 'strict' || mode === 'off' ? mode : 'lenient';
+}
+
+/**
+ * Traffic recording from WORKBOOK_TRAFFIC_MODE=record; recordings go to WORKBOOK_TRAFFIC_PATH (./recordings),
+ * in a subdirectory per tenant
+ */
+function getRecordingConfig(tenantId?: string): TrafficConfig | undefined {
+  if (process.env.WORKBOOK_TRAFFIC_MODE !== 'record') {
+    return undefined;
+  }
+  const basePath = process.env.WORKBOOK_TRAFFIC_PATH || './recordings';
+  return {
+    mode: 'record',
+    path: tenantId ? path.join(basePath, tenantId) : basePath,
+    redactNames: process.env.WORKBOOK_TRAFFIC_REDACT_NAMES !== 'false'
+  };
 }
\ No newline at end of file
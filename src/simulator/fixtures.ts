@@ -0,0 +1,380 @@
+/**
+ * Workbook Simulator Fixtures
+ * Seeded, deterministic data for the local Workbook API simulator
+ * Dates are relative to the day the fixtures are created so "this week" queries return data
+ */
+
+import fs from 'fs';
+import { Resource, Contact, Invoice as BillingInvoice, InvoiceStatus, JobStatus, TimeEntryApprovalStatus, ExpenseType } from '../types/workbook.types.js';
+import {
+  JobSimpleVisualization,
+  JobTeamMember,
+  TaskResponse,
+  Activity,
+  ExpenditureSummary,
+  Department,
+  JobType,
+  Tag,
+  PriceList,
+  RawTimeEntry,
+  ExpenditureEntry
+} from '../types/job-api.types.js';
+import { ResourceTypes } from '../constants/resourceTypes.js';
+
+export interface SimulatorFixtures {
+  resources: Resource[];              // Employees, clients and contact persons
+  contacts: Contact[];
+  jobs: JobSimpleVisualization[];
+  jobTeams: JobTeamMember[];
+  tasks: Array<TaskResponse & { JobId: number }>;
+  activities: Activity[];
+  timeEntries: RawTimeEntry[];
+  expenditureSummaries: ExpenditureSummary[];
+  expenses: ExpenditureEntry[];       // Expense registrations not yet invoiced
+  invoices: BillingInvoice[];
+  departments: Department[];
+  jobTypes: JobType[];
+  tags: Tag[];
+  priceLists: PriceList[];
+}
+
+export const COMPANY_ID = 1;
+export const HOURLY_COST = 450;
+export const HOURLY_SALE = 1150;
+export const DAILY_CAPACITY_HOURS = 7.5;
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+const EMPLOYEES = [
+  { id: 101, name: 'Anna Holm', initials: 'AH', managerId: undefined, folder: 'Management' },
+  { id: 102, name: 'Bjørn Madsen', initials: 'BM', managerId: 101, folder: 'SEO' },
+  { id: 103, name: 'Camilla Friis', initials: 'CF', managerId: 101, folder: 'AdWords' },
+  { id: 104, name: 'David Lund', initials: 'DL', managerId: 102, folder: 'SEO' },
+  { id: 105, name: 'Emma Kjær', initials: 'EK', managerId: 103, folder: 'AdWords' },
+  { id: 106, name: 'Frederik Berg', initials: 'FB', managerId: 102, folder: 'Search & Social' }
+];
+
+const CLIENTS = [
+  { id: 201, name: 'Nordlys Energi A/S', responsibleId: 102, city: 'Aarhus', active: true },
+  { id: 202, name: 'Havn & Co ApS', responsibleId: 103, city: 'København', active: true },
+  { id: 203, name: 'Skovgaard Møbler', responsibleId: 102, city: 'Odense', active: true },
+  { id: 204, name: 'Bølge Software', responsibleId: 106, city: 'Aalborg', active: false }
+];
+
+const DEPARTMENTS = [
+  { id: 1, name: 'SEO' },
+  { id: 2, name: 'AdWords' },
+  { id: 3, name: 'Search & Social' }
+];
+
+/**
+ * Build the default seeded dataset
+ * @param referenceDate - Day the relative fixture dates are based on (default: today)
+ */
+export function createDefaultFixtures(referenceDate: Date = new Date()): SimulatorFixtures {
+  const today = new Date(Date.UTC(referenceDate.getUTCFullYear(), referenceDate.getUTCMonth(), referenceDate.getUTCDate()));
+  const day = (offset: number) => new Date(today.getTime() + offset * DAY_MS).toISOString().replace('.000Z', '');
+
+  const employees: Resource[] = EMPLOYEES.map(employee => ({
+    Id: employee.id,
+    Name: employee.name,
+    Email: `${employee.initials.toLowerCase()}@ambition.dk`,
+    Initials: employee.initials,
+    Active: true,
+    TypeId: ResourceTypes.EMPLOYEE,
+    ResponsibleResourceId: employee.managerId,
+    ResourceFolder: employee.folder,
+    UserAccess: true,
+    ResourceBookable: true,
+    City: 'Aarhus',
+    CreateDate: day(-900),
+    UpdateDate: day(-30)
+  }));
+
+  const clients: Resource[] = CLIENTS.map(client => ({
+    Id: client.id,
+    Name: client.name,
+    Email: `info@${client.name.toLowerCase().replace(/[^a-z]/g, '').slice(0, 12)}.dk`,
+    Initials: client.name.slice(0, 2).toUpperCase(),
+    Active: client.active,
+    TypeId: ResourceTypes.CLIENT,
+    ResponsibleResourceId: client.responsibleId,
+    Address1: 'Havnegade 1',
+    City: client.city,
+    PostCode: '8000',
+    Country: 'Danmark',
+    CreateDate: day(-700),
+    UpdateDate: day(-10)
+  }));
+
+  // Two contact persons per client; the last client has one without an email to exercise data quality checks
+  const contacts: Contact[] = CLIENTS.flatMap((client, index) => [0, 1].map(position => {
+    const id = 301 + index * 2 + position;
+    const name = ['Mette Jensen', 'Lars Nielsen', 'Sofie Hansen', 'Peter Møller', 'Ida Rasmussen', 'Jonas Larsen', 'Laura Poulsen', 'Mikkel Dahl'][id - 301];
+    return {
+      Id: id,
+      Name: name,
+      Initials: name.split(' ').map(part => part[0]).join(''),
+      Email: index === CLIENTS.length - 1 && position === 1 ? undefined : `${name.split(' ')[0].toLowerCase()}@client${client.id}.dk`,
+      Phone1: '+45 70 00 00 00',
+      Title: position === 0 ? 'Marketingchef' : 'Indkøber',
+      ParentResourceId: client.id,
+      Active: true,
+      AllowMail: true,
+      AllowEmail: true,
+      AllowBulkEmail: false,
+      AllowPhone: true,
+      AllowSendMarketing: false,
+      AllowSms: false,
+      CreateDate: day(-400),
+      UpdateDate: day(-5)
+    };
+  }));
+
+  // Contact persons are resources too (type 10) so ResourceIdsRequest covers them
+  const contactResources: Resource[] = contacts.map(contact => ({
+    Id: contact.Id,
+    Name: contact.Name,
+    Email: contact.Email || '',
+    Initials: contact.Initials,
+    Active: contact.Active,
+    TypeId: ResourceTypes.CONTACT_PERSON,
+    ParentResourceId: contact.ParentResourceId,
+    CreateDate: contact.CreateDate,
+    UpdateDate: contact.UpdateDate
+  }));
+
+  const jobDefinitions = [
+    { id: 1001, name: 'SEO retainer 2026', clientId: 201, responsibleId: 102, statusId: JobStatus.ACTIVE, jobTypeId: 2, departmentId: 1, start: -200, end: 165 },
+    { id: 1002, name: 'Google Ads kampagne', clientId: 202, responsibleId: 103, statusId: JobStatus.ACTIVE, jobTypeId: 1, departmentId: 2, start: -60, end: 30 },
+    { id: 1003, name: 'Ny webshop', clientId: 203, responsibleId: 102, statusId: JobStatus.ACTIVE, jobTypeId: 1, departmentId: 1, start: -120, end: -5 },
+    { id: 1004, name: 'Social media pakke', clientId: 201, responsibleId: 106, statusId: JobStatus.COMPLETED, jobTypeId: 1, departmentId: 3, start: -400, end: -250 },
+    { id: 1005, name: 'App lancering', clientId: 204, responsibleId: 106, statusId: JobStatus.ON_HOLD, jobTypeId: 1, departmentId: 3, start: -90, end: 60 }
+  ];
+
+  const jobs: JobSimpleVisualization[] = jobDefinitions.map(job => ({
+    Id: job.id,
+    JobId: job.id,
+    JobName: job.name,
+    CustomerId: job.clientId,
+    CustomerName: CLIENTS.find(client => client.id === job.clientId)!.name,
+    Billable: true,
+    ProjectId: 0,
+    StatusId: job.statusId,
+    CompanyId: COMPANY_ID,
+    StartDate: day(job.start),
+    EndDate: day(job.end),
+    JobTypeId: job.jobTypeId,
+    JobRessAnsvarID: job.responsibleId,
+    ResponsibleId: job.responsibleId,
+    ProstatusId: 0,
+    CompanyDepartmentId: job.departmentId,
+    CostingCodeId: 0
+  }));
+
+  const jobTeams: JobTeamMember[] = jobDefinitions.flatMap((job, index) => {
+    const members = [job.responsibleId, EMPLOYEES[(index + 3) % EMPLOYEES.length].id]
+      .filter((id, position, all) => all.indexOf(id) === position);
+    return members.map((resourceId, position) => ({
+      Id: job.id * 10 + position,
+      JobId: job.id,
+      ResourceId: resourceId,
+      BonusPart: false,
+      JobAccess: true,
+      PortalAccessType: 0,
+      HourlySalePrice: HOURLY_SALE
+    }));
+  });
+
+  const activities: Activity[] = [
+    { Id: 1, ActivityText: 'Rådgivning' },
+    { Id: 2, ActivityText: 'Udvikling' },
+    { Id: 3, ActivityText: 'Projektledelse' }
+  ];
+
+  const tasks: SimulatorFixtures['tasks'] = jobDefinitions.flatMap(job => ['Opstart', 'Udførelse', 'Afrapportering'].map((taskName, index) => ({
+    Id: job.id * 10 + index + 1,
+    JobId: job.id,
+    PlanId: job.id,
+    PhaseNumber: 1,
+    TaskNumber: index + 1,
+    TaskName: taskName,
+    ActivityId: activities[index].Id,
+    StartDate: day(job.start + index * 10),
+    WorkDays: 10,
+    EndDate: day(job.start + index * 10 + 14),
+    TaskStatus: job.statusId === JobStatus.COMPLETED ? 2 : 1,
+    BookingStatus: 0,
+    Milestone: false,
+    PriorityId: 1,
+    SupplementaryTextRequested: false,
+    TaskColourId: 0,
+    ShowPublic: true,
+    CreateDate: day(job.start),
+    CreateEmployeeId: job.responsibleId,
+    UpdateEmployeeId: job.responsibleId,
+    UpdateDate: day(job.start),
+    TemporaryId: 0,
+    AllowTimeRegistration: true,
+    AllowUseOffDay: false,
+    FromExternal: false,
+    BookingLevel: 3,
+    Billable: true
+  })));
+
+  // Weekday registrations over the last three weeks on the active jobs
+  // The most recent week is still draft, the week before awaits approval and older weeks are approved
+  const timeEntries: RawTimeEntry[] = [];
+  let entryId = 50001;
+  for (let offset = -21; offset <= -1; offset++) {
+    const date = new Date(today.getTime() + offset * DAY_MS);
+    if (date.getUTCDay() === 0 || date.getUTCDay() === 6) {
+      continue;
+    }
+    EMPLOYEES.slice(1).forEach((employee, index) => {
+      // The last employee only registers every other day so follow-up has someone to chase
+      if (index === EMPLOYEES.length - 2 && offset % 2 === 0) {
+        return;
+      }
+      const job = jobDefinitions[index % 3];
+      const status = offset >= -7
+        ? TimeEntryApprovalStatus.DRAFT
+        : offset >= -14 ? TimeEntryApprovalStatus.SUBMITTED : TimeEntryApprovalStatus.APPROVED;
+      timeEntries.push({
+        Id: entryId++,
+        ResourceId: employee.id,
+        JobId: job.id,
+        TaskId: job.id * 10 + 2,
+        ActivityId: 2,
+        RegistrationDate: day(offset),
+        Hours: DAILY_CAPACITY_HOURS,
+        Description: `Arbejde på ${job.name}`,
+        Cost: DAILY_CAPACITY_HOURS * HOURLY_COST,
+        Sale: DAILY_CAPACITY_HOURS * HOURLY_SALE,
+        CostMethod: 1,
+        SaleMethod: 1,
+        SequenceNumber: 1,
+        JournalNumber: 0,
+        Correction: 0,
+        Public: true,
+        ApprovalStatus: status,
+        Billable: true,
+        ApprovalEmployeeResourceId: status === TimeEntryApprovalStatus.DRAFT ? null : employee.id,
+        ApprovalEmployeeDate: status === TimeEntryApprovalStatus.DRAFT ? null : day(offset + 1),
+        ApprovalProjectManagerResourceId: null,
+        ApprovalProjectManagerDate: null,
+        CreateDate: day(offset),
+        CreateResourceId: employee.id,
+        InternalDescription: ''
+      });
+    });
+  }
+
+  const expenditureSummaries: ExpenditureSummary[] = jobDefinitions.flatMap(job => {
+    const hours = timeEntries.filter(entry => entry.JobId === job.id).reduce((sum, entry) => sum + entry.Hours, 0);
+    const quoted = 250000;
+    const actualPrice = hours * HOURLY_SALE;
+    const billed = Math.round(actualPrice * 0.6);
+    return [
+      { Id: job.id * 10 + 1, JobId: job.id, RowType: 1, GroupNumber: 1, GroupName: 'Timer', SortOrder: 1, CurrencyId: 1, CurrencyCode: 'DKK', ActivityId: 2, Description: 'Udvikling', QuotedPrice: quoted, ActualHours: hours, ActualCosts: hours * HOURLY_COST, ActualPrice: actualPrice, Billed: billed, UnBilled: actualPrice - billed },
+      { Id: job.id * 10 + 9, JobId: job.id, RowType: 9, GroupNumber: 9, GroupName: 'Total', SortOrder: 99, CurrencyId: 1, CurrencyCode: 'DKK', Description: 'Total', QuotedPrice: quoted, ActualHours: hours, ActualCosts: hours * HOURLY_COST, ActualPrice: actualPrice, Billed: billed, UnBilled: actualPrice - billed }
+    ];
+  });
+
+  const expenses: ExpenditureEntry[] = [
+    { id: 8001, jobId: 1001, resourceId: 102, date: -12, description: 'Kørsel til kundemøde', quantity: 1, cost: 850, sale: 850 },
+    { id: 8002, jobId: 1002, resourceId: 103, date: -4, description: 'Annoncekøb Google Ads', quantity: 1, cost: 12000, sale: 13800 },
+    { id: 8003, jobId: 1003, resourceId: 104, date: -20, description: 'Licens til webshop-tema', quantity: 2, cost: 1400, sale: 1900 }
+  ].map(expense => {
+    const employee = EMPLOYEES.find(candidate => candidate.id === expense.resourceId)!;
+    return {
+      Id: expense.id,
+      Icon: 'expense',
+      CompanyId: COMPANY_ID,
+      Jobid: expense.jobId,
+      ExpenseType: ExpenseType.EXPENSE,
+      ExpenseDescription: expense.description,
+      Expensedate: day(expense.date),
+      ResourceId: employee.id,
+      ResourceName: employee.name,
+      ApprovalStatus: TimeEntryApprovalStatus.APPROVED,
+      ApprovalStatusText: 'Godkendt',
+      Quantity: expense.quantity,
+      CurrencyId: 1,
+      CurrencyName: 'DKK',
+      TotalAmountSale: expense.sale,
+      TotalAmountCost: expense.cost,
+      TotalAmountSaleDisplayCurrency: expense.sale,
+      TotalAmountCostDisplayCurrency: expense.cost
+    };
+  });
+
+  const invoices: BillingInvoice[] = [
+    { id: 7001, jobId: 1001, status: InvoiceStatus.PAID, date: -75, total: 62500, paid: 62500 },
+    { id: 7002, jobId: 1001, status: InvoiceStatus.OVERDUE, date: -45, total: 62500, paid: 0 },
+    { id: 7003, jobId: 1002, status: InvoiceStatus.SENT, date: -10, total: 31250, paid: 0 },
+    { id: 7004, jobId: 1003, status: InvoiceStatus.PARTIALLY_PAID, date: -50, total: 100000, paid: 40000 }
+  ].map(invoice => {
+    const job = jobs.find(candidate => candidate.Id === invoice.jobId)!;
+    return {
+      Id: invoice.id,
+      InvoiceNumber: `F${invoice.id}`,
+      InvoiceDate: day(invoice.date),
+      DueDate: day(invoice.date + 30),
+      CustomerId: job.CustomerId,
+      CustomerName: job.CustomerName,
+      JobId: job.Id,
+      JobName: job.JobName,
+      CurrencyCode: 'DKK',
+      SubTotal: invoice.total * 0.8,
+      VatAmount: invoice.total * 0.2,
+      TotalAmount: invoice.total,
+      PaidAmount: invoice.paid,
+      BalanceDue: invoice.total - invoice.paid,
+      Status: invoice.status,
+      IsSent: true,
+      IsPaid: invoice.status === InvoiceStatus.PAID,
+      InvoiceType: 1,
+      InvoiceTypeDescription: 'Faktura',
+      PaymentTerms: 'Netto 30 dage'
+    };
+  });
+
+  return {
+    resources: [...employees, ...clients, ...contactResources],
+    contacts,
+    jobs,
+    jobTeams,
+    tasks,
+    activities,
+    timeEntries,
+    expenditureSummaries,
+    expenses,
+    invoices,
+    departments: DEPARTMENTS.map(department => ({ Id: department.id, CompanyId: COMPANY_ID, Name: department.name, Active: true })),
+    jobTypes: [
+      { Id: 1, Name: 'AdHoc', Active: true, RetainerJob: false, UpdatePriceQuote: true },
+      { Id: 2, Name: 'Retainer', Active: true, RetainerJob: true, UpdatePriceQuote: false }
+    ],
+    tags: [
+      { Id: 1, TagId: 1, TagName: 'Strategisk', Active: true, CreateDate: day(-500), UpdateResourceId: 101, UpdateDate: day(-500), Color: '#0078D4', Internal: false }
+    ],
+    priceLists: [
+      { Id: 1, Name: 'Standard 2026', CurrencyId: 1, CurrencyIsoCode: 'DKK', Blocked: false, EnableActivityAccess: true }
+    ]
+  };
+}
+
+/**
+ * Load fixtures, replacing default collections with those found in a JSON file
+ * @param filePath - Optional JSON file with any subset of the fixture collections
+ */
+export function loadFixtures(filePath?: string): SimulatorFixtures {
+  const fixtures = createDefaultFixtures();
+  if (!filePath) {
+    return fixtures;
+  }
+
+  const overrides = JSON.parse(fs.readFileSync(filePath, 'utf8')) as Partial<SimulatorFixtures>;
+  console.log(`📦 Simulator fixtures loaded from ${filePath}: ${Object.keys(overrides).join(', ')}`);
+  return { ...fixtures, ...overrides };
+}
\ No newline at end of file
@@ -0,0 +1,1101 @@
+/**
+ * Workbook Simulator Endpoint Handlers
+ * Answer the Workbook endpoints used by the services from the simulator fixtures
+ * Filtering mirrors what the services send; anything the services do not rely on is ignored
+ */
+
+import { SimulatorFixtures, COMPANY_ID, HOURLY_COST, HOURLY_SALE, DAILY_CAPACITY_HOURS, DAY_MS } from './fixtures.js';
+import {
+  TimeEntry,
+  RawTimeEntry,
+  JobTeamMember,
+  JobPatchResponse,
+  TaskResourcePrice,
+  TimeEntryTaskResourceSum,
+  CapacityVisualization,
+  DepartmentProfitSplit,
+  TimeEntryApprovalStatistics,
+  TimeEntryChecklistRow,
+  Invoice as WorkbookInvoice,
+  InvoicePaymentStatus
+} from '../types/job-api.types.js';
+import {
+  Resource,
+  Invoice as BillingInvoice,
+  InvoiceStatus,
+  JobStatus,
+  TimeEntryApprovalStatus,
+  StrideTimeType,
+  BillableJob,
+  ClientProjectRetainerKeyFigures,
+  ConsolidatedInvoiceJob,
+  CubeProjectData,
+  ExpenseType
+} from '../types/workbook.types.js';
+import { ResourceTypes } from '../constants/resourceTypes.js';
+
+export interface SimulatorRequest {
+  method: string;                       // Logical method (X-HTTP-METHOD-OVERRIDE applied)
+  params: Record<string, unknown>;      // Query string merged with a JSON object body
+  body: unknown;                        // Parsed JSON body as sent
+}
+
+// eslint-disable-next-line no-unused-vars
+export type EndpointHandler = (request: SimulatorRequest, fixtures: SimulatorFixtures) => unknown;
+
+/**
+ * HTTP error answered by a handler, e.g. a record that does not exist
+ */
+export class SimulatorHttpError extends Error {
+  public readonly statusCode: number;
+
+  constructor(statusCode: number, message: string) {
+    super(message);
+    this.name = 'SimulatorHttpError';
+    this.statusCode = statusCode;
+  }
+}
+
+// Hours each team member is estimated at on an active job, and hours sold on a retainer
+const ETC_ESTIMATE_HOURS = 120;
+const RETAINER_HOURS = 300;
+
+// Handlers keyed by endpoint name without the [] batch suffix
+export const endpointHandlers: Record<string, EndpointHandler> = {
+  ResourceIdsRequest: ({ params }, fixtures) => {
+    const types = toNumbers(params.ResourceType);
+    return fixtures.resources
+      .filter(resource => types.length === 0 || types.includes(resource.TypeId ?? 0))
+      .filter(resource => params.Active !== true || resource.Active)
+      .map(resource => resource.Id);
+  },
+
+  ResourceRequest: ({ body, params }, fixtures) => {
+    if (Array.isArray(body)) {
+      const ids = body.map(item => toNumber((item as { Id?: unknown }).Id));
+      return fixtures.resources.filter(resource => ids.includes(resource.Id));
+    }
+    return findOrFail(fixtures.resources, toNumber(params.Id), 'Resource');
+  },
+
+  ResourcesRequest: ({ params }, fixtures) => {
+    const types = toNumbers(params.ResourceType);
+    const responsibleIds = toNumbers(params.ResponsibleResourceId);
+    const email = typeof params.Email === 'string' ? params.Email.toLowerCase() : undefined;
+    const contactName = typeof params.ContactName === 'string' ? params.ContactName.toLowerCase() : undefined;
+
+    return fixtures.resources
+      .filter(resource => types.length === 0 || types.includes(resource.TypeId ?? 0))
+      .filter(resource => params.Active === undefined || resource.Active === toBoolean(params.Active))
+      .filter(resource => responsibleIds.length === 0 || responsibleIds.includes(resource.ResponsibleResourceId ?? 0))
+      .filter(resource => !email || resource.Email.toLowerCase().includes(email))
+      .filter(resource => !contactName || resource.Name.toLowerCase().includes(contactName));
+  },
+
+  ContactsForResourceRequest: ({ params }, fixtures) => {
+    const resourceId = toNumber(params.ResourceId);
+    return fixtures.contacts
+      .filter(contact => contact.ParentResourceId === resourceId)
+      .filter(contact => params.Active === undefined || contact.Active === toBoolean(params.Active));
+  },
+
+  ContactRequest: ({ params }, fixtures) => findOrFail(fixtures.contacts, toNumber(params.Id), 'Contact'),
+
+  ResourcePatchRequest: ({ params }, fixtures) => {
+    // Workbook takes booleans and ids as strings here
+    const values = toPatchValues(params);
+    const resource = findOrFail(fixtures.resources, toNumber(values.Id), 'Resource');
+    const changes: Partial<Resource> = {
+      ...(values.Name !== undefined && { Name: String(values.Name) }),
+      ...(values.Email !== undefined && { Email: String(values.Email) }),
+      ...(values.Initials !== undefined && { Initials: String(values.Initials) }),
+      ...(values.Phone1 !== undefined && { Phone1: String(values.Phone1) }),
+      ...(values.Active !== undefined && { Active: toBoolean(values.Active) }),
+      ...(values.ResponsibleResourceId !== undefined && { ResponsibleResourceId: toNumber(values.ResponsibleResourceId) }),
+      UpdateDate: new Date().toISOString()
+    };
+    Object.assign(resource, changes);
+
+    // Contact persons are stored twice; keep the contact view in step
+    const contact = fixtures.contacts.find(candidate => candidate.Id === resource.Id);
+    if (contact) {
+      Object.assign(contact, changes);
+    }
+    return resource;
+  },
+
+  JobsRequest: ({ params }, fixtures) => {
+    const statusIds = toNumbers(params.StatusIds);
+    return fixtures.jobs
+      .filter(job => params.CustomerId === undefined || job.CustomerId === toNumber(params.CustomerId))
+      .filter(job => params.ResponsibleId === undefined || job.ResponsibleId === toNumber(params.ResponsibleId))
+      .filter(job => params.ProjectId === undefined || job.ProjectId === toNumber(params.ProjectId))
+      .filter(job => params.JobTypeId === undefined || job.JobTypeId === toNumber(params.JobTypeId))
+      .filter(job => params.CompanyDepartmentId === undefined || job.CompanyDepartmentId === toNumber(params.CompanyDepartmentId))
+      .filter(job => statusIds.length === 0 || statusIds.includes(job.StatusId))
+      .map(job => ({ Id: job.Id }));
+  },
+
+  JobSimpleVisualizationRequest: ({ body, params }, fixtures) => {
+    const ids = Array.isArray(body) ? body.map(item => toNumber((item as { Id?: unknown }).Id)) : [toNumber(params.Id)];
+    return fixtures.jobs.filter(job => ids.includes(job.Id));
+  },
+
+  JobCreateRequest: ({ params }, fixtures) => {
+    const id = Math.max(0, ...fixtures.jobs.map(job => job.Id)) + 1;
+    const responsibleId = toNumber(params.JobManagerResourceId) || fixtures.resources[0].Id;
+    const customer = fixtures.resources.find(resource => resource.Id === toNumber(params.DebtorId));
+
+    fixtures.jobs.push({
+      Id: id,
+      JobId: id,
+      JobName: String(params.Name ?? ''),
+      CustomerId: customer?.Id ?? 0,
+      CustomerName: customer?.Name ?? '',
+      Billable: params.Chargeable === undefined ? true : toBoolean(params.Chargeable),
+      ProjectId: toNumber(params.ProjectId) || 0,
+      StatusId: toNumber(params.JobStatusId) || JobStatus.ACTIVE,
+      CompanyId: toNumber(params.CompanyId) || COMPANY_ID,
+      StartDate: String(params.StartDate ?? new Date().toISOString()),
+      EndDate: String(params.DeliveryDate ?? params.StartDate ?? new Date().toISOString()),
+      JobTypeId: 1,
+      JobRessAnsvarID: responsibleId,
+      ResponsibleId: responsibleId,
+      ProstatusId: 0,
+      CompanyDepartmentId: fixtures.departments[0]?.Id ?? 0,
+      CostingCodeId: 0
+    });
+    return { JobId: id };
+  },
+
+  JobPatchRequest: ({ params }, fixtures) => {
+    const { Id, ...values } = toPatchValues(params);
+    const job = findOrFail(fixtures.jobs, toNumber(Id), 'Job');
+    Object.assign(job, values);
+    if (values.ResponsibleId !== undefined) {
+      job.JobRessAnsvarID = job.ResponsibleId;
+    }
+    return toJobPatchResponse(job, fixtures);
+  },
+
+  JobTeamAllRequest: ({ body, params }, fixtures) => {
+    const ids = Array.isArray(body) ? body.map(item => toNumber((item as { Id?: unknown }).Id)) : [toNumber(params.Id)];
+    return fixtures.jobTeams.filter(member => ids.includes(member.JobId));
+  },
+
+  JobTeamRequest: ({ method, params }, fixtures) => {
+    const values = toPatchValues(params);
+
+    if (method === 'POST') {
+      const job = findOrFail(fixtures.jobs, toNumber(values.JobId), 'Job');
+      const resource = findOrFail(fixtures.resources, toNumber(values.ResourceId), 'Resource');
+      if (fixtures.jobTeams.some(member => member.JobId === job.Id && member.ResourceId === resource.Id)) {
+        throw new SimulatorHttpError(400, `Resource ${resource.Id} is already on the team of job ${job.Id}`);
+      }
+      const member: JobTeamMember = {
+        Id: Math.max(0, ...fixtures.jobTeams.map(existing => existing.Id)) + 1,
+        JobId: job.Id,
+        ResourceId: resource.Id,
+        BonusPart: values.BonusPart === undefined ? false : toBoolean(values.BonusPart),
+        JobAccess: values.JobAccess === undefined ? true : toBoolean(values.JobAccess),
+        PortalAccessType: 0,
+        ...(values.JobRoleId !== undefined && { JobRoleId: toNumber(values.JobRoleId) }),
+        ...(values.DefaultTaskId !== undefined && { DefaultTaskId: toNumber(values.DefaultTaskId) }),
+        HourlySalePrice: values.HourlySalePrice === undefined ? HOURLY_SALE : toNumber(values.HourlySalePrice)
+      };
+      fixtures.jobTeams.push(member);
+      return member;
+    }
+
+    const member = findOrFail(fixtures.jobTeams, toNumber(values.Id), 'Job team member');
+
+    if (method === 'DELETE') {
+      fixtures.jobTeams.splice(fixtures.jobTeams.indexOf(member), 1);
+      return undefined;
+    }
+
+    if (method === 'PATCH') {
+      Object.assign(member, values);
+    }
+    return member;
+  },
+
+  TasksRequest: ({ params }, fixtures) => fixtures.tasks
+    .filter(task => task.JobId === toNumber(params.JobId))
+    .filter(task => params.Active === undefined || !toBoolean(params.Active) || task.TaskStatus !== 2),
+
+  TaskRequest: ({ body, params }, fixtures) => {
+    const ids = Array.isArray(body) ? body.map(item => toNumber((item as { Id?: unknown }).Id)) : [toNumber(params.Id)];
+    return fixtures.tasks.filter(task => ids.includes(task.Id));
+  },
+
+  TaskInsertPositionRequest: ({ params }, fixtures) => {
+    // Plans are keyed by job in the fixtures
+    const job = findOrFail(fixtures.jobs, toNumber(params.PlanId), 'Plan');
+    const plan = fixtures.tasks.filter(task => task.JobId === job.Id);
+    const lastNumber = Math.max(0, ...plan.map(task => task.TaskNumber));
+    const taskNumber = params.AfterTaskNumber !== undefined && !toBoolean(params.PlaceLast)
+      ? Math.min(toNumber(params.AfterTaskNumber), lastNumber) + 1
+      : lastNumber + 1;
+    plan.filter(task => task.TaskNumber >= taskNumber).forEach(task => {
+      task.TaskNumber++;
+    });
+
+    const startDate = String(params.StartDate ?? new Date().toISOString());
+    const workDays = toNumber(params.WorkDays) || 5;
+    const now = new Date().toISOString();
+    const task: SimulatorFixtures['tasks'][number] = {
+      Id: Math.max(0, ...fixtures.tasks.map(existing => existing.Id)) + 1,
+      JobId: job.Id,
+      PlanId: job.Id,
+      PhaseNumber: toNumber(params.PhaseNumber) || 1,
+      TaskNumber: taskNumber,
+      TaskName: String(params.TaskName ?? ''),
+      ActivityId: toNumber(params.ActivityId) || fixtures.activities[0].Id,
+      StartDate: startDate,
+      WorkDays: workDays,
+      EndDate: new Date(new Date(startDate).getTime() + workDays * DAY_MS).toISOString(),
+      TaskStatus: 1,
+      BookingStatus: 0,
+      Milestone: false,
+      PriorityId: toNumber(params.PriorityId) || 2,
+      SupplementaryTextRequested: false,
+      TaskColourId: 0,
+      ShowPublic: true,
+      CreateDate: now,
+      CreateEmployeeId: job.ResponsibleId,
+      UpdateEmployeeId: job.ResponsibleId,
+      UpdateDate: now,
+      TemporaryId: 0,
+      AllowTimeRegistration: true,
+      AllowUseOffDay: false,
+      FromExternal: false,
+      BookingLevel: 3,
+      Billable: job.Billable
+    };
+    fixtures.tasks.push(task);
+    return task;
+  },
+
+  TaskPatchRequest: ({ params }, fixtures) => {
+    const { Id, ...values } = toPatchValues(params);
+    const task = findOrFail(fixtures.tasks, toNumber(Id), 'Task');
+    Object.assign(task, values, { UpdateDate: new Date().toISOString() });
+    return task;
+  },
+
+  MoveTaskToJobRequest: ({ params }, fixtures) => {
+    const task = findOrFail(fixtures.tasks, toNumber(params.Id), 'Task');
+    const job = findOrFail(fixtures.jobs, toNumber(params.JobId), 'Job');
+    if (job.StatusId !== JobStatus.ACTIVE && !toBoolean(params.MoveBetweenActive)) {
+      throw new SimulatorHttpError(400, `Job ${job.Id} is not active`);
+    }
+    Object.assign(task, {
+      JobId: job.Id,
+      PlanId: toNumber(params.PlanId) || job.Id,
+      PhaseNumber: toNumber(params.PhaseNumber) || task.PhaseNumber,
+      TaskNumber: Math.max(0, ...fixtures.tasks.filter(candidate => candidate.JobId === job.Id).map(candidate => candidate.TaskNumber)) + 1,
+      UpdateDate: new Date().toISOString()
+    });
+    return task;
+  },
+
+  TasksResourcePriceRequest: ({ params }, fixtures) => {
+    const ids = toNumbers(params.Ids);
+    return fixtures.tasks
+      .filter(task => ids.includes(task.Id))
+      .map((task): TaskResourcePrice => {
+        const hours = task.WorkDays * DAILY_CAPACITY_HOURS;
+        return {
+          Id: task.Id,
+          TaskId: task.Id,
+          Hours: hours,
+          Cost: hours * HOURLY_COST,
+          Sale: hours * HOURLY_SALE,
+          HoursTimeRegistration: sumHours(fixtures.timeEntries.filter(entry => entry.TaskId === task.Id)),
+          IsoCode: 'DKK'
+        };
+      });
+  },
+
+  TimeEntryTaskResourceSumVisualizationRequest: ({ body, params }, fixtures) => {
+    const ids = Array.isArray(body) ? body.map(item => toNumber((item as { Id?: unknown }).Id)) : [toNumber(params.Id)];
+    return fixtures.tasks
+      .filter(task => ids.includes(task.Id))
+      .flatMap(task => {
+        const entries = fixtures.timeEntries.filter(entry => entry.TaskId === task.Id);
+        const resourceIds = Array.from(new Set(entries.map(entry => entry.ResourceId)));
+        return resourceIds.map((resourceId): TimeEntryTaskResourceSum => ({
+          Id: task.Id * 1000 + resourceId,
+          ResourceId: resourceId,
+          TaskId: task.Id,
+          HoursTimeRegistration: sumHours(entries.filter(entry => entry.ResourceId === resourceId)),
+          Done: task.TaskStatus === 2,
+          HasTimeRegistration: true
+        }));
+      });
+  },
+
+  ActivityVisualizationsRequest: (_request, fixtures) => fixtures.activities,
+
+  ExpenditureSummaryHoursAndCostRequest: ({ params }, fixtures) =>
+    fixtures.expenditureSummaries.filter(row => row.JobId === toNumber(params.JobId)),
+
+  ExpenditureOpenEntriesRequest: ({ params }, fixtures) =>
+    fixtures.expenses.filter(expense => expense.Jobid === toNumber(params.JobId)),
+
+  ExpenditureSummaryDepartmentProfitSplitVisualizationRequest: ({ params }, fixtures) => {
+    const job = findOrFail(fixtures.jobs, toNumber(params.JobId), 'Job');
+    const total = fixtures.expenditureSummaries.find(row => row.JobId === job.Id && row.RowType === 9);
+    const entries = fixtures.timeEntries.filter(entry => entry.JobId === job.Id);
+    const totalHours = sumHours(entries);
+
+    // Delivery is split by the department of whoever registered the hours
+    const hoursByDepartment = new Map<number, number>();
+    entries.forEach(entry => {
+      const resource = fixtures.resources.find(candidate => candidate.Id === entry.ResourceId);
+      const departmentId = (resource && toDepartmentId(resource, fixtures)) || job.CompanyDepartmentId;
+      hoursByDepartment.set(departmentId, (hoursByDepartment.get(departmentId) || 0) + entry.Hours);
+    });
+
+    const toShares = (share: number) => ({
+      PriceQuoteShare: (total?.QuotedPrice || 0) * share,
+      PriceQuoteSharePercentage: share * 100,
+      TaskAmount: (total?.QuotedPrice || 0) * share,
+      TaskPercentage: share * 100,
+      TimeShare: (total?.ActualPrice || 0) * share,
+      TimePercentage: share * 100,
+      InvoiceShare: (total?.Billed || 0) * share,
+      InvoicePercentage: share * 100
+    });
+
+    const rows: DepartmentProfitSplit[] = Array.from(hoursByDepartment.entries()).map(([departmentId, hours]) => ({
+      Id: departmentId,
+      RecordType: 1,
+      DepartmentType: departmentId === job.CompanyDepartmentId ? 'Owner' : 'Delivery',
+      DepartmentName: fixtures.departments.find(department => department.Id === departmentId)?.Name,
+      DepartmentId: departmentId,
+      CurrencyId: 1,
+      CurrencyCode: 'DKK',
+      ...toShares(totalHours > 0 ? hours / totalHours : 0)
+    }));
+    rows.push({ Id: 0, RecordType: 2, DepartmentName: 'Total', CurrencyId: 1, CurrencyCode: 'DKK', ...toShares(1) });
+    return rows;
+  },
+
+  ETCResourceByJobIdVisualizationRequest: ({ body, params }, fixtures) => {
+    // Each team member has a fixed estimate on an active job; what is not registered yet is still to be booked
+    const ids = Array.isArray(body) ? body.map(item => toNumber((item as { Id?: unknown }).Id)) : [toNumber(params.Id)];
+    return fixtures.jobTeams
+      .filter(member => ids.includes(member.JobId))
+      .map(member => {
+        const job = fixtures.jobs.find(candidate => candidate.Id === member.JobId);
+        const estimate = job?.StatusId === JobStatus.ACTIVE ? ETC_ESTIMATE_HOURS : 0;
+        const registered = sumHours(fixtures.timeEntries.filter(entry => entry.JobId === member.JobId && entry.ResourceId === member.ResourceId));
+        const hours = Math.min(registered, estimate);
+        const notBooked = Math.max(estimate - registered, 0);
+        return {
+          Id: member.ResourceId,
+          JobId: member.JobId,
+          Hours: hours,
+          HoursAmount: hours * HOURLY_SALE,
+          HoursNotBooked: notBooked,
+          HoursNotBookedAmount: notBooked * HOURLY_SALE
+        };
+      });
+  },
+
+  CapacityVisualizationMultiRequest: ({ params }, fixtures) => {
+    // The coming five weekdays; every active job a resource is on takes a share of each day
+    const references = Array.isArray(params.References) ? params.References as Array<{ ResourceId?: unknown; TaskId?: unknown }> : [];
+    const days = upcomingWeekdays(5);
+    let id = 1;
+
+    return references.flatMap(reference => {
+      const resourceId = toNumber(reference.ResourceId);
+      const activeJobs = fixtures.jobTeams
+        .filter(member => member.ResourceId === resourceId)
+        .filter(member => fixtures.jobs.some(job => job.Id === member.JobId && job.StatusId === JobStatus.ACTIVE))
+        .length;
+      const booked = Math.min(activeJobs * 2.5, DAILY_CAPACITY_HOURS);
+
+      return days.map((dayDate): CapacityVisualization => ({
+        ReferenceId: toNumber(reference.TaskId),
+        Id: id++,
+        ResourceId: resourceId,
+        DayDate: dayDate,
+        Capacity: DAILY_CAPACITY_HOURS,
+        CapacityCurrent: DAILY_CAPACITY_HOURS,
+        HoursBooked: booked,
+        HoursBookedCurrent: booked,
+        TotalHoursBooked: booked,
+        TotalHoursBookedCurrent: booked,
+        TotalApprovedHoursBooked: booked,
+        TotalApprovedHoursBookedCurrent: booked,
+        HoursNormal: DAILY_CAPACITY_HOURS,
+        BookingLevel: 3,
+        DayType: 1,
+        HoursHoliday: 0
+      }));
+    });
+  },
+
+  DepartmentsRequest: (_request, fixtures) => fixtures.departments,
+
+  JobTypesRequest: ({ params }, fixtures) =>
+    fixtures.jobTypes.filter(jobType => params.Active === undefined || !toBoolean(params.Active) || jobType.Active),
+
+  TagsRequest: (_request, fixtures) => fixtures.tags,
+
+  PriceListsJobRequest: (_request, fixtures) => fixtures.priceLists,
+
+  TimeEntryRequest: ({ params }, fixtures) => fixtures.timeEntries
+    .filter(entry => params.ResourceId === undefined || entry.ResourceId === toNumber(params.ResourceId))
+    .filter(entry => params.JobId === undefined || entry.JobId === toNumber(params.JobId))
+    .filter(entry => isInPeriod(entry.RegistrationDate, params.StartDate, params.EndDate))
+    .map(entry => toTimeEntry(entry, fixtures)),
+
+  RawTimeEntryRequest: ({ method, params }, fixtures) => {
+    const values = toPatchValues(params);
+
+    if (method === 'PUT') {
+      const task = findOrFail(fixtures.tasks, toNumber(values.TaskId), 'Task');
+      if (task.JobId !== toNumber(values.JobId)) {
+        throw new SimulatorHttpError(400, `Task ${task.Id} does not belong to job ${values.JobId}`);
+      }
+      const entry: RawTimeEntry = {
+        Id: Math.max(0, ...fixtures.timeEntries.map(existing => existing.Id)) + 1,
+        ResourceId: toNumber(values.ResourceId) || fixtures.resources[0].Id,
+        JobId: task.JobId,
+        TaskId: task.Id,
+        ActivityId: toNumber(values.ActivityId) || task.ActivityId,
+        RegistrationDate: String(values.RegistrationDate),
+        Hours: toNumber(values.Hours),
+        Description: String(values.Description ?? ''),
+        Cost: 0,
+        Sale: 0,
+        CostMethod: 1,
+        SaleMethod: 1,
+        SequenceNumber: 1,
+        JournalNumber: 0,
+        Correction: 0,
+        Public: true,
+        ApprovalStatus: TimeEntryApprovalStatus.DRAFT,
+        Billable: values.Billable === undefined ? true : toBoolean(values.Billable),
+        ApprovalEmployeeResourceId: null,
+        ApprovalEmployeeDate: null,
+        ApprovalProjectManagerResourceId: null,
+        ApprovalProjectManagerDate: null,
+        CreateDate: new Date().toISOString(),
+        CreateResourceId: toNumber(values.ResourceId) || fixtures.resources[0].Id,
+        InternalDescription: ''
+      };
+      fixtures.timeEntries.push(entry);
+      return entry;
+    }
+
+    const entry = findOrFail(fixtures.timeEntries, toNumber(values.Id), 'Time entry');
+
+    if (method === 'DELETE') {
+      fixtures.timeEntries.splice(fixtures.timeEntries.indexOf(entry), 1);
+      return undefined;
+    }
+
+    if (method === 'PATCH') {
+      Object.assign(entry, values);
+    }
+    return entry;
+  },
+
+  TimeEntryApprovalStatisticsVisualizationRequest: ({ params }, fixtures) =>
+    toApprovalStatistics(toNumber(params.ResourceId), toApprovalBlocks(params), fixtures),
+
+  ResourcesTimeEntryApprovalStatisticsVisualizationRequest: ({ params }, fixtures) => {
+    // Block dates are only returned once at the top level
+    const blocks = toApprovalBlocks(params);
+    return {
+      Blocks: blocks,
+      ResourceData: toNumbers(params.ResourceIds).map(resourceId => {
+        const statistics = toApprovalStatistics(resourceId, blocks, fixtures);
+        return { ...statistics, Entries: statistics.Entries.map(entry => ({ ...entry, BeginDate: undefined, EndDate: undefined })) };
+      })
+    };
+  },
+
+  FollowUpTimeEntryChecklistVisualizationRequest: ({ params }, fixtures) => {
+    // One row per employee and job with the hours registered in the period
+    const employeeIds = toNumbers(params.MyEmployeesIds);
+    const departmentIds = toNumbers(params.CompanyDepartmentIds);
+    const companyIds = toNumbers(params.CompanyIds);
+    if (companyIds.length > 0 && !companyIds.includes(COMPANY_ID)) {
+      return [];
+    }
+
+    const rows = new Map<string, TimeEntryChecklistRow>();
+    fixtures.timeEntries
+      .filter(entry => isInPeriod(entry.RegistrationDate, params.StartDate, params.EndDate))
+      .filter(entry => employeeIds.length === 0 || employeeIds.includes(entry.ResourceId))
+      .forEach(entry => {
+        const employee = fixtures.resources.find(resource => resource.Id === entry.ResourceId);
+        if (departmentIds.length > 0 && !(employee && departmentIds.includes(toDepartmentId(employee, fixtures) ?? 0))) {
+          return;
+        }
+        const key = `${entry.ResourceId}-${entry.JobId}`;
+        const row = rows.get(key) || {
+          Id: rows.size + 1,
+          EmployeeId: entry.ResourceId,
+          JobId: entry.JobId,
+          Hours: 0,
+          ProjektId: fixtures.jobs.find(job => job.Id === entry.JobId)?.ProjectId ?? 0,
+          CustomerTypeId: 1,
+          DayTypeId: 1,
+          AbsenceId: null
+        };
+        row.Hours += entry.Hours;
+        rows.set(key, row);
+      });
+    return Array.from(rows.values());
+  },
+
+  // Workbook sends the reminders itself; there is nothing to keep
+  RaiseFollowUpNotificationRequest: () => undefined,
+
+  InvoiceRequest: ({ params }, fixtures) => {
+    if (params.Id !== undefined) {
+      return findOrFail(fixtures.invoices, toNumber(params.Id), 'Invoice');
+    }
+    return fixtures.invoices
+      .filter(invoice => params.CustomerId === undefined || invoice.CustomerId === toNumber(params.CustomerId))
+      .filter(invoice => params.JobId === undefined || invoice.JobId === toNumber(params.JobId))
+      .filter(invoice => params.Status === undefined || invoice.Status === toNumber(params.Status))
+      .filter(invoice => isInPeriod(invoice.InvoiceDate, params.StartDate, params.EndDate));
+  },
+
+  InvoicesRequest: ({ params }, fixtures) => fixtures.invoices
+    .filter(invoice => invoice.JobId === toNumber(params.JobId))
+    .map(invoice => toWorkbookInvoice(invoice, fixtures)),
+
+  InvoicePaymentStatusRequest: ({ params }, fixtures): InvoicePaymentStatus => {
+    const invoice = findOrFail(fixtures.invoices, toNumber(params.Id), 'Invoice');
+    const [paymentStatusId, paymentStatusText] = invoice.IsPaid
+      ? [2, 'Betalt']
+      : invoice.PaidAmount > 0 ? [1, 'Delvist betalt'] : [0, 'Ikke betalt'];
+    return {
+      Id: invoice.Id,
+      CompanyId: COMPANY_ID,
+      JobId: invoice.JobId ?? 0,
+      PaymentStatusId: paymentStatusId,
+      PaymentStatusText: paymentStatusText,
+      PaymentStatus: invoice.Status === InvoiceStatus.OVERDUE ? 'Overdue' : invoice.IsPaid ? 'Paid' : 'Open',
+      Amount: invoice.PaidAmount,
+      IsoCode: invoice.CurrencyCode,
+      LatestPaidDate: invoice.PaidAmount > 0 ? invoice.DueDate : ''
+    };
+  },
+
+  BillableJobRequest: ({ params }, fixtures) => {
+    const toBillableJob = (job: SimulatorFixtures['jobs'][number]): BillableJob => ({
+      CustomerId: job.CustomerId,
+      CustomerName: job.CustomerName,
+      Id: job.Id,
+      JobId: job.Id,
+      JobName: job.JobName,
+      JobStatusId: job.StatusId,
+      JobEndDate: job.EndDate,
+      CompanyInitials: 'AMB',
+      CurrencyCode: 'DKK',
+      PriceSale: getUnbilledAmount(job.Id, fixtures),
+      TotalExpenseSale: fixtures.expenses.filter(expense => expense.Jobid === job.Id).reduce((sum, expense) => sum + expense.TotalAmountSale, 0),
+      InvoiceDraftSale: 0,
+      ProjectManagerId: job.ResponsibleId
+    });
+
+    if (params.Id !== undefined) {
+      return toBillableJob(findOrFail(fixtures.jobs, toNumber(params.Id), 'Job'));
+    }
+    return fixtures.jobs.filter(job => job.Billable && job.StatusId !== JobStatus.ON_HOLD).map(toBillableJob);
+  },
+
+  ConsolidatedInvoiceJobsRequest: ({ params }, fixtures) => {
+    const candidates = fixtures.jobs
+      .filter(job => job.Billable)
+      .filter(job => job.StatusId === JobStatus.ACTIVE || (toBoolean(params.IncludeCompleted) && job.StatusId === JobStatus.COMPLETED))
+      .filter(job => params.CustomerId === undefined || job.CustomerId === toNumber(params.CustomerId))
+      .filter(job => getUnbilledAmount(job.Id, fixtures) > (params.MinUnbilledAmount === undefined ? 0 : toNumber(params.MinUnbilledAmount)));
+
+    // Jobs can share an invoice when their customer has more than one billable job
+    const billableJobs = fixtures.jobs.filter(job => job.Billable && job.StatusId !== JobStatus.ON_HOLD);
+    return candidates.map((job): ConsolidatedInvoiceJob => {
+      const lastInvoice = fixtures.invoices
+        .filter(invoice => invoice.JobId === job.Id)
+        .sort((a, b) => b.InvoiceDate.localeCompare(a.InvoiceDate))[0];
+      return {
+        JobId: job.Id,
+        JobName: job.JobName,
+        CustomerId: job.CustomerId,
+        CustomerName: job.CustomerName,
+        UnbilledAmount: getUnbilledAmount(job.Id, fixtures),
+        LastInvoiceDate: lastInvoice?.InvoiceDate,
+        ProjectManagerId: job.ResponsibleId,
+        ProjectManagerName: fixtures.resources.find(resource => resource.Id === job.ResponsibleId)?.Name,
+        CanConsolidate: billableJobs.filter(candidate => candidate.CustomerId === job.CustomerId).length > 1
+      };
+    });
+  },
+
+  ClientProjectRetainerKeyFiguresVisualizationRequest: ({ params }, fixtures) => {
+    const retainerTypeIds = fixtures.jobTypes.filter(jobType => jobType.RetainerJob).map(jobType => jobType.Id);
+    const retainers = fixtures.jobs
+      .filter(job => retainerTypeIds.includes(job.JobTypeId))
+      .filter(job => params.Id === undefined || job.Id === toNumber(params.Id));
+    if (params.Id !== undefined && retainers.length === 0) {
+      throw new SimulatorHttpError(404, `Retainer ${params.Id} not found`);
+    }
+
+    const now = new Date();
+    const currentMonth = now.toISOString().slice(0, 7);
+    const previousMonth = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 1, 1)).toISOString().slice(0, 7);
+
+    return retainers.map((job): ClientProjectRetainerKeyFigures => {
+      const entries = fixtures.timeEntries.filter(entry => entry.JobId === job.Id);
+      const expenses = fixtures.expenses.filter(expense => expense.Jobid === job.Id);
+      const invoiced = fixtures.invoices.filter(invoice => invoice.JobId === job.Id).reduce((sum, invoice) => sum + invoice.SubTotal, 0);
+      const hoursUsed = sumHours(entries);
+      const quoteAmount = RETAINER_HOURS * HOURLY_SALE;
+
+      return {
+        Id: job.Id,
+        CurrencyId: 1,
+        ProjectRetainerJobType: 1,
+        JobReferenceKey: `J${job.Id}`,
+        StartDate: job.StartDate,
+        EndDate: job.EndDate,
+        ResponsibleId: job.ResponsibleId,
+        CompanyId: job.CompanyId,
+        ProjectId: job.ProjectId,
+        ClientId: job.CustomerId,
+        ProjectIsMixedRetainer: false,
+        MasterJobPriceQuoteOriginalHours: RETAINER_HOURS,
+        MasterJobPriceQuoteOriginalAmount: quoteAmount,
+        MasterJobPriceQuoteEstimatedHours: RETAINER_HOURS,
+        MasterJobPriceQuoteEstimatedHoursCost: RETAINER_HOURS * HOURLY_COST,
+        MasterJobPriceQuoteEstimatedHoursSale: quoteAmount,
+        HoursBooked: RETAINER_HOURS,
+        HoursBookedCost: RETAINER_HOURS * HOURLY_COST,
+        HoursBookedSale: quoteAmount,
+        HoursUsed: hoursUsed,
+        HoursUsedPreviousMonth: sumHours(entries.filter(entry => entry.RegistrationDate.startsWith(previousMonth))),
+        HoursUsedCurrentMonth: sumHours(entries.filter(entry => entry.RegistrationDate.startsWith(currentMonth))),
+        InvoicedExternal: invoiced,
+        InvoicedInternal: 0,
+        TotalExpenseCost: expenses.reduce((sum, expense) => sum + expense.TotalAmountCost, 0),
+        TotalExpenseSale: expenses.reduce((sum, expense) => sum + expense.TotalAmountSale, 0),
+        InvoicedRemaining: Math.max(quoteAmount - invoiced, 0),
+        Overrun: Math.max(hoursUsed * HOURLY_SALE - quoteAmount, 0)
+      };
+    });
+  },
+
+  CubeProjectRequest: ({ params }, fixtures) => {
+    // Time and expense lines only; the fixtures have no products or milestones
+    const expenseType = toNumber(params.ExpenseType);
+    const jobs = fixtures.jobs.filter(job => params.JobId === undefined || job.Id === toNumber(params.JobId));
+
+    if (expenseType === ExpenseType.TIME) {
+      return fixtures.timeEntries
+        .filter(entry => isInPeriod(entry.RegistrationDate, params.StartDate, params.EndDate))
+        .flatMap((entry): CubeProjectData[] => {
+          const job = jobs.find(candidate => candidate.Id === entry.JobId);
+          if (!job) {
+            return [];
+          }
+          const employee = fixtures.resources.find(resource => resource.Id === entry.ResourceId);
+          const activity = fixtures.activities.find(candidate => candidate.Id === entry.ActivityId);
+          const sale = entry.Billable ? entry.Hours * HOURLY_SALE : 0;
+          return [{
+            ...toCubeJobFields(job, fixtures),
+            Id: `T${entry.Id}`,
+            ExpenseType: ExpenseType.TIME,
+            LineType: 'Time',
+            ReferenceId: entry.Id,
+            ReferenceNumber: String(entry.Id),
+            ActivityName: activity?.ActivityText,
+            Quantity: entry.Hours,
+            CostPerUnit: HOURLY_COST,
+            SalePerUnit: entry.Billable ? HOURLY_SALE : 0,
+            Costs: entry.Hours * HOURLY_COST,
+            TheoreticalSale: sale,
+            ActualizedCost: entry.Hours * HOURLY_COST,
+            ActualizedSale: sale,
+            TheoreticalGrossProfit: sale - entry.Hours * HOURLY_COST,
+            ActualGrossProfit: sale - entry.Hours * HOURLY_COST,
+            EmployeeName: employee?.Name,
+            EmployeeCompanyName: 'Ambition',
+            TeamName: employee?.ResourceFolder
+          }];
+        });
+    }
+
+    if (expenseType === ExpenseType.EXPENSE) {
+      return fixtures.expenses
+        .filter(expense => isInPeriod(expense.Expensedate, params.StartDate, params.EndDate))
+        .flatMap((expense): CubeProjectData[] => {
+          const job = jobs.find(candidate => candidate.Id === expense.Jobid);
+          if (!job) {
+            return [];
+          }
+          return [{
+            ...toCubeJobFields(job, fixtures),
+            Id: `E${expense.Id}`,
+            ExpenseType: ExpenseType.EXPENSE,
+            LineType: 'Expense',
+            ReferenceId: expense.Id,
+            ReferenceNumber: String(expense.Id),
+            Quantity: expense.Quantity,
+            CostPerUnit: expense.TotalAmountCost / expense.Quantity,
+            SalePerUnit: expense.TotalAmountSale / expense.Quantity,
+            Costs: expense.TotalAmountCost,
+            TheoreticalSale: expense.TotalAmountSale,
+            ActualizedCost: expense.TotalAmountCost,
+            ActualizedSale: expense.TotalAmountSale,
+            TheoreticalGrossProfit: expense.TotalAmountSale - expense.TotalAmountCost,
+            ActualGrossProfit: expense.TotalAmountSale - expense.TotalAmountCost,
+            EmployeeName: expense.ResourceName
+          }];
+        });
+    }
+
+    return [];
+  }
+};
+
+/**
+ * TimeEntryRequest view of a stored entry, joined with job, task and customer names
+ */
+function toTimeEntry(entry: RawTimeEntry, fixtures: SimulatorFixtures): TimeEntry {
+  const job = fixtures.jobs.find(candidate => candidate.Id === entry.JobId);
+  const task = fixtures.tasks.find(candidate => candidate.Id === entry.TaskId);
+
+  return {
+    Id: entry.Id,
+    EmployeeId: entry.ResourceId,
+    SequenceNumber: entry.SequenceNumber,
+    Hours: entry.Hours,
+    Description: entry.Description,
+    DescriptionRequired: false,
+    RegistrationDate: entry.RegistrationDate,
+    ActivityId: entry.ActivityId,
+    ApprovalStatus: entry.ApprovalStatus,
+    Billable: entry.Billable,
+    CorrectionDate: null,
+    ApprovalRejectResourceId: null,
+    ApprovalRejectComment: null,
+    ApprovalRejectDate: null,
+    JobId: entry.JobId,
+    JobName: job?.JobName || '',
+    TaskId: entry.TaskId,
+    TaskName: task?.TaskName || '',
+    TaskNumber: task?.TaskNumber || 0,
+    CustomerName: job?.CustomerName || '',
+    TaskResourceHoursBooked: 0,
+    TaskResourceHoursUsed: 0
+  };
+}
+
+/**
+ * JobPatchRequest answer: the full job record after the patch
+ */
+function toJobPatchResponse(job: SimulatorFixtures['jobs'][number], fixtures: SimulatorFixtures): JobPatchResponse {
+  return {
+    JobID: job.Id,
+    Id: job.Id,
+    JobName: job.JobName,
+    ProjectId: job.ProjectId,
+    StatusId: job.StatusId,
+    JobTypeId: job.JobTypeId,
+    LeveringsDato: job.EndDate,
+    EndDate: job.EndDate,
+    ResponsibleId: job.ResponsibleId,
+    CompanyId: job.CompanyId,
+    TeamId: 1,
+    Public: true,
+    CreateDate: job.StartDate,
+    Billable: job.Billable,
+    CompletePhase: 0,
+    JobTaskActive: true,
+    JobTaskUseAllDays: false,
+    JobResponsibleId: job.ResponsibleId,
+    TimeEntryAllowed: 1,
+    FolderExtra: '',
+    FolderArchived: false,
+    ProductId: 0,
+    StartDate: job.StartDate,
+    AdminOnly: false,
+    JournalNumber: 0,
+    TemplateJob: false,
+    SupplementaryTextRequested: false,
+    CompanyDepartmentId: job.CompanyDepartmentId,
+    ExpAccMtd: 0,
+    CreateEmployeeId: job.ResponsibleId,
+    PostMethodTime: 1,
+    PostMethodMat: 1,
+    PostMethodExt: 1,
+    IsMediaJob: false,
+    FlexTimeRegDisabled: false,
+    Dim1: 0,
+    PostSpecId: 0,
+    VoucherRegistrationAllowed: true,
+    MaterialRegAllowed: true,
+    RetainerJob: fixtures.jobTypes.some(jobType => jobType.Id === job.JobTypeId && jobType.RetainerJob)
+  };
+}
+
+/**
+ * InvoicesRequest view of a stored invoice
+ */
+function toWorkbookInvoice(invoice: BillingInvoice, fixtures: SimulatorFixtures): WorkbookInvoice {
+  const job = fixtures.jobs.find(candidate => candidate.Id === invoice.JobId);
+
+  return {
+    Id: invoice.Id,
+    Number: invoice.InvoiceNumber,
+    TypeId: invoice.InvoiceType,
+    Date: invoice.InvoiceDate,
+    JobId: invoice.JobId ?? 0,
+    ResponsibleResourceId: job?.ResponsibleId ?? 0,
+    Title: invoice.JobName ?? '',
+    Headline: invoice.InvoiceTypeDescription,
+    DebtorId: invoice.CustomerId,
+    DebtorLabel: invoice.CustomerName,
+    DebtorAttention: '',
+    VATPercent: 25,
+    LanguageId: 1,
+    PrintDate: invoice.InvoiceDate,
+    PrintResourceId: job?.ResponsibleId ?? 0,
+    DebtorCompanyNumber: '',
+    ShowPhases: 0,
+    ShowPhasePrice: false,
+    ShowPhaseNumber: false,
+    ShowLines: 1,
+    ShowLinePrice: true,
+    ShowLineHours: true,
+    ShowLineHoursPrice: true,
+    ShowDividingLines: false,
+    DoIndentLines: false,
+    ShowDecimals: true,
+    ShowCurrency: true,
+    ShowVATPercent: true,
+    AmountNet: invoice.SubTotal,
+    AmountVat: invoice.VatAmount,
+    AmountTot: invoice.TotalAmount,
+    JournalNumber: 0,
+    PayTermId: 1,
+    DueDate: invoice.DueDate,
+    CreditNoteCloseJob: false,
+    MainInvoice: true,
+    AmountNetCurrency: invoice.SubTotal,
+    AmountVatCurrency: invoice.VatAmount,
+    AmountTotalCurrency: invoice.TotalAmount,
+    PostDate: invoice.InvoiceDate,
+    AmountNetVatAttract: invoice.SubTotal,
+    AmountNetVatAttractCurrency: invoice.SubTotal,
+    PayModeId: 0,
+    PayModeIdentificationNo: '',
+    PayModeCheckDigit: 0,
+    PayModeIdentificationLine: '',
+    PayModeAccountNo: 0,
+    PayModeDebtorAnnotation: '',
+    CompanyName: 'Ambition',
+    UpdateResId: job?.ResponsibleId ?? 0,
+    UpdateDate: invoice.InvoiceDate,
+    UpdateType: 0,
+    eTransferDate: '',
+    UseActGrouping: false,
+    Status: invoice.Status,
+    PartialInvoiceExpPostIsApproved: false,
+    ArpVatId: 0,
+    DeliveryArpAccId: 0,
+    DeliveryDebtorAttention: '',
+    ReverseCharge: false,
+    PayTermText: invoice.PaymentTerms ?? '',
+    ReportLayoutId: 1,
+    CurrencyId: 1,
+    CurrencyRate: 1,
+    CurrencyDate: invoice.InvoiceDate,
+    DoNotCapitalize: false,
+    SalesDate: invoice.InvoiceDate,
+    NumberNumeric: invoice.Id,
+    SubInvoice: false,
+    EliminatePartInvoice: false,
+    ReportWatermarkId: 0,
+    PaymentStatusForSystemsWithoutFinance: invoice.IsPaid ? 2 : 0,
+    ShowPartInvoiceExpenseDetails: false,
+    IncludeVouchers: 0,
+    Internal: false,
+    TimeOfSupplyOnLines: false
+  };
+}
+
+/**
+ * Job and customer columns shared by every cube line of a job
+ */
+function toCubeJobFields(job: SimulatorFixtures['jobs'][number], fixtures: SimulatorFixtures) {
+  return {
+    JobId: job.Id,
+    JobName: job.JobName,
+    JobEndDate: job.EndDate,
+    JobCompanyName: 'Ambition',
+    JobDepartmentName: fixtures.departments.find(department => department.Id === job.CompanyDepartmentId)?.Name,
+    JobTypeName: fixtures.jobTypes.find(jobType => jobType.Id === job.JobTypeId)?.Name,
+    JobResponsibleName: fixtures.resources.find(resource => resource.Id === job.ResponsibleId)?.Name ?? '',
+    CustomerId: job.CustomerId,
+    CustomerName: job.CustomerName
+  };
+}
+
+/**
+ * Work on a job that has not been invoiced, from its expenditure total row
+ */
+function getUnbilledAmount(jobId: number, fixtures: SimulatorFixtures): number {
+  return fixtures.expenditureSummaries.find(row => row.JobId === jobId && row.RowType === 9)?.UnBilled ?? 0;
+}
+
+/**
+ * Period blocks of the approval statistics endpoints from BeginDate, Stride, StrideTimeType and Count
+ */
+function toApprovalBlocks(params: Record<string, unknown>): Array<{ BeginDate: string; EndDate: string }> {
+  const begin = new Date(`${String(params.BeginDate).slice(0, 10)}T00:00:00Z`);
+  const stride = toNumber(params.Stride) || 1;
+  const strideTimeType = toNumber(params.StrideTimeType) || StrideTimeType.WEEK;
+  const shift = (blocks: number) => {
+    const date = new Date(begin);
+    if (strideTimeType === StrideTimeType.MONTH) {
+      date.setUTCMonth(date.getUTCMonth() + blocks * stride);
+    } else {
+      date.setUTCDate(date.getUTCDate() + blocks * stride * (strideTimeType === StrideTimeType.WEEK ? 7 : 1));
+    }
+    return date;
+  };
+
+  return Array.from({ length: toNumber(params.Count) || 1 }, (_, block) => ({
+    BeginDate: toDateTime(shift(block)),
+    EndDate: toDateTime(new Date(shift(block + 1).getTime() - DAY_MS))
+  }));
+}
+
+/**
+ * Registered hours, capacity and approval flags of one resource per block
+ */
+function toApprovalStatistics(
+  resourceId: number,
+  blocks: Array<{ BeginDate: string; EndDate: string }>,
+  fixtures: SimulatorFixtures
+): TimeEntryApprovalStatistics {
+  const resource = fixtures.resources.find(candidate => candidate.Id === resourceId);
+  const isEmployee = resource?.TypeId === ResourceTypes.EMPLOYEE;
+
+  return {
+    ResourceId: resourceId,
+    Entries: blocks.map((block, blockNumber) => {
+      const entries = fixtures.timeEntries
+        .filter(entry => entry.ResourceId === resourceId)
+        .filter(entry => isInPeriod(entry.RegistrationDate, block.BeginDate, block.EndDate));
+      return {
+        BlockNumber: blockNumber,
+        BeginDate: block.BeginDate,
+        EndDate: block.EndDate,
+        TimeRegistrationHours: sumHours(entries),
+        CapacityHours: isEmployee ? countWeekdays(block.BeginDate, block.EndDate) * DAILY_CAPACITY_HOURS : 0,
+        HasApprovedRecords: entries.some(entry => entry.ApprovalStatus === TimeEntryApprovalStatus.APPROVED),
+        HasNonApprovedRecords: entries.some(entry => entry.ApprovalStatus === TimeEntryApprovalStatus.SUBMITTED),
+        HasRejectedRecords: entries.some(entry => entry.ApprovalStatus === TimeEntryApprovalStatus.REJECTED),
+        ApprovalRequired: isEmployee
+      };
+    })
+  };
+}
+
+/**
+ * Department of an employee, matched on the name of their resource folder
+ */
+function toDepartmentId(resource: Resource, fixtures: SimulatorFixtures): number | undefined {
+  return fixtures.departments.find(department => department.Name === resource.ResourceFolder)?.Id;
+}
+
+/**
+ * The next weekdays from today, as Workbook date-times
+ */
+function upcomingWeekdays(count: number): string[] {
+  const days: string[] = [];
+  const now = new Date();
+  for (let date = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())); days.length < count; date = new Date(date.getTime() + DAY_MS)) {
+    if (date.getUTCDay() !== 0 && date.getUTCDay() !== 6) {
+      days.push(toDateTime(date));
+    }
+  }
+  return days;
+}
+
+function countWeekdays(startDate: string, endDate: string): number {
+  let count = 0;
+  for (let time = Date.parse(`${startDate.slice(0, 10)}T00:00:00Z`); time <= Date.parse(`${endDate.slice(0, 10)}T00:00:00Z`); time += DAY_MS) {
+    const weekday = new Date(time).getUTCDay();
+    count += weekday === 0 || weekday === 6 ? 0 : 1;
+  }
+  return count;
+}
+
+/**
+ * Whether a date falls within optional period bounds, compared by day
+ */
+function isInPeriod(date: string, startDate: unknown, endDate: unknown): boolean {
+  const day = date.slice(0, 10);
+  return (startDate === undefined || day >= String(startDate).slice(0, 10)) &&
+    (endDate === undefined || day <= String(endDate).slice(0, 10));
+}
+
+function sumHours(entries: RawTimeEntry[]): number {
+  return entries.reduce((sum, entry) => sum + entry.Hours, 0);
+}
+
+function toDateTime(date: Date): string {
+  return date.toISOString().replace('.000Z', '');
+}
+
+/**
+ * Fields of a PATCH body, which arrives wrapped as { Patch: {...} } and sometimes wrapped twice
+ */
+function toPatchValues(params: Record<string, unknown>): Record<string, unknown> {
+  let values = params;
+  while (values.Patch && typeof values.Patch === 'object') {
+    values = values.Patch as Record<string, unknown>;
+  }
+  return values;
+}
+
+function findOrFail<T extends { Id: number }>(items: T[], id: number, label: string): T {
+  const item = items.find(candidate => candidate.Id === id);
+  if (!item) {
+    throw new SimulatorHttpError(404, `${label} ${id} not found`);
+  }
+  return item;
+}
+
+function toNumber(value: unknown): number {
+  return typeof value === 'number' ? value : Number(value);
+}
+
+/**
+ * Numbers from an array or a comma separated query value
+ */
+function toNumbers(value: unknown): number[] {
+  if (value === undefined || value === null || value === '') {
+    return [];
+  }
+  const values = Array.isArray(value) ? value : String(value).split(',');
+  return values.map(toNumber).filter(number => !Number.isNaN(number));
+}
+
+function toBoolean(value: unknown): boolean {
+  return value === true || value === 'true' || value === '1';
+}
\ No newline at end of file
@@ -0,0 +1,301 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { SimulatorFixtures, loadFixtures } from './fixtures.js';
+import { endpointHandlers, SimulatorHttpError, SimulatorRequest } from './handlers.js';
+
+const API_PATH_PREFIX = '/api/json/reply/';
+const CONTROL_PATH_PREFIX = '/__simulator/';
+
+export interface SimulatorFault {
+  endpoint?: string;            // Endpoint name without the [] suffix; every endpoint when omitted
+  status: number;               // HTTP status to answer with; 0 drops the connection, -1 never answers (timeout)
+  rate?: number;                // Probability of injecting the fault, 0-1 (default 1)
+  times?: number;               // Number of injections before the fault is removed; unlimited when omitted
+  retryAfterSeconds?: number;   // Sent as Retry-After
+  body?: string;                // Response body; an HTML error page like Workbook's when omitted
+}
+
+export interface SimulatorOptions {
+  port?: number;                // 0 picks a free port (default)
+  latencyMs?: { min: number; max: number };
+  errorRate?: number;           // Probability of a random 503 on any API call, 0-1
+  faults?: SimulatorFault[];
+  fixtures?: SimulatorFixtures;
+  apiKey?: string;              // Bearer token required on API calls when set
+}
+
+export interface SimulatorRequestLogEntry {
+  method: string;
+  endpoint: string;
+  statusCode: number;
+  timestamp: string;
+}
+
+/**
+ * WorkbookSimulator - Local stand-in for the Workbook API used for offline development and tests
+ * Serves the endpoints in handlers.ts from seeded fixtures, with configurable latency and error injection
+ * Point a WorkbookClient at it with WorkbookClient.forSimulator(url) or WORKBOOK_SIMULATOR_URL
+ *
+ * Control endpoints:
+ * - POST   /__simulator/faults   add a SimulatorFault (JSON body)
+ * - DELETE /__simulator/faults   remove all faults
+ * - POST   /__simulator/reset    restore the fixtures and clear faults and the request log
+ * - GET    /__simulator/requests request log
+ */
+export class WorkbookSimulator {
+  private options: SimulatorOptions;
+  private fixtures: SimulatorFixtures;
+  private faults: SimulatorFault[];
+  private requestLog: SimulatorRequestLogEntry[] = [];
+  private server?: http.Server;
+
+  constructor(options: SimulatorOptions = {}) {
+    this.options = options;
+    this.fixtures = cloneFixtures(options.fixtures || loadFixtures());
+    this.faults = [...(options.faults || [])];
+  }
+
+  /**
+   * Start listening and return the base URL to use as WorkbookConfig.baseUrl
+   */
+  async start(): Promise<string> {
+    this.server = http.createServer((req, res) => {
+      this.handle(req, res).catch(error => {
+        console.error('❌ Simulator request failed:', error);
+        if (!res.headersSent) {
+          sendJson(res, 500, { ResponseStatus: { ErrorCode: 'SimulatorError', Message: String(error) } });
+        }
+      });
+    });
+
+    await new Promise<void>(resolve => this.server!.listen(this.options.port ?? 0, '127.0.0.1', resolve));
+    const { port } = this.server.address() as AddressInfo;
+    console.log(`🧪 Workbook simulator listening on http://127.0.0.1:${port}`);
+    return `http://127.0.0.1:${port}`;
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) {
+      return;
+    }
+    this.server.closeAllConnections();
+    await new Promise<void>(resolve => this.server!.close(() => resolve()));
+    this.server = undefined;
+  }
+
+  injectFault(fault: SimulatorFault): void {
+    this.faults.push({ ...fault });
+  }
+
+  clearFaults(): void {
+    this.faults = [];
+  }
+
+  /**
+   * Restore the fixtures and clear faults and the request log
+   */
+  reset(): void {
+    this.fixtures = cloneFixtures(this.options.fixtures || loadFixtures());
+    this.faults = [...(this.options.faults || [])];
+    this.requestLog = [];
+  }
+
+  getRequestLog(endpoint?: string): SimulatorRequestLogEntry[] {
+    return endpoint ? this.requestLog.filter(entry => entry.endpoint === endpoint) : [...this.requestLog];
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const rawBody = await readBody(req);
+
+    if (url.pathname.startsWith(CONTROL_PATH_PREFIX)) {
+      this.handleControl(url.pathname.slice(CONTROL_PATH_PREFIX.length), req.method || 'GET', rawBody, res);
+      return;
+    }
+
+    if (!url.pathname.startsWith(API_PATH_PREFIX)) {
+      sendHtmlError(res, 404, 'Not Found');
+      return;
+    }
+
+    const endpoint = decodeURIComponent(url.pathname.slice(API_PATH_PREFIX.length)).replace(/\[\]$/, '');
+    const method = String(req.headers['x-http-method-override'] || req.method || 'GET').toUpperCase();
+    const log = (statusCode: number) => this.requestLog.push({ method, endpoint, statusCode, timestamp: new Date().toISOString() });
+
+    await this.delay();
+
+    if (this.options.apiKey && req.headers.authorization !== `Bearer ${this.options.apiKey}`) {
+      log(401);
+      sendJson(res, 401, { ResponseStatus: { ErrorCode: 'Unauthorized', Message: 'Invalid API key' } });
+      return;
+    }
+
+    const fault = this.takeFault(endpoint);
+    if (fault) {
+      log(fault.status);
+      if (fault.status === -1) {
+        return; // Never answer so the client times out
+      }
+      if (fault.status === 0) {
+        req.socket.destroy();
+        return;
+      }
+      if (fault.retryAfterSeconds !== undefined) {
+        res.setHeader('Retry-After', String(fault.retryAfterSeconds));
+      }
+      if (fault.body !== undefined) {
+        res.writeHead(fault.status, { 'Content-Type': 'application/json' });
+        res.end(fault.body);
+      } else {
+        sendHtmlError(res, fault.status, `Simulated ${fault.status} on ${endpoint}`);
+      }
+      return;
+    }
+
+    const handler = endpointHandlers[endpoint];
+    if (!handler) {
+      log(404);
+      sendJson(res, 404, { ResponseStatus: { ErrorCode: 'NotImplemented', Message: `The simulator does not implement ${endpoint}` } });
+      return;
+    }
+
+    let body: unknown;
+    try {
+      body = rawBody ? JSON.parse(rawBody) : undefined;
+    } catch {
+      log(400);
+      sendJson(res, 400, { ResponseStatus: { ErrorCode: 'SerializationException', Message: 'Request body is not valid JSON' } });
+      return;
+    }
+
+    const request: SimulatorRequest = {
+      method,
+      params: {
+        ...Object.fromEntries(url.searchParams),
+        ...(body && typeof body === 'object' && !Array.isArray(body) ? body as Record<string, unknown> : {})
+      },
+      body
+    };
+
+    try {
+      const data = handler(request, this.fixtures);
+      if (data === undefined) {
+        log(204);
+        res.writeHead(204);
+        res.end();
+        return;
+      }
+      log(200);
+      sendJson(res, 200, data);
+    } catch (error) {
+      if (error instanceof SimulatorHttpError) {
+        log(error.statusCode);
+        sendJson(res, error.statusCode, { ResponseStatus: { ErrorCode: error.name, Message: error.message } });
+        return;
+      }
+      throw error;
+    }
+  }
+
+  private handleControl(action: string, method: string, rawBody: string, res: http.ServerResponse): void {
+    if (action === 'faults' && method === 'POST') {
+      this.injectFault(JSON.parse(rawBody) as SimulatorFault);
+      sendJson(res, 200, { faults: this.faults });
+    } else if (action === 'faults' && method === 'DELETE') {
+      this.clearFaults();
+      sendJson(res, 200, { faults: this.faults });
+    } else if (action === 'reset' && method === 'POST') {
+      this.reset();
+      sendJson(res, 200, { reset: true });
+    } else if (action === 'requests' && method === 'GET') {
+      sendJson(res, 200, this.requestLog);
+    } else {
+      sendJson(res, 404, { error: `Unknown simulator control ${method} ${action}` });
+    }
+  }
+
+  /**
+   * Pick the fault to inject for this call, counting down limited faults; random errors come last
+   */
+  private takeFault(endpoint: string): SimulatorFault | undefined {
+    const fault = this.faults.find(candidate =>
+      (!candidate.endpoint || candidate.endpoint === endpoint) && Math.random() < (candidate.rate ?? 1)
+    );
+
+    if (fault) {
+      if (fault.times !== undefined && --fault.times <= 0) {
+        this.faults.splice(this.faults.indexOf(fault), 1);
+      }
+      return fault;
+    }
+
+    return this.options.errorRate && Math.random() < this.options.errorRate ? { status: 503 } : undefined;
+  }
+
+  private async delay(): Promise<void> {
+    const latency = this.options.latencyMs;
+    if (!latency || latency.max <= 0) {
+      return;
+    }
+    const ms = latency.min + Math.random() * Math.max(latency.max - latency.min, 0);
+    await new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
+
+/**
+ * Deep copy so writes during a run never touch the seeded fixtures
+ */
+function cloneFixtures(fixtures: SimulatorFixtures): SimulatorFixtures {
+  return JSON.parse(JSON.stringify(fixtures)) as SimulatorFixtures;
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk)));
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
+
+function sendJson(res: http.ServerResponse, statusCode: number, data: unknown): void {
+  res.writeHead(statusCode, { 'Content-Type': 'application/json; charset=utf-8' });
+  res.end(JSON.stringify(data));
+}
+
+/**
+ * HTML error page like the ones Workbook's IIS front end returns
+ */
+function sendHtmlError(res: http.ServerResponse, statusCode: number, message: string): void {
+  res.writeHead(statusCode, { 'Content-Type': 'text/html; charset=utf-8' });
+  res.end(`<!DOCTYPE html><html><head><title>${statusCode} - ${message}</title></head><body><h1>Server Error</h1><p>${message}</p></body></html>`);
+}
+
+/**
+ * Parse WORKBOOK_SIMULATOR_LATENCY_MS: a fixed delay ("150") or a range ("50-300")
+ */
+function parseLatency(value: string | undefined): SimulatorOptions['latencyMs'] {
+  if (!value) {
+    return undefined;
+  }
+  const [min, max] = value.split('-').map(Number);
+  return { min, max: max ?? min };
+}
+
+// Run standalone: npm run simulator
+if (import.meta.url === `file://${process.argv[1]}`) {
+  const simulator = new WorkbookSimulator({
+    port: Number(process.env.WORKBOOK_SIMULATOR_PORT || 4010),
+    latencyMs: parseLatency(process.env.WORKBOOK_SIMULATOR_LATENCY_MS),
+    errorRate: Number(process.env.WORKBOOK_SIMULATOR_ERROR_RATE || 0),
+    fixtures: loadFixtures(process.env.WORKBOOK_SIMULATOR_FIXTURES)
+  });
+
+  simulator.start().then(url => {
+    console.log(`👉 Set WORKBOOK_SIMULATOR_URL=${url} to point the bot at the simulator`);
+  });
+
+  process.on('SIGINT', () => {
+    simulator.stop().then(() => process.exit(0));
+  });
+}
\ No newline at end of file
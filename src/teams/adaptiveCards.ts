@@ -91,6 +91,88 @@ export interface DownloadResult {
   expiresAt?: string;
 }
 
+export interface WipReportSummary {
+  totalUnbilled: number;
+  currencyCode: string;
+  jobCount: number;
+  aging: {
+    current: number;
+    days1to30: number;
+    days31to60: number;
+    days61to90: number;
+    over90: number;
+  };
+  topCustomers?: Array<{
+    name: string;
+    unbilledAmount: number;
+  }>;
+}
+
+export interface RetainerBurnDownSummary {
+  activeCount: number;
+  overrunCount: number;
+  exhaustingThisMonthCount: number;
+  retainers?: Array<{
+    name: string;
+    percentUsed?: number;
+    exhaustionDate?: string;
+    isOverrun: boolean;
+  }>;
+}
+
+export interface TimeApprovalSummary {
+  entryCount: number;
+  totalHours: number;
+  employeeCount?: number;
+  approverName?: string;
+  entries: Array<{
+    entryId: number;
+    label: string;
+    hours?: number;
+    date?: string;
+  }>;
+}
+
+export interface TimeReviewResult {
+  decision: 'approve' | 'reject';
+  reviewedCount: number;
+  reviewedHours: number;
+  reviewerName?: string;
+  comment?: string;
+  skipped: Array<{
+    id: number;
+    reason: string;
+  }>;
+}
+
+export interface TimesheetFollowUpSummary {
+  incompleteCount: number;
+  employeeCount: number;
+  startDate: string;
+  endDate: string;
+  missingHours: number;
+  reminderRaised: boolean;
+  employees?: Array<{
+    name: string;
+    registeredHours: number;
+    capacityHours: number;
+  }>;
+}
+
+export interface ClientProfileSummary {
+  clientName: string;
+  active: boolean;
+  responsibleName?: string;
+  contactCount: number;
+  activeJobCount: number;
+  openInvoiceCount: number;
+  outstandingAmount: number;
+  overdueAmount: number;
+  currencyCode: string;
+  lastRegistered?: string;
+  dataQualityIssueCount: number;
+}
+
 /**
  * Create an Adaptive Card for displaying company search results
  */
@@ -910,6 +992,555 @@ export function createRelationshipMappingCard(mappings: RelationshipMapping[]):
   return CardFactory.adaptiveCard(card);
 }
 
+/**
+ * Create a WIP Report Card summarizing unbilled work and its aging
+ */
+export function createWipReportCard(summary: WipReportSummary): Attachment {
+  const formatAmount = (amount: number) => `${Math.round(amount).toLocaleString('da-DK')} ${summary.currencyCode}`;
+  const overdueAmount = summary.aging.days61to90 + summary.aging.over90;
+
+  const card = {
+    type: 'AdaptiveCard',
+    $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+    version: '1.3',
+    body: [
+      {
+        type: 'TextBlock',
+        text: '💰 Unbilled Work (WIP)',
+        weight: 'Bolder',
+        size: 'Medium',
+        color: 'Accent'
+      },
+      {
+        type: 'FactSet',
+        facts: [
+          {
+            title: 'Total Unbilled',
+            value: formatAmount(summary.totalUnbilled)
+          },
+          {
+            title: 'Jobs',
+            value: summary.jobCount.toLocaleString()
+          }
+        ]
+      },
+      {
+        type: 'TextBlock',
+        text: '⏳ Aging (days since job end)',
+        weight: 'Bolder',
+        spacing: 'Medium'
+      },
+      {
+        type: 'Container',
+        style: overdueAmount > 0 ? 'attention' : 'default',
+        items: [
+          {
+            type: 'FactSet',
+            facts: [
+              {
+                title: 'Current',
+                value: formatAmount(summary.aging.current)
+              },
+              {
+                title: '1-30 days',
+                value: formatAmount(summary.aging.days1to30)
+              },
+              {
+                title: '31-60 days',
+                value: formatAmount(summary.aging.days31to60)
+              },
+              {
+                title: '61-90 days',
+                value: formatAmount(summary.aging.days61to90)
+              },
+              {
+                title: '90+ days',
+                value: formatAmount(summary.aging.over90)
+              }
+            ]
+          }
+        ]
+      },
+      ...(summary.topCustomers && summary.topCustomers.length > 0 ? [
+        {
+          type: 'TextBlock',
+          text: '🏢 Top Customers',
+          weight: 'Bolder',
+          spacing: 'Medium'
+        },
+        {
+          type: 'FactSet',
+          facts: summary.topCustomers.slice(0, 5).map(customer => ({
+            title: customer.name,
+            value: formatAmount(customer.unbilledAmount)
+          }))
+        }
+      ] : [])
+    ],
+    actions: [
+      {
+        type: 'Action.Submit',
+        title: 'Export WIP to CSV',
+        data: {
+          verb: 'export_wip_report'
+        }
+      }
+    ]
+  };
+
+  return CardFactory.adaptiveCard(card);
+}
+
+/**
+ * Create a Retainer Burn-down Card highlighting retainers that are overrun or running out
+ */
+export function createRetainerBurnDownCard(summary: RetainerBurnDownSummary): Attachment {
+  const needsAttention = summary.overrunCount + summary.exhaustingThisMonthCount > 0;
+
+  const card = {
+    type: 'AdaptiveCard',
+    $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+    version: '1.3',
+    body: [
+      {
+        type: 'TextBlock',
+        text: '⏳ Retainer Burn-down',
+        weight: 'Bolder',
+        size: 'Medium',
+        color: 'Accent'
+      },
+      {
+        type: 'FactSet',
+        facts: [
+          {
+            title: 'Active Retainers',
+            value: summary.activeCount.toLocaleString()
+          },
+          {
+            title: '🔴 Overrun',
+            value: summary.overrunCount.toLocaleString()
+          },
+          {
+            title: '🟠 Run Out This Month',
+            value: summary.exhaustingThisMonthCount.toLocaleString()
+          }
+        ]
+      },
+      ...(summary.retainers && summary.retainers.length > 0 ? [
+        {
+          type: 'Container',
+          style: needsAttention ? 'attention' : 'default',
+          spacing: 'Medium',
+          items: summary.retainers.slice(0, 10).map(retainer => ({
+            type: 'ColumnSet',
+            columns: [
+              {
+                type: 'Column',
+                width: 'stretch',
+                items: [
+                  {
+                    type: 'TextBlock',
+                    text: `${retainer.isOverrun ? '🔴' : '🟠'} **${retainer.name}**`,
+                    wrap: true
+                  },
+                  {
+                    type: 'TextBlock',
+                    text: retainer.exhaustionDate ? `Runs out ${retainer.exhaustionDate}` : 'No projected date',
+                    size: 'Small',
+                    spacing: 'None'
+                  }
+                ]
+              },
+              {
+                type: 'Column',
+                width: 'auto',
+                items: [
+                  {
+                    type: 'TextBlock',
+                    text: retainer.percentUsed !== undefined ? `${retainer.percentUsed}%` : '',
+                    weight: 'Bolder',
+                    color: retainer.isOverrun || (retainer.percentUsed ?? 0) > 100 ? 'Attention' : 'Warning',
+                    horizontalAlignment: 'Right'
+                  }
+                ]
+              }
+            ]
+          }))
+        }
+      ] : [])
+    ],
+    actions: [
+      {
+        type: 'Action.Submit',
+        title: 'Show All Retainers',
+        data: {
+          verb: 'show_all_retainers'
+        }
+      }
+    ]
+  };
+
+  return CardFactory.adaptiveCard(card);
+}
+
+/**
+ * Create an Adaptive Card listing time entries awaiting approval with Approve/Reject actions
+ * Each entry has a toggle so the approver can deselect entries before submitting
+ */
+export function createTimeApprovalCard(summary: TimeApprovalSummary): Attachment {
+  const entries = summary.entries.slice(0, 25);
+  const entryIds = entries.map(entry => entry.entryId);
+
+  const card = {
+    type: 'AdaptiveCard',
+    $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+    version: '1.3',
+    body: [
+      {
+        type: 'TextBlock',
+        text: '⏳ Timesheets Awaiting Approval',
+        weight: 'Bolder',
+        size: 'Medium',
+        color: 'Accent'
+      },
+      {
+        type: 'FactSet',
+        facts: [
+          {
+            title: 'Entries',
+            value: summary.entryCount.toLocaleString()
+          },
+          {
+            title: 'Hours',
+            value: summary.totalHours.toLocaleString()
+          },
+          ...(summary.employeeCount !== undefined ? [{
+            title: 'Employees',
+            value: summary.employeeCount.toLocaleString()
+          }] : []),
+          ...(summary.approverName ? [{
+            title: 'Approver',
+            value: summary.approverName
+          }] : [])
+        ]
+      },
+      {
+        type: 'Container',
+        spacing: 'Medium',
+        items: entries.map(entry => ({
+          type: 'Input.Toggle',
+          id: `entry_${entry.entryId}`,
+          title: `#${entry.entryId} ${entry.label}`,
+          value: 'true',
+          valueOn: 'true',
+          valueOff: 'false',
+          wrap: true
+        }))
+      },
+      ...(summary.entryCount > entries.length ? [{
+        type: 'TextBlock',
+        text: `Showing ${entries.length} of ${summary.entryCount} entries`,
+        size: 'Small',
+        isSubtle: true
+      }] : [])
+    ],
+    actions: [
+      {
+        type: 'Action.Submit',
+        title: '✅ Approve Selected',
+        style: 'positive',
+        data: {
+          verb: 'approve_time_entries',
+          entryIds
+        }
+      },
+      {
+        type: 'Action.ShowCard',
+        title: '❌ Reject Selected',
+        card: {
+          type: 'AdaptiveCard',
+          version: '1.3',
+          body: [
+            {
+              type: 'Input.Text',
+              id: 'rejectComment',
+              placeholder: 'Reason for rejection (shown to the employee)',
+              isMultiline: true
+            }
+          ],
+          actions: [
+            {
+              type: 'Action.Submit',
+              title: 'Reject',
+              style: 'destructive',
+              data: {
+                verb: 'reject_time_entries',
+                entryIds
+              }
+            }
+          ]
+        }
+      }
+    ]
+  };
+
+  return CardFactory.adaptiveCard(card);
+}
+
+/**
+ * Create an Adaptive Card with the outcome of an approval card submit; it replaces the approval card,
+ * so it has no actions and the entries cannot be submitted twice
+ */
+export function createTimeReviewResultCard(result: TimeReviewResult): Attachment {
+  const verb = result.decision === 'approve' ? 'Approved' : 'Rejected';
+
+  const card = {
+    type: 'AdaptiveCard',
+    $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+    version: '1.3',
+    body: [
+      {
+        type: 'TextBlock',
+        text: result.reviewedCount > 0 ? `${result.decision === 'approve' ? '✅' : '❌'} ${verb} ${result.reviewedCount} Time Entries` : `⚠️ No Time Entries ${verb}`,
+        weight: 'Bolder',
+        size: 'Medium',
+        color: result.reviewedCount > 0 ? 'Accent' : 'Warning'
+      },
+      {
+        type: 'FactSet',
+        facts: [
+          {
+            title: 'Hours',
+            value: result.reviewedHours.toLocaleString()
+          },
+          ...(result.reviewerName ? [{
+            title: result.decision === 'approve' ? 'Approved by' : 'Rejected by',
+            value: result.reviewerName
+          }] : []),
+          ...(result.comment ? [{
+            title: 'Comment',
+            value: result.comment
+          }] : [])
+        ]
+      },
+      ...(result.skipped.length > 0 ? [{
+        type: 'Container',
+        style: 'attention',
+        spacing: 'Medium',
+        items: [
+          {
+            type: 'TextBlock',
+            text: `${result.skipped.length} skipped`,
+            weight: 'Bolder'
+          },
+          ...result.skipped.slice(0, 25).map(skip => ({
+            type: 'TextBlock',
+            text: `#${skip.id}: ${skip.reason}`,
+            size: 'Small',
+            wrap: true,
+            spacing: 'None'
+          }))
+        ]
+      }] : [])
+    ]
+  };
+
+  return CardFactory.adaptiveCard(card);
+}
+
+/**
+ * Create an Adaptive Card summarizing incomplete timesheets for a manager
+ */
+export function createTimesheetFollowUpCard(summary: TimesheetFollowUpSummary): Attachment {
+  const card = {
+    type: 'AdaptiveCard',
+    $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+    version: '1.3',
+    body: [
+      {
+        type: 'TextBlock',
+        text: '🕒 Missing Timesheets',
+        weight: 'Bolder',
+        size: 'Medium',
+        color: 'Accent'
+      },
+      {
+        type: 'TextBlock',
+        text: `${summary.startDate} to ${summary.endDate}`,
+        size: 'Small',
+        isSubtle: true,
+        spacing: 'None'
+      },
+      {
+        type: 'FactSet',
+        facts: [
+          {
+            title: 'Incomplete',
+            value: `${summary.incompleteCount} of ${summary.employeeCount} employees`
+          },
+          {
+            title: 'Hours Missing',
+            value: summary.missingHours.toLocaleString()
+          },
+          {
+            title: 'Workbook Reminder',
+            value: summary.reminderRaised ? '🔔 Raised' : 'Not sent'
+          }
+        ]
+      },
+      ...(summary.employees && summary.employees.length > 0 ? [
+        {
+          type: 'Container',
+          style: 'attention',
+          spacing: 'Medium',
+          items: summary.employees.slice(0, 15).map(employee => ({
+            type: 'ColumnSet',
+            columns: [
+              {
+                type: 'Column',
+                width: 'stretch',
+                items: [
+                  {
+                    type: 'TextBlock',
+                    text: `**${employee.name}**`,
+                    wrap: true
+                  }
+                ]
+              },
+              {
+                type: 'Column',
+                width: 'auto',
+                items: [
+                  {
+                    type: 'TextBlock',
+                    text: `${employee.registeredHours} / ${employee.capacityHours} h`,
+                    weight: 'Bolder',
+                    color: employee.capacityHours > 0 && employee.registeredHours / employee.capacityHours < 0.5 ? 'Attention' : 'Warning',
+                    horizontalAlignment: 'Right'
+                  }
+                ]
+              }
+            ]
+          }))
+        }
+      ] : [])
+    ],
+    actions: summary.reminderRaised || summary.incompleteCount === 0 ? [] : [
+      {
+        type: 'Action.Submit',
+        title: '🔔 Send Workbook Reminder',
+        data: {
+          verb: 'raise_timesheet_follow_up',
+          startDate: summary.startDate,
+          endDate: summary.endDate
+        }
+      }
+    ]
+  };
+
+  return CardFactory.adaptiveCard(card);
+}
+
+/**
+ * Create an Adaptive Card with the Client 360 profile of a single client
+ */
+export function createClientProfileCard(summary: ClientProfileSummary): Attachment {
+  const needsAttention = summary.overdueAmount > 0 || summary.dataQualityIssueCount > 0;
+  const formatAmount = (amount: number) => `${amount.toLocaleString('da-DK', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} ${summary.currencyCode}`;
+
+  const card = {
+    type: 'AdaptiveCard',
+    $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+    version: '1.3',
+    body: [
+      {
+        type: 'TextBlock',
+        text: `🧭 ${summary.clientName}`,
+        weight: 'Bolder',
+        size: 'Medium',
+        color: 'Accent',
+        wrap: true
+      },
+      {
+        type: 'TextBlock',
+        text: summary.active ? 'Client 360' : 'Client 360 · ⚪ Inactive',
+        size: 'Small',
+        isSubtle: true,
+        spacing: 'None'
+      },
+      {
+        type: 'FactSet',
+        facts: [
+          {
+            title: 'Responsible',
+            value: summary.responsibleName || 'None'
+          },
+          {
+            title: 'Contacts',
+            value: summary.contactCount.toLocaleString()
+          },
+          {
+            title: 'Active Jobs',
+            value: summary.activeJobCount.toLocaleString()
+          },
+          {
+            title: 'Last Time Registered',
+            value: summary.lastRegistered || 'None'
+          }
+        ]
+      },
+      {
+        type: 'Container',
+        style: needsAttention ? 'attention' : 'default',
+        spacing: 'Medium',
+        items: [
+          {
+            type: 'FactSet',
+            facts: [
+              {
+                title: 'Open Invoices',
+                value: summary.openInvoiceCount.toLocaleString()
+              },
+              {
+                title: 'Outstanding',
+                value: formatAmount(summary.outstandingAmount)
+              },
+              {
+                title: summary.overdueAmount > 0 ? '🔴 Overdue' : 'Overdue',
+                value: formatAmount(summary.overdueAmount)
+              },
+              {
+                title: summary.dataQualityIssueCount > 0 ? '⚠️ Data Quality Issues' : 'Data Quality Issues',
+                value: summary.dataQualityIssueCount.toLocaleString()
+              }
+            ]
+          }
+        ]
+      }
+    ],
+    actions: [
+      {
+        type: 'Action.Submit',
+        title: 'Show Active Jobs',
+        data: {
+          verb: 'client_active_jobs',
+          clientName: summary.clientName
+        }
+      },
+      {
+        type: 'Action.Submit',
+        title: 'Show Open Invoices',
+        data: {
+          verb: 'client_open_invoices',
+          clientName: summary.clientName
+        }
+      }
+    ]
+  };
+
+  return CardFactory.adaptiveCard(card);
+}
+
 /**
  * Create a simple status card for general responses
  */
@@ -973,7 +1604,8 @@ export class EnhancedResponseParser {
         'geographicAnalysisTool': 'geographic-results',
         'dataQualityTool': 'data-quality',
         'enhancedExportTool': 'download',
-        'relationshipMappingTool': 'relationship-mapping'
+        'relationshipMappingTool': 'relationship-mapping',
+        'clientProfileTool': 'client-profile'
       };
       
       if (toolCardMap[context.toolUsed]) {
@@ -984,6 +1616,21 @@ export class EnhancedResponseParser {
     // Priority 2: Analyze query patterns
     const query = (context?.originalQuery || '').toLowerCase();
     
+    if (query.match(/everything about|client 360|\b360\b|client profile/)) {
+      return 'client-profile';
+    }
+    if (query.match(/(?:missing|incomplete|unfilled|not filled).*(?:timesheet|hours|time)|follow[- ]?up.*(?:timesheet|hours)|fill(?:ed)? in .*hours/)) {
+      return 'timesheet-follow-up';
+    }
+    if (query.match(/approv|timesheet/)) {
+      return 'time-approval';
+    }
+    if (query.match(/\bwip\b|work in progress|unbilled/)) {
+      return 'wip-report';
+    }
+    if (query.match(/retainer/)) {
+      return 'retainer-burndown';
+    }
     if (query.match(/database|overview|statistics|breakdown|resource type/)) {
       return 'database-overview';
     }
@@ -1157,6 +1804,188 @@ export class EnhancedResponseParser {
     return results.length > 0 ? results : null;
   }
   
+  /**
+   * Parse time entries awaiting approval from response text
+   * Entries are lines that carry an entry ID ("entry 123", "ID: 123" or "#123")
+   */
+  static parseTimeApprovals(text: string): TimeApprovalSummary | null {
+    const summaryMatch = text.match(/(\d+)\s*time entr(?:y|ies)\s*\((\d+(?:[.,]\d+)?)\s*hours?\)\s*(?:from\s*(\d+)\s*employees?\s*)?awaiting approval(?:\s*by\s*([^(\n.]+))?/i);
+    if (!summaryMatch) {
+      return null;
+    }
+
+    const entries: TimeApprovalSummary['entries'] = [];
+    text.split('\n').forEach(line => {
+      const idMatch = line.match(/(?:\bentry\s*(?:id)?|\bid)\s*:?\s*#?(\d{2,})|#(\d{2,})/i);
+      if (!idMatch || /awaiting approval/i.test(line)) {
+        return;
+      }
+      const entryId = parseInt(idMatch[1] || idMatch[2]);
+      if (entries.some(entry => entry.entryId === entryId)) {
+        return;
+      }
+      const hoursMatch = line.match(/(\d+(?:[.,]\d+)?)\s*(?:h\b|hours?)/i);
+      const dateMatch = line.match(/(\d{4}-\d{2}-\d{2})/);
+      entries.push({
+        entryId,
+        label: line.replace(idMatch[0], '').replace(/^\s*(?:[-*•]|\d+\.)\s*/, '').replace(/\*\*/g, '').replace(/^[\s:–-]+/, '').trim(),
+        hours: hoursMatch ? parseFloat(hoursMatch[1].replace(',', '.')) : undefined,
+        date: dateMatch?.[1]
+      });
+    });
+
+    if (entries.length === 0) {
+      return null;
+    }
+
+    return {
+      entryCount: parseInt(summaryMatch[1]),
+      totalHours: parseFloat(summaryMatch[2].replace(',', '.')),
+      employeeCount: summaryMatch[3] ? parseInt(summaryMatch[3]) : undefined,
+      approverName: summaryMatch[4]?.replace(/\*\*/g, '').trim(),
+      entries
+    };
+  }
+
+  /**
+   * Parse missing-timesheet follow-up from response text
+   * Employees are lines of the form "Name: X of Y hours"
+   */
+  static parseTimesheetFollowUp(text: string): TimesheetFollowUpSummary | null {
+    const summaryMatch = text.match(/(\d+)\s*of\s*(\d+)\s*employees have incomplete timesheets for\s*(\d{4}-\d{2}-\d{2})\s*to\s*(\d{4}-\d{2}-\d{2}):?\s*(\d+(?:[.,]\d+)?)\s*hours missing/i);
+    if (!summaryMatch) {
+      return null;
+    }
+
+    const employees: NonNullable<TimesheetFollowUpSummary['employees']> = [];
+    text.split('\n').forEach(line => {
+      const employeeMatch = line.match(/^\s*(?:[-*•]|\d+\.)\s*\**([^*:\n]+?)\**\s*:\s*(\d+(?:[.,]\d+)?)\s*(?:of|\/)\s*(\d+(?:[.,]\d+)?)\s*h/i);
+      if (employeeMatch) {
+        employees.push({
+          name: employeeMatch[1].trim(),
+          registeredHours: parseFloat(employeeMatch[2].replace(',', '.')),
+          capacityHours: parseFloat(employeeMatch[3].replace(',', '.'))
+        });
+      }
+    });
+
+    return {
+      incompleteCount: parseInt(summaryMatch[1]),
+      employeeCount: parseInt(summaryMatch[2]),
+      startDate: summaryMatch[3],
+      endDate: summaryMatch[4],
+      missingHours: parseFloat(summaryMatch[5].replace(',', '.')),
+      reminderRaised: /reminder raised/i.test(text),
+      employees: employees.length > 0 ? employees : undefined
+    };
+  }
+
+  /**
+   * Parse the Client 360 summary line from response text
+   */
+  static parseClientProfile(text: string): ClientProfileSummary | null {
+    const nameMatch = text.match(/client profile for\s*\**([^:*\n]+?)\**\s*:/i);
+    if (!nameMatch) {
+      return null;
+    }
+
+    const count = (pattern: RegExp) => {
+      const match = text.match(pattern);
+      return match ? parseInt(match[1]) : 0;
+    };
+    const outstandingMatch = text.match(/outstanding:?\**\s*([\d.,]+)\s*([A-Z]{3})?/i);
+    const overdueMatch = text.match(/overdue:?\**\s*([\d.,]+)/i);
+    const responsibleMatch = text.match(/responsible:?\**\s*([^,\n*]+)/i);
+    const lastRegisteredMatch = text.match(/last time registered:?\**\s*(\d{4}-\d{2}-\d{2})/i);
+    const clientName = nameMatch[1].replace(/\s*\(inactive\)\s*$/i, '').trim();
+
+    return {
+      clientName,
+      active: !/\(inactive\)/i.test(nameMatch[0]),
+      responsibleName: responsibleMatch && !/^none$/i.test(responsibleMatch[1].trim()) ? responsibleMatch[1].trim() : undefined,
+      contactCount: count(/(\d+)\s*contacts/i),
+      activeJobCount: count(/(\d+)\s*active jobs/i),
+      openInvoiceCount: count(/(\d+)\s*open invoices/i),
+      outstandingAmount: outstandingMatch ? parseAmount(outstandingMatch[1]) : 0,
+      overdueAmount: overdueMatch ? parseAmount(overdueMatch[1]) : 0,
+      currencyCode: outstandingMatch?.[2] || 'DKK',
+      lastRegistered: lastRegisteredMatch?.[1],
+      dataQualityIssueCount: count(/(\d+)\s*data quality issues?/i)
+    };
+  }
+
+  /**
+   * Parse WIP report summary from response text
+   */
+  static parseWipReport(text: string): WipReportSummary | null {
+    const totalMatch = text.match(/total unbilled:?\**\s*([\d.,]+)\s*([A-Z]{3})?/i);
+    if (!totalMatch) {
+      return null;
+    }
+
+    const jobsMatch = text.match(/(\d+)\s*jobs/i);
+    const parseBucket = (pattern: RegExp) => {
+      const match = text.match(pattern);
+      return match ? parseAmount(match[1]) : 0;
+    };
+
+    const topCustomers: NonNullable<WipReportSummary['topCustomers']> = [];
+    const customerPattern = /^\s*(?:[-*•]|\d+\.)\s*\**([^:*\n]+?)\**:\s*([\d.,]+)\s*(?:[A-Z]{3}|kr)/gim;
+    let match;
+    while ((match = customerPattern.exec(text)) !== null) {
+      const name = match[1].trim();
+      if (!name.match(/total|current|days/i)) {
+        topCustomers.push({ name, unbilledAmount: parseAmount(match[2]) });
+      }
+    }
+
+    return {
+      totalUnbilled: parseAmount(totalMatch[1]),
+      currencyCode: totalMatch[2] || 'DKK',
+      jobCount: jobsMatch ? parseInt(jobsMatch[1]) : 0,
+      aging: {
+        current: parseBucket(/current:?\s*([\d.,]+)/i),
+        days1to30: parseBucket(/1-30 days:?\s*([\d.,]+)/i),
+        days31to60: parseBucket(/31-60 days:?\s*([\d.,]+)/i),
+        days61to90: parseBucket(/61-90 days:?\s*([\d.,]+)/i),
+        over90: parseBucket(/90\+ days:?\s*([\d.,]+)/i)
+      },
+      topCustomers: topCustomers.length > 0 ? topCustomers : undefined
+    };
+  }
+
+  /**
+   * Parse retainer burn-down summary from response text
+   */
+  static parseRetainerBurnDown(text: string): RetainerBurnDownSummary | null {
+    const summaryMatch = text.match(/(\d+)\s*active retainers?:?\s*(\d+)\s*overrun,?\s*(\d+)\s*projected to run out/i);
+    if (!summaryMatch) {
+      return null;
+    }
+
+    const retainers: NonNullable<RetainerBurnDownSummary['retainers']> = [];
+    text.split('\n').forEach(line => {
+      const itemMatch = line.match(/^\s*(?:[-*•]|\d+\.)\s*\**([^*:\n(]+?)\**\s*(?:\([^)]*\))?\s*(?::|[–-]\s)/);
+      if (itemMatch && line.match(/%|run(?:s)? out|overrun/i)) {
+        const percentMatch = line.match(/(\d+)%/);
+        const dateMatch = line.match(/(\d{4}-\d{2}-\d{2})/);
+        retainers.push({
+          name: itemMatch[1].trim(),
+          percentUsed: percentMatch ? parseInt(percentMatch[1]) : undefined,
+          exhaustionDate: dateMatch?.[1],
+          isOverrun: /overrun/i.test(line)
+        });
+      }
+    });
+
+    return {
+      activeCount: parseInt(summaryMatch[1]),
+      overrunCount: parseInt(summaryMatch[2]),
+      exhaustingThisMonthCount: parseInt(summaryMatch[3]),
+      retainers: retainers.length > 0 ? retainers : undefined
+    };
+  }
+
   /**
    * Parse relationship mappings from response text
    */
@@ -1301,4 +2130,28 @@ export class ResponseParser {
 
     return null;
   }
+}
+
+/**
+ * Parse an amount written with either Danish (1.234,50) or English (1,234.50) separators
+ */
+function parseAmount(rawValue: string): number {
+  // Drop sentence punctuation captured after the number (e.g. "2.500,50, 31-60 days")
+  const value = rawValue.replace(/[.,]+$/, '');
+  const lastDot = value.lastIndexOf('.');
+  const lastComma = value.lastIndexOf(',');
+  const lastSeparator = Math.max(lastDot, lastComma);
+  if (lastSeparator === -1) {
+    return parseFloat(value) || 0;
+  }
+
+  // A single kind of separator followed by exactly three digits is a thousands separator
+  const hasBothSeparators = lastDot !== -1 && lastComma !== -1;
+  const isThousandsOnly = !hasBothSeparators && value.length - lastSeparator - 1 === 3;
+
+  const integerPart = isThousandsOnly ? value : value.slice(0, lastSeparator);
+  const decimalPart = isThousandsOnly ? '' : value.slice(lastSeparator + 1);
+  const normalized = integerPart.replace(/[.,]/g, '') + (decimalPart ? `.${decimalPart}` : '');
+
+  return parseFloat(normalized) || 0;
 }
\ No newline at end of file
@@ -5,6 +5,7 @@ import { initializeTelemetry, trackException } from '../utils/telemetry.js';
 import { TurnContext, CloudAdapter } from 'botbuilder';
 // PHASE 18: Re-enabling file routes for CSV export functionality
 import { initializeFileRoutes, handleFileDownload, handleFileList, cleanupExpiredFiles } from '../routes/fileRoutes.js';
+import { handleAuditQuery } from '../routes/auditRoutes.js';
 import dotenv from 'dotenv';
 import { fileURLToPath } from 'url';
 import * as path from 'path';
@@ -320,6 +321,12 @@ async function startServer() {
         res.json({ error: 'Cleanup failed' });
       }
     });
+    // Audit log of Workbook writes made through the agent (admin key required)
+    server.get('/api/admin/audit', async (req, res) => {
+      console.log('[AUDIT QUERY] Audit log query requested');
+      await handleAuditQuery(req, res);
+    });
+
     // server.post('/api/maintenance/cleanup', async (req, res, next) => {
     //   try {
     //     const deletedCount = await cleanupExpiredFiles();
@@ -358,6 +365,7 @@ async function startServer() {
       console.log('[SERVER START] - POST /api/messages (Teams bot endpoint)');  
       console.log('[SERVER START] - GET /api/files/:fileId (file downloads - DISABLED)');
       console.log('[SERVER START] - GET /api/files (file list - DISABLED)');
+      console.log('[SERVER START] - GET /api/admin/audit (audit log query, admin key required)');
       console.log('[SERVER START] Server ready to receive Teams messages');
       console.log('='.repeat(80));
     });
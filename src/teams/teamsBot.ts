@@ -9,7 +9,7 @@ import {
   DefaultTempState,
   TeamsAdapter
 } from '@microsoft/teams-ai';
-import { MemoryStorage, TurnContext, ConfigurationServiceClientCredentialFactory } from 'botbuilder';
+import { MemoryStorage, TurnContext, ConfigurationServiceClientCredentialFactory, TeamsInfo, Attachment } from 'botbuilder';
 import * as path from 'path';
 import * as fs from 'fs';
 import { fileURLToPath } from 'url';
@@ -22,8 +22,17 @@ import { Agent } from '@mastra/core/agent';
 import { keyVaultService } from '../services/keyVault.js';
 import { sanitizeInput, detectPromptInjection, validateSearchQuery } from '../utils/inputValidation.js';
 import { MemoryInvestigator } from '../utils/memoryInvestigation.js';
-
-import { ResponseParser, EnhancedResponseParser, ResponseContext, createDownloadCard, createCompanyResultsCard, createContactResultsCard, createDatabaseOverviewCard, createPortfolioAnalysisCard, createGeographicResultsCard, createRelationshipMappingCard } from './adaptiveCards.js';
+import { withTrafficConversation } from '../services/base/trafficRecorder.js';
+import { withTenant } from '../services/tenants/tenantContext.js';
+import { trackSecurityEvent } from '../utils/telemetry.js';
+import { withUser, withUserMessage, withConversation } from '../services/identity/userContext.js';
+import { TeamsMember } from '../services/identity/identityResolver.js';
+import { WorkbookClient } from '../services/index.js';
+import { TenantProfile, UserIdentity } from '../types/workbook.types.js';
+import { denyToolCall } from '../agent/tools/toolPermissions.js';
+import { describeError } from '../utils/errorGuidance.js';
+
+import { ResponseParser, EnhancedResponseParser, ResponseContext, createDownloadCard, createCompanyResultsCard, createContactResultsCard, createDatabaseOverviewCard, createPortfolioAnalysisCard, createGeographicResultsCard, createRelationshipMappingCard, createWipReportCard, createRetainerBurnDownCard, createTimeApprovalCard, createTimeReviewResultCard, createTimesheetFollowUpCard, createClientProfileCard } from './adaptiveCards.js';
 
 import dotenv from 'dotenv';
 
@@ -330,6 +339,65 @@ async function enhanceResponseWithAdaptiveCards(responseText: string, context: T
       }
       break;
     }
+
+    case 'wip-report': {
+      const wipSummary = EnhancedResponseParser.parseWipReport(responseText);
+      if (wipSummary) {
+        console.log('[ADAPTIVE CARDS] Creating WIP report card for', wipSummary.jobCount, 'jobs');
+        await context.sendActivity(responseText);
+        const wipCard = createWipReportCard(wipSummary);
+        await context.sendActivity({ attachments: [wipCard] });
+        return;
+      }
+      break;
+    }
+
+    case 'time-approval': {
+      const approvals = EnhancedResponseParser.parseTimeApprovals(responseText);
+      if (approvals) {
+        console.log('[ADAPTIVE CARDS] Creating time approval card for', approvals.entries.length, 'entries');
+        await context.sendActivity(responseText);
+        const approvalCard = createTimeApprovalCard(approvals);
+        await context.sendActivity({ attachments: [approvalCard] });
+        return;
+      }
+      break;
+    }
+
+    case 'timesheet-follow-up': {
+      const followUp = EnhancedResponseParser.parseTimesheetFollowUp(responseText);
+      if (followUp) {
+        console.log('[ADAPTIVE CARDS] Creating timesheet follow-up card for', followUp.incompleteCount, 'employees');
+        await context.sendActivity(responseText);
+        const followUpCard = createTimesheetFollowUpCard(followUp);
+        await context.sendActivity({ attachments: [followUpCard] });
+        return;
+      }
+      break;
+    }
+
+    case 'client-profile': {
+      const clientProfile = EnhancedResponseParser.parseClientProfile(responseText);
+      if (clientProfile) {
+        console.log('[ADAPTIVE CARDS] Creating client profile card for', clientProfile.clientName);
+        await context.sendActivity(responseText);
+        const clientProfileCard = createClientProfileCard(clientProfile);
+        await context.sendActivity({ attachments: [clientProfileCard] });
+        return;
+      }
+      break;
+    }
+    case 'retainer-burndown': {
+      const retainerSummary = EnhancedResponseParser.parseRetainerBurnDown(responseText);
+      if (retainerSummary) {
+        console.log('[ADAPTIVE CARDS] Creating retainer burn-down card for', retainerSummary.activeCount, 'retainers');
+        await context.sendActivity(responseText);
+        const retainerCard = createRetainerBurnDownCard(retainerSummary);
+        await context.sendActivity({ attachments: [retainerCard] });
+        return;
+      }
+      break;
+    }
     }
     
     // Fallback to plain text for responses that don't match any card pattern
@@ -509,10 +577,30 @@ async function executeMastraAgent(message: string, state: WorkbookTurnState, con
     // Execute our existing Mastra agent with native memory system
     // User context is maintained through threadId and resourceId, not in the message
     // Use enhanced message for follow-ups, or original sanitized message for regular queries
-    const response = await cachedWorkbookAgent.generate(enhancedMessage, {
-      threadId,
-      resourceId
-    });
+    // Audit records name the conversation, and its API traffic is recorded under it when WORKBOOK_TRAFFIC_MODE=record
+    // Tools see the user's own message (e.g. freshness detection), not the enhanced one
+    // Tool calls go to the Workbook instance of the Teams tenant/team the message came from
+    const turnUser = await resolveTurnUser(context);
+    if (!turnUser) {
+      return { responseText: TENANT_UNMATCHED_MESSAGE, toolsUsed: [], toolResponses: {} };
+    }
+    const { tenant, identity } = turnUser;
+
+    const agent = cachedWorkbookAgent;
+    const response = await withTenant(tenant.id, () =>
+      withUser(identity, () =>
+        withConversation(context.activity.conversation?.id, () =>
+          withUserMessage(queryValidation.sanitized, () =>
+            withTrafficConversation(() =>
+              agent.generate(enhancedMessage, {
+                threadId,
+                resourceId
+              })
+            )
+          )
+        )
+      )
+    );
 
     // Phase 7B: SYSTEMATIC INVESTIGATION - Log response details
     console.log('[MASTRA RESPONSE DEBUG] Full response object keys:', Object.keys(response || {}));
@@ -579,6 +667,61 @@ async function executeMastraAgent(message: string, state: WorkbookTurnState, con
   }
 }
 
+const TENANT_UNMATCHED_MESSAGE = '❌ This Teams tenant or team is not connected to a Workbook instance. Ask a Workbook administrator to add it to the tenant configuration.';
+
+interface TurnUser {
+  tenant: TenantProfile;
+  client: WorkbookClient;
+  identity: UserIdentity;
+}
+
+/**
+ * Workbook tenant, client and user of a Teams turn
+ * Undefined when no Workbook tenant matches the Teams tenant/team; such turns are refused
+ */
+async function resolveTurnUser(context: TurnContext): Promise<TurnUser | undefined> {
+  const tools = await import('../agent/tools/index.js');
+  const tenantRegistry = tools.getTenantRegistry();
+  const route = {
+    tenantId: context.activity.conversation?.tenantId || context.activity.channelData?.tenant?.id,
+    teamId: context.activity.channelData?.team?.id
+  };
+  const tenant = tenantRegistry.resolve(route);
+  if (!tenant) {
+    console.warn('[TENANT] No Workbook tenant matches this Teams tenant/team, refusing the turn', route);
+    trackSecurityEvent('TenantUnmatched', { ...route });
+    return undefined;
+  }
+  const client = await tenantRegistry.getClient(tenant.id);
+  console.log(`[TENANT] Routing turn to ${tenant.name} (${tenant.id})`);
+
+  // Write and financial tools run only if the Workbook employee behind the Teams user has the role for them
+  const identity = await tools.getIdentityResolver().resolve(client, await getTeamsMember(context));
+  console.log(`[IDENTITY] ${identity.name || 'Unknown user'} acts as ${identity.employee ? `employee ${identity.employee.id}` : 'no Workbook employee'} with role ${identity.role}`);
+
+  return { tenant, client, identity };
+}
+
+/**
+ * Teams account of the message sender; email and UPN come from the Teams roster, which is
+ * unavailable outside Teams (e.g. the Bot Framework Emulator)
+ */
+async function getTeamsMember(context: TurnContext): Promise<TeamsMember> {
+  const from = context.activity.from;
+  try {
+    const member = await TeamsInfo.getMember(context, from.id);
+    return {
+      aadObjectId: member.aadObjectId || from.aadObjectId,
+      name: member.name || from.name,
+      email: member.email,
+      userPrincipalName: member.userPrincipalName
+    };
+  } catch (error) {
+    console.warn('[IDENTITY] Could not read the Teams member of the sender:', error instanceof Error ? error.message : error);
+    return { aadObjectId: from.aadObjectId, name: from.name };
+  }
+}
+
 /**
  * Configure Teams bot handlers
  */
@@ -711,6 +854,78 @@ export async function configureTeamsBotHandlers(app: Application<WorkbookTurnSta
     await context.sendActivity(agentResult.responseText);
   });
 
+  // Handle export WIP report button
+  app.adaptiveCards.actionSubmit('export_wip_report', async (context: TurnContext, state: WorkbookTurnState, data: unknown) => {
+    console.log('[ADAPTIVE CARDS] Export WIP report clicked:', data);
+    await context.sendActivity('Generating unbilled work (WIP) export...');
+    const agentResult = await executeMastraAgent('Export the unbilled work (WIP) report to CSV', state, context);
+    const primaryTool = agentResult.toolsUsed.length > 0 ? agentResult.toolsUsed[0] : undefined;
+    await enhanceResponseWithAdaptiveCards(agentResult.responseText, context, 'Export the unbilled work (WIP) report to CSV', primaryTool);
+  });
+
+  // Handle show all retainers button
+  app.adaptiveCards.actionSubmit('show_all_retainers', async (context: TurnContext, state: WorkbookTurnState, data: unknown) => {
+    console.log('[ADAPTIVE CARDS] Show all retainers clicked:', data);
+    const agentResult = await executeMastraAgent('Show the burn-down for all active retainers', state, context);
+    const primaryTool = agentResult.toolsUsed.length > 0 ? agentResult.toolsUsed[0] : undefined;
+    await enhanceResponseWithAdaptiveCards(agentResult.responseText, context, 'Show the burn-down for all active retainers', primaryTool);
+  });
+
+  // Handle the drill-down buttons on the client profile card
+  app.adaptiveCards.actionSubmit('client_active_jobs', async (context: TurnContext, state: WorkbookTurnState, data: unknown) => {
+    console.log('[ADAPTIVE CARDS] Client active jobs clicked:', data);
+    const clientName = ((data || {}) as { clientName?: string }).clientName || '';
+    const query = `List the active jobs for ${clientName}`;
+    const agentResult = await executeMastraAgent(query, state, context);
+    const primaryTool = agentResult.toolsUsed.length > 0 ? agentResult.toolsUsed[0] : undefined;
+    await enhanceResponseWithAdaptiveCards(agentResult.responseText, context, query, primaryTool);
+  });
+
+  app.adaptiveCards.actionSubmit('client_open_invoices', async (context: TurnContext, state: WorkbookTurnState, data: unknown) => {
+    console.log('[ADAPTIVE CARDS] Client open invoices clicked:', data);
+    const clientName = ((data || {}) as { clientName?: string }).clientName || '';
+    const query = `Show all open invoices for ${clientName} with payment status`;
+    const agentResult = await executeMastraAgent(query, state, context);
+    const primaryTool = agentResult.toolsUsed.length > 0 ? agentResult.toolsUsed[0] : undefined;
+    await enhanceResponseWithAdaptiveCards(agentResult.responseText, context, query, primaryTool);
+  });
+
+  // Handle approve button on the time approval card
+  app.adaptiveCards.actionSubmit('approve_time_entries', async (context: TurnContext, state: WorkbookTurnState, data: unknown) => {
+    console.log('[ADAPTIVE CARDS] Approve time entries clicked:', data);
+    const entryIds = getSelectedEntryIds(data);
+    if (entryIds.length === 0) {
+      await context.sendActivity('No time entries were selected for approval.');
+      return;
+    }
+    await context.sendActivity(`Approving ${entryIds.length} time entries...`);
+    await reviewTimeEntriesFromCard(context, entryIds, 'approve');
+  });
+
+  // Handle reject button on the time approval card - the rejection comment is required
+  app.adaptiveCards.actionSubmit('reject_time_entries', async (context: TurnContext, state: WorkbookTurnState, data: unknown) => {
+    console.log('[ADAPTIVE CARDS] Reject time entries clicked:', data);
+    const entryIds = getSelectedEntryIds(data);
+    const comment = ((data as { rejectComment?: string })?.rejectComment || '').trim();
+    if (entryIds.length === 0) {
+      await context.sendActivity('No time entries were selected for rejection.');
+      return;
+    }
+    if (!comment) {
+      await context.sendActivity('Please enter a reason for the rejection - it is shown to the employee.');
+      return;
+    }
+    await context.sendActivity(`Rejecting ${entryIds.length} time entries...`);
+    await reviewTimeEntriesFromCard(context, entryIds, 'reject', comment);
+  });
+
+  // Handle send reminder button on the missing timesheets card
+  app.adaptiveCards.actionSubmit('raise_timesheet_follow_up', async (context: TurnContext, state: WorkbookTurnState, data: unknown) => {
+    console.log('[ADAPTIVE CARDS] Raise timesheet follow-up clicked:', data);
+    const agentResult = await executeMastraAgent('Raise the Workbook follow-up reminder for missing time registration', state, context);
+    await context.sendActivity(agentResult.responseText);
+  });
+
   // Add logging for debugging - using conversationUpdate as a generic activity handler
   app.conversationUpdate('membersAdded', async (context: TurnContext) => {
     console.log('Processing activity', { 
@@ -720,6 +935,83 @@ export async function configureTeamsBotHandlers(app: Application<WorkbookTurnSta
   });
 }
 
+/**
+ * Entry IDs on a time approval card that are still toggled on
+ * Toggles submit 'true'/'false' under entry_{id}; entries without a toggle value count as selected
+ */
+function getSelectedEntryIds(data: unknown): number[] {
+  const cardData = (data || {}) as { entryIds?: number[] } & Record<string, unknown>;
+  return (cardData.entryIds || []).filter(entryId => cardData[`entry_${entryId}`] !== 'false');
+}
+
+/**
+ * Approve or reject time entries from the approval card without the agent: the decision and the
+ * rejection comment go to Workbook as submitted, and the card is replaced with the outcome
+ */
+async function reviewTimeEntriesFromCard(context: TurnContext, entryIds: number[], decision: 'approve' | 'reject', comment?: string): Promise<void> {
+  try {
+    const turnUser = await resolveTurnUser(context);
+    if (!turnUser) {
+      await context.sendActivity(TENANT_UNMATCHED_MESSAGE);
+      return;
+    }
+    const { tenant, client, identity } = turnUser;
+
+    // Same turn context as a message, so the review is audited under the conversation and recorded with it
+    await withTenant(tenant.id, () => withUser(identity, () => withConversation(context.activity.conversation?.id, () => withTrafficConversation(async () => {
+      if (!identity.permissions.includes('time.approve')) {
+        const denied = await denyToolCall(identity, {
+          toolId: 'time-tracking',
+          operation: decision,
+          input: { entryIds },
+          permission: 'time.approve',
+          entityType: 'time_entry',
+          action: `${decision} time entries`,
+          reason: `Role ${identity.role} lacks time.approve`
+        });
+        await context.sendActivity(denied.message);
+        return;
+      }
+
+      const response = await client.jobs.reviewTimeEntries(entryIds, decision, { approverId: identity.employee?.id, comment });
+      if (!response.success || !response.data) {
+        await context.sendActivity(`❌ Failed to ${decision} time entries: ${describeError(response)}`);
+        return;
+      }
+
+      const review = response.data;
+      const card = createTimeReviewResultCard({
+        decision,
+        reviewedCount: review.reviewed.length,
+        reviewedHours: Math.round(review.reviewed.reduce((sum, entry) => sum + entry.hours, 0) * 100) / 100,
+        reviewerName: identity.employee?.name || identity.name,
+        comment,
+        skipped: review.skipped
+      });
+      await replaceCard(context, card);
+    }))));
+  } catch (error) {
+    console.error(`[ADAPTIVE CARDS] Failed to ${decision} time entries:`, error);
+    await context.sendActivity(`❌ Failed to ${decision} time entries. Please try again.`);
+  }
+}
+
+/**
+ * Replace the card whose button was clicked; sent as a new message where the channel cannot update it
+ */
+async function replaceCard(context: TurnContext, card: Attachment): Promise<void> {
+  const cardActivityId = context.activity.replyToId;
+  if (cardActivityId) {
+    try {
+      await context.updateActivity({ type: 'message', id: cardActivityId, attachments: [card] });
+      return;
+    } catch (error) {
+      console.warn('[ADAPTIVE CARDS] Could not update the card, sending the result instead:', error instanceof Error ? error.message : error);
+    }
+  }
+  await context.sendActivity({ attachments: [card] });
+}
+
 /**
  * Create and configure the complete Teams bot application
  */
@@ -152,6 +152,80 @@ export interface AnalyticsDateRange {
   EndDate: string;
 }
 
+// Cube query used by the analytics service (camelCase, service-level)
+export interface CubeQuery {
+  startDate: string;
+  endDate: string;
+  jobId?: number;
+  customerId?: number;
+  expenseTypes?: ExpenseType[];
+}
+
+// Dimensions cube lines can be aggregated by
+export type CubeDimension =
+  | 'customer'
+  | 'job'
+  | 'employee'
+  | 'team'
+  | 'department'
+  | 'dimension1'
+  | 'dimension2'
+  | 'dimension3'
+  | 'dimension4'
+  | 'dimension5';
+
+// Aggregated cube figures for one dimension value
+export interface CubeAggregateRow {
+  key: string;
+  name: string;
+  lineCount: number;
+  jobCount: number;
+  hours: number;
+  billableHours: number;
+  theoreticalSale: number;
+  actualizedSale: number;
+  actualizedCost: number;
+  grossProfit: number;
+  marginPercent: number;
+}
+
+// Monthly actuals query: scope by jobs, customer or job department
+export interface MonthlyActualsQuery {
+  // First month of the history window (YYYY-MM)
+  fromMonth: string;
+  // Last month of the history window (YYYY-MM), inclusive
+  toMonth: string;
+  jobIds?: number[];
+  customerId?: number;
+  departmentName?: string;
+}
+
+// Actualized cube figures for one calendar month
+export interface MonthlyActual {
+  month: string; // YYYY-MM
+  revenue: number;
+  cost: number;
+  grossProfit: number;
+  hours: number;
+  jobCount: number;
+}
+
+// One projected value of a series with its confidence band
+export interface SeriesForecastPoint {
+  value: number;
+  low: number;
+  high: number;
+  standardError: number;
+}
+
+// Fitted trend (+ optional monthly seasonality) and its projections
+export interface SeriesForecast {
+  method: 'seasonal_trend' | 'linear_trend' | 'average';
+  slope: number;
+  residualStdDev: number;
+  points: SeriesForecastPoint[];
+}
+
 // Expense type enum - Comprehensive API type definition
 /* eslint-disable no-unused-vars */
 export enum ExpenseType {
@@ -105,4 +105,134 @@ export enum InvoiceType {
   PRO_FORMA = 3,
   CONSOLIDATED = 4
 }
-/* eslint-enable no-unused-vars */
\ No newline at end of file
+/* eslint-enable no-unused-vars */
+
+// Mapped versions for camelCase compatibility
+export interface MappedBillingInvoice {
+  id: number;
+  invoiceNumber: string;
+  invoiceDate: string;
+  dueDate: string;
+  customerId: number;
+  customerName: string;
+  jobId?: number;
+  jobName?: string;
+  currencyCode: string;
+  totalAmount: number;
+  paidAmount: number;
+  balanceDue: number;
+  status: InvoiceStatus;
+  statusText: string;
+  daysOverdue: number;
+  isOverdue: boolean;
+  isPartiallyPaid: boolean;
+}
+
+// Outstanding amounts split by age (days past due date)
+export interface AgingBuckets {
+  current: number;
+  days1to30: number;
+  days31to60: number;
+  days61to90: number;
+  over90: number;
+}
+
+export interface CustomerReceivables {
+  customerId: number;
+  customerName: string;
+  currencyCode: string;
+  totalOutstanding: number;
+  overdueAmount: number;
+  invoiceCount: number;
+  oldestDaysOverdue: number;
+  aging: AgingBuckets;
+}
+
+export interface MappedConsolidatedInvoiceJob {
+  jobId: number;
+  jobName: string;
+  customerId: number;
+  customerName: string;
+  unbilledAmount: number;
+  lastInvoiceDate?: string;
+  projectManagerId: number;
+  projectManagerName?: string;
+  canConsolidate: boolean;
+}
+
+export interface MappedBillingStatus {
+  jobId: number;
+  jobName: string;
+  totalBillable: number;
+  totalInvoiced: number;
+  totalPending: number;
+  lastInvoiceNumber?: string;
+  lastInvoiceDate?: string;
+  invoiceCount: number;
+  status: 'fully_billed' | 'partially_billed' | 'not_billed' | 'nothing_to_bill';
+}
+
+export interface MappedBillableJob {
+  id: number;
+  jobId: number;
+  jobName: string;
+  customerId: number;
+  customerName: string;
+  jobStatusId: number;
+  jobEndDate: string;
+  companyInitials: string;
+  currencyCode: string;
+  priceSale: number;
+  totalExpenseSale: number;
+  invoiceDraftSale: number;
+  unbilledAmount: number;
+  projectManagerId: number;
+  projectManagerName?: string;
+  daysSinceEnd: number;
+}
+
+// Work-in-progress totals for one customer or project manager
+export interface WipGroup {
+  id: number;
+  name: string;
+  jobCount: number;
+  unbilledAmount: number;
+  aging: AgingBuckets;
+}
+
+export interface WipReport {
+  generatedAt: string;
+  currencyCode: string;
+  jobCount: number;
+  totalUnbilled: number;
+  aging: AgingBuckets;
+  byCustomer: WipGroup[];
+  byProjectManager: WipGroup[];
+  jobs: MappedBillableJob[];
+}
+
+// Retainer burn-down derived from ClientProjectRetainerKeyFiguresVisualizationRequest
+export interface MappedRetainerBurnDown {
+  jobId: number;
+  jobReferenceKey: string;
+  clientId: number;
+  clientName?: string;
+  responsibleId: number;
+  responsibleName?: string;
+  startDate: string;
+  endDate: string;
+  hoursBudget: number;
+  hoursUsed: number;
+  hoursRemaining: number;
+  hoursUsedCurrentMonth: number;
+  hoursUsedPreviousMonth: number;
+  percentUsed: number;
+  burnRatePerWeek: number;
+  projectedExhaustionDate?: string;
+  exhaustsThisMonth: boolean;
+  exhaustsBeforeEndDate: boolean;
+  invoicedRemaining: number;
+  overrun: number;
+  isOverrun: boolean;
+  status: 'overrun' | 'at_risk' | 'on_track';
+}
\ No newline at end of file
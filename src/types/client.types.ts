@@ -0,0 +1,76 @@
+/**
+ * Client Profile Types for Workbook API
+ * Aggregated "Client 360" view built by ClientProfileService
+ */
+
+import { MappedBillingInvoice } from './billing.types.js';
+import { MappedJobSummary } from './job-api.types.js';
+
+export interface ClientProfileContact {
+  id: number;
+  name: string;
+  title?: string;
+  email?: string;
+  phone?: string;
+  active: boolean;
+}
+
+export interface ClientProfileEmployee {
+  id: number;
+  name: string;
+  email?: string;
+  active: boolean;
+}
+
+export interface ClientProfileReceivables {
+  openInvoiceCount: number;
+  outstandingAmount: number;
+  overdueAmount: number;
+  oldestDaysOverdue: number;
+  currencyCode: string;
+}
+
+export interface ClientProfileLastRegistration {
+  registrationDate: string;
+  hours: number;
+  jobId: number;
+  jobName?: string;
+  resourceId: number;
+  resourceName?: string;
+}
+
+export interface ClientDataQualityIssue {
+  field: string;
+  severity: 'critical' | 'warning';
+  message: string;
+}
+
+// Single structured profile of a client across resources, contacts, jobs, invoices and time
+export interface ClientProfile {
+  client: {
+    id: number;
+    name: string;
+    typeName: string;
+    active: boolean;
+    email?: string;
+    phone?: string;
+    address?: string;
+    city?: string;
+    postCode?: string;
+    country?: string;
+    folder?: string;
+    createDate?: string;
+    updateDate?: string;
+  };
+  responsibleEmployee?: ClientProfileEmployee;
+  contacts: ClientProfileContact[];
+  activeJobs: MappedJobSummary[];
+  totalJobCount: number;
+  openInvoices: MappedBillingInvoice[];
+  receivables: ClientProfileReceivables;
+  lastRegistration?: ClientProfileLastRegistration;
+  dataQualityIssues: ClientDataQualityIssue[];
+  // Sections that could not be loaded; the rest of the profile is still returned
+  unavailableSections: Array<{ section: string; error: string }>;
+  generatedAt: string;
+}
\ No newline at end of file
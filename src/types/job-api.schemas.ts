@@ -0,0 +1,490 @@
+/**
+ * Job API Response Schemas - Runtime counterparts of the response interfaces in job-api.types.ts
+ * Typed against the interfaces so the two cannot drift apart; unknown fields are kept
+ */
+
+import { z } from 'zod';
+import {
+  JobTeamMember,
+  TaskResourcePrice,
+  TaskResponse,
+  Activity,
+  ExpenditureEntry,
+  PriceList,
+  JobCreateResponse,
+  JobPatchResponse,
+  JobSimpleVisualization,
+  JobIdReference,
+  Tag,
+  Invoice,
+  InvoicePaymentStatus,
+  ExpenditureSummary,
+  DepartmentProfitSplit,
+  JobType,
+  TimeEntryTaskResourceSum,
+  CapacityVisualization,
+  Department,
+  TimeEntry,
+  RawTimeEntry,
+  TimeEntryApprovalStatisticsEntry,
+  TimeEntryApprovalStatistics,
+  ResourcesTimeEntryApprovalStatistics,
+  TimeEntryChecklistRow
+} from './job-api.types.js';
+
+// JobTeamAllRequest response
+export const JobTeamMemberSchema: z.ZodType<JobTeamMember> = z.object({
+  JobId: z.number(),
+  ResourceId: z.number(),
+  BonusPart: z.boolean(),
+  Id: z.number(),
+  JobAccess: z.boolean(),
+  PortalAccessType: z.number(),
+  JobRoleId: z.number().optional(),
+  DefaultTaskId: z.number().optional(),
+  HourlySalePrice: z.number().optional()
+}).passthrough();
+
+// TasksResourcePriceRequest response
+export const TaskResourcePriceSchema: z.ZodType<TaskResourcePrice> = z.object({
+  Id: z.number(),
+  TaskId: z.number(),
+  Hours: z.number(),
+  Cost: z.number(),
+  Sale: z.number(),
+  HoursTimeRegistration: z.number(),
+  IsoCode: z.string()
+}).passthrough();
+
+// TaskRequest, TaskPatchRequest and TaskInsertPositionRequest response
+export const TaskResponseSchema: z.ZodType<TaskResponse> = z.object({
+  Id: z.number(),
+  PlanId: z.number(),
+  PhaseNumber: z.number(),
+  TaskNumber: z.number(),
+  TaskName: z.string(),
+  ActivityId: z.number(),
+  StartDate: z.string(),
+  WorkDays: z.number(),
+  EndDate: z.string(),
+  TaskStatus: z.number(),
+  BookingStatus: z.number(),
+  Milestone: z.boolean(),
+  PriorityId: z.number(),
+  SupplementaryTextRequested: z.boolean(),
+  TaskColourId: z.number(),
+  ShowPublic: z.boolean(),
+  CreateDate: z.string(),
+  CreateEmployeeId: z.number(),
+  UpdateEmployeeId: z.number(),
+  UpdateDate: z.string(),
+  TemporaryId: z.number(),
+  AllowTimeRegistration: z.boolean(),
+  AllowUseOffDay: z.boolean(),
+  FromExternal: z.boolean(),
+  BookingLevel: z.number(),
+  Billable: z.boolean()
+}).passthrough();
+
+// ActivityVisualizationsRequest response
+export const ActivitySchema: z.ZodType<Activity> = z.object({
+  Id: z.number(),
+  ActivityText: z.string()
+}).passthrough();
+
+// ExpenditureOpenEntriesRequest response
+export const ExpenditureEntrySchema: z.ZodType<ExpenditureEntry> = z.object({
+  Id: z.number(),
+  Icon: z.string(),
+  CompanyId: z.number(),
+  Jobid: z.number(),
+  ExpenseType: z.number(),
+  ExpenseDescription: z.string(),
+  Expensedate: z.string(),
+  ResourceId: z.number(),
+  ResourceName: z.string(),
+  ApprovalStatus: z.number(),
+  ApprovalStatusText: z.string(),
+  Quantity: z.number(),
+  CurrencyId: z.number(),
+  CurrencyName: z.string(),
+  TotalAmountSale: z.number(),
+  TotalAmountCost: z.number(),
+  TotalAmountSaleDisplayCurrency: z.number(),
+  TotalAmountCostDisplayCurrency: z.number()
+}).passthrough();
+
+// PriceListsJobRequest response
+export const PriceListSchema: z.ZodType<PriceList> = z.object({
+  CurrencyIsoCode: z.string(),
+  Id: z.number(),
+  Name: z.string(),
+  CurrencyId: z.number(),
+  Blocked: z.boolean(),
+  PriceListDescription: z.string().optional(),
+  EnableActivityAccess: z.boolean()
+}).passthrough();
+
+// JobCreateRequest response
+export const JobCreateResponseSchema: z.ZodType<JobCreateResponse> = z.object({
+  JobId: z.number()
+}).passthrough();
+
+// JobPatchRequest response
+export const JobPatchResponseSchema: z.ZodType<JobPatchResponse> = z.object({
+  JobID: z.number(),
+  Id: z.number(),
+  JobName: z.string(),
+  ProjectId: z.number(),
+  StatusId: z.number(),
+  JobTypeId: z.number(),
+  LeveringsDato: z.string(),
+  EndDate: z.string(),
+  ResponsibleId: z.number(),
+  CompanyId: z.number(),
+  TeamId: z.number(),
+  Public: z.boolean(),
+  CreateDate: z.string(),
+  Billable: z.boolean(),
+  CompletePhase: z.number(),
+  JobTaskActive: z.boolean(),
+  JobTaskUseAllDays: z.boolean(),
+  JobResponsibleId: z.number(),
+  TimeEntryAllowed: z.number(),
+  FolderExtra: z.string(),
+  FolderArchived: z.boolean(),
+  ProductId: z.number(),
+  StartDate: z.string(),
+  AdminOnly: z.boolean(),
+  JournalNumber: z.number(),
+  TemplateJob: z.boolean(),
+  SupplementaryTextRequested: z.boolean(),
+  CompanyDepartmentId: z.number(),
+  ExpAccMtd: z.number(),
+  CreateEmployeeId: z.number(),
+  PostMethodTime: z.number(),
+  PostMethodMat: z.number(),
+  PostMethodExt: z.number(),
+  IsMediaJob: z.boolean(),
+  FlexTimeRegDisabled: z.boolean(),
+  Dim1: z.number(),
+  PostSpecId: z.number(),
+  VoucherRegistrationAllowed: z.boolean(),
+  MaterialRegAllowed: z.boolean(),
+  RetainerJob: z.boolean()
+}).passthrough();
+
+// JobSimpleVisualizationRequest response
+export const JobSimpleVisualizationSchema: z.ZodType<JobSimpleVisualization> = z.object({
+  Id: z.number(),
+  JobId: z.number(),
+  JobName: z.string(),
+  CustomerId: z.number(),
+  CustomerName: z.string(),
+  Billable: z.boolean(),
+  ProjectId: z.number(),
+  StatusId: z.number(),
+  CompanyId: z.number(),
+  EndDate: z.string(),
+  StartDate: z.string(),
+  JobTypeId: z.number(),
+  JobRessAnsvarID: z.number(),
+  ResponsibleId: z.number(),
+  ProstatusId: z.number(),
+  CompanyDepartmentId: z.number(),
+  CostingCodeId: z.number()
+}).passthrough();
+
+// JobsRequest response (ids of the jobs matching the filters)
+export const JobIdReferenceSchema: z.ZodType<JobIdReference> = z.object({
+  Id: z.number()
+}).passthrough();
+
+// TagsRequest response
+export const TagSchema: z.ZodType<Tag> = z.object({
+  Id: z.number(),
+  TagId: z.number(),
+  TagName: z.string(),
+  Active: z.boolean(),
+  CreateDate: z.string(),
+  UpdateResourceId: z.number(),
+  UpdateDate: z.string(),
+  Color: z.string(),
+  Internal: z.boolean()
+}).passthrough();
+
+// InvoicesRequest response
+export const InvoiceSchema: z.ZodType<Invoice> = z.object({
+  Id: z.number(),
+  Number: z.string(),
+  TypeId: z.number(),
+  Date: z.string(),
+  JobId: z.number(),
+  ResponsibleResourceId: z.number(),
+  Title: z.string(),
+  Headline: z.string(),
+  DebtorId: z.number(),
+  DebtorLabel: z.string(),
+  DebtorAttention: z.string(),
+  VATPercent: z.number(),
+  LanguageId: z.number(),
+  PrintDate: z.string(),
+  PrintResourceId: z.number(),
+  DebtorCompanyNumber: z.string(),
+  ShowPhases: z.number(),
+  ShowPhasePrice: z.boolean(),
+  ShowPhaseNumber: z.boolean(),
+  ShowLines: z.number(),
+  ShowLinePrice: z.boolean(),
+  ShowLineHours: z.boolean(),
+  ShowLineHoursPrice: z.boolean(),
+  ShowDividingLines: z.boolean(),
+  DoIndentLines: z.boolean(),
+  ShowDecimals: z.boolean(),
+  ShowCurrency: z.boolean(),
+  ShowVATPercent: z.boolean(),
+  AmountNet: z.number(),
+  AmountVat: z.number(),
+  AmountTot: z.number(),
+  JournalNumber: z.number(),
+  PayTermId: z.number(),
+  DueDate: z.string(),
+  CreditNoteCloseJob: z.boolean(),
+  MainInvoice: z.boolean(),
+  AmountNetCurrency: z.number(),
+  AmountVatCurrency: z.number(),
+  AmountTotalCurrency: z.number(),
+  PostDate: z.string(),
+  AmountNetVatAttract: z.number(),
+  AmountNetVatAttractCurrency: z.number(),
+  PayModeId: z.number(),
+  PayModeIdentificationNo: z.string(),
+  PayModeCheckDigit: z.number(),
+  PayModeIdentificationLine: z.string(),
+  PayModeAccountNo: z.number(),
+  PayModeDebtorAnnotation: z.string(),
+  CompanyName: z.string(),
+  UpdateResId: z.number(),
+  UpdateDate: z.string(),
+  UpdateType: z.number(),
+  eTransferDate: z.string(),
+  UseActGrouping: z.boolean(),
+  Status: z.number(),
+  PartialInvoiceExpPostIsApproved: z.boolean(),
+  ArpVatId: z.number(),
+  DeliveryArpAccId: z.number(),
+  DeliveryDebtorAttention: z.string(),
+  ReverseCharge: z.boolean(),
+  PayTermText: z.string(),
+  ReportLayoutId: z.number(),
+  CurrencyId: z.number(),
+  CurrencyRate: z.number(),
+  CurrencyDate: z.string(),
+  DoNotCapitalize: z.boolean(),
+  SalesDate: z.string(),
+  NumberNumeric: z.number(),
+  SubInvoice: z.boolean(),
+  EliminatePartInvoice: z.boolean(),
+  ReportWatermarkId: z.number(),
+  PaymentStatusForSystemsWithoutFinance: z.number(),
+  ShowPartInvoiceExpenseDetails: z.boolean(),
+  IncludeVouchers: z.number(),
+  Internal: z.boolean(),
+  TimeOfSupplyOnLines: z.boolean()
+}).passthrough();
+
+// InvoicePaymentStatusRequest response
+export const InvoicePaymentStatusSchema: z.ZodType<InvoicePaymentStatus> = z.object({
+  Id: z.number(),
+  CompanyId: z.number(),
+  JobId: z.number(),
+  PaymentStatusId: z.number(),
+  PaymentStatusText: z.string(),
+  PaymentStatus: z.string(),
+  Amount: z.number(),
+  IsoCode: z.string(),
+  LatestPaidDate: z.string()
+}).passthrough();
+
+// ExpenditureSummaryHoursAndCostRequest response
+export const ExpenditureSummarySchema: z.ZodType<ExpenditureSummary> = z.object({
+  Id: z.number(),
+  JobId: z.number(),
+  RowType: z.number(),
+  GroupNumber: z.number(),
+  GroupName: z.string(),
+  SortOrder: z.number(),
+  CurrencyId: z.number(),
+  CurrencyCode: z.string(),
+  ActivityId: z.number().optional(),
+  Description: z.string(),
+  QuotedPrice: z.number().optional(),
+  ActualHours: z.number().optional(),
+  ActualCosts: z.number().optional(),
+  ActualPrice: z.number().optional(),
+  Billed: z.number().optional(),
+  UnBilled: z.number().optional()
+}).passthrough();
+
+// ExpenditureSummaryDepartmentProfitSplitVisualizationRequest response
+export const DepartmentProfitSplitSchema: z.ZodType<DepartmentProfitSplit> = z.object({
+  Id: z.number(),
+  RecordType: z.number(),
+  DepartmentType: z.string().optional(),
+  DepartmentName: z.string().optional(),
+  DepartmentId: z.number().optional(),
+  CurrencyId: z.number(),
+  CurrencyCode: z.string(),
+  PriceQuoteShare: z.number().optional(),
+  PriceQuoteSharePercentage: z.number().optional(),
+  TaskAmount: z.number().optional(),
+  TaskPercentage: z.number().optional(),
+  TimeShare: z.number().optional(),
+  TimePercentage: z.number().optional(),
+  InvoiceShare: z.number().optional(),
+  InvoicePercentage: z.number().optional()
+}).passthrough();
+
+// JobTypesRequest response
+export const JobTypeSchema: z.ZodType<JobType> = z.object({
+  Id: z.number(),
+  Name: z.string(),
+  Active: z.boolean(),
+  RetainerJob: z.boolean(),
+  UpdateDate: z.string().optional(),
+  UpdatePriceQuote: z.boolean()
+}).passthrough();
+
+// TimeEntryTaskResourceSumVisualizationRequest response
+export const TimeEntryTaskResourceSumSchema: z.ZodType<TimeEntryTaskResourceSum> = z.object({
+  Id: z.number(),
+  ResourceId: z.number(),
+  TaskId: z.number(),
+  HoursTimeRegistration: z.number(),
+  Done: z.boolean(),
+  HasTimeRegistration: z.boolean()
+}).passthrough();
+
+// CapacityVisualizationMultiRequest response
+export const CapacityVisualizationSchema: z.ZodType<CapacityVisualization> = z.object({
+  ReferenceId: z.number(),
+  Id: z.number(),
+  ResourceId: z.number(),
+  DayDate: z.string(),
+  Capacity: z.number(),
+  CapacityCurrent: z.number(),
+  HoursBooked: z.number(),
+  HoursBookedCurrent: z.number(),
+  TotalHoursBooked: z.number(),
+  TotalHoursBookedCurrent: z.number(),
+  TotalApprovedHoursBooked: z.number(),
+  TotalApprovedHoursBookedCurrent: z.number(),
+  HoursNormal: z.number(),
+  BookingLevel: z.number(),
+  DayType: z.number(),
+  HoursHoliday: z.number()
+}).passthrough();
+
+// DepartmentsRequest response
+export const DepartmentSchema: z.ZodType<Department> = z.object({
+  Id: z.number(),
+  CompanyId: z.number(),
+  Name: z.string(),
+  Active: z.boolean()
+}).passthrough();
+
+// TimeEntryRequest response
+export const TimeEntrySchema: z.ZodType<TimeEntry> = z.object({
+  Id: z.number(),
+  EmployeeId: z.number(),
+  SequenceNumber: z.number(),
+  Hours: z.number(),
+  Description: z.string(),
+  DescriptionRequired: z.boolean(),
+  RegistrationDate: z.string(),
+  ActivityId: z.number(),
+  ApprovalStatus: z.number(),
+  Billable: z.boolean(),
+  CorrectionDate: z.string().nullable(),
+  ApprovalRejectResourceId: z.number().nullable(),
+  ApprovalRejectComment: z.string().nullable(),
+  ApprovalRejectDate: z.string().nullable(),
+  JobId: z.number(),
+  JobName: z.string(),
+  TaskId: z.number(),
+  TaskName: z.string(),
+  TaskNumber: z.number(),
+  CustomerName: z.string(),
+  TaskResourceHoursBooked: z.number(),
+  TaskResourceHoursUsed: z.number()
+}).passthrough();
+
+// RawTimeEntryRequest response
+export const RawTimeEntrySchema: z.ZodType<RawTimeEntry> = z.object({
+  Id: z.number(),
+  ResourceId: z.number(),
+  JobId: z.number(),
+  TaskId: z.number(),
+  ActivityId: z.number(),
+  RegistrationDate: z.string(),
+  Hours: z.number(),
+  Description: z.string(),
+  Cost: z.number(),
+  Sale: z.number(),
+  CostMethod: z.number(),
+  SaleMethod: z.number(),
+  SequenceNumber: z.number(),
+  JournalNumber: z.number(),
+  Correction: z.number(),
+  Public: z.boolean(),
+  ApprovalStatus: z.number(),
+  Billable: z.boolean(),
+  ApprovalEmployeeResourceId: z.number().nullable(),
+  ApprovalEmployeeDate: z.string().nullable(),
+  ApprovalProjectManagerResourceId: z.number().nullable(),
+  ApprovalProjectManagerDate: z.string().nullable(),
+  CreateDate: z.string(),
+  CreateResourceId: z.number(),
+  InternalDescription: z.string()
+}).passthrough();
+
+// TimeEntryApprovalStatisticsVisualizationRequest / ResourcesTimeEntryApprovalStatisticsVisualizationRequest block entry
+export const TimeEntryApprovalStatisticsEntrySchema: z.ZodType<TimeEntryApprovalStatisticsEntry> = z.object({
+  BlockNumber: z.number(),
+  BeginDate: z.string().optional(),
+  EndDate: z.string().optional(),
+  TimeRegistrationHours: z.number(),
+  CapacityHours: z.number(),
+  HasApprovedRecords: z.boolean(),
+  HasNonApprovedRecords: z.boolean(),
+  HasRejectedRecords: z.boolean(),
+  ApprovalRequired: z.boolean()
+}).passthrough();
+
+// TimeEntryApprovalStatisticsVisualizationRequest response
+export const TimeEntryApprovalStatisticsSchema: z.ZodType<TimeEntryApprovalStatistics> = z.object({
+  ResourceId: z.number(),
+  Entries: z.array(TimeEntryApprovalStatisticsEntrySchema)
+}).passthrough();
+
+// ResourcesTimeEntryApprovalStatisticsVisualizationRequest response
+export const ResourcesTimeEntryApprovalStatisticsSchema: z.ZodType<ResourcesTimeEntryApprovalStatistics> = z.object({
+  Blocks: z.array(z.object({
+    BeginDate: z.string(),
+    EndDate: z.string()
+  }).passthrough()),
+  ResourceData: z.array(TimeEntryApprovalStatisticsSchema)
+}).passthrough();
+
+// FollowUpTimeEntryChecklistVisualizationRequest response row
+export const TimeEntryChecklistRowSchema: z.ZodType<TimeEntryChecklistRow> = z.object({
+  Id: z.number(),
+  EmployeeId: z.number(),
+  JobId: z.number(),
+  Hours: z.number(),
+  ProjektId: z.number(),
+  CustomerTypeId: z.number(),
+  DayTypeId: z.number(),
+  AbsenceId: z.number().nullable(),
+  EmployeeName: z.unknown()
+}).passthrough();
\ No newline at end of file
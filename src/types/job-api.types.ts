@@ -10,6 +10,21 @@ export interface JobTeamMember {
   Id: number;
   JobAccess: boolean;
   PortalAccessType: number;
+  JobRoleId?: number;
+  DefaultTaskId?: number;
+  HourlySalePrice?: number;
+}
+
+// JobTeamRequest payload (create and patch of a job team member)
+export interface JobTeamMemberPayload {
+  Id?: number;
+  JobId?: number;
+  ResourceId?: number;
+  JobAccess?: boolean;
+  BonusPart?: boolean;
+  JobRoleId?: number;
+  DefaultTaskId?: number;
+  HourlySalePrice?: number;
 }
 
 // TasksResourcePriceRequest response
@@ -140,6 +155,32 @@ export interface MappedJobTeamMember {
   jobAccess: boolean;
   id: number;
   portalAccessType: number;
+  roleId?: number;
+  defaultTaskId?: number;
+  hourlySalePrice?: number;
+}
+
+// Settings of a job team member that can be set when adding or updating
+export interface JobTeamMemberSettings {
+  roleId?: number;
+  defaultTaskId?: number;
+  hourlySalePrice?: number;
+  bonusPart?: boolean;
+  jobAccess?: boolean;
+}
+
+// One requested change to a job team
+export interface JobTeamChange extends JobTeamMemberSettings {
+  action: 'add' | 'update' | 'remove';
+  resourceId: number;
+}
+
+// Outcome of JobService.applyTeamChanges
+export interface MappedJobTeamChangeResult {
+  jobId: number;
+  successful: Array<{ resourceId: number; action: JobTeamChange['action'] }>;
+  failed: Array<{ resourceId: number; action: JobTeamChange['action']; error: string }>;
+  team: MappedJobTeamMember[];
 }
 
 // Mapped time entry data returned by JobService (camelCase)
@@ -255,6 +296,54 @@ export interface MappedJobData {
   costingCodeId: number;
 }
 
+// JobsRequest response (ids of the jobs matching the filters)
+export interface JobIdReference {
+  Id: number;
+}
+
+// Filters, sorting and paging for JobService.searchJobs
+export interface JobSearchParams {
+  customerId?: number;
+  responsibleId?: number;
+  statusIds?: number[];
+  jobTypeId?: number;
+  departmentId?: number;
+  tagId?: number;
+  projectId?: number;
+  dateFrom?: string;
+  dateTo?: string;
+  dateField?: 'start' | 'end' | 'overlap';
+  sortBy?: 'endDate' | 'startDate' | 'name' | 'customer' | 'id';
+  sortDirection?: 'asc' | 'desc';
+  page?: number;
+  pageSize?: number;
+}
+
+// Job row returned by JobService.searchJobs
+export interface MappedJobSummary {
+  id: number;
+  jobName: string;
+  customerId: number;
+  customerName: string;
+  projectId: number;
+  statusId: number;
+  jobTypeId: number;
+  responsibleId: number;
+  companyDepartmentId: number;
+  billable: boolean;
+  startDate?: string;
+  endDate?: string;
+}
+
+// One page of JobService.searchJobs results
+export interface MappedJobSearchResult {
+  jobs: MappedJobSummary[];
+  totalCount: number;
+  page: number;
+  pageSize: number;
+  pageCount: number;
+}
+
 // New endpoints from job-endpoints-2.md
 
 // TagsRequest response
@@ -582,4 +671,243 @@ export interface MappedCapacityVisualization {
   bookingLevel: number;
   dayType: number;
   hoursHoliday: number;
+}
+
+// Time tracking endpoints from comprehensive-endpoints.md
+
+// TimeEntryRequest response
+export interface TimeEntry {
+  Id: number;
+  EmployeeId: number;
+  SequenceNumber: number;
+  Hours: number;
+  Description: string;
+  DescriptionRequired: boolean;
+  RegistrationDate: string;
+  ActivityId: number;
+  ApprovalStatus: number;
+  Billable: boolean;
+  CorrectionDate: string | null;
+  ApprovalRejectResourceId: number | null;
+  ApprovalRejectComment: string | null;
+  ApprovalRejectDate: string | null;
+  JobId: number;
+  JobName: string;
+  TaskId: number;
+  TaskName: string;
+  TaskNumber: number;
+  CustomerName: string;
+  TaskResourceHoursBooked: number;
+  TaskResourceHoursUsed: number;
+}
+
+// RawTimeEntryRequest response
+export interface RawTimeEntry {
+  Id: number;
+  ResourceId: number;
+  JobId: number;
+  TaskId: number;
+  ActivityId: number;
+  RegistrationDate: string;
+  Hours: number;
+  Description: string;
+  Cost: number;
+  Sale: number;
+  CostMethod: number;
+  SaleMethod: number;
+  SequenceNumber: number;
+  JournalNumber: number;
+  Correction: number;
+  Public: boolean;
+  ApprovalStatus: number;
+  Billable: boolean;
+  ApprovalEmployeeResourceId: number | null;
+  ApprovalEmployeeDate: string | null;
+  ApprovalProjectManagerResourceId: number | null;
+  ApprovalProjectManagerDate: string | null;
+  CreateDate: string;
+  CreateResourceId: number;
+  InternalDescription: string;
+}
+
+// Mapped time registration returned by JobService (camelCase)
+// Shares identity, job, resource and approval fields with MappedTimeEntry
+export interface MappedTimeRegistration extends Pick<MappedTimeEntry, 'id' | 'jobId' | 'resourceId' | 'approvalStatus' | 'approvalStatusText'> {
+  taskId: number;
+  taskName?: string;
+  jobName?: string;
+  customerName?: string;
+  activityId: number;
+  registrationDate: string;
+  hours: number;
+  description: string;
+  billable: boolean;
+  isDraft: boolean;
+  rejectComment?: string | null;
+}
+
+// TimeEntryApprovalStatisticsVisualizationRequest / ResourcesTimeEntryApprovalStatisticsVisualizationRequest block entry
+export interface TimeEntryApprovalStatisticsEntry {
+  BlockNumber: number;
+  BeginDate?: string;
+  EndDate?: string;
+  TimeRegistrationHours: number;
+  CapacityHours: number;
+  HasApprovedRecords: boolean;
+  HasNonApprovedRecords: boolean;
+  HasRejectedRecords: boolean;
+  ApprovalRequired: boolean;
+}
+
+// TimeEntryApprovalStatisticsVisualizationRequest response
+export interface TimeEntryApprovalStatistics {
+  ResourceId: number;
+  Entries: TimeEntryApprovalStatisticsEntry[];
+}
+
+// ResourcesTimeEntryApprovalStatisticsVisualizationRequest response
+export interface ResourcesTimeEntryApprovalStatistics {
+  Blocks: Array<{
+    BeginDate: string;
+    EndDate: string;
+  }>;
+  ResourceData: TimeEntryApprovalStatistics[];
+}
+
+// Mapped approval statistics block (camelCase)
+export interface MappedApprovalStatisticsBlock {
+  blockNumber: number;
+  beginDate: string;
+  endDate: string;
+  registeredHours: number;
+  capacityHours: number;
+  hasApprovedRecords: boolean;
+  hasPendingRecords: boolean;
+  hasRejectedRecords: boolean;
+  approvalRequired: boolean;
+}
+
+export interface MappedResourceApprovalStatistics {
+  resourceId: number;
+  blocks: MappedApprovalStatisticsBlock[];
+}
+
+// Hours per approval status for one resource in a period
+export interface MappedResourceApprovalHours {
+  resourceId: number;
+  registeredHours: number;
+  capacityHours: number;
+  draftHours: number;
+  pendingHours: number;
+  approvedHours: number;
+  rejectedHours: number;
+  approvalRequired: boolean;
+  pendingEntries: MappedTimeRegistration[];
+}
+
+// Approval queue of a manager across the resources they approve
+export interface MappedManagerApprovalSummary {
+  managerId: number;
+  startDate: string;
+  endDate: string;
+  resourceCount: number;
+  pendingHours: number;
+  approvedHours: number;
+  rejectedHours: number;
+  pendingEntryCount: number;
+  resources: MappedResourceApprovalHours[];
+}
+
+// Result of approving or rejecting a batch of time entries
+export interface MappedTimeEntryReview {
+  decision: 'approve' | 'reject';
+  reviewed: MappedTimeRegistration[];
+  skipped: Array<{
+    id: number;
+    reason: string;
+  }>;
+}
+
+// FollowUpTimeEntryChecklistVisualizationRequest response row
+export interface TimeEntryChecklistRow {
+  Id: number;
+  EmployeeId: number;
+  JobId: number;
+  Hours: number;
+  ProjektId: number;
+  CustomerTypeId: number;
+  DayTypeId: number;
+  AbsenceId: number | null;
+  EmployeeName?: unknown;         // Not used; shape is not documented
+}
+
+export interface MappedTimeEntryChecklistRow {
+  employeeId: number;
+  jobId: number;
+  projectId: number;
+  hours: number;
+  dayTypeId: number;
+  absenceId: number | null;
+  isAbsence: boolean;
+}
+
+// Timesheet completeness of one employee against capacity
+export interface MappedTimesheetStatus {
+  resourceId: number;
+  name: string;
+  email?: string;
+  managerId?: number;
+  capacityHours: number;
+  registeredHours: number;
+  absenceHours: number;
+  missingHours: number;
+  completionPercent: number;
+  isComplete: boolean;
+}
+
+// Missing-timesheet follow-up for a period
+export interface MappedTimesheetFollowUp {
+  startDate: string;
+  endDate: string;
+  employeeCount: number;
+  incompleteCount: number;
+  totalMissingHours: number;
+  incomplete: MappedTimesheetStatus[];
+  complete: MappedTimesheetStatus[];
+}
+
+// Per-day summary used for unsubmitted day reporting
+export interface MappedTimeEntryDay {
+  date: string;
+  hoursRegistered: number;
+  draftEntries: number;
+  submitted: boolean;
+}
+
+// Project plan task tree returned by the project-planning tool (camelCase)
+export interface MappedTaskTreeNode {
+  id: number;
+  taskNumber: number;
+  taskName: string;
+  startDate: string;
+  endDate: string;
+  workDays: number;
+  milestone: boolean;
+  closed: boolean;
+}
+
+export interface MappedTaskTreePhase {
+  phaseNumber: number;
+  taskCount: number;
+  openTaskCount: number;
+  startDate?: string;
+  endDate?: string;
+  tasks: MappedTaskTreeNode[];
+}
+
+export interface MappedTaskTree {
+  jobId: number;
+  planId?: number;
+  totalTasks: number;
+  phases: MappedTaskTreePhase[];
 }
\ No newline at end of file
@@ -124,4 +124,38 @@ export enum ProjectRetainerJobType {
   RETAINER = 2,
   MIXED = 3
 }
+/* eslint-enable no-unused-vars */
+
+// Time entry approval status enum - values as returned in ApprovalStatus on time entries
+/* eslint-disable no-unused-vars */
+export enum TimeEntryApprovalStatus {
+  DRAFT = 0,
+  SUBMITTED = 10,
+  REJECTED = 20,
+  APPROVED = 30
+}
+/* eslint-enable no-unused-vars */
+
+// Stride time type enum - block unit for the approval statistics visualization endpoints
+/* eslint-disable no-unused-vars */
+export enum StrideTimeType {
+  DAY = 1,
+  WEEK = 2,
+  MONTH = 3
+}
+/* eslint-enable no-unused-vars */
+
+// Follow-up reference type enum - what RaiseFollowUpNotificationRequest raises reminders for
+/* eslint-disable no-unused-vars */
+export enum FollowUpReferenceType {
+  TIME_ENTRY = 1
+}
+/* eslint-enable no-unused-vars */
+
+// Task status enum - values as returned in TaskStatus on plan tasks
+/* eslint-disable no-unused-vars */
+export enum TaskStatus {
+  OPEN = 1,
+  CLOSED = 2
+}
 /* eslint-enable no-unused-vars */
\ No newline at end of file
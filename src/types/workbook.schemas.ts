@@ -0,0 +1,67 @@
+/**
+ * Workbook API Response Schemas - Runtime counterparts of the resource interfaces in workbook.types.ts
+ * Typed against the interfaces so the two cannot drift apart; unknown fields are kept
+ */
+
+import { z } from 'zod';
+import { Resource, Contact } from './workbook.types.js';
+
+// ResourcesRequest / ResourceRequest response
+export const ResourceSchema: z.ZodType<Resource> = z.object({
+  Id: z.number(),
+  Name: z.string(),
+  Email: z.string(),
+  Initials: z.string(),
+  Active: z.boolean(),
+  Address1: z.string().optional(),
+  City: z.string().optional(),
+  PostCode: z.string().optional(),
+  Country: z.string().optional(),
+  Phone1: z.string().optional(),
+  CellPhone: z.string().optional(),
+  CreatedBy: z.string().optional(),
+  UpdatedBy: z.string().optional(),
+  CreateDate: z.string().optional(),
+  UpdateDate: z.string().optional(),
+  TypeId: z.number().optional(),
+  ResponsibleResourceId: z.number().optional(),
+  UserAccess: z.boolean().optional(),
+  UserAccountType: z.number().optional(),
+  UserLogin: z.string().optional(),
+  ApplicationAccessRoleId: z.number().optional(),
+  ResourceFolder: z.string().optional(),
+  ProjectName: z.string().optional(),
+  ResourceBookable: z.boolean().optional(),
+  UsedAsSupplier: z.boolean().optional(),
+  Anonymised: z.boolean().optional(),
+  ParentResourceId: z.number().optional()
+}).passthrough();
+
+// ContactsForResourceRequest / ContactRequest response
+export const ContactSchema: z.ZodType<Contact> = z.object({
+  Id: z.number(),
+  Name: z.string(),
+  Initials: z.string(),
+  Email: z.string().optional(),
+  Phone1: z.string().optional(),
+  CellPhone: z.string().optional(),
+  ParentResourceId: z.number(),
+  Active: z.boolean(),
+  AllowMail: z.boolean(),
+  AllowEmail: z.boolean(),
+  AllowBulkEmail: z.boolean(),
+  AllowPhone: z.boolean(),
+  AllowSendMarketing: z.boolean(),
+  AllowSms: z.boolean(),
+  ApplicationAccessRoleId: z.number().optional(),
+  CreateByResourceId: z.number().optional(),
+  CreateDate: z.string().optional(),
+  UpdateDate: z.string().optional(),
+  UpdatedByResourceId: z.number().optional(),
+  UserLogin: z.string().optional(),
+  InterfaceLCID: z.number().optional(),
+  ReportLCID: z.number().optional(),
+  ReleaseState: z.number().optional(),
+  DefaultActivityType: z.number().optional(),
+  Title: z.string().optional()
+}).passthrough();
\ No newline at end of file
@@ -4,6 +4,7 @@
 export * from './job.types.js';
 export * from './billing.types.js';
 export * from './analytics.types.js';
+export * from './client.types.js';
 
 // Resource interface matches actual API response from ResourcesRequest
 // Resources represent all people in Workbook (employees, clients, contacts)
@@ -27,6 +28,8 @@ export interface Resource {
   ResponsibleResourceId?: number;  // Who manages this resource
   UserAccess?: boolean;
   UserAccountType?: number;
+  UserLogin?: string;               // Workbook login of employees with user access
+  ApplicationAccessRoleId?: number; // Workbook access role of employees with user access
   ResourceFolder?: string;          // Company/Department
   ProjectName?: string;
   ResourceBookable?: boolean;
@@ -126,10 +129,94 @@ export interface ResourcePatchRequest {
 // Configuration Types
 export interface WorkbookConfig {
   apiKey: string;
-  baseUrl: string;
+  baseUrl: string;                   // Workbook hostname, or a full URL such as the local simulator's http://127.0.0.1:4010
   username?: string;
   password?: string;
   timeout?: number;
+  retry?: Partial<RetryConfig>;
+  circuitBreaker?: Partial<CircuitBreakerConfig>;
+  schemaValidation?: SchemaValidationMode;
+  traffic?: TrafficConfig;
+  tenantId?: string;                 // Tenant the client serves; scopes its cache entries and mirror storage
+}
+
+// Workbook instance serving one tenant (subsidiary) and the Teams tenants/teams routed to it
+export interface TenantProfile {
+  id: string;                        // Short stable id, used in cache keys and file names
+  name: string;
+  baseUrl: string;
+  username?: string;
+  apiKeySecret: string;              // Key Vault secret names
+  passwordSecret?: string;
+  teamsTenantIds?: string[];         // Azure AD tenant ids of the Teams organisations routed here
+  teamIds?: string[];                // Teams team ids routed here; a team match wins over a tenant match
+}
+
+// What a role may do beyond reading CRM, job and planning data
+export type Permission =
+  | 'resources.write'                // Bulk changes to resources
+  | 'jobs.write'                     // Create/change jobs, job teams and project plans
+  | 'time.write'                     // Register, edit and delete time entries
+  | 'time.approve'                   // Approve/reject time and raise timesheet follow-ups
+  | 'financials.read'                // Financial, billing and business analytics tools
+  | 'financials.margins'             // Margin and profit figures within them
+  | 'audit.read';                    // The audit log of writes made through the agent
+
+// Role of Teams users, matched on the Workbook employee they map to; the first matching role wins
+export interface RolePolicy {
+  name: string;
+  permissions: (Permission | '*')[]; // '*' grants every permission
+  accessRoleIds?: number[];          // Workbook access roles (ApplicationAccessRoleId) of the employee
+  departments?: string[];            // Employee ResourceFolder
+  emails?: string[];                 // Individual users by email or Workbook login
+}
+
+export interface RolePolicies {
+  roles: RolePolicy[];
+  employeeRole: string;              // Role of employees no role matches
+  unmatchedRole: string;             // Role of Teams users who map to no Workbook employee
+}
+
+// Teams user of the current turn and the Workbook employee they act as
+export interface UserIdentity {
+  aadObjectId?: string;
+  name?: string;
+  email?: string;                    // Teams email or user principal name
+  employee?: {
+    id: number;
+    name: string;
+    email?: string;
+    accessRoleId?: number;
+    department?: string;
+  };
+  role: string;
+  permissions: Permission[];
+}
+
+// How API responses that do not match their schema are handled:
+// lenient logs the drift and returns the data, strict fails the call, off skips validation
+export type SchemaValidationMode = 'lenient' | 'strict' | 'off';
+
+// Record-and-replay of API traffic for reproducing bugs
+export interface TrafficConfig {
+  mode: 'record' | 'replay';
+  path: string;                  // Directory recordings are written to, or the recording file to replay
+  redactNames?: boolean;         // Also pseudonymise names and initials (WORKBOOK_TRAFFIC_REDACT_NAMES, on unless 'false')
+}
+
+// Retries of idempotent Workbook API calls with jittered exponential backoff
+export interface RetryConfig {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  maxRetryAfterMs: number;      // Longer Retry-After values are not waited for
+  retryableStatusCodes: number[];
+}
+
+// Per-endpoint circuit breaker opened after consecutive transient failures
+export interface CircuitBreakerConfig {
+  failureThreshold: number;
+  resetTimeoutMs: number;        // Time an open circuit waits before letting a trial call through
 }
 
 // Cache Types
@@ -137,18 +224,61 @@ export interface CacheConfig {
   contactsTTL: number; // 5 minutes
   jobsTTL: number;     // 1 minute
   resourcesTTL: number; // 5 minutes
+  maxEntries?: number;                              // Entries kept overall before the least recently used are evicted
+  maxSizeBytes?: number;                            // Serialized size kept overall before eviction
+  namespaces?: Record<string, CacheNamespaceConfig>;
+}
+
+// Group of cache keys sharing a default TTL and entry limit, matched by key prefix
+export interface CacheNamespaceConfig {
+  prefixes: string[];
+  ttl?: number;                  // Seconds; used when set() is called without a TTL
+  maxEntries?: number;
 }
 
 // Error Types
+/* eslint-disable no-unused-vars */
+export enum ApiErrorKind {
+  ACCESS_DENIED = 'access_denied',
+  NOT_FOUND = 'not_found',
+  VALIDATION = 'validation',
+  TIMEOUT = 'timeout',
+  RATE_LIMITED = 'rate_limited',
+  UPSTREAM = 'upstream',       // Workbook 5xx, network failure or open circuit
+  PARSE = 'parse'
+}
+/* eslint-enable no-unused-vars */
+
 export class ApiError extends Error {
-  public readonly statusCode: number;
+  public readonly kind: ApiErrorKind;
+  public readonly statusCode: number;   // 0 when no HTTP response was received
+  public readonly endpoint: string;
+  public readonly detail?: string;      // Server message with markup removed
+  public readonly retryAfterMs?: number;
   public readonly response?: unknown;
 
-  constructor(message: string, statusCode: number, response?: unknown) {
+  constructor(kind: ApiErrorKind, message: string, options: {
+    statusCode: number;
+    endpoint: string;
+    detail?: string;
+    retryAfterMs?: number;
+    response?: unknown;
+  }) {
     super(message);
     this.name = 'ApiError';
-    this.statusCode = statusCode;
-    this.response = response;
+    this.kind = kind;
+    this.statusCode = options.statusCode;
+    this.endpoint = options.endpoint;
+    this.detail = options.detail;
+    this.retryAfterMs = options.retryAfterMs;
+    this.response = options.response;
+  }
+
+  /**
+   * Whether sending the same request later may succeed
+   */
+  get retryable(): boolean {
+    return [ApiErrorKind.TIMEOUT, ApiErrorKind.RATE_LIMITED, ApiErrorKind.UPSTREAM].includes(this.kind);
   }
 }
 
@@ -156,7 +286,9 @@ export interface ServiceResponse<T = unknown> {
   success: boolean;
   data?: T;
   error?: string;
+  apiError?: ApiError;               // Set when the failure came from the Workbook API itself
   cached?: boolean;
+  asOf?: string;                     // When the data was last synced from Workbook (ISO), for mirrored data
 }
 
 
@@ -0,0 +1,58 @@
+/**
+ * Error Guidance Utility
+ * Turns Workbook API failures into user-facing guidance for tool messages
+ * so Teams users never see raw status codes or HTML error pages
+ */
+
+import { ApiError, ApiErrorKind } from '../types/workbook.types.js';
+
+/**
+ * Describe a failed service response for the user
+ * @param response - Failed service response, optionally carrying the typed API error
+ * @param fallback - Text used when the response has no error at all
+ * @returns string - Guidance for API errors, otherwise the service error unchanged
+ */
+export function describeError(
+  response: { success: boolean; error?: string; apiError?: ApiError },
+  fallback = 'Unknown error'
+): string {
+  if (response.apiError) {
+    return describeApiError(response.apiError);
+  }
+  return response.error || fallback;
+}
+
+/**
+ * User-facing guidance for a typed Workbook API error
+ */
+export function describeApiError(error: ApiError): string {
+  switch (error.kind) {
+  case ApiErrorKind.ACCESS_DENIED:
+    return `🔒 The bot's Workbook user does not have access to this (${error.endpoint}). Ask a Workbook administrator to grant the permission.`;
+  case ApiErrorKind.NOT_FOUND:
+    return '🔍 Workbook could not find the requested record. Check the ID or name and try again.';
+  case ApiErrorKind.VALIDATION:
+    return `✏️ Workbook rejected the request${error.detail ? `: ${error.detail}` : ''}. Check the values and try again.`;
+  case ApiErrorKind.TIMEOUT:
+    return '⏱️ Workbook did not respond in time. Try again in a moment or narrow the request (e.g. a shorter period).';
+  case ApiErrorKind.RATE_LIMITED:
+    return `🚦 Workbook is limiting the number of requests. Try again in ${formatWait(error.retryAfterMs)}.`;
+  case ApiErrorKind.UPSTREAM:
+    return `🛠️ Workbook is temporarily unavailable${error.statusCode ? ` (HTTP ${error.statusCode})` : ''}. Try again in ${formatWait(error.retryAfterMs)}.`;
+  case ApiErrorKind.PARSE:
+    return '⚠️ Workbook returned a response the bot could not read. Try again, and report it if it keeps happening.';
+  default:
+    return error.message;
+  }
+}
+
+/**
+ * Human wait time from a Retry-After hint
+ */
+function formatWait(retryAfterMs?: number): string {
+  if (!retryAfterMs) {
+    return 'a few minutes';
+  }
+  const seconds = Math.ceil(retryAfterMs / 1000);
+  return seconds < 60 ? `${seconds} seconds` : `${Math.ceil(seconds / 60)} minutes`;
+}
\ No newline at end of file
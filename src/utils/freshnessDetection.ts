@@ -6,55 +6,44 @@
  * Critical fix for Teams bot serving stale statistical data
  */
 
-import { cacheManager } from '../services/base/cache.js';
+import { cacheManager, CacheTags } from '../services/base/cache.js';
+import { getCurrentTenantId } from '../services/tenants/tenantContext.js';
+import { getCurrentUserMessage } from '../services/identity/userContext.js';
 
 /**
- * Detects if a query requires fresh data and should bypass memory/cache
+ * Detects if a query explicitly asks for fresh data rather than whatever is cached
+ * Ordinary wording ("show", "list", "all") does not count: cached reads are kept current by
+ * tag invalidation on writes and stale-while-revalidate
  * @param query - User query text to analyze
  * @returns boolean - true if fresh data is required
  */
 export function requiresFreshData(query: string): boolean {
   if (!query) {return false;}
-  
-  const queryLower = query.toLowerCase();
-  
-  // Statistical/data query keywords that always need fresh data
-  const freshnessKeywords = [
-    'overview', 'statistics', 'database', 'stats', 'count', 'total', 
-    'how many', 'show me', 'give me', 'list', 'all', 'current', 'show',
-    'latest', 'recent', 'today', 'now', 'updated', 'fresh', 'new'
-  ];
-  
-  // Check for statistical keywords
-  const hasStatisticalKeywords = freshnessKeywords.some(keyword => 
-    queryLower.includes(keyword)
-  );
-  
-  // Check for data operation patterns
-  const dataOperationPatterns = [
-    /\b(how many|count|total|number of)\b/i,
-    /\b(show|give|list).*\b(all|me)\b/i,
-    /\b(database|system|data)\s+(overview|stats|statistics)\b/i,
-    /\b(current|latest|recent)\s+(data|information)\b/i
+
+  const freshnessPatterns = [
+    /\b(latest|fresh|freshest|refresh|reload|live)\b/i,
+    /\bup[\s-]to[\s-]date\b/i,
+    /\breal[\s-]?time\b/i,
+    /\b(right now|just (changed|updated))\b/i,
+    /\b(purge|clear|bypass)\s+(the\s+)?cache\b/i
   ];
-  
-  const hasDataOperationPattern = dataOperationPatterns.some(pattern => 
-    pattern.test(query)
-  );
-  
-  return hasStatisticalKeywords || hasDataOperationPattern;
+
+  return freshnessPatterns.some(pattern => pattern.test(query));
 }
 
 /**
- * Forces cache flush for tools when fresh data is required
- * @param query - User query text
+ * Invalidates the cached data a tool reads when the user's message of the turn, or the query the tool
+ * was given, asks for fresh data
+ * Only the current turn's tenant is affected
+ * @param query - Query text the tool was given (search terms, or a description of the call)
  * @param toolName - Name of the tool requesting freshness check
+ * @param tags - Cache tags the tool's data is stored under (resource and contact lists by default)
  */
-export function ensureFreshData(query: string, toolName: string): void {
-  if (requiresFreshData(query)) {
-    console.log(`[FRESHNESS DETECTION] Query "${query}" requires fresh data for ${toolName}`);
-    console.log('[AUTO CACHE PURGE] Flushing cache to ensure fresh data...');
-    cacheManager.flush();
+export function ensureFreshData(query: string, toolName: string, tags: string[] = [CacheTags.RESOURCE, CacheTags.CONTACT]): void {
+  const freshQuery = [getCurrentUserMessage(), query].find(text => text && requiresFreshData(text));
+  if (freshQuery) {
+    console.log(`[FRESHNESS DETECTION] Query "${freshQuery}" requires fresh data for ${toolName}`);
+    cacheManager.scope(getCurrentTenantId()).invalidateTags(tags);
   }
 }
 
@@ -66,4 +55,21 @@ export function ensureFreshData(query: string, toolName: string): void {
  */
 export function logFreshnessDecision(query: string, toolName: string, forced: boolean): void {
   console.log(`[FRESHNESS LOG] Tool: ${toolName}, Query: "${query}", Fresh: ${forced}`);
+}
+
+/**
+ * Describes where a tool's data came from, for the end of tool messages
+ * Mirrored data gets an as-of stamp so users can judge how current an answer is
+ * @param response - Service response the tool's data came from
+ * @returns string - " (as of 2026-10-19 14:05, 3 min ago)", " (cached)" or empty for live data
+ */
+export function formatFreshness(response: { cached?: boolean; asOf?: string }): string {
+  if (response.asOf) {
+    const asOf = new Date(response.asOf);
+    const minutes = Math.max(0, Math.round((Date.now() - asOf.getTime()) / 60000));
+    const age = minutes < 1 ? 'just now' : minutes < 120 ? `${minutes} min ago` : `${Math.round(minutes / 60)} h ago`;
+    const stamp = asOf.toLocaleString('sv-SE', { dateStyle: 'short', timeStyle: 'short' });
+    return ` (as of ${stamp}, ${age})`;
+  }
+  return response.cached ? ' (cached)' : '';
 }
\ No newline at end of file
@@ -0,0 +1,23 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { WorkbookSimulator } from '../src/simulator/workbookSimulator.js';
+import { WorkbookClient } from '../src/services/workbookClient.js';
+import { createEnhancedExportTool } from '../src/agent/tools/enhancedExportTool.js';
+
+test('an export survives one transient 502 on ResourceIdsRequest', async () => {
+  const simulator = new WorkbookSimulator({ faults: [{ endpoint: 'ResourceIdsRequest', status: 502, times: 1 }] });
+  const url = await simulator.start();
+  try {
+    const client = WorkbookClient.forSimulator(url, 'retry-test');
+    const exportTool = createEnhancedExportTool(client) as unknown as {
+      execute: (input: { context: Record<string, unknown> }) => Promise<{ success: boolean; message: string }>;
+    };
+
+    const result = await exportTool.execute({ context: { format: 'statistics', exportType: 'all' } });
+
+    assert.equal(result.success, true, result.message);
+    assert.deepEqual(simulator.getRequestLog('ResourceIdsRequest').map(entry => entry.statusCode), [502, 200]);
+  } finally {
+    await simulator.stop();
+  }
+});
@@ -0,0 +1,36 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { endpointHandlers } from '../src/simulator/handlers.js';
+
+const SERVICES_DIR = path.resolve('src/services');
+
+/**
+ * Endpoint names quoted in the service sources, without the [] batch suffix or a query string
+ */
+function findServiceEndpoints(dir: string): Set<string> {
+  const endpoints = new Set<string>();
+  fs.readdirSync(dir, { withFileTypes: true }).forEach(entry => {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (entry.name !== '_deprecated') {
+        findServiceEndpoints(fullPath).forEach(endpoint => endpoints.add(endpoint));
+      }
+    } else if (entry.name.endsWith('.ts')) {
+      const source = fs.readFileSync(fullPath, 'utf8');
+      for (const match of source.matchAll(/['`]([A-Z][A-Za-z]+Request)(?:\[\])?[?'`]/g)) {
+        endpoints.add(match[1]);
+      }
+    }
+  });
+  return endpoints;
+}
+
+test('the simulator serves every endpoint the services call', () => {
+  const unserved = Array.from(findServiceEndpoints(SERVICES_DIR))
+    .filter(endpoint => !endpointHandlers[endpoint])
+    .sort();
+
+  assert.deepEqual(unserved, [], `Endpoints without a simulator handler: ${unserved.join(', ')}`);
+});
\ No newline at end of file